@@ -0,0 +1,63 @@
+// Insights Plus - Background Service Worker
+// Upgrades stored settings to the current storage schema on install/update, and
+// mirrors settings between chrome.storage.local and chrome.storage.sync when
+// sync is turned on from the options page.
+
+import { defineBackground } from 'wxt/utils/define-background';
+import {
+  isSyncedKey,
+  pullSyncChanges,
+  pushLocalChanges,
+  syncAll,
+  SYNC_KEY_PREFIX,
+} from './content/shared/settings-sync';
+import { runStorageMigrations } from './content/shared/storage-migrations';
+
+// Batch local edits (e.g. typing in a settings field) into one sync write;
+// chrome.storage.sync allows only 120 writes per minute
+const PUSH_DEBOUNCE_MS = 2000;
+
+export default defineBackground(() => {
+  let pendingChanges: Record<string, unknown> = {};
+  let pushTimer: ReturnType<typeof setTimeout> | null = null;
+  // Run sync steps one at a time so they don't overwrite each other's sync state
+  let queue: Promise<void> = Promise.resolve();
+
+  function enqueue(task: () => Promise<void>): void {
+    queue = queue.then(task).catch((error) => {
+      console.error('Settings sync failed:', error);
+    });
+  }
+
+  chrome.runtime.onStartup.addListener(() => enqueue(syncAll));
+  chrome.runtime.onInstalled.addListener(() => enqueue(async () => {
+    // Migrate first so the upgraded layout is what gets synced
+    await runStorageMigrations();
+    await syncAll();
+  }));
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'sync') {
+      if (Object.keys(changes).some(key => key.startsWith(SYNC_KEY_PREFIX))) {
+        enqueue(pullSyncChanges);
+      }
+      return;
+    }
+
+    if (areaName !== 'local') return;
+
+    const synced = Object.entries(changes).filter(([key]) => isSyncedKey(key));
+    if (synced.length === 0) return;
+
+    for (const [key, change] of synced) {
+      pendingChanges[key] = change.newValue;
+    }
+    if (pushTimer) clearTimeout(pushTimer);
+    pushTimer = setTimeout(() => {
+      pushTimer = null;
+      const changesToPush = pendingChanges;
+      pendingChanges = {};
+      enqueue(() => pushLocalChanges(changesToPush));
+    }, PUSH_DEBOUNCE_MS);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   detectChartType,
+  detectValueUnit,
   extractFromColumnChart,
   extractFromSVG,
   extractDateRangeFromLabels,
@@ -269,6 +270,45 @@ describe('svg-extractor', () => {
     });
   });
 
+  describe('detectValueUnit', () => {
+    function createSVGWithAxisTitle(title: string | null): SVGSVGElement {
+      const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+      if (title !== null) {
+        const axis = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+        axis.classList.add('highcharts-yaxis');
+        const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+        text.classList.add('highcharts-axis-title');
+        text.textContent = title;
+        axis.appendChild(text);
+        svg.appendChild(axis);
+      }
+      return svg;
+    }
+
+    it('detects item counts from the Y axis title', () => {
+      expect(detectValueUnit(createSVGWithAxisTitle('Count of items'))).toEqual({ kind: 'count', fieldName: null });
+    });
+
+    it('detects summed number fields with their name', () => {
+      expect(detectValueUnit(createSVGWithAxisTitle('Sum of Story Points'))).toEqual({ kind: 'sum', fieldName: 'Story Points' });
+      expect(detectValueUnit(createSVGWithAxisTitle('Estimate の合計'))).toEqual({ kind: 'sum', fieldName: 'Estimate' });
+    });
+
+    it('falls back to the legend when there is no axis title', () => {
+      const svg = createSVGWithAxisTitle(null);
+      const legend = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+      legend.classList.add('highcharts-legend-item');
+      legend.textContent = 'Count';
+      svg.appendChild(legend);
+
+      expect(detectValueUnit(svg)).toEqual({ kind: 'count', fieldName: null });
+    });
+
+    it('treats unlabeled charts as a sum of an unknown field', () => {
+      expect(detectValueUnit(createSVGWithAxisTitle(null))).toEqual({ kind: 'sum', fieldName: null });
+    });
+  });
+
   describe('date range extraction', () => {
     it('extracts date range from x-axis labels (English format)', () => {
       const svg = createBurnupChartSVG({
@@ -35,6 +35,11 @@ interface SeriesData {
   lastPixel: PixelPoint | null;
 }
 
+interface ValueUnit {
+  kind: 'count' | 'sum';
+  fieldName: string | null;
+}
+
 interface PointMarkerValues {
   open: number | null;
   completed: number | null;
@@ -58,6 +63,7 @@ export interface BurnupChartResult {
   completedStartPixel: PixelPoint | null;
   completedLastPixel: PixelPoint | null;
   dateRange: DateRange | null;
+  valueUnit: ValueUnit;
   chartInfo: {
     plotBox: PlotBox;
     axes: { xMin: number; xMax: number; yMin: number; yMax: number };
@@ -100,6 +106,30 @@ export function detectChartType(svg: Element): 'burnup' | 'velocity' | 'unknown'
   return 'unknown';
 }
 
+/**
+ * Detect whether the Y axis counts items or sums a number field.
+ * Reads the Y axis title ("Count of items", "Sum of Estimate"), falling back to the legend.
+ * Charts without either are treated as a sum of an unknown field.
+ */
+export function detectValueUnit(svg: Element): ValueUnit {
+  const texts = [
+    ...Array.from(svg.querySelectorAll('.highcharts-yaxis .highcharts-axis-title')),
+    ...Array.from(svg.querySelectorAll('.highcharts-legend-item')),
+  ].map(el => (el.textContent || '').trim()).filter(Boolean);
+
+  for (const text of texts) {
+    const sumMatch = text.match(/^sum of\s+(.+)$/i) || text.match(/^(.+?)\s*の合計$/);
+    if (sumMatch) {
+      return { kind: 'sum', fieldName: (sumMatch[1] ?? '').trim() };
+    }
+    if (/^count\b/i.test(text) || /(件数|アイテム数)/.test(text)) {
+      return { kind: 'count', fieldName: null };
+    }
+  }
+
+  return { kind: 'sum', fieldName: null };
+}
+
 export function extractFromColumnChart(svg: Element): VelocityChartResult | null {
   const plotBackground = svg.querySelector('.highcharts-plot-background');
   if (!plotBackground) {
@@ -349,6 +379,7 @@ export function extractFromSVG(): ChartDataResult {
     completedStartPixel,
     completedLastPixel,
     dateRange: finalDateRange,
+    valueUnit: detectValueUnit(svg),
     chartInfo: {
       plotBox,
       axes: {
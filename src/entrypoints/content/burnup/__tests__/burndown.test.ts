@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { calculateBurndown, calculateRemainingSeries } from '../burndown';
+import type { BurnupChartData, Prediction, Velocity } from '../types';
+
+describe('burndown', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 11));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('calculateRemainingSeries', () => {
+    it('subtracts completed from the open scope at each point', () => {
+      const result = calculateRemainingSeries(
+        [
+          { date: new Date(2024, 0, 1), value: 0 },
+          { date: new Date(2024, 0, 3), value: 20 },
+          { date: new Date(2024, 0, 5), value: 30 },
+        ],
+        [
+          { date: new Date(2024, 0, 1), value: 100 },
+          { date: new Date(2024, 0, 4), value: 110 },
+        ],
+        110
+      );
+
+      expect(result.map(p => p.value)).toEqual([100, 80, 90, 80]);
+      expect(result[2]!.date).toEqual(new Date(2024, 0, 4));
+    });
+
+    it('uses the current total without an Open series', () => {
+      const result = calculateRemainingSeries(
+        [{ date: new Date(2024, 0, 1), value: 10 }, { date: new Date(2024, 0, 2), value: 40 }],
+        undefined,
+        50
+      );
+
+      expect(result.map(p => p.value)).toEqual([40, 10]);
+    });
+
+    it('returns an empty series without completed data', () => {
+      expect(calculateRemainingSeries([], [{ date: new Date(2024, 0, 1), value: 100 }], 100)).toEqual([]);
+    });
+  });
+
+  describe('calculateBurndown', () => {
+    const data: BurnupChartData = {
+      chartType: 'burnup',
+      completed: 40,
+      total: 100,
+      completedData: [
+        { date: new Date(2024, 0, 1), value: 0 },
+        { date: new Date(2024, 0, 11), value: 40 },
+      ],
+    };
+    const velocity: Velocity = { current: 4, startDate: new Date(2024, 0, 1), startValue: 0 };
+    const prediction: Prediction = {
+      completionDate: new Date(2024, 0, 26),
+      dueDate: new Date(2024, 0, 21),
+      idealVelocity: 6,
+      isOnTrack: false,
+      daysAhead: -5,
+    };
+
+    it('places the ideal line between the start and zero on the due date', () => {
+      const result = calculateBurndown(data, velocity, prediction);
+
+      expect(result.remaining).toBe(60);
+      expect(result.startRemaining).toBe(100);
+      expect(result.idealRemaining).toBeCloseTo(50);
+      expect(result.zeroDate).toEqual(prediction.completionDate);
+    });
+
+    it('has no ideal remaining without a due date', () => {
+      const result = calculateBurndown(data, velocity, { ...prediction, dueDate: null });
+
+      expect(result.idealRemaining).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildBurnupExport, toBurnupCsv, getExportFileName } from '../export';
+import type { BurnupChartData, Prediction, Velocity } from '../types';
+
+describe('export', () => {
+  const data: BurnupChartData = {
+    chartType: 'burnup',
+    completed: 30,
+    total: 100,
+    completedData: [
+      { date: new Date(2024, 0, 10), value: 10 },
+      { date: new Date(2024, 0, 11, 9), value: 15 },
+      { date: new Date(2024, 0, 11, 18), value: 20 },
+      { date: new Date(2024, 0, 12), value: 30 },
+    ],
+    openData: [
+      { date: new Date(2024, 0, 9), value: 90 },
+      { date: new Date(2024, 0, 12), value: 100 },
+    ],
+  };
+  const velocity: Velocity = {
+    current: 10,
+    periodStartDate: new Date(2024, 0, 10),
+    periodEndDate: new Date(2024, 0, 12),
+    periodStartValue: 10,
+    periodEndValue: 30,
+    startDate: new Date(2024, 0, 1),
+    startValue: 0,
+  };
+  const prediction: Prediction = {
+    completionDate: new Date(2024, 0, 19),
+    dueDate: new Date(2024, 0, 31),
+    idealVelocity: 4.5,
+    isOnTrack: true,
+    daysAhead: 12,
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 15, 10));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('buildBurnupExport', () => {
+    it('merges the series into one row per day', () => {
+      const result = buildBurnupExport(data, velocity, prediction, { velocityModel: 'endpoint', lookbackDays: 21 });
+
+      expect(result.series).toEqual([
+        { date: '2024-01-09', completed: null, open: 90 },
+        { date: '2024-01-10', completed: 10, open: null },
+        { date: '2024-01-11', completed: 20, open: null },
+        { date: '2024-01-12', completed: 30, open: 100 },
+      ]);
+    });
+
+    it('includes the velocity and prediction', () => {
+      const result = buildBurnupExport(data, velocity, prediction, { velocityModel: 'regression', lookbackDays: 14 });
+
+      expect(result.remaining).toBe(70);
+      expect(result.velocity).toEqual({
+        model: 'regression',
+        lookbackDays: 14,
+        current: 10,
+        ideal: 4.5,
+        periodStartDate: '2024-01-10',
+        periodEndDate: '2024-01-12',
+        periodStartValue: 10,
+        periodEndValue: 30,
+      });
+      expect(result.prediction).toEqual({
+        completionDate: '2024-01-19',
+        dueDate: '2024-01-31',
+        isOnTrack: true,
+        daysAhead: 12,
+      });
+    });
+
+    it('records the unit of the chart values', () => {
+      const countData: BurnupChartData = { ...data, valueUnit: { kind: 'count', fieldName: null } };
+
+      expect(buildBurnupExport(data, velocity, prediction, { velocityModel: 'endpoint', lookbackDays: 21 }).unit).toBe('sum');
+      expect(buildBurnupExport(countData, velocity, prediction, { velocityModel: 'endpoint', lookbackDays: 21 }).unit).toBe('count');
+    });
+  });
+
+  describe('toBurnupCsv', () => {
+    it('writes metrics followed by the daily series', () => {
+      const exportData = buildBurnupExport(data, velocity, prediction, { velocityModel: 'endpoint', lookbackDays: 21 });
+
+      const lines = toBurnupCsv(exportData).split('\n');
+
+      expect(lines[0]).toBe('Metric,Value');
+      expect(lines).toContain('Predicted end date,2024-01-19');
+      expect(lines).toContain('On track,true');
+      const seriesStart = lines.indexOf('Date,Completed,Open');
+      expect(lines[seriesStart - 1]).toBe('');
+      expect(lines.slice(seriesStart + 1, seriesStart + 3)).toEqual(['2024-01-09,,90', '2024-01-10,10,']);
+    });
+
+    it('quotes values containing commas or quotes', () => {
+      const exportData = buildBurnupExport(data, velocity, prediction, { velocityModel: 'endpoint', lookbackDays: 21 });
+      exportData.url = 'https://example.com/?a="1",b';
+
+      expect(toBurnupCsv(exportData)).toContain('URL,"https://example.com/?a=""1"",b"');
+    });
+  });
+
+  describe('getExportFileName', () => {
+    it('includes the insight context and today', () => {
+      expect(getExportFileName('csv', 'https://github.com/orgs/myorg/projects/123/insights/456'))
+        .toBe('burnup-orgs-myorg-123-456-2024-01-15.csv');
+    });
+
+    it('falls back to a generic name outside insights', () => {
+      expect(getExportFileName('json', 'https://example.com/')).toBe('burnup-2024-01-15.json');
+    });
+  });
+});
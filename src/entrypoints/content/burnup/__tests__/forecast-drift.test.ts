@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderForecastDrift } from '../forecast-drift';
+import type { PredictionSnapshot } from '../types';
+
+describe('forecast-drift', () => {
+  const snapshot = (date: string, completionDate: string | null): PredictionSnapshot => ({
+    date,
+    completionDate,
+    velocity: 2,
+    total: 100,
+    completed: 50,
+  });
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="burnup-forecast-drift"></div>';
+  });
+
+  describe('renderForecastDrift', () => {
+    it('shows a collecting message with fewer than two predictions', () => {
+      renderForecastDrift([snapshot('2024-01-14', '2024-02-01'), snapshot('2024-01-15', null)], null);
+
+      const container = document.getElementById('burnup-forecast-drift')!;
+      expect(container.querySelector('svg')).toBeNull();
+      expect(container.querySelector('.burnup-predictor-drift-empty')?.textContent).toContain('1 so far');
+    });
+
+    it('plots one point per snapshot with a predicted date', () => {
+      renderForecastDrift([
+        snapshot('2024-01-10', '2024-02-01'),
+        snapshot('2024-01-11', null),
+        snapshot('2024-01-12', '2024-02-03'),
+        snapshot('2024-01-13', '2024-02-06'),
+      ], null);
+
+      const container = document.getElementById('burnup-forecast-drift')!;
+      expect(container.querySelectorAll('.burnup-predictor-drift-point')).toHaveLength(3);
+      expect(container.querySelector('.burnup-predictor-drift-line')).not.toBeNull();
+      expect(container.querySelector('.burnup-predictor-drift-due')).toBeNull();
+    });
+
+    it('summarizes slipping forecasts as danger', () => {
+      renderForecastDrift([
+        snapshot('2024-01-10', '2024-02-01'),
+        snapshot('2024-01-13', '2024-02-06'),
+      ], null);
+
+      const summary = document.querySelector('.burnup-predictor-drift-summary')!;
+      expect(summary.textContent).toContain('+5 days since 2024-01-10');
+      expect(summary.classList.contains('danger')).toBe(true);
+    });
+
+    it('summarizes improving forecasts as success', () => {
+      renderForecastDrift([
+        snapshot('2024-01-10', '2024-02-06'),
+        snapshot('2024-01-13', '2024-02-04'),
+      ], null);
+
+      const summary = document.querySelector('.burnup-predictor-drift-summary')!;
+      expect(summary.textContent).toContain('-2 days');
+      expect(summary.classList.contains('success')).toBe(true);
+    });
+
+    it('draws the due date as a reference line', () => {
+      renderForecastDrift([
+        snapshot('2024-01-10', '2024-02-01'),
+        snapshot('2024-01-13', '2024-02-06'),
+      ], new Date(2024, 1, 10));
+
+      expect(document.querySelector('.burnup-predictor-drift-due')).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getDailyThroughput, getForecastCacheKey, runMonteCarloForecast } from '../monte-carlo';
+import type { DataPoint } from '../types';
+
+describe('monte-carlo', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T12:00:00'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getDailyThroughput', () => {
+    it('returns empty array for empty data', () => {
+      expect(getDailyThroughput([], 21)).toEqual([]);
+    });
+
+    it('returns one sample per day within the lookback window', () => {
+      const completedData: DataPoint[] = [
+        { date: new Date('2024-01-10T00:00:00'), value: 10 },
+        { date: new Date('2024-01-11T00:00:00'), value: 13 },
+        { date: new Date('2024-01-12T00:00:00'), value: 13 },
+        { date: new Date('2024-01-13T00:00:00'), value: 18 },
+      ];
+
+      expect(getDailyThroughput(completedData, 21)).toEqual([3, 0, 5]);
+    });
+
+    it('spreads multi-day segments evenly across the days they cover', () => {
+      const completedData: DataPoint[] = [
+        { date: new Date('2024-01-10T00:00:00'), value: 0 },
+        { date: new Date('2024-01-14T00:00:00'), value: 8 },
+      ];
+
+      expect(getDailyThroughput(completedData, 21)).toEqual([2, 2, 2, 2]);
+    });
+
+    it('uses the point before the window as the baseline', () => {
+      const completedData: DataPoint[] = [
+        { date: new Date('2024-01-01T00:00:00'), value: 0 },
+        { date: new Date('2024-01-12T00:00:00'), value: 11 },
+        { date: new Date('2024-01-13T00:00:00'), value: 14 },
+      ];
+
+      const samples = getDailyThroughput(completedData, 5);
+
+      // Only the last 5 days are kept: 1/day from the long segment, then 3
+      expect(samples).toEqual([1, 1, 1, 1, 3]);
+    });
+
+    it('treats negative progress as zero throughput', () => {
+      const completedData: DataPoint[] = [
+        { date: new Date('2024-01-12T00:00:00'), value: 10 },
+        { date: new Date('2024-01-13T00:00:00'), value: 7 },
+      ];
+
+      expect(getDailyThroughput(completedData, 21)).toEqual([0]);
+    });
+
+    it('only samples working days with a working calendar', () => {
+      // 2024-01-12 is a Friday; the segment covers Fri, Sat and Sun
+      const completedData: DataPoint[] = [
+        { date: new Date('2024-01-11T00:00:00'), value: 0 },
+        { date: new Date('2024-01-12T00:00:00'), value: 2 },
+        { date: new Date('2024-01-15T00:00:00'), value: 8 },
+      ];
+      const calendar = { nonWorkingWeekdays: [0, 6], holidays: [] };
+
+      expect(getDailyThroughput(completedData, 21, calendar)).toEqual([2, 6]);
+    });
+
+    it('ignores future points', () => {
+      const completedData: DataPoint[] = [
+        { date: new Date('2024-01-13T00:00:00'), value: 10 },
+        { date: new Date('2024-01-14T00:00:00'), value: 12 },
+        { date: new Date('2024-01-20T00:00:00'), value: 40 },
+      ];
+
+      expect(getDailyThroughput(completedData, 21)).toEqual([2]);
+    });
+  });
+
+  describe('runMonteCarloForecast', () => {
+    const today = new Date('2024-01-15T12:00:00');
+    const daysFromToday = (days: number) => new Date(today.getTime() + days * 24 * 60 * 60 * 1000);
+
+    it('returns today for all percentiles when nothing remains', () => {
+      const result = runMonteCarloForecast(0, [1, 2], { today });
+
+      expect(result.p50).toEqual(today);
+      expect(result.p85).toEqual(today);
+      expect(result.p95).toEqual(today);
+    });
+
+    it('returns null dates when there is no throughput', () => {
+      const result = runMonteCarloForecast(10, [0, 0, 0], { today });
+
+      expect(result.p50).toBeNull();
+      expect(result.p85).toBeNull();
+      expect(result.p95).toBeNull();
+      expect(result.sampleDays).toBe(3);
+    });
+
+    it('returns null dates when there are no samples', () => {
+      const result = runMonteCarloForecast(10, [], { today });
+
+      expect(result.p50).toBeNull();
+    });
+
+    it('is deterministic with constant throughput', () => {
+      const result = runMonteCarloForecast(10, [2, 2, 2], { today, trials: 100 });
+
+      expect(result.p50).toEqual(daysFromToday(5));
+      expect(result.p85).toEqual(daysFromToday(5));
+      expect(result.p95).toEqual(daysFromToday(5));
+      expect(result.trials).toBe(100);
+    });
+
+    it('orders percentiles from earliest to latest', () => {
+      // Deterministic pseudo-random sequence
+      let seed = 42;
+      const random = () => {
+        seed = (seed * 16807) % 2147483647;
+        return (seed - 1) / 2147483646;
+      };
+
+      const result = runMonteCarloForecast(30, [0, 1, 2, 5, 8], { today, trials: 2000, random });
+
+      expect(result.p50).not.toBeNull();
+      expect(result.p85).not.toBeNull();
+      expect(result.p95).not.toBeNull();
+      expect(result.p50!.getTime()).toBeLessThanOrEqual(result.p85!.getTime());
+      expect(result.p85!.getTime()).toBeLessThanOrEqual(result.p95!.getTime());
+      // Mean throughput is 3.2/day, so the median run takes roughly 10 days
+      expect(result.p50!.getTime()).toBeGreaterThan(daysFromToday(6).getTime());
+      expect(result.p50!.getTime()).toBeLessThan(daysFromToday(14).getTime());
+    });
+
+    it('counts simulated days as working days with a working calendar', () => {
+      const friday = new Date(2024, 0, 12, 12);
+      const calendar = { nonWorkingWeekdays: [0, 6], holidays: [] };
+
+      const result = runMonteCarloForecast(4, [2], { today: friday, trials: 10, calendar });
+
+      // Friday noon + 2 working days -> Tuesday noon
+      expect(result.p50).toEqual(new Date(2024, 0, 16, 12));
+    });
+
+    it('picks the slowest sample when random always returns the lowest index', () => {
+      const result = runMonteCarloForecast(3, [1, 3], { today, trials: 10, random: () => 0 });
+
+      expect(result.p50).toEqual(daysFromToday(3));
+    });
+
+    it('stops without simulating when the work cannot finish within the horizon', () => {
+      const random = vi.fn(() => 0.5);
+
+      const result = runMonteCarloForecast(100000, [0, 1], { today, trials: 50, random });
+
+      expect(result.p50).toBeNull();
+      expect(result.trials).toBe(50);
+      expect(random).not.toHaveBeenCalled();
+    });
+
+    it('runs fewer trials when slow throughput would block the page', () => {
+      // Every trial takes 2000 days, so the simulated-day budget allows 500 of them
+      const result = runMonteCarloForecast(2000, [1], { today });
+
+      expect(result.trials).toBe(500);
+      expect(result.p50).toEqual(daysFromToday(2000));
+    });
+  });
+
+  describe('getForecastCacheKey', () => {
+    const calendar = { nonWorkingWeekdays: [0, 6], holidays: [] };
+
+    it('stays the same for the same inputs on the same day', () => {
+      const key = getForecastCacheKey(10, [1, 2, 0], calendar);
+      vi.setSystemTime(new Date('2024-01-15T18:00:00'));
+      expect(getForecastCacheKey(10, [1, 2, 0], { nonWorkingWeekdays: [0, 6], holidays: [] })).toBe(key);
+    });
+
+    it('changes with the remaining work, samples, calendar or day', () => {
+      const key = getForecastCacheKey(10, [1, 2, 0], calendar);
+      expect(getForecastCacheKey(11, [1, 2, 0], calendar)).not.toBe(key);
+      expect(getForecastCacheKey(10, [1, 2, 1], calendar)).not.toBe(key);
+      expect(getForecastCacheKey(10, [1, 2, 0], null)).not.toBe(key);
+      expect(getForecastCacheKey(10, [1, 2, 0], calendar, new Date('2024-01-16T09:00:00'))).not.toBe(key);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { calculatePrediction } from '../prediction-calculator';
+import { calculatePrediction, calculateMilestonePredictions } from '../prediction-calculator';
 import type { BurnupChartData } from '../types';
 
 describe('prediction-calculator', () => {
@@ -187,5 +187,68 @@ describe('prediction-calculator', () => {
       expect(result.daysAhead).toBeGreaterThan(0);
       expect(result.isOnTrack).toBe(true);
     });
+
+    it('skips non-working days with a working calendar', () => {
+      vi.setSystemTime(new Date(2024, 0, 12)); // Friday
+      const data: BurnupChartData = {
+        chartType: 'burnup',
+        completed: 90,
+        total: 100,
+        completedData: [],
+      };
+      const calendar = { nonWorkingWeekdays: [0, 6], holidays: ['2024-01-16'] };
+      const dueDate = new Date(2024, 0, 22); // Monday, 5 working days away
+
+      const result = calculatePrediction(data, 5, dueDate, calendar);
+
+      // 2 working days: Friday and Monday (Tuesday is a holiday)
+      expect(result.completionDate).toEqual(new Date(2024, 0, 16));
+      // Friday, Monday, Wednesday, Thursday, Friday
+      expect(result.idealVelocity).toBeCloseTo(2, 5);
+    });
+  });
+
+  describe('calculateMilestonePredictions', () => {
+    const data: BurnupChartData = {
+      chartType: 'burnup',
+      completed: 50,
+      total: 100,
+      completedData: [],
+    };
+
+    it('predicts each milestone against its own scope and date', () => {
+      const result = calculateMilestonePredictions(data, 5, [
+        { name: 'Beta', date: '2024-01-20', scope: 70 },
+        { name: 'GA', date: '2024-01-20', scope: null },
+      ]);
+
+      // Beta: 20 remaining at 5/day -> 4 days, due in 5 days
+      expect(result[0]!.milestone.name).toBe('Beta');
+      expect(result[0]!.prediction.isOnTrack).toBe(true);
+      expect(result[0]!.prediction.dueDate).toEqual(new Date(2024, 0, 20));
+      // GA: 50 remaining at 5/day -> 10 days, due in 5 days
+      expect(result[1]!.prediction.isOnTrack).toBe(false);
+    });
+
+    it('treats milestones with scope already reached as done', () => {
+      const result = calculateMilestonePredictions(data, 5, [
+        { name: 'Alpha', date: '2024-01-20', scope: 40 },
+      ]);
+
+      expect(result[0]!.prediction.completionDate).toEqual(new Date());
+      expect(result[0]!.prediction.isOnTrack).toBe(true);
+    });
+
+    it('uses the current total for milestones without a scope', () => {
+      const result = calculateMilestonePredictions(data, 5, [
+        { name: 'GA', date: '2024-01-30' },
+      ]);
+
+      // 50 remaining at 5/day -> 10 days, due in 15 days
+      expect(result[0]!.prediction.isOnTrack).toBe(true);
+      expect(result[0]!.prediction.completionDate).toEqual(calculateMilestonePredictions(data, 5, [
+        { name: 'GA', date: '2024-01-30', scope: null },
+      ])[0]!.prediction.completionDate);
+    });
   });
 });
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createPredictionSnapshot, upsertSnapshot, recordPredictionSnapshot } from '../prediction-history';
+import type { PredictionSnapshot } from '../types';
+
+describe('prediction-history', () => {
+  const snapshot = (date: string, completionDate: string | null = '2024-02-01'): PredictionSnapshot => ({
+    date,
+    completionDate,
+    velocity: 2,
+    total: 100,
+    completed: 50,
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 15, 10));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createPredictionSnapshot', () => {
+    it('stores dates as local YYYY-MM-DD keys', () => {
+      const result = createPredictionSnapshot(new Date(2024, 1, 3, 18), 2.5, 100, 40);
+
+      expect(result).toEqual({
+        date: '2024-01-15',
+        completionDate: '2024-02-03',
+        velocity: 2.5,
+        total: 100,
+        completed: 40,
+        unit: 'sum',
+        velocityModel: 'endpoint',
+      });
+    });
+
+    it('records the unit of the chart values', () => {
+      expect(createPredictionSnapshot(null, null, 12, 4, 'count').unit).toBe('count');
+    });
+
+    it('records the velocity model', () => {
+      expect(createPredictionSnapshot(null, 1.5, 12, 4, 'sum', 'ewma').velocityModel).toBe('ewma');
+    });
+
+    it('keeps a null completion date', () => {
+      expect(createPredictionSnapshot(null, null, 100, 40).completionDate).toBeNull();
+    });
+  });
+
+  describe('upsertSnapshot', () => {
+    it('replaces the snapshot of the same day', () => {
+      const history = [snapshot('2024-01-14'), snapshot('2024-01-15', '2024-02-01')];
+
+      const result = upsertSnapshot(history, snapshot('2024-01-15', '2024-02-05'));
+
+      expect(result).toHaveLength(2);
+      expect(result[1]!.completionDate).toBe('2024-02-05');
+    });
+
+    it('keeps snapshots sorted by date', () => {
+      const result = upsertSnapshot([snapshot('2024-01-15')], snapshot('2024-01-10'));
+
+      expect(result.map(s => s.date)).toEqual(['2024-01-10', '2024-01-15']);
+    });
+
+    it('keeps snapshots of both units on the same day', () => {
+      const result = upsertSnapshot([snapshot('2024-01-15')], { ...snapshot('2024-01-15'), unit: 'count' });
+
+      expect(result).toHaveLength(2);
+      expect(result.map(s => s.unit)).toEqual([undefined, 'count']);
+    });
+
+    it('keeps snapshots of each velocity model on the same day', () => {
+      const history = [snapshot('2024-01-15'), { ...snapshot('2024-01-15'), velocityModel: 'regression' as const }];
+
+      const result = upsertSnapshot(history, { ...snapshot('2024-01-15', '2024-02-09'), velocityModel: 'endpoint' });
+
+      expect(result).toHaveLength(2);
+      expect(result.map(s => [s.velocityModel, s.completionDate])).toEqual([
+        ['regression', '2024-02-01'],
+        ['endpoint', '2024-02-09'],
+      ]);
+    });
+
+    it('drops the oldest snapshots beyond a year', () => {
+      const history = Array.from({ length: 365 }, (_, i) => {
+        const date = new Date(2023, 0, 1 + i);
+        const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+        return snapshot(key);
+      });
+
+      const result = upsertSnapshot(history, snapshot('2024-01-15'));
+
+      expect(result).toHaveLength(365);
+      expect(result[0]!.date).toBe('2023-01-02');
+      expect(result[364]!.date).toBe('2024-01-15');
+    });
+
+    it('trims each unit separately', () => {
+      const history = Array.from({ length: 365 }, (_, i) => {
+        const date = new Date(2023, 0, 1 + i);
+        const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+        return snapshot(key);
+      });
+      const countSnapshot: PredictionSnapshot = { ...snapshot('2023-01-01'), unit: 'count' };
+
+      const result = upsertSnapshot([countSnapshot, ...history], snapshot('2024-01-15'));
+
+      expect(result).toHaveLength(366);
+      expect(result).toContain(countSnapshot);
+    });
+  });
+
+  describe('recordPredictionSnapshot', () => {
+    it('stores the history under the insight storage key', async () => {
+      const storage: Record<string, unknown> = {
+        'burnup-predictionHistory:orgs:myorg:123:456': [snapshot('2024-01-14')],
+      };
+      (global as any).chrome = {
+        storage: {
+          local: {
+            get: vi.fn((key: string) => Promise.resolve({ [key]: storage[key] })),
+            set: vi.fn((items: Record<string, unknown>) => {
+              Object.assign(storage, items);
+              return Promise.resolve();
+            }),
+          },
+        },
+      };
+      Object.defineProperty(window, 'location', {
+        value: { href: 'https://github.com/orgs/myorg/projects/123/insights/456' },
+        writable: true,
+        configurable: true,
+      });
+
+      const result = await recordPredictionSnapshot(snapshot('2024-01-15'));
+
+      expect(result.map(s => s.date)).toEqual(['2024-01-14', '2024-01-15']);
+      expect(storage['burnup-predictionHistory:orgs:myorg:123:456']).toEqual(result);
+
+      delete (global as any).chrome;
+    });
+
+    it("skips the write when today's snapshot is unchanged", async () => {
+      const set = vi.fn(() => Promise.resolve());
+      (global as any).chrome = {
+        storage: {
+          local: {
+            get: vi.fn((key: string) => Promise.resolve({ [key]: [snapshot('2024-01-14'), snapshot('2024-01-15')] })),
+            set,
+          },
+        },
+      };
+
+      const unchanged = await recordPredictionSnapshot(snapshot('2024-01-15'));
+      expect(unchanged.map(s => s.date)).toEqual(['2024-01-14', '2024-01-15']);
+      expect(set).not.toHaveBeenCalled();
+
+      await recordPredictionSnapshot(snapshot('2024-01-15', '2024-02-05'));
+      expect(set).toHaveBeenCalledTimes(1);
+
+      await recordPredictionSnapshot({ ...snapshot('2024-01-15'), velocityModel: 'ewma' });
+      expect(set).toHaveBeenCalledTimes(2);
+
+      delete (global as any).chrome;
+    });
+  });
+});
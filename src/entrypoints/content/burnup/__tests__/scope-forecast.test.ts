@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { calculateScopeGrowth, calculateScopeAdjustedPrediction } from '../scope-forecast';
+import type { BurnupChartData, DataPoint } from '../types';
+
+describe('scope-forecast', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('calculateScopeGrowth', () => {
+    it('returns null rate for missing data', () => {
+      expect(calculateScopeGrowth(undefined, 21).rate).toBeNull();
+      expect(calculateScopeGrowth([], 21).rate).toBeNull();
+    });
+
+    it('returns null rate with fewer than two points in the lookback period', () => {
+      const openData: DataPoint[] = [
+        { date: new Date('2023-11-01'), value: 80 },
+        { date: new Date('2024-01-14'), value: 100 },
+      ];
+
+      expect(calculateScopeGrowth(openData, 21).rate).toBeNull();
+    });
+
+    it('calculates scope growth per day over the lookback period', () => {
+      const openData: DataPoint[] = [
+        { date: new Date('2023-12-01'), value: 50 },
+        { date: new Date('2024-01-04'), value: 80 },
+        { date: new Date('2024-01-09'), value: 85 },
+        { date: new Date('2024-01-14'), value: 100 },
+      ];
+
+      const result = calculateScopeGrowth(openData, 21);
+
+      // 80 -> 100 over 10 days
+      expect(result.rate).toBeCloseTo(2, 5);
+      expect(result.periodStartDate).toEqual(new Date('2024-01-04'));
+      expect(result.periodEndDate).toEqual(new Date('2024-01-14'));
+      expect(result.periodStartValue).toBe(80);
+      expect(result.periodEndValue).toBe(100);
+    });
+
+    it('allows negative growth when scope is cut', () => {
+      const openData: DataPoint[] = [
+        { date: new Date('2024-01-04'), value: 100 },
+        { date: new Date('2024-01-14'), value: 90 },
+      ];
+
+      expect(calculateScopeGrowth(openData, 21).rate).toBeCloseTo(-1, 5);
+    });
+
+    it('ignores future points', () => {
+      const openData: DataPoint[] = [
+        { date: new Date('2024-01-05'), value: 100 },
+        { date: new Date('2024-01-10'), value: 110 },
+        { date: new Date('2024-02-01'), value: 500 },
+      ];
+
+      expect(calculateScopeGrowth(openData, 21).rate).toBeCloseTo(2, 5);
+    });
+  });
+
+  describe('calculateScopeAdjustedPrediction', () => {
+    const data: BurnupChartData = {
+      chartType: 'burnup',
+      completed: 50,
+      total: 100,
+      completedData: [],
+    };
+
+    it('meets the growing scope later than the fixed scope', () => {
+      // Remaining 50, closing speed 5 - 3 = 2 per day -> 25 days
+      const result = calculateScopeAdjustedPrediction(data, 5, 3, null);
+
+      const expectedDate = new Date('2024-01-15');
+      expectedDate.setDate(expectedDate.getDate() + 25);
+      expect(result.completionDate).toEqual(expectedDate);
+      expect(result.projectedScope).toBeCloseTo(175, 5);
+      expect(result.scopeGrowthRate).toBe(3);
+    });
+
+    it('returns null completion date when scope grows faster than velocity', () => {
+      const result = calculateScopeAdjustedPrediction(data, 2, 3, null);
+
+      expect(result.completionDate).toBeNull();
+      expect(result.projectedScope).toBeNull();
+      expect(result.isOnTrack).toBeNull();
+    });
+
+    it('treats null growth rate as fixed scope', () => {
+      const result = calculateScopeAdjustedPrediction(data, 5, null, null);
+
+      const expectedDate = new Date('2024-01-15');
+      expectedDate.setDate(expectedDate.getDate() + 10);
+      expect(result.completionDate).toEqual(expectedDate);
+      expect(result.projectedScope).toBe(100);
+    });
+
+    it('returns today when nothing remains', () => {
+      const done: BurnupChartData = { ...data, completed: 100 };
+
+      const result = calculateScopeAdjustedPrediction(done, null, 3, null);
+
+      expect(result.completionDate).toEqual(new Date('2024-01-15'));
+    });
+
+    it('skips non-working days with a working calendar', () => {
+      vi.setSystemTime(new Date(2024, 0, 12)); // Friday
+      const calendar = { nonWorkingWeekdays: [0, 6], holidays: [] };
+
+      // Remaining 50, closing speed 5 - 3 = 2 per working day -> 25 working days
+      const result = calculateScopeAdjustedPrediction(data, 5, 3, null, calendar);
+
+      expect(result.completionDate).toEqual(new Date(2024, 1, 16));
+    });
+
+    it('compares against the due date', () => {
+      const dueDate = new Date('2024-02-01'); // 17 days from now
+
+      const result = calculateScopeAdjustedPrediction(data, 5, 3, dueDate);
+
+      // Completes in 25 days -> 8 days behind
+      expect(result.daysAhead).toBe(-8);
+      expect(result.isOnTrack).toBe(false);
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createStatsPanel, updatePrediction } from '../stats-panel';
-import type { BurnupChartData, VelocityInfo, Prediction } from '../types';
+import type { BurnupChartData, VelocityInfo, Prediction, MonteCarloForecast, ScopeAdjustedPrediction, MilestonePrediction, Burndown } from '../types';
 
 describe('stats-panel', () => {
   const originalLocation = window.location;
@@ -405,6 +405,175 @@ describe('stats-panel', () => {
       await expect(updatePrediction(velocity, prediction)).resolves.not.toThrow();
     });
 
+    it('shows confidence dates when a Monte Carlo forecast is given', async () => {
+      const velocity: VelocityInfo = {
+        current: 5.5,
+      };
+      const prediction: Prediction = {
+        completionDate: new Date('2024-01-25'),
+        dueDate: new Date('2024-01-28'),
+        idealVelocity: 6.0,
+        isOnTrack: true,
+        daysAhead: 3,
+      };
+      const forecast: MonteCarloForecast = {
+        p50: new Date('2024-01-24'),
+        p85: new Date('2024-01-27'),
+        p95: new Date('2024-01-31'),
+        trials: 10000,
+        sampleDays: 21,
+      };
+
+      await updatePrediction(velocity, prediction, { forecast });
+
+      const group = document.querySelector('.burnup-predictor-forecast-group');
+      expect(group).not.toBeNull();
+      expect(group?.textContent).toContain('Likely by (50%)');
+      expect(group?.textContent).toContain('2024-01-24');
+      expect(group?.textContent).toContain('2024-01-27');
+      expect(group?.textContent).toContain('2024-01-31');
+      // 95% date is past the due date
+      expect(group?.querySelectorAll('.burnup-predictor-prediction-value.danger').length).toBe(1);
+    });
+
+    it('omits confidence dates without a forecast', async () => {
+      const velocity: VelocityInfo = {
+        current: 5.5,
+      };
+      const prediction: Prediction = {
+        completionDate: new Date('2024-01-25'),
+        dueDate: null,
+        idealVelocity: null,
+        isOnTrack: null,
+        daysAhead: null,
+      };
+
+      await updatePrediction(velocity, prediction);
+
+      expect(document.querySelector('.burnup-predictor-forecast-group')).toBeNull();
+    });
+
+    it('shows the scope-adjusted prediction next to the fixed-scope one', async () => {
+      const velocity: VelocityInfo = {
+        current: 5,
+      };
+      const prediction: Prediction = {
+        completionDate: new Date('2024-01-25'),
+        dueDate: new Date('2024-01-28'),
+        idealVelocity: 4.0,
+        isOnTrack: true,
+        daysAhead: 3,
+      };
+      const scopeForecast: ScopeAdjustedPrediction = {
+        scopeGrowthRate: 1.5,
+        completionDate: new Date('2024-02-02'),
+        projectedScope: 130,
+        isOnTrack: false,
+        daysAhead: -5,
+      };
+
+      await updatePrediction(velocity, prediction, { scopeForecast });
+
+      const container = document.getElementById('burnup-prediction');
+      expect(container?.textContent).toContain('Predicted end date (fixed scope)');
+      const group = container?.querySelector('.burnup-predictor-scope-group');
+      expect(group?.textContent).toContain('1.50 / Day');
+      expect(group?.textContent).toContain('2024-02-02');
+      expect(group?.textContent).toContain('5 days behind');
+      expect(group?.querySelectorAll('.burnup-predictor-prediction-value.danger').length).toBe(2);
+    });
+
+    it('presents remaining work in the burndown display mode', async () => {
+      const velocity: VelocityInfo = { current: 4, ideal: 6 };
+      const prediction: Prediction = {
+        completionDate: new Date('2024-01-26'),
+        dueDate: new Date('2024-01-21'),
+        idealVelocity: 6,
+        isOnTrack: false,
+        daysAhead: -5,
+      };
+      const burndown: Burndown = {
+        series: [],
+        remaining: 60,
+        startRemaining: 100,
+        idealRemaining: 50,
+        zeroDate: prediction.completionDate,
+      };
+
+      await updatePrediction(velocity, prediction, { burndown });
+
+      const container = document.getElementById('burnup-prediction');
+      expect(container?.textContent).toContain('Projected zero date');
+      expect(container?.textContent).toContain('Ideal Burn Rate');
+      const group = container?.querySelector('.burnup-predictor-burndown-group');
+      expect(group?.textContent).toContain('60 points');
+      expect(group?.textContent).toContain('50 points');
+      expect(group?.querySelector('.burnup-predictor-prediction-value.danger')).not.toBeNull();
+    });
+
+    it('lists the status of each milestone', async () => {
+      const velocity: VelocityInfo = { current: 2 };
+      const prediction: Prediction = {
+        completionDate: new Date('2024-02-10'),
+        dueDate: new Date('2024-02-15'),
+        idealVelocity: 1.5,
+        isOnTrack: true,
+        daysAhead: 5,
+      };
+      const milestones: MilestonePrediction[] = [
+        {
+          milestone: { name: 'Beta <1>', date: '2024-01-20', scope: 60 },
+          prediction: { ...prediction, completionDate: new Date('2024-01-18'), daysAhead: 2 },
+        },
+        {
+          milestone: { name: 'GA', date: '2024-02-05', scope: null },
+          prediction: { ...prediction, isOnTrack: false, daysAhead: -5 },
+        },
+      ];
+
+      await updatePrediction(velocity, prediction, { milestones });
+
+      const items = document.querySelectorAll('.burnup-predictor-milestone-item');
+      expect(items.length).toBe(2);
+      expect(items[0]?.textContent).toContain('Beta <1> (2024-01-20, 60 points)');
+      expect(items[0]?.textContent).toContain('2 days ahead');
+      expect(items[0]?.querySelector('.success')).not.toBeNull();
+      expect(items[1]?.textContent).toContain('GA (2024-02-05)');
+      expect(items[1]?.textContent).toContain('5 days behind');
+      expect(items[1]?.querySelector('.danger')).not.toBeNull();
+    });
+
+    it('labels milestone scope in the chart unit', async () => {
+      const prediction: Prediction = {
+        completionDate: new Date('2024-02-10'),
+        dueDate: null,
+        idealVelocity: null,
+        isOnTrack: null,
+        daysAhead: null,
+      };
+      const milestones: MilestonePrediction[] = [
+        { milestone: { name: 'Beta', date: '2024-01-20', scope: 12 }, prediction },
+      ];
+
+      await updatePrediction({ current: 2 }, prediction, { milestones, unit: { kind: 'count', fieldName: null } });
+
+      expect(document.querySelector('.burnup-predictor-milestone-item')?.textContent).toContain('Beta (2024-01-20, 12 items)');
+    });
+
+    it('does not render the milestones group without milestones', async () => {
+      const prediction: Prediction = {
+        completionDate: new Date('2024-02-10'),
+        dueDate: null,
+        idealVelocity: null,
+        isOnTrack: null,
+        daysAhead: null,
+      };
+
+      await updatePrediction({ current: 2 }, prediction);
+
+      expect(document.querySelector('.burnup-predictor-milestones-group')).toBeNull();
+    });
+
     it('formats dates correctly', async () => {
       const velocity: VelocityInfo = {
         current: 5.5,
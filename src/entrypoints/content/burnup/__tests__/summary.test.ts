@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildBurnupSummary } from '../summary';
+import type { BurnupChartData, Prediction } from '../types';
+
+describe('summary', () => {
+  const data: BurnupChartData = {
+    chartType: 'burnup',
+    completed: 30,
+    total: 100,
+    completedData: [],
+  };
+  const prediction: Prediction = {
+    completionDate: new Date(2024, 1, 10),
+    dueDate: new Date(2024, 1, 15),
+    idealVelocity: 2,
+    isOnTrack: true,
+    daysAhead: 5,
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 15, 10));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('buildBurnupSummary', () => {
+    it('builds a Markdown table of the burnup status', () => {
+      const summary = buildBurnupSummary(data, { current: 2.5, ideal: 2 }, prediction);
+
+      expect(summary).toBe([
+        '**Burnup summary** (2024-01-15)',
+        '',
+        '| Metric | Value |',
+        '| --- | --- |',
+        '| Completed | 30 / 100 points |',
+        '| Remaining | 70 points |',
+        '| Progress | 30% |',
+        '| Current velocity | 2.50 / Day |',
+        '| Ideal velocity | 2.00 / Day |',
+        '| Predicted end date | 2024-02-10 |',
+        '| Due date | 2024-02-15 |',
+        '| Status | ✅ On track (5 days ahead) |',
+      ].join('\n'));
+    });
+
+    it('reports behind schedule and missing values', () => {
+      const summary = buildBurnupSummary(
+        data,
+        { current: null, ideal: null },
+        { ...prediction, completionDate: null, isOnTrack: false, daysAhead: -3 }
+      );
+
+      expect(summary).toContain('| Current velocity | - |');
+      expect(summary).toContain('| Predicted end date | Cannot calculate |');
+      expect(summary).toContain('| Status | ⚠️ Behind (3 days behind) |');
+    });
+
+    it('uses working days as the velocity unit with a working calendar', () => {
+      const summary = buildBurnupSummary(data, { current: 2.5, ideal: 2 }, prediction, {
+        nonWorkingWeekdays: [0, 6],
+        holidays: [],
+      });
+
+      expect(summary).toContain('| Current velocity | 2.50 / Working Day |');
+    });
+  });
+});
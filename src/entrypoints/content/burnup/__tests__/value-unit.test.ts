@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { filterSnapshotsByUnit, findOtherUnitSnapshot, getUnitLabel } from '../value-unit';
+import type { PredictionSnapshot, ValueUnitKind } from '../types';
+
+describe('value-unit', () => {
+  const snapshot = (date: string, unit?: ValueUnitKind): PredictionSnapshot => ({
+    date,
+    completionDate: '2024-02-01',
+    velocity: 2,
+    total: 100,
+    completed: 50,
+    ...(unit ? { unit } : {}),
+  });
+
+  describe('getUnitLabel', () => {
+    it('labels counts as items and sums as points', () => {
+      expect(getUnitLabel('count')).toBe('items');
+      expect(getUnitLabel({ kind: 'sum', fieldName: 'Estimate' })).toBe('points');
+    });
+  });
+
+  describe('filterSnapshotsByUnit', () => {
+    it('treats snapshots without a unit as sums', () => {
+      const history = [snapshot('2024-01-13'), snapshot('2024-01-14', 'count'), snapshot('2024-01-15', 'sum')];
+
+      expect(filterSnapshotsByUnit(history, 'sum').map(s => s.date)).toEqual(['2024-01-13', '2024-01-15']);
+      expect(filterSnapshotsByUnit(history, 'count').map(s => s.date)).toEqual(['2024-01-14']);
+    });
+  });
+
+  describe('findOtherUnitSnapshot', () => {
+    it('returns the latest snapshot in the other unit', () => {
+      const history = [snapshot('2024-01-13', 'count'), snapshot('2024-01-14', 'count'), snapshot('2024-01-15')];
+
+      expect(findOtherUnitSnapshot(history, 'sum')?.date).toBe('2024-01-14');
+    });
+
+    it('returns null when the chart was never switched', () => {
+      expect(findOtherUnitSnapshot([snapshot('2024-01-15')], 'sum')).toBeNull();
+    });
+  });
+});
@@ -221,5 +221,23 @@ describe('velocity-calculator', () => {
       // Restore original timers
       vi.useRealTimers();
     });
+
+    it('calculates velocity per working day with a working calendar', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2024, 0, 15, 12));
+
+      const completedData: DataPoint[] = [
+        { date: new Date(2024, 0, 1), value: 0 },  // Monday
+        { date: new Date(2024, 0, 15), value: 20 }, // Monday two weeks later
+      ];
+      const calendar = { nonWorkingWeekdays: [0, 6], holidays: [] };
+
+      const result = calculateVelocity(completedData, new Date(2024, 0, 1), 0, LOOKBACK_DAYS, calendar);
+
+      // 14 calendar days, 10 of them working days
+      expect(result.current).toBeCloseTo(2, 5);
+
+      vi.useRealTimers();
+    });
   });
 });
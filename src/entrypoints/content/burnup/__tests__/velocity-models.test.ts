@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { calculateModelVelocity, filterSnapshotsByVelocityModel } from '../velocity-models';
+import { calculateVelocity } from '../velocity-calculator';
+import type { DataPoint, PredictionSnapshot, VelocityModel } from '../types';
+
+describe('velocity-models', () => {
+  const LOOKBACK_DAYS = 21;
+  const startDate = new Date('2024-01-01T00:00:00');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T12:00:00'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('calculateModelVelocity', () => {
+    it('matches calculateVelocity for the endpoint model', () => {
+      const completedData: DataPoint[] = [
+        { date: new Date('2024-01-05T00:00:00'), value: 10 },
+        { date: new Date('2024-01-10T00:00:00'), value: 20 },
+      ];
+
+      expect(calculateModelVelocity('endpoint', completedData, startDate, 0, LOOKBACK_DAYS))
+        .toEqual(calculateVelocity(completedData, startDate, 0, LOOKBACK_DAYS));
+    });
+
+    it('fits a least-squares slope for the regression model', () => {
+      // A spike on the last day barely moves the regression slope
+      const completedData: DataPoint[] = [
+        { date: new Date('2024-01-10T00:00:00'), value: 10 },
+        { date: new Date('2024-01-11T00:00:00'), value: 12 },
+        { date: new Date('2024-01-12T00:00:00'), value: 14 },
+        { date: new Date('2024-01-13T00:00:00'), value: 16 },
+        { date: new Date('2024-01-14T00:00:00'), value: 18 },
+      ];
+
+      const result = calculateModelVelocity('regression', completedData, startDate, 0, LOOKBACK_DAYS);
+
+      expect(result.current).toBeCloseTo(2, 5);
+      expect(result.periodStartDate).toEqual(new Date('2024-01-10T00:00:00'));
+      expect(result.periodEndDate).toEqual(new Date('2024-01-14T00:00:00'));
+      expect(result.periodStartValue).toBeCloseTo(10, 5);
+      expect(result.periodEndValue).toBeCloseTo(18, 5);
+    });
+
+    it('weighs recent days more for the ewma model', () => {
+      // 1 point/day for a week, then 5 points/day for the last three days
+      const completedData: DataPoint[] = [
+        { date: new Date('2024-01-04T00:00:00'), value: 0 },
+        { date: new Date('2024-01-11T00:00:00'), value: 7 },
+        { date: new Date('2024-01-14T00:00:00'), value: 22 },
+      ];
+
+      const endpoint = calculateModelVelocity('endpoint', completedData, startDate, 0, LOOKBACK_DAYS);
+      const ewma = calculateModelVelocity('ewma', completedData, startDate, 0, LOOKBACK_DAYS);
+
+      expect(ewma.current).not.toBeNull();
+      expect(ewma.current!).toBeGreaterThan(endpoint.current!);
+      expect(ewma.current!).toBeLessThan(5);
+      // The trend line is anchored at the latest point
+      expect(ewma.periodEndValue).toBe(22);
+      expect(ewma.periodStartValue).toBeCloseTo(22 - ewma.current! * 10, 5);
+    });
+
+    it('falls back to the endpoint model when the period has too few points', () => {
+      const completedData: DataPoint[] = [
+        { date: new Date('2023-11-01T00:00:00'), value: 10 },
+        { date: new Date('2024-01-14T00:00:00'), value: 40 },
+      ];
+
+      const expected = calculateVelocity(completedData, startDate, 0, LOOKBACK_DAYS);
+
+      expect(calculateModelVelocity('regression', completedData, startDate, 0, LOOKBACK_DAYS)).toEqual(expected);
+      expect(calculateModelVelocity('ewma', completedData, startDate, 0, LOOKBACK_DAYS)).toEqual(expected);
+    });
+
+    it('returns null velocity when the regression slope is not positive', () => {
+      const completedData: DataPoint[] = [
+        { date: new Date('2024-01-10T00:00:00'), value: 20 },
+        { date: new Date('2024-01-12T00:00:00'), value: 15 },
+        { date: new Date('2024-01-14T00:00:00'), value: 10 },
+      ];
+
+      expect(calculateModelVelocity('regression', completedData, startDate, 0, LOOKBACK_DAYS).current).toBeNull();
+    });
+  });
+
+  describe('filterSnapshotsByVelocityModel', () => {
+    const snapshot = (date: string, velocityModel?: VelocityModel): PredictionSnapshot => ({
+      date,
+      completionDate: '2024-02-01',
+      velocity: 2,
+      total: 100,
+      completed: 50,
+      ...(velocityModel ? { velocityModel } : {}),
+    });
+
+    it('treats snapshots without a model as endpoint slopes', () => {
+      const history = [snapshot('2024-01-13'), snapshot('2024-01-14', 'ewma'), snapshot('2024-01-15', 'endpoint')];
+
+      expect(filterSnapshotsByVelocityModel(history, 'endpoint').map(s => s.date)).toEqual(['2024-01-13', '2024-01-15']);
+      expect(filterSnapshotsByVelocityModel(history, 'ewma').map(s => s.date)).toEqual(['2024-01-14']);
+      expect(filterSnapshotsByVelocityModel(history, 'regression')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addWorkingDays,
+  countWorkingDays,
+  hasNonWorkingDays,
+  isValidWorkingCalendar,
+  isWorkingDay,
+  toDateKey,
+} from '../working-calendar';
+import type { WorkingCalendar } from '../types';
+
+describe('working-calendar', () => {
+  // 2024-01-01 is a Monday
+  const weekdaysOnly: WorkingCalendar = { nonWorkingWeekdays: [0, 6], holidays: [] };
+
+  describe('toDateKey', () => {
+    it('formats local dates as YYYY-MM-DD', () => {
+      expect(toDateKey(new Date(2024, 0, 5, 23, 30))).toBe('2024-01-05');
+    });
+  });
+
+  describe('hasNonWorkingDays', () => {
+    it('is false for missing or empty calendars', () => {
+      expect(hasNonWorkingDays(null)).toBe(false);
+      expect(hasNonWorkingDays(undefined)).toBe(false);
+      expect(hasNonWorkingDays({ nonWorkingWeekdays: [], holidays: [] })).toBe(false);
+    });
+
+    it('is true when weekdays or holidays are excluded', () => {
+      expect(hasNonWorkingDays(weekdaysOnly)).toBe(true);
+      expect(hasNonWorkingDays({ nonWorkingWeekdays: [], holidays: ['2024-01-01'] })).toBe(true);
+    });
+  });
+
+  describe('isWorkingDay', () => {
+    it('excludes non-working weekdays and holidays', () => {
+      const calendar: WorkingCalendar = { nonWorkingWeekdays: [0, 6], holidays: ['2024-01-01'] };
+
+      expect(isWorkingDay(new Date(2024, 0, 1), calendar)).toBe(false); // Holiday
+      expect(isWorkingDay(new Date(2024, 0, 2), calendar)).toBe(true);
+      expect(isWorkingDay(new Date(2024, 0, 6), calendar)).toBe(false); // Saturday
+      expect(isWorkingDay(new Date(2024, 0, 7), calendar)).toBe(false); // Sunday
+    });
+  });
+
+  describe('isValidWorkingCalendar', () => {
+    it('accepts valid calendars', () => {
+      expect(isValidWorkingCalendar(weekdaysOnly)).toBe(true);
+      expect(isValidWorkingCalendar({ nonWorkingWeekdays: [], holidays: ['2024-12-25'] })).toBe(true);
+    });
+
+    it('rejects malformed calendars', () => {
+      expect(isValidWorkingCalendar(null)).toBe(false);
+      expect(isValidWorkingCalendar({ nonWorkingWeekdays: [7], holidays: [] })).toBe(false);
+      expect(isValidWorkingCalendar({ nonWorkingWeekdays: [1.5], holidays: [] })).toBe(false);
+      expect(isValidWorkingCalendar({ nonWorkingWeekdays: [], holidays: ['12/25/2024'] })).toBe(false);
+      expect(isValidWorkingCalendar({ nonWorkingWeekdays: [] })).toBe(false);
+    });
+
+    it('rejects calendars without any working weekday', () => {
+      expect(isValidWorkingCalendar({ nonWorkingWeekdays: [0, 1, 2, 3, 4, 5, 6], holidays: [] })).toBe(false);
+    });
+  });
+
+  describe('countWorkingDays', () => {
+    it('returns calendar days without a calendar', () => {
+      expect(countWorkingDays(new Date(2024, 0, 1), new Date(2024, 0, 8), null)).toBe(7);
+    });
+
+    it('skips weekends', () => {
+      // Mon 2024-01-01 to Mon 2024-01-08
+      expect(countWorkingDays(new Date(2024, 0, 1), new Date(2024, 0, 8), weekdaysOnly)).toBeCloseTo(5, 5);
+    });
+
+    it('skips holidays', () => {
+      const calendar: WorkingCalendar = { nonWorkingWeekdays: [0, 6], holidays: ['2024-01-03'] };
+
+      expect(countWorkingDays(new Date(2024, 0, 1), new Date(2024, 0, 8), calendar)).toBeCloseTo(4, 5);
+    });
+
+    it('counts partial days', () => {
+      // Friday noon to Monday noon: half of Friday and half of Monday
+      expect(countWorkingDays(new Date(2024, 0, 5, 12), new Date(2024, 0, 8, 12), weekdaysOnly)).toBeCloseTo(1, 5);
+    });
+
+    it('returns negative values when end is before start', () => {
+      expect(countWorkingDays(new Date(2024, 0, 8), new Date(2024, 0, 1), weekdaysOnly)).toBeCloseTo(-5, 5);
+    });
+  });
+
+  describe('addWorkingDays', () => {
+    it('adds calendar days without a calendar', () => {
+      expect(addWorkingDays(new Date(2024, 0, 5), 3, null)).toEqual(new Date(2024, 0, 8));
+    });
+
+    it('skips weekends', () => {
+      // Friday + 2 working days -> Friday and Monday are used up, ending at Tuesday 00:00
+      expect(addWorkingDays(new Date(2024, 0, 5), 2, weekdaysOnly)).toEqual(new Date(2024, 0, 9));
+    });
+
+    it('lands within a working day for fractional days', () => {
+      expect(addWorkingDays(new Date(2024, 0, 5, 12), 1, weekdaysOnly)).toEqual(new Date(2024, 0, 8, 12));
+    });
+
+    it('is the inverse of countWorkingDays', () => {
+      const calendar: WorkingCalendar = { nonWorkingWeekdays: [0, 6], holidays: ['2024-01-10'] };
+      const from = new Date(2024, 0, 4, 9);
+      const to = addWorkingDays(from, 7.25, calendar)!;
+
+      expect(countWorkingDays(from, to, calendar)).toBeCloseTo(7.25, 5);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+// GitHub Burnup Predictor - Burndown Module
+// Responsibility: Derive remaining work (scope minus completed) for the burndown display mode
+
+import type { Burndown, BurnupChartData, DataPoint, Prediction, Velocity, WorkingCalendar } from './types';
+import { countWorkingDays } from './working-calendar';
+
+interface TimedValue {
+  time: number;
+  value: number;
+}
+
+/**
+ * Normalize and sort a series by time, dropping invalid points
+ */
+function toSortedValues(points: DataPoint[] | undefined): TimedValue[] {
+  return (points ?? [])
+    .map(p => ({ time: (p.date instanceof Date ? p.date : new Date(p.date)).getTime(), value: p.value }))
+    .filter(p => !isNaN(p.time) && !isNaN(p.value))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Value of a step series at a time: the last value at or before it,
+ * or the first value when the time is before the series starts
+ */
+function valueAt(series: TimedValue[], time: number, fallback: number): number {
+  let value = series[0]?.value ?? fallback;
+  for (const point of series) {
+    if (point.time > time) {
+      break;
+    }
+    value = point.value;
+  }
+  return value;
+}
+
+/**
+ * Calculate remaining work over time
+ *
+ * In GitHub's stacked burnup chart the top of the Open series is the total
+ * scope, so remaining work at any time is Open minus Completed at that time.
+ * Both series are treated as step functions and sampled at every point of
+ * either series, so scope changes show up as steps in the burndown.
+ *
+ * @param completedData Completed series
+ * @param openData Open (total scope) series; the current total is used without it
+ * @param total Current total, used when the Open series is missing
+ */
+export function calculateRemainingSeries(
+  completedData: DataPoint[],
+  openData: DataPoint[] | undefined,
+  total: number
+): DataPoint[] {
+  const completed = toSortedValues(completedData);
+  const open = toSortedValues(openData);
+  if (completed.length === 0) {
+    return [];
+  }
+
+  const times = [...new Set([...completed, ...open].map(p => p.time))].sort((a, b) => a - b);
+  return times.map(time => ({
+    date: new Date(time),
+    value: Math.max(0, valueAt(open, time, total) - valueAt(completed, time, 0)),
+  }));
+}
+
+/**
+ * Calculate the burndown view of the current prediction
+ *
+ * The ideal line mirrors the burnup ideal line: it starts at the scope not yet
+ * completed at the chart start and reaches zero on the due date. The projected
+ * zero-crossing is the predicted completion date, since remaining work reaches
+ * zero exactly when completed work reaches the total.
+ *
+ * @param data Chart data
+ * @param velocity Current velocity and the chart start point
+ * @param prediction Current prediction
+ * @param calendar Working calendar; the ideal line only burns on working days
+ */
+export function calculateBurndown(
+  data: BurnupChartData,
+  velocity: Velocity,
+  prediction: Prediction,
+  calendar?: WorkingCalendar | null
+): Burndown {
+  const startRemaining = Math.max(0, data.total - velocity.startValue);
+
+  let idealRemaining: number | null = null;
+  if (prediction.dueDate) {
+    const span = countWorkingDays(velocity.startDate, prediction.dueDate, calendar);
+    if (span > 0) {
+      const elapsed = countWorkingDays(velocity.startDate, new Date(), calendar);
+      const ratio = Math.min(1, Math.max(0, elapsed / span));
+      idealRemaining = startRemaining * (1 - ratio);
+    }
+  }
+
+  return {
+    series: calculateRemainingSeries(data.completedData, data.openData, data.total),
+    remaining: Math.max(0, data.total - data.completed),
+    startRemaining,
+    idealRemaining,
+    zeroDate: prediction.completionDate,
+  };
+}
@@ -1,8 +1,14 @@
 // GitHub Burnup Predictor - Chart Overlay Module
 // Responsibility: Draw SVG overlay
 
-import type { ChartInfo, BurnupChartData, Velocity, Prediction } from './types';
+import type { ChartInfo, BurnupChartData, Burndown, Velocity, Prediction, PredictionExtras, PixelPoint } from './types';
 import { getCompletedDataPoints } from './data-processor';
+import { countWorkingDays, parseDateKey } from './working-calendar';
+
+// Milestone markers cycle through these colors
+const MILESTONE_COLOR = '#db61a2';
+const MILESTONE_COLORS = [MILESTONE_COLOR, '#39c5cf', '#a5d6ff', '#ffa198'];
+const REMAINING_COLOR = '#f0883e';
 
 /**
  * Get current date in user's local timezone
@@ -123,10 +129,197 @@ function createPointMarker(x: number, y: number, color: string): SVGCircleElemen
   return circle;
 }
 
+/**
+ * Clip a polygon to the area left of a vertical edge (Sutherland-Hodgman, single edge)
+ */
+function clipPolygonToMaxX(points: PixelPoint[], maxX: number): PixelPoint[] {
+  const clipped: PixelPoint[] = [];
+  // Pair each vertex with the next one, wrapping around to the first
+  const nextPoints = [...points.slice(1), ...points.slice(0, 1)];
+  points.forEach((current, i) => {
+    const next = nextPoints[i];
+    if (!next) return;
+    const currentInside = current.x <= maxX;
+    const nextInside = next.x <= maxX;
+
+    if (currentInside) {
+      clipped.push(current);
+    }
+    if (currentInside !== nextInside) {
+      const t = (maxX - current.x) / (next.x - current.x);
+      clipped.push({ x: maxX, y: current.y + t * (next.y - current.y) });
+    }
+  });
+  return clipped;
+}
+
+/**
+ * Create a shaded fan band from a single origin to a range on the target line
+ */
+function createFanBand(
+  origin: PixelPoint,
+  nearX: number,
+  farX: number,
+  targetY: number,
+  maxX: number,
+  opacity: number
+): SVGPolygonElement | null {
+  const points = clipPolygonToMaxX([origin, { x: nearX, y: targetY }, { x: farX, y: targetY }], maxX);
+  if (points.length < 3) {
+    return null;
+  }
+
+  const polygon = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
+  polygon.setAttribute('points', points.map(p => `${p.x},${p.y}`).join(' '));
+  polygon.setAttribute('fill', '#58a6ff');
+  polygon.setAttribute('fill-opacity', String(opacity));
+  polygon.setAttribute('stroke', 'none');
+  return polygon;
+}
+
+/**
+ * Create a straight line segment
+ */
+function createLine(
+  from: PixelPoint,
+  to: PixelPoint,
+  color: string,
+  dashArray: string = '2,2'
+): SVGLineElement {
+  const line = document.createElementNS('http://www.w3.org/2000/svg', 'line');
+  line.setAttribute('x1', String(from.x));
+  line.setAttribute('y1', String(from.y));
+  line.setAttribute('x2', String(to.x));
+  line.setAttribute('y2', String(to.y));
+  line.setAttribute('stroke', color);
+  line.setAttribute('stroke-width', '2');
+  line.setAttribute('stroke-dasharray', dashArray);
+  line.setAttribute('opacity', '0.8');
+  return line;
+}
+
+/**
+ * Create a polyline through the given points
+ */
+function createPolyline(points: PixelPoint[], color: string): SVGPolylineElement {
+  const polyline = document.createElementNS('http://www.w3.org/2000/svg', 'polyline');
+  polyline.setAttribute('points', points.map(p => `${p.x},${p.y}`).join(' '));
+  polyline.setAttribute('fill', 'none');
+  polyline.setAttribute('stroke', color);
+  polyline.setAttribute('stroke-width', '2.5');
+  polyline.setAttribute('stroke-linejoin', 'round');
+  return polyline;
+}
+
+/**
+ * Draw the burndown presentation into the overlay group
+ * The remaining series is drawn as a step line on the chart's own Y axis,
+ * with an ideal line from the start to zero on the due date and the
+ * projection from today to the zero-crossing date.
+ */
+function drawBurndown(
+  g: SVGGElement,
+  chartInfo: ChartInfo,
+  velocity: Velocity,
+  prediction: Prediction,
+  burndown: Burndown
+): void {
+  if (!chartInfo.plotBox) {
+    return;
+  }
+  const { plotLeft, plotTop, plotWidth, plotHeight } = chartInfo.plotBox;
+  const { xMin, xMax, yMin, yMax } = chartInfo.axes;
+  const maxX = plotLeft + plotWidth;
+  const zeroY = plotTop + plotHeight - ((0 - yMin) / (yMax - yMin)) * plotHeight;
+
+  const toX = (date: Date): number => plotLeft + ((date.getTime() - xMin) / (xMax - xMin)) * plotWidth;
+  const toY = (value: number): number => plotTop + plotHeight - ((value - yMin) / (yMax - yMin)) * plotHeight;
+
+  // Remaining work as a step line (values hold until the next point)
+  const steps: PixelPoint[] = [];
+  burndown.series.forEach((point, index) => {
+    const x = Math.min(maxX, toX(new Date(point.date)));
+    const y = toY(point.value);
+    const previous = steps[steps.length - 1];
+    if (index > 0 && previous) {
+      steps.push({ x, y: previous.y });
+    }
+    steps.push({ x, y });
+  });
+  const lastStep = steps[steps.length - 1];
+  if (steps.length >= 2 && lastStep) {
+    g.appendChild(createPolyline(steps, REMAINING_COLOR));
+    g.appendChild(createLabel(`Remaining: ${Math.round(burndown.remaining)}`, lastStep.x, lastStep.y, REMAINING_COLOR, 'above'));
+  }
+
+  // Ideal line: start remaining on the start date down to zero on the due date
+  if (prediction.dueDate) {
+    const startX = toX(velocity.startDate);
+    const startY = toY(burndown.startRemaining);
+    const dueX = toX(prediction.dueDate);
+    if (!isNaN(startX) && !isNaN(dueX) && dueX > startX) {
+      const withinPlot = dueX <= maxX;
+      const endX = withinPlot ? dueX : maxX;
+      const endY = startY + (zeroY - startY) * ((endX - startX) / (dueX - startX));
+      g.appendChild(createLine({ x: startX, y: startY }, { x: endX, y: endY }, '#f5a623'));
+
+      if (withinPlot) {
+        g.appendChild(createVerticalMarker(dueX, plotTop, plotHeight, '#f5a623'));
+        g.appendChild(createPointMarker(dueX, zeroY, '#f5a623'));
+        g.appendChild(createLabel(
+          `Target: ${formatDateShort(prediction.dueDate)}`,
+          dueX,
+          plotTop + plotHeight,
+          '#f5a623',
+          'below',
+          1  // Second row (below Today)
+        ));
+      }
+    }
+  }
+
+  // Projection: from today's remaining work down to the zero-crossing date
+  if (burndown.zeroDate && lastStep && burndown.remaining > 0) {
+    const todayX = lastStep.x;
+    const todayY = toY(burndown.remaining);
+    const zeroX = toX(burndown.zeroDate);
+    if (zeroX > todayX && todayX < maxX) {
+      const withinPlot = zeroX <= maxX;
+      const endX = withinPlot ? zeroX : maxX;
+      const endY = todayY + (zeroY - todayY) * ((endX - todayX) / (zeroX - todayX));
+      g.appendChild(createLine({ x: todayX, y: todayY }, { x: endX, y: endY }, '#58a6ff'));
+
+      if (withinPlot) {
+        g.appendChild(createVerticalMarker(zeroX, plotTop, plotHeight, '#58a6ff'));
+        g.appendChild(createPointMarker(zeroX, zeroY, '#58a6ff'));
+        g.appendChild(createLabel(
+          `Zero: ${formatDateShort(burndown.zeroDate)}`,
+          zeroX,
+          plotTop + plotHeight,
+          '#58a6ff',
+          'below',
+          2  // Third row (below Today and Target)
+        ));
+      }
+    }
+  }
+}
+
 /**
  * Draw SVG overlay
+ * @param extras Optional analyses: the Monte Carlo forecast is drawn as a shaded fan band,
+ *               the scope-adjusted prediction as projected completed/scope lines.
+ *               With a burndown the chart is presented as remaining work instead.
  */
-export function drawOverlay(chartInfo: ChartInfo, data: BurnupChartData, velocity: Velocity, prediction: Prediction): void {
+export function drawOverlay(
+  chartInfo: ChartInfo, 
+  data: BurnupChartData, 
+  velocity: Velocity, 
+  prediction: Prediction,
+  extras: PredictionExtras = {}
+): void {
+  const { forecast = null, scopeForecast = null, calendar = null, milestones = [], burndown = null } = extras;
+
   const existingOverlay = document.getElementById('burnup-predictor-overlay');
   if (existingOverlay) {
     existingOverlay.remove();
@@ -144,6 +337,9 @@ export function drawOverlay(chartInfo: ChartInfo, data: BurnupChartData, velocit
   const { plotLeft, plotTop, plotWidth, plotHeight } = chartInfo.plotBox;
   const { xMin, xMax, yMin, yMax } = chartInfo.axes;
 
+  // Fade GitHub's own burnup series while the burndown is shown
+  svg.classList.toggle('burnup-predictor-burndown', burndown !== null);
+
   // Calculate X coordinate from date (relative coordinates within plot area)
   const toRelativeX = (date: Date | string): number => {
     const time = date instanceof Date ? date.getTime() : new Date(date).getTime();
@@ -168,10 +364,103 @@ export function drawOverlay(chartInfo: ChartInfo, data: BurnupChartData, velocit
     return;
   }
 
+  if (burndown) {
+    drawBurndown(g, chartInfo, velocity, prediction, burndown);
+    drawTodayMarker(g, toRelativeX, plotLeft, plotTop, plotWidth, plotHeight);
+    svg.appendChild(g);
+    return;
+  }
+
   // Get the target value (Open/Total at the end)
   const targetValue = data.total;
   const targetY = plotTop + toRelativeY(targetValue);
 
+  // Draw projected scope and completed lines when scope is growing
+  // Both start at today and meet at the scope-adjusted completion date
+  if (scopeForecast && scopeForecast.scopeGrowthRate !== null && todayCompletedPoint) {
+    const todayX = plotLeft + toRelativeX(todayCompletedPoint.date);
+    const maxX = plotLeft + plotWidth;
+    const growthRate = scopeForecast.scopeGrowthRate;
+    const dayMs = 1000 * 60 * 60 * 24;
+
+    let endDate = new Date(xMax);
+    if (scopeForecast.completionDate && scopeForecast.completionDate.getTime() < xMax) {
+      endDate = scopeForecast.completionDate;
+    }
+    const todayDate = new Date(todayCompletedPoint.date);
+    const days = (endDate.getTime() - todayDate.getTime()) / dayMs;
+    // Rates are per working day when a calendar is in use
+    const elapsed = countWorkingDays(todayDate, endDate, calendar);
+    const endX = Math.min(maxX, plotLeft + toRelativeX(endDate));
+
+    if (days > 0 && todayX < maxX) {
+      const scopeEnd = data.total + growthRate * elapsed;
+      g.appendChild(createLine(
+        { x: todayX, y: targetY },
+        { x: endX, y: plotTop + toRelativeY(scopeEnd) },
+        '#a371f7',
+        '6,3'
+      ));
+
+      if (velocity.current) {
+        const completedEnd = todayCompletedPoint.value + velocity.current * elapsed;
+        g.appendChild(createLine(
+          { x: todayX, y: plotTop + toRelativeY(todayCompletedPoint.value) },
+          { x: endX, y: plotTop + toRelativeY(completedEnd) },
+          '#58a6ff',
+          '6,3'
+        ));
+      }
+
+      // Mark where the lines meet if it falls within the chart
+      if (scopeForecast.completionDate && endDate === scopeForecast.completionDate && scopeForecast.projectedScope !== null) {
+        const meetY = plotTop + toRelativeY(scopeForecast.projectedScope);
+        g.appendChild(createVerticalMarker(endX, plotTop, plotHeight, '#a371f7'));
+        g.appendChild(createPointMarker(endX, meetY, '#a371f7'));
+        g.appendChild(createLabel(
+          `Growing scope: ${formatDateShort(scopeForecast.completionDate)}`,
+          endX,
+          plotTop + plotHeight,
+          '#a371f7',
+          'below',
+          4  // Fifth row (below the forecast range)
+        ));
+      }
+    }
+  }
+
+  // Draw Monte Carlo forecast range as a fan from today's completed point
+  // Outer band: 50-95%, inner band: 50-85%
+  if (forecast?.p50) {
+    const origin: PixelPoint = {
+      x: plotLeft + toRelativeX(todayCompletedPoint.date),
+      y: plotTop + toRelativeY(todayCompletedPoint.value),
+    };
+    const maxX = plotLeft + plotWidth;
+    const p50X = plotLeft + toRelativeX(forecast.p50);
+    // A null upper percentile means some runs never finish; extend the band to the edge
+    const p85X = forecast.p85 ? plotLeft + toRelativeX(forecast.p85) : maxX;
+    const p95X = forecast.p95 ? plotLeft + toRelativeX(forecast.p95) : maxX;
+
+    const outerBand = createFanBand(origin, p50X, p95X, targetY, maxX, 0.12);
+    if (outerBand) g.appendChild(outerBand);
+    const innerBand = createFanBand(origin, p50X, p85X, targetY, maxX, 0.2);
+    if (innerBand) g.appendChild(innerBand);
+
+    // Label the 85% date (at bottom, row 3)
+    if (forecast.p85 && p85X <= maxX) {
+      const forecastLabel = createLabel(
+        `85%: ${formatDateShort(forecast.p85)}`,
+        p85X,
+        plotTop + plotHeight,
+        '#58a6ff',
+        'below',
+        3  // Fourth row (below Predicted)
+      );
+      g.appendChild(forecastLabel);
+    }
+  }
+
   // Draw current velocity line (dashed)
   // Use the period information from velocity calculation
   if (velocity.current && velocity.periodStartDate && velocity.periodEndDate && 
@@ -324,6 +613,35 @@ export function drawOverlay(chartInfo: ChartInfo, data: BurnupChartData, velocit
     }
   }
 
+  // Draw an ideal velocity line and a marker for each milestone
+  // Same start point as the main ideal line, ending at the milestone's scope on its date
+  milestones.forEach(({ milestone }, index) => {
+    const color = MILESTONE_COLORS[index % MILESTONE_COLORS.length] ?? MILESTONE_COLOR;
+    const milestoneRelativeX = toRelativeX(parseDateKey(milestone.date));
+    if (milestoneRelativeX < 0 || isNaN(startX) || isNaN(startY)) {
+      return;
+    }
+
+    const milestoneX = plotLeft + milestoneRelativeX;
+    const milestoneY = plotTop + toRelativeY(milestone.scope ?? data.total);
+    const withinPlot = milestoneRelativeX <= plotWidth;
+
+    // A milestone on the start date has no ideal line, only its marker
+    if (milestoneX !== startX) {
+      const slope = (milestoneY - startY) / (milestoneX - startX);
+      const endX = withinPlot ? milestoneX : plotLeft + plotWidth;
+      const endY = withinPlot ? milestoneY : startY + slope * (endX - startX);
+      g.appendChild(createLine({ x: startX, y: startY }, { x: endX, y: endY }, color, '4,3'));
+    }
+
+    if (withinPlot) {
+      g.appendChild(createVerticalMarker(milestoneX, plotTop, plotHeight, color, '4,3'));
+      g.appendChild(createPointMarker(milestoneX, milestoneY, color));
+      // Milestone names go at the top of the plot so they don't collide with the date rows below
+      g.appendChild(createLabel(milestone.name, milestoneX, plotTop, color, 'below', index % 3));
+    }
+  });
+
   // Draw scope target line (horizontal dashed line showing where Completed needs to reach)
   // In stacked charts with Duplicate/other done-like statuses, this line sits below the Open line
   // by the amount of those statuses, clearly indicating the completion goal.
@@ -350,7 +668,22 @@ export function drawOverlay(chartInfo: ChartInfo, data: BurnupChartData, velocit
   );
   g.appendChild(scopeTargetLabel);
 
-  // Draw Today marker (using user's local timezone)
+  drawTodayMarker(g, toRelativeX, plotLeft, plotTop, plotWidth, plotHeight);
+
+  svg.appendChild(g);
+}
+
+/**
+ * Draw Today marker (using user's local timezone)
+ */
+function drawTodayMarker(
+  g: SVGGElement,
+  toRelativeX: (date: Date) => number,
+  plotLeft: number,
+  plotTop: number,
+  plotWidth: number,
+  plotHeight: number
+): void {
   const todayLocal = getTodayLocal();
   const todayRelativeX = toRelativeX(todayLocal);
   if (todayRelativeX >= 0 && todayRelativeX <= plotWidth) {
@@ -364,6 +697,4 @@ export function drawOverlay(chartInfo: ChartInfo, data: BurnupChartData, velocit
     const todayLabel = createLabel('Today', todayMarkerX, plotTop + plotHeight, '#e05944', 'below', 0);
     g.appendChild(todayLabel);
   }
-
-  svg.appendChild(g);
 }
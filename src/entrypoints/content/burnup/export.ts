@@ -0,0 +1,186 @@
+// GitHub Burnup Predictor - Export Module
+// Responsibility: Export the burnup analysis as CSV and JSON downloads
+
+import type {
+  BurnupChartData,
+  BurnupExport,
+  BurnupExportRow,
+  DataPoint,
+  Prediction,
+  Velocity,
+  VelocityModel,
+} from './types';
+import { toDateKey } from './working-calendar';
+import { DEFAULT_VALUE_UNIT } from './value-unit';
+import { parseProjectInsightsUrl } from '../shared/url-parser';
+
+export interface BurnupExportOptions {
+  velocityModel: VelocityModel;
+  lookbackDays: number;
+}
+
+/**
+ * Build the export data from the current analysis
+ *
+ * The series holds one row per sampled day with the last Completed and Open
+ * values of that day; a series without a sample on that day is left empty.
+ *
+ * @param data Chart data
+ * @param velocity Velocity used for the prediction
+ * @param prediction Current prediction
+ * @param options Settings the analysis was calculated with
+ */
+export function buildBurnupExport(
+  data: BurnupChartData,
+  velocity: Velocity,
+  prediction: Prediction,
+  options: BurnupExportOptions
+): BurnupExport {
+  const completedByDay = groupByDay(data.completedData);
+  const openByDay = groupByDay(data.openData ?? []);
+  const days = [...new Set([...completedByDay.keys(), ...openByDay.keys()])].sort();
+
+  const series: BurnupExportRow[] = days.map(date => ({
+    date,
+    completed: completedByDay.get(date) ?? null,
+    open: openByDay.get(date) ?? null,
+  }));
+
+  const toKey = (date: Date | null | undefined): string | null => (date ? toDateKey(date) : null);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    url: window.location.href,
+    completed: data.completed,
+    remaining: Math.max(0, data.total - data.completed),
+    total: data.total,
+    unit: (data.valueUnit ?? DEFAULT_VALUE_UNIT).kind,
+    velocity: {
+      model: options.velocityModel,
+      lookbackDays: options.lookbackDays,
+      current: velocity.current,
+      ideal: prediction.idealVelocity,
+      periodStartDate: toKey(velocity.periodStartDate),
+      periodEndDate: toKey(velocity.periodEndDate),
+      periodStartValue: velocity.periodStartValue ?? null,
+      periodEndValue: velocity.periodEndValue ?? null,
+    },
+    prediction: {
+      completionDate: toKey(prediction.completionDate),
+      dueDate: toKey(prediction.dueDate),
+      isOnTrack: prediction.isOnTrack,
+      daysAhead: prediction.daysAhead,
+    },
+    series,
+  };
+}
+
+/**
+ * Keep the last value of each local day
+ */
+function groupByDay(points: DataPoint[]): Map<string, number> {
+  const byDay = new Map<string, number>();
+  const sorted = points
+    .map(p => ({ date: p.date instanceof Date ? p.date : new Date(p.date), value: p.value }))
+    .filter(p => !isNaN(p.date.getTime()) && !isNaN(p.value))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  for (const point of sorted) {
+    byDay.set(toDateKey(point.date), point.value);
+  }
+  return byDay;
+}
+
+/**
+ * Format the export as CSV
+ *
+ * A metric/value section with the velocity and prediction comes first,
+ * followed by a blank line and the daily series, so both paste cleanly into
+ * a spreadsheet.
+ */
+export function toBurnupCsv(exportData: BurnupExport): string {
+  const metrics: [string, string | number | boolean | null][] = [
+    ['Exported at', exportData.exportedAt],
+    ['URL', exportData.url],
+    ['Completed', exportData.completed],
+    ['Remaining', exportData.remaining],
+    ['Total', exportData.total],
+    ['Unit', exportData.unit],
+    ['Velocity model', exportData.velocity.model],
+    ['Lookback days', exportData.velocity.lookbackDays],
+    ['Current velocity', exportData.velocity.current],
+    ['Ideal velocity', exportData.velocity.ideal],
+    ['Velocity period start', exportData.velocity.periodStartDate],
+    ['Velocity period end', exportData.velocity.periodEndDate],
+    ['Predicted end date', exportData.prediction.completionDate],
+    ['Due date', exportData.prediction.dueDate],
+    ['On track', exportData.prediction.isOnTrack],
+    ['Days ahead', exportData.prediction.daysAhead],
+  ];
+
+  const lines = [
+    'Metric,Value',
+    ...metrics.map(([metric, value]) => `${escapeCsv(metric)},${escapeCsv(value)}`),
+    '',
+    'Date,Completed,Open',
+    ...exportData.series.map(row => [row.date, row.completed, row.open].map(escapeCsv).join(',')),
+  ];
+
+  return lines.join('\n') + '\n';
+}
+
+function escapeCsv(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a download file name from the insight URL and today's date
+ * e.g. "burnup-orgs-myorg-123-456-2024-01-15.csv"
+ */
+export function getExportFileName(extension: 'csv' | 'json', url: string = window.location.href): string {
+  const parsed = parseProjectInsightsUrl(url);
+  const context = parsed
+    ? `-${parsed.orgOrUser.replace(/:/g, '-')}-${parsed.projectNumber}-${parsed.insightNumber}`
+    : '';
+  return `burnup${context}-${toDateKey(new Date())}.${extension}`;
+}
+
+/**
+ * Trigger a file download in the page
+ */
+function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+}
+
+/**
+ * Point the stats panel's export buttons at the latest analysis
+ * Called after every recalculation so the download always matches what is shown.
+ */
+export function bindExportActions(exportData: BurnupExport): void {
+  const csvButton = document.getElementById('burnup-export-csv') as HTMLButtonElement | null;
+  const jsonButton = document.getElementById('burnup-export-json') as HTMLButtonElement | null;
+
+  if (csvButton) {
+    csvButton.disabled = false;
+    csvButton.onclick = () => {
+      downloadFile(getExportFileName('csv'), toBurnupCsv(exportData), 'text/csv;charset=utf-8');
+    };
+  }
+
+  if (jsonButton) {
+    jsonButton.disabled = false;
+    jsonButton.onclick = () => {
+      downloadFile(getExportFileName('json'), JSON.stringify(exportData, null, 2), 'application/json');
+    };
+  }
+}
@@ -0,0 +1,130 @@
+// GitHub Burnup Predictor - Forecast Drift Module
+// Responsibility: Render the predicted completion date over time
+
+import type { PredictionSnapshot } from './types';
+import { parseDateKey, toDateKey } from './working-calendar';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const DAY_MS = 1000 * 60 * 60 * 24;
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = { top: 12, right: 16, bottom: 24, left: 80 };
+
+/**
+ * Render the forecast drift chart into the stats panel
+ *
+ * X axis: the day each snapshot was taken. Y axis: the completion date that
+ * was predicted on that day. A rising line means the forecast keeps slipping.
+ *
+ * @param history Daily prediction snapshots, oldest first
+ * @param dueDate Current due date, drawn as a reference line
+ */
+export function renderForecastDrift(history: PredictionSnapshot[], dueDate: Date | null): void {
+  const container = document.getElementById('burnup-forecast-drift');
+  if (!container) return;
+
+  const points = history
+    .filter((snapshot): snapshot is PredictionSnapshot & { completionDate: string } => snapshot.completionDate !== null)
+    .map(snapshot => ({
+      date: snapshot.date,
+      x: parseDateKey(snapshot.date).getTime(),
+      y: parseDateKey(snapshot.completionDate).getTime(),
+      completionDate: snapshot.completionDate,
+    }));
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length < 2 || !first || !last) {
+    container.innerHTML = `
+      <div class="burnup-predictor-drift-title">Forecast Drift</div>
+      <div class="burnup-predictor-drift-empty">
+        Collecting daily predictions (${points.length} so far). The drift chart appears after two days with a predicted end date.
+      </div>
+    `;
+    return;
+  }
+
+  const drift = Math.round((last.y - first.y) / DAY_MS);
+  const driftClass = drift > 0 ? 'danger' : drift < 0 ? 'success' : '';
+  const driftText = drift === 0
+    ? 'No change'
+    : `${drift > 0 ? '+' : ''}${drift} days`;
+
+  container.innerHTML = `
+    <div class="burnup-predictor-drift-header">
+      <span class="burnup-predictor-drift-title">Forecast Drift</span>
+      <span class="burnup-predictor-drift-summary ${driftClass}">
+        ${driftText} since ${first.date}
+      </span>
+    </div>
+  `;
+
+  const yValues = points.map(p => p.y);
+  if (dueDate) {
+    yValues.push(dueDate.getTime());
+  }
+  let yMin = Math.min(...yValues);
+  let yMax = Math.max(...yValues);
+  if (yMin === yMax) {
+    yMin -= DAY_MS;
+    yMax += DAY_MS;
+  }
+  const xMin = first.x;
+  const xMax = last.x === first.x ? first.x + DAY_MS : last.x;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const toX = (x: number): number => PADDING.left + ((x - xMin) / (xMax - xMin)) * plotWidth;
+  const toY = (y: number): number => PADDING.top + plotHeight - ((y - yMin) / (yMax - yMin)) * plotHeight;
+
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('class', 'burnup-predictor-drift-chart');
+  svg.setAttribute('viewBox', `0 0 ${WIDTH} ${HEIGHT}`);
+
+  // Y axis labels (earliest and latest predicted date)
+  svg.appendChild(createText(toDateKey(new Date(yMax)), PADDING.left - 8, toY(yMax) + 4, 'end'));
+  svg.appendChild(createText(toDateKey(new Date(yMin)), PADDING.left - 8, toY(yMin) + 4, 'end'));
+
+  // X axis labels (first and last snapshot)
+  svg.appendChild(createText(first.date, PADDING.left, HEIGHT - 6, 'start'));
+  svg.appendChild(createText(last.date, WIDTH - PADDING.right, HEIGHT - 6, 'end'));
+
+  if (dueDate) {
+    const dueLine = document.createElementNS(SVG_NS, 'line');
+    dueLine.setAttribute('class', 'burnup-predictor-drift-due');
+    dueLine.setAttribute('x1', String(PADDING.left));
+    dueLine.setAttribute('x2', String(WIDTH - PADDING.right));
+    dueLine.setAttribute('y1', String(toY(dueDate.getTime())));
+    dueLine.setAttribute('y2', String(toY(dueDate.getTime())));
+    svg.appendChild(dueLine);
+  }
+
+  const polyline = document.createElementNS(SVG_NS, 'polyline');
+  polyline.setAttribute('class', 'burnup-predictor-drift-line');
+  polyline.setAttribute('points', points.map(p => `${toX(p.x)},${toY(p.y)}`).join(' '));
+  svg.appendChild(polyline);
+
+  for (const point of points) {
+    const dot = document.createElementNS(SVG_NS, 'circle');
+    dot.setAttribute('class', 'burnup-predictor-drift-point');
+    dot.setAttribute('cx', String(toX(point.x)));
+    dot.setAttribute('cy', String(toY(point.y)));
+    dot.setAttribute('r', '3');
+    const title = document.createElementNS(SVG_NS, 'title');
+    title.textContent = `${point.date}: predicted ${point.completionDate}`;
+    dot.appendChild(title);
+    svg.appendChild(dot);
+  }
+
+  container.appendChild(svg);
+}
+
+function createText(text: string, x: number, y: number, anchor: 'start' | 'end'): SVGTextElement {
+  const element = document.createElementNS(SVG_NS, 'text');
+  element.setAttribute('class', 'burnup-predictor-drift-label');
+  element.setAttribute('x', String(x));
+  element.setAttribute('y', String(y));
+  element.setAttribute('text-anchor', anchor);
+  element.textContent = text;
+  return element;
+}
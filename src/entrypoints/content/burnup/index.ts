@@ -1,15 +1,46 @@
 // GitHub Burnup Predictor - Burnup Feature Entry Point
 
-import type { Velocity, BurnupChartData } from './types';
+import type { Velocity, BurnupChartData, MonteCarloForecast, PredictionExtras } from './types';
 import { injectBridgeScript } from '../shared/script-injector';
 import { validateXAxis, validatePeriod } from './chart-config-validator';
 import { showConfigWarning } from './config-warning';
-import { calculateVelocity } from './velocity-calculator';
-import { calculatePrediction } from './prediction-calculator';
+import { calculateModelVelocity, filterSnapshotsByVelocityModel } from './velocity-models';
+import { calculatePrediction, calculateMilestonePredictions } from './prediction-calculator';
+import { getDailyThroughput, getForecastCacheKey, runMonteCarloForecast } from './monte-carlo';
+import { calculateScopeGrowth, calculateScopeAdjustedPrediction } from './scope-forecast';
 import { createStatsPanel, updatePrediction } from './stats-panel';
 import { drawOverlay } from './chart-overlay';
-import { getLookbackDays, getTargetDate } from './settings';
-import { matchesStorageKey, generateStorageKey, STORAGE_KEY_BURNUP_LOOKBACK_DAYS, STORAGE_KEY_BURNUP_TARGET_DATE } from '../shared/storage-key';
+import { createPredictionSnapshot, recordPredictionSnapshot } from './prediction-history';
+import { renderForecastDrift } from './forecast-drift';
+import { calculateBurndown } from './burndown';
+import { DEFAULT_VALUE_UNIT, filterSnapshotsByUnit, findOtherUnitSnapshot } from './value-unit';
+import { buildBurnupExport, bindExportActions } from './export';
+import { buildBurnupSummary, bindCopySummaryAction } from './summary';
+import {
+  getLookbackDays,
+  getTargetDate,
+  getForecastMode,
+  getScopeMode,
+  getWorkingCalendar,
+  getVelocityModel,
+  getMilestones,
+  getUnitMode,
+  getDisplayMode,
+} from './settings';
+import {
+  matchesStorageKey,
+  STORAGE_KEY_BURNUP_LOOKBACK_DAYS,
+  STORAGE_KEY_BURNUP_TARGET_DATE,
+  STORAGE_KEY_BURNUP_FORECAST_MODE,
+  STORAGE_KEY_BURNUP_SCOPE_MODE,
+  STORAGE_KEY_BURNUP_WORKING_CALENDAR,
+  STORAGE_KEY_BURNUP_VELOCITY_MODEL,
+  STORAGE_KEY_BURNUP_MILESTONES,
+  STORAGE_KEY_BURNUP_UNIT_MODE,
+  STORAGE_KEY_BURNUP_DISPLAY_MODE,
+  type StorageKey,
+} from '../shared/storage-key';
+import { isGlobalDefaultsChange } from '../shared/global-defaults';
 import './style.css';
 
 export async function initializeBurnup(): Promise<void> {
@@ -24,6 +55,8 @@ export async function initializeBurnup(): Promise<void> {
   let startDate: Date | null = null;
   let startValue = 0;
   let lastChartWidth = 0;
+  // Last Monte Carlo run; the simulation is too slow to repeat on every redraw
+  let forecastCache: { key: string; forecast: MonteCarloForecast } | null = null;
 
   async function recalculate(): Promise<void> {
     if (!chartData || !startDate) {
@@ -31,12 +64,16 @@ export async function initializeBurnup(): Promise<void> {
     }
 
     const lookbackDays = await getLookbackDays();
+    const calendar = await getWorkingCalendar();
+    const velocityModel = await getVelocityModel();
 
-    const velocityResult = calculateVelocity(
+    const velocityResult = calculateModelVelocity(
+      velocityModel,
       chartData.completedData, 
       startDate, 
       startValue,
-      lookbackDays
+      lookbackDays,
+      calendar
     );
     const velocity: Velocity = {
       ...velocityResult,
@@ -58,17 +95,74 @@ export async function initializeBurnup(): Promise<void> {
     const prediction = calculatePrediction(
       chartData, 
       velocity.current, 
-      dueDate
+      dueDate,
+      calendar
     );
 
+    // Keep today's prediction so the forecast drift can be tracked across visits
+    const unit = chartData.valueUnit ?? DEFAULT_VALUE_UNIT;
+    const history = await recordPredictionSnapshot(createPredictionSnapshot(
+      prediction.completionDate,
+      velocity.current,
+      chartData.total,
+      chartData.completed,
+      unit.kind,
+      velocityModel
+    ));
+    // Snapshots of other models would mix two velocity definitions in one series
+    const modelHistory = filterSnapshotsByVelocityModel(history, velocityModel);
+
+    const extras: PredictionExtras = { calendar, unit };
+    if (await getUnitMode() === 'both') {
+      extras.otherUnitSnapshot = findOtherUnitSnapshot(modelHistory, unit.kind);
+    }
+    if (await getForecastMode() === 'monteCarlo') {
+      const samples = getDailyThroughput(chartData.completedData, lookbackDays, calendar);
+      const remaining = Math.max(0, chartData.total - chartData.completed);
+      const key = getForecastCacheKey(remaining, samples, calendar);
+      if (forecastCache?.key !== key) {
+        forecastCache = { key, forecast: runMonteCarloForecast(remaining, samples, { calendar }) };
+      }
+      extras.forecast = forecastCache.forecast;
+    }
+    if (await getScopeMode() === 'growing') {
+      const scopeGrowth = calculateScopeGrowth(chartData.openData, lookbackDays, calendar);
+      extras.scopeForecast = calculateScopeAdjustedPrediction(
+        chartData,
+        velocity.current,
+        scopeGrowth.rate,
+        dueDate,
+        calendar
+      );
+    }
+
+    if (await getDisplayMode() === 'burndown') {
+      extras.burndown = calculateBurndown(chartData, velocity, prediction, calendar);
+    }
+
+    const milestones = await getMilestones();
+    if (milestones.length > 0) {
+      extras.milestones = calculateMilestonePredictions(chartData, velocity.current, milestones, calendar);
+    }
+
     await updatePrediction({
       current: velocity.current,
       ideal: prediction.idealVelocity,
-    }, prediction);
+    }, prediction, extras);
 
     if (chartData.chartInfo) {
-      drawOverlay(chartData.chartInfo, chartData, velocity, prediction);
+      drawOverlay(chartData.chartInfo, chartData, velocity, prediction, extras);
     }
+
+    bindCopySummaryAction(buildBurnupSummary(
+      chartData,
+      { current: velocity.current, ideal: prediction.idealVelocity },
+      prediction,
+      calendar
+    ));
+    bindExportActions(buildBurnupExport(chartData, velocity, prediction, { velocityModel, lookbackDays }));
+
+    renderForecastDrift(filterSnapshotsByUnit(modelHistory, unit.kind), prediction.dueDate);
   }
 
   async function updateChartInfoAndRedraw(): Promise<void> {
@@ -134,16 +228,21 @@ export async function initializeBurnup(): Promise<void> {
     }
     
     // Check if any of the changed keys match our storage key patterns
-    const currentLookbackKey = generateStorageKey(STORAGE_KEY_BURNUP_LOOKBACK_DAYS);
-    const currentTargetDateKey = generateStorageKey(STORAGE_KEY_BURNUP_TARGET_DATE);
-    
-    const shouldRecalculate = Object.keys(changes).some(key => {
-      // Check if the changed key matches our current keys or base patterns
-      return key === currentLookbackKey || 
-             key === currentTargetDateKey ||
-             matchesStorageKey(key, STORAGE_KEY_BURNUP_LOOKBACK_DAYS) ||
-             matchesStorageKey(key, STORAGE_KEY_BURNUP_TARGET_DATE);
-    });
+    const watchedKeys: StorageKey[] = [
+      STORAGE_KEY_BURNUP_LOOKBACK_DAYS,
+      STORAGE_KEY_BURNUP_TARGET_DATE,
+      STORAGE_KEY_BURNUP_FORECAST_MODE,
+      STORAGE_KEY_BURNUP_SCOPE_MODE,
+      STORAGE_KEY_BURNUP_WORKING_CALENDAR,
+      STORAGE_KEY_BURNUP_VELOCITY_MODEL,
+      STORAGE_KEY_BURNUP_MILESTONES,
+      STORAGE_KEY_BURNUP_UNIT_MODE,
+      STORAGE_KEY_BURNUP_DISPLAY_MODE,
+    ];
+
+    const shouldRecalculate = isGlobalDefaultsChange(changes) || Object.keys(changes).some(key => 
+      watchedKeys.some(baseKey => matchesStorageKey(key, baseKey))
+    );
     
     if (shouldRecalculate) {
       recalculate();
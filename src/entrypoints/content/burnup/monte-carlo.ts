@@ -0,0 +1,174 @@
+// GitHub Burnup Predictor - Monte Carlo Forecast Module
+// Responsibility: Forecast completion dates by resampling daily throughput
+
+import type { DataPoint, MonteCarloForecast, WorkingCalendar } from './types';
+import { addWorkingDays, countWorkingDays, hasNonWorkingDays, isWorkingDay, toDateKey } from './working-calendar';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DEFAULT_TRIALS = 10000;
+// Give up on a simulated run after ~10 years; such runs count as "never finishes"
+const MAX_SIMULATED_DAYS = 3650;
+// Simulated days across all trials; the simulation runs on the page thread, so slow
+// throughput gets fewer trials instead of blocking the page
+const MAX_SIMULATED_STEPS = 1000000;
+
+export interface MonteCarloOptions {
+  trials?: number;
+  /** Random number source in [0, 1), injectable for deterministic tests */
+  random?: () => number;
+  today?: Date;
+  /** Each simulated day is a working day of this calendar */
+  calendar?: WorkingCalendar | null;
+}
+
+/**
+ * Derive daily throughput samples from the Completed series
+ *
+ * The chart is sampled at most once per day, but flat stretches may be
+ * represented by a single segment spanning several days. Each segment's
+ * progress is spread evenly over the days it covers so that every day in the
+ * lookback window contributes exactly one sample. With a working calendar
+ * only working days produce samples and carry the segment's progress.
+ *
+ * @param completedData Array of completed data points
+ * @param lookbackDays Number of days to look back (default: 21)
+ * @param calendar Working calendar used to skip non-working days
+ * @returns Throughput per day, oldest first (empty if not enough data)
+ */
+export function getDailyThroughput(
+  completedData: DataPoint[],
+  lookbackDays: number = 21,
+  calendar?: WorkingCalendar | null
+): number[] {
+  if (!completedData || completedData.length === 0) {
+    return [];
+  }
+
+  const now = new Date();
+  const todayEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+  const lookbackDate = new Date(todayEnd);
+  lookbackDate.setDate(lookbackDate.getDate() - lookbackDays);
+
+  const sortedData = completedData
+    .map(p => ({
+      date: p.date instanceof Date ? p.date : new Date(p.date),
+      value: p.value,
+    }))
+    .filter(p => !isNaN(p.date.getTime()) && !isNaN(p.value) && p.date.getTime() <= todayEnd.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Keep the last point before the window as the baseline for the first segment
+  const firstInWindow = sortedData.findIndex(p => p.date.getTime() >= lookbackDate.getTime());
+  if (firstInWindow === -1) {
+    return [];
+  }
+  const [baseline, ...rest] = sortedData.slice(Math.max(0, firstInWindow - 1));
+  if (!baseline) {
+    return [];
+  }
+
+  const samples: number[] = [];
+  let previous = baseline;
+  for (const current of rest) {
+    const days = Math.max(1, Math.round((current.date.getTime() - previous.date.getTime()) / DAY_MS));
+    const workingDays = hasNonWorkingDays(calendar)
+      ? Array.from({ length: days }, (_, d) => new Date(previous.date.getTime() + d * DAY_MS))
+        .filter(day => isWorkingDay(day, calendar))
+      : null;
+    // Progress made entirely on non-working days is credited as a single sample
+    const sampleCount = workingDays ? Math.max(1, workingDays.length) : days;
+    // Reopened items show up as negative progress; they don't add throughput
+    const perDay = Math.max(0, current.value - previous.value) / sampleCount;
+    for (let d = 0; d < sampleCount; d++) {
+      samples.push(perDay);
+    }
+    previous = current;
+  }
+
+  const windowDays = hasNonWorkingDays(calendar)
+    ? Math.max(1, Math.round(countWorkingDays(lookbackDate, todayEnd, calendar)))
+    : lookbackDays;
+  return samples.slice(-windowDays);
+}
+
+/**
+ * Key of the inputs a forecast depends on
+ * Redraws (resizes, unrelated settings changes) reuse the last forecast while the key is unchanged
+ * @param remaining Remaining work (points)
+ * @param samples Daily throughput samples (see getDailyThroughput)
+ * @param calendar Working calendar of the simulated days
+ * @param today Day the forecast starts from
+ */
+export function getForecastCacheKey(
+  remaining: number,
+  samples: number[],
+  calendar: WorkingCalendar | null,
+  today: Date = new Date()
+): string {
+  return JSON.stringify([toDateKey(today), remaining, samples, calendar]);
+}
+
+/**
+ * Run a Monte Carlo simulation of the remaining work
+ *
+ * Each trial draws a random day from the historical throughput samples until
+ * the remaining work is done; the distribution of trial lengths gives the
+ * 50/85/95% confidence dates. Simulated days are working days when a
+ * calendar is given.
+ *
+ * The work is bounded: a trial stops as soon as even the best sampled day
+ * every day could not finish within the horizon, and no more trials start
+ * once MAX_SIMULATED_STEPS days have been simulated in total (the result
+ * reports the trials actually run).
+ *
+ * @param remaining Remaining work (points)
+ * @param samples Daily throughput samples (see getDailyThroughput)
+ * @param options Simulation options
+ */
+export function runMonteCarloForecast(
+  remaining: number,
+  samples: number[],
+  options: MonteCarloOptions = {}
+): MonteCarloForecast {
+  const trials = options.trials ?? DEFAULT_TRIALS;
+  const random = options.random ?? Math.random;
+  const today = options.today ?? new Date();
+  const calendar = options.calendar ?? null;
+
+  if (remaining <= 0) {
+    return { p50: today, p85: today, p95: today, trials: 0, sampleDays: samples.length };
+  }
+
+  if (samples.length === 0 || !samples.some(sample => sample > 0)) {
+    return { p50: null, p85: null, p95: null, trials: 0, sampleDays: samples.length };
+  }
+
+  const bestDay = Math.max(...samples);
+  const durations: number[] = [];
+  let simulatedSteps = 0;
+  while (durations.length < trials && simulatedSteps < MAX_SIMULATED_STEPS) {
+    let done = 0;
+    let days = 0;
+    while (done < remaining && done + bestDay * (MAX_SIMULATED_DAYS - days) >= remaining) {
+      done += samples[Math.floor(random() * samples.length)] ?? 0;
+      days++;
+    }
+    simulatedSteps += days;
+    durations.push(done >= remaining ? days : Infinity);
+  }
+  durations.sort((a, b) => a - b);
+
+  const toDate = (percentile: number): Date | null => {
+    const index = Math.min(durations.length - 1, Math.max(0, Math.ceil(percentile * durations.length) - 1));
+    const days = durations[index] ?? Infinity;
+    return isFinite(days) ? addWorkingDays(today, days, calendar) : null;
+  };
+
+  return {
+    p50: toDate(0.5),
+    p85: toDate(0.85),
+    p95: toDate(0.95),
+    trials: durations.length,
+    sampleDays: samples.length,
+  };
+}
@@ -1,18 +1,21 @@
 // GitHub Burnup Predictor - Prediction Calculator Module
 // Responsibility: Calculate predictions
 
-import type { BurnupChartData, Prediction } from './types';
+import type { BurnupChartData, Milestone, MilestonePrediction, Prediction, WorkingCalendar } from './types';
+import { addWorkingDays, countWorkingDays, parseDateKey } from './working-calendar';
 
 /**
  * Calculate prediction
  * @param data Chart data
- * @param currentVelocity Current velocity per day
+ * @param currentVelocity Current velocity per day (per working day when a calendar is given)
  * @param dueDate Due date
+ * @param calendar Working calendar; the completion date skips non-working days
  */
 export function calculatePrediction(
   data: BurnupChartData, 
   currentVelocity: number | null, 
-  dueDate: Date | null
+  dueDate: Date | null,
+  calendar?: WorkingCalendar | null
 ): Prediction {
   const remaining = Math.max(0, data.total - data.completed);
   const today = new Date();
@@ -29,9 +32,9 @@ export function calculatePrediction(
 
   let completionDate: Date | null = null;
   if (currentVelocity && currentVelocity > 0) {
-    // Velocity is per day, so calculate days needed directly
+    // Velocity is per (working) day, so calculate days needed directly
     const daysToComplete = remaining / currentVelocity;
-    completionDate = new Date(today.getTime() + daysToComplete * 24 * 60 * 60 * 1000);
+    completionDate = addWorkingDays(today, daysToComplete, calendar);
   }
 
   let idealVelocity: number | null = null;
@@ -39,9 +42,9 @@ export function calculatePrediction(
   let daysAhead: number | null = null;
 
   if (dueDate) {
-    const daysUntilDue = (dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24);
+    const daysUntilDue = countWorkingDays(today, dueDate, calendar);
     if (daysUntilDue > 0) {
-      // Calculate ideal velocity per day
+      // Calculate ideal velocity per (working) day
       idealVelocity = remaining / daysUntilDue;
     }
 
@@ -59,3 +62,28 @@ export function calculatePrediction(
     daysAhead,
   };
 }
+
+/**
+ * Calculate a prediction for each milestone
+ * Each milestone is predicted like the main target, with its own scope and due date.
+ * @param data Chart data
+ * @param currentVelocity Current velocity per day (per working day when a calendar is given)
+ * @param milestones Milestones to predict
+ * @param calendar Working calendar; the completion dates skip non-working days
+ */
+export function calculateMilestonePredictions(
+  data: BurnupChartData,
+  currentVelocity: number | null,
+  milestones: Milestone[],
+  calendar?: WorkingCalendar | null
+): MilestonePrediction[] {
+  return milestones.map(milestone => ({
+    milestone,
+    prediction: calculatePrediction(
+      { ...data, total: milestone.scope ?? data.total },
+      currentVelocity,
+      parseDateKey(milestone.date),
+      calendar
+    ),
+  }));
+}
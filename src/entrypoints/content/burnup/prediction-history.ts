@@ -0,0 +1,121 @@
+// GitHub Burnup Predictor - Prediction History Module
+// Responsibility: Persist daily prediction snapshots per insight
+
+import type { PredictionSnapshot, ValueUnitKind, VelocityModel } from './types';
+import { toDateKey } from './working-calendar';
+import { getSnapshotUnit } from './value-unit';
+import { getSnapshotVelocityModel } from './velocity-models';
+import { isVelocityModel } from './settings';
+import { STORAGE_KEY_BURNUP_PREDICTION_HISTORY } from '../shared/storage-key';
+import { getSetting, isArray, setSetting } from '../shared/storage';
+
+// Keep about a year of daily snapshots per insight, unit and velocity model
+const MAX_SNAPSHOTS = 365;
+
+/**
+ * Create a snapshot of today's prediction
+ * @param completionDate Predicted completion date (null if it cannot be calculated)
+ * @param velocity Current velocity
+ * @param total Total scope
+ * @param completed Completed points
+ * @param unit Y axis unit the values are in
+ * @param velocityModel Model the velocity was calculated with
+ */
+export function createPredictionSnapshot(
+  completionDate: Date | null,
+  velocity: number | null,
+  total: number,
+  completed: number,
+  unit: ValueUnitKind = 'sum',
+  velocityModel: VelocityModel = 'endpoint'
+): PredictionSnapshot {
+  return {
+    date: toDateKey(new Date()),
+    completionDate: completionDate ? toDateKey(completionDate) : null,
+    velocity,
+    total,
+    completed,
+    unit,
+    velocityModel,
+  };
+}
+
+/**
+ * Insert a snapshot into the history, replacing any snapshot of the same day, unit and velocity model
+ * @returns New history sorted by date, trimmed to the newest MAX_SNAPSHOTS entries per unit and model
+ */
+export function upsertSnapshot(
+  history: PredictionSnapshot[],
+  snapshot: PredictionSnapshot
+): PredictionSnapshot[] {
+  const isSameSeries = (entry: PredictionSnapshot): boolean =>
+    getSnapshotUnit(entry) === getSnapshotUnit(snapshot)
+    && getSnapshotVelocityModel(entry) === getSnapshotVelocityModel(snapshot);
+  const sorted = [...history.filter(entry => !(entry.date === snapshot.date && isSameSeries(entry))), snapshot]
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Trim only the series being recorded so a busy unit or model never pushes out the others
+  const sameSeries = sorted.filter(isSameSeries);
+  const dropped = new Set(sameSeries.slice(0, Math.max(0, sameSeries.length - MAX_SNAPSHOTS)));
+  return sorted.filter(entry => !dropped.has(entry));
+}
+
+/**
+ * Get the prediction history for the current insight
+ * @returns Promise resolving to snapshots sorted by date (empty if none)
+ */
+export async function getPredictionHistory(): Promise<PredictionSnapshot[]> {
+  try {
+    const history = await getSetting(STORAGE_KEY_BURNUP_PREDICTION_HISTORY, isArray);
+    return history ? history.filter(isPredictionSnapshot) : [];
+  } catch (error) {
+    console.error('Failed to get prediction history:', error);
+    return [];
+  }
+}
+
+/**
+ * Record a snapshot for the current insight
+ * Storage is only written when today's snapshot changes, so redraws with the same prediction are free
+ * @param snapshot Snapshot to record (replaces today's snapshot if one exists)
+ * @returns Promise resolving to the updated history
+ */
+export async function recordPredictionSnapshot(snapshot: PredictionSnapshot): Promise<PredictionSnapshot[]> {
+  const stored = await getPredictionHistory();
+  if (stored.some(entry => isSameSnapshot(entry, snapshot))) {
+    return stored;
+  }
+
+  const history = upsertSnapshot(stored, snapshot);
+
+  try {
+    await setSetting(STORAGE_KEY_BURNUP_PREDICTION_HISTORY, history);
+  } catch (error) {
+    console.error('Failed to record prediction snapshot:', error);
+  }
+
+  return history;
+}
+
+function isSameSnapshot(a: PredictionSnapshot, b: PredictionSnapshot): boolean {
+  return a.date === b.date
+    && getSnapshotUnit(a) === getSnapshotUnit(b)
+    && getSnapshotVelocityModel(a) === getSnapshotVelocityModel(b)
+    && a.completionDate === b.completionDate
+    && a.velocity === b.velocity
+    && a.total === b.total
+    && a.completed === b.completed;
+}
+
+function isPredictionSnapshot(value: unknown): value is PredictionSnapshot {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const snapshot = value as Partial<PredictionSnapshot>;
+  return typeof snapshot.date === 'string'
+    && (snapshot.completionDate === null || typeof snapshot.completionDate === 'string')
+    && typeof snapshot.total === 'number'
+    && typeof snapshot.completed === 'number'
+    && (snapshot.unit === undefined || snapshot.unit === 'count' || snapshot.unit === 'sum')
+    && (snapshot.velocityModel === undefined || isVelocityModel(snapshot.velocityModel));
+}
@@ -0,0 +1,126 @@
+// GitHub Burnup Predictor - Scope Forecast Module
+// Responsibility: Estimate scope growth from the Open series and predict where completed work catches up
+
+import type { BurnupChartData, DataPoint, ScopeAdjustedPrediction, ScopeGrowth, WorkingCalendar } from './types';
+import { addWorkingDays, countWorkingDays } from './working-calendar';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const EMPTY_SCOPE_GROWTH: ScopeGrowth = {
+  rate: null,
+  periodStartDate: null,
+  periodEndDate: null,
+  periodStartValue: null,
+  periodEndValue: null,
+};
+
+/**
+ * Calculate the scope growth rate (points per day) from the Open series
+ *
+ * In GitHub's stacked burnup chart the top of the Open series is the total
+ * scope, so its slope over the lookback period is how fast scope is growing.
+ * Uses the same window as the velocity calculation: the first and last points
+ * within the last `lookbackDays` days up to today.
+ *
+ * @param openData Array of open (total scope) data points
+ * @param lookbackDays Number of days to look back (default: 21)
+ * @param calendar Working calendar; the rate is per working day when given
+ */
+export function calculateScopeGrowth(
+  openData: DataPoint[] | undefined,
+  lookbackDays: number = 21,
+  calendar?: WorkingCalendar | null
+): ScopeGrowth {
+  if (!openData || openData.length === 0) {
+    return { ...EMPTY_SCOPE_GROWTH };
+  }
+
+  const now = new Date();
+  const todayEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+  const lookbackDate = new Date(todayEnd);
+  lookbackDate.setDate(lookbackDate.getDate() - lookbackDays);
+
+  const recentPoints = openData
+    .map(p => ({
+      date: p.date instanceof Date ? p.date : new Date(p.date),
+      value: p.value,
+    }))
+    .filter(p => !isNaN(p.date.getTime()) && !isNaN(p.value))
+    .filter(p => p.date.getTime() >= lookbackDate.getTime() && p.date.getTime() <= todayEnd.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const first = recentPoints[0];
+  const last = recentPoints[recentPoints.length - 1];
+  if (recentPoints.length < 2 || !first || !last) {
+    return { ...EMPTY_SCOPE_GROWTH };
+  }
+
+  const days = countWorkingDays(first.date, last.date, calendar);
+
+  if (days <= 0) {
+    return { ...EMPTY_SCOPE_GROWTH };
+  }
+
+  return {
+    rate: (last.value - first.value) / days,
+    periodStartDate: first.date,
+    periodEndDate: last.date,
+    periodStartValue: first.value,
+    periodEndValue: last.value,
+  };
+}
+
+/**
+ * Predict completion when the scope keeps growing
+ *
+ * Projects both lines forward from today:
+ *   completed(t) = completed + velocity * t
+ *   scope(t)     = total + growthRate * t
+ * and returns the date they meet. If velocity does not outpace scope growth
+ * the lines never meet and the completion date is null.
+ *
+ * @param data Chart data
+ * @param currentVelocity Current velocity per day
+ * @param scopeGrowthRate Scope growth per day (null is treated as no growth)
+ * @param dueDate Due date
+ * @param calendar Working calendar; the completion date skips non-working days
+ */
+export function calculateScopeAdjustedPrediction(
+  data: BurnupChartData,
+  currentVelocity: number | null,
+  scopeGrowthRate: number | null,
+  dueDate: Date | null,
+  calendar?: WorkingCalendar | null
+): ScopeAdjustedPrediction {
+  const remaining = Math.max(0, data.total - data.completed);
+  const growthRate = scopeGrowthRate ?? 0;
+  const today = new Date();
+
+  let completionDate: Date | null = null;
+  let projectedScope: number | null = null;
+
+  if (remaining === 0) {
+    completionDate = today;
+    projectedScope = data.total;
+  } else if (currentVelocity && currentVelocity > growthRate) {
+    const daysToComplete = remaining / (currentVelocity - growthRate);
+    completionDate = addWorkingDays(today, daysToComplete, calendar);
+    projectedScope = data.total + growthRate * daysToComplete;
+  }
+
+  let isOnTrack: boolean | null = null;
+  let daysAhead: number | null = null;
+
+  if (dueDate && completionDate) {
+    daysAhead = Math.round((dueDate.getTime() - completionDate.getTime()) / DAY_MS);
+    isOnTrack = daysAhead >= 0;
+  }
+
+  return {
+    scopeGrowthRate,
+    completionDate,
+    projectedScope,
+    isOnTrack,
+    daysAhead,
+  };
+}
@@ -1,29 +1,44 @@
 // GitHub Burnup Predictor - Settings Module
 // Responsibility: Manage user settings for velocity calculation
 
-import { generateStorageKey, STORAGE_KEY_BURNUP_LOOKBACK_DAYS, STORAGE_KEY_BURNUP_TARGET_DATE } from '../shared/storage-key';
+import type { DisplayMode, ForecastMode, Milestone, ScopeMode, UnitMode, VelocityModel, WorkingCalendar } from './types';
+import { DEFAULT_WORKING_CALENDAR, isValidWorkingCalendar, parseDateKey } from './working-calendar';
+import {
+  STORAGE_KEY_BURNUP_LOOKBACK_DAYS,
+  STORAGE_KEY_BURNUP_TARGET_DATE,
+  STORAGE_KEY_BURNUP_FORECAST_MODE,
+  STORAGE_KEY_BURNUP_SCOPE_MODE,
+  STORAGE_KEY_BURNUP_WORKING_CALENDAR,
+  STORAGE_KEY_BURNUP_VELOCITY_MODEL,
+  STORAGE_KEY_BURNUP_MILESTONES,
+  STORAGE_KEY_BURNUP_UNIT_MODE,
+  STORAGE_KEY_BURNUP_DISPLAY_MODE,
+} from '../shared/storage-key';
+import { getGlobalDefaults, isValidLookbackDays } from '../shared/global-defaults';
+import { getSetting, isArray, isNonEmptyString, removeSetting, setSetting } from '../shared/storage';
 
-const DEFAULT_LOOKBACK_DAYS = 21;
+const DEFAULT_FORECAST_MODE: ForecastMode = 'average';
+const FORECAST_MODES: ForecastMode[] = ['average', 'monteCarlo'];
+const DEFAULT_SCOPE_MODE: ScopeMode = 'fixed';
+const SCOPE_MODES: ScopeMode[] = ['fixed', 'growing'];
+const DEFAULT_VELOCITY_MODEL: VelocityModel = 'endpoint';
+const VELOCITY_MODELS: VelocityModel[] = ['endpoint', 'ewma', 'regression'];
+const DEFAULT_UNIT_MODE: UnitMode = 'current';
+const UNIT_MODES: UnitMode[] = ['current', 'both'];
+const DEFAULT_DISPLAY_MODE: DisplayMode = 'burnup';
+const DISPLAY_MODES: DisplayMode[] = ['burnup', 'burndown'];
 
 /**
  * Get the lookback days setting from storage
- * @returns Promise resolving to the number of days to look back (default: 21)
+ * @returns Promise resolving to the number of days to look back (default: the global default)
  */
 export async function getLookbackDays(): Promise<number> {
   try {
-    const storageKey = generateStorageKey(STORAGE_KEY_BURNUP_LOOKBACK_DAYS);
-    const result = await chrome.storage.local.get(storageKey);
-    const days = result[storageKey];
-    
-    // Validate the value
-    if (typeof days === 'number' && days >= 1 && days <= 365) {
-      return days;
-    }
-    
-    return DEFAULT_LOOKBACK_DAYS;
+    const days = await getSetting(STORAGE_KEY_BURNUP_LOOKBACK_DAYS, isValidLookbackDays);
+    return days ?? await getDefaultLookbackDays();
   } catch (error) {
     console.error('Failed to get lookback days setting:', error);
-    return DEFAULT_LOOKBACK_DAYS;
+    return await getDefaultLookbackDays();
   }
 }
 
@@ -34,13 +49,12 @@ export async function getLookbackDays(): Promise<number> {
  */
 export async function setLookbackDays(days: number): Promise<void> {
   // Validate the value
-  if (typeof days !== 'number' || days < 1 || days > 365) {
+  if (!isValidLookbackDays(days)) {
     throw new Error('Lookback days must be between 1 and 365');
   }
   
   try {
-    const storageKey = generateStorageKey(STORAGE_KEY_BURNUP_LOOKBACK_DAYS);
-    await chrome.storage.local.set({ [storageKey]: days });
+    await setSetting(STORAGE_KEY_BURNUP_LOOKBACK_DAYS, days);
   } catch (error) {
     console.error('Failed to set lookback days setting:', error);
     throw error;
@@ -48,10 +62,11 @@ export async function setLookbackDays(days: number): Promise<void> {
 }
 
 /**
- * Get the default lookback days value
+ * Get the default lookback days value (the global default set on the options page)
  */
-export function getDefaultLookbackDays(): number {
-  return DEFAULT_LOOKBACK_DAYS;
+export async function getDefaultLookbackDays(): Promise<number> {
+  const defaults = await getGlobalDefaults();
+  return defaults.lookbackDays;
 }
 
 /**
@@ -60,11 +75,9 @@ export function getDefaultLookbackDays(): number {
  */
 export async function getTargetDate(): Promise<Date | null> {
   try {
-    const storageKey = generateStorageKey(STORAGE_KEY_BURNUP_TARGET_DATE);
-    const result = await chrome.storage.local.get(storageKey);
-    const dateString = result[storageKey];
+    const dateString = await getSetting(STORAGE_KEY_BURNUP_TARGET_DATE, isNonEmptyString);
     
-    if (typeof dateString === 'string' && dateString) {
+    if (dateString) {
       const date = new Date(dateString);
       // Validate the date
       if (!isNaN(date.getTime())) {
@@ -90,10 +103,9 @@ export async function setTargetDate(date: Date): Promise<void> {
   }
   
   try {
-    const storageKey = generateStorageKey(STORAGE_KEY_BURNUP_TARGET_DATE);
     // Store as ISO string (YYYY-MM-DD format for date-only)
     const dateString = date.toISOString().split('T')[0];
-    await chrome.storage.local.set({ [storageKey]: dateString });
+    await setSetting(STORAGE_KEY_BURNUP_TARGET_DATE, dateString);
   } catch (error) {
     console.error('Failed to set target date setting:', error);
     throw error;
@@ -106,10 +118,284 @@ export async function setTargetDate(date: Date): Promise<void> {
  */
 export async function clearTargetDate(): Promise<void> {
   try {
-    const storageKey = generateStorageKey(STORAGE_KEY_BURNUP_TARGET_DATE);
-    await chrome.storage.local.remove(storageKey);
+    await removeSetting(STORAGE_KEY_BURNUP_TARGET_DATE);
   } catch (error) {
     console.error('Failed to clear target date setting:', error);
     throw error;
   }
 }
+
+/**
+ * Get the forecast mode setting from storage
+ * @returns Promise resolving to the forecast mode (default: 'average')
+ */
+export async function getForecastMode(): Promise<ForecastMode> {
+  try {
+    const mode = await getSetting(STORAGE_KEY_BURNUP_FORECAST_MODE, isForecastMode);
+    return mode ?? DEFAULT_FORECAST_MODE;
+  } catch (error) {
+    console.error('Failed to get forecast mode setting:', error);
+    return DEFAULT_FORECAST_MODE;
+  }
+}
+
+/**
+ * Set the forecast mode setting
+ * @param mode Forecast mode to use for the completion date
+ * @returns Promise resolving when the setting is saved
+ */
+export async function setForecastMode(mode: ForecastMode): Promise<void> {
+  if (!isForecastMode(mode)) {
+    throw new Error(`Unknown forecast mode: ${mode}`);
+  }
+
+  try {
+    await setSetting(STORAGE_KEY_BURNUP_FORECAST_MODE, mode);
+  } catch (error) {
+    console.error('Failed to set forecast mode setting:', error);
+    throw error;
+  }
+}
+
+export function isForecastMode(value: unknown): value is ForecastMode {
+  return typeof value === 'string' && (FORECAST_MODES as string[]).includes(value);
+}
+
+/**
+ * Get the unit mode setting from storage
+ * @returns Promise resolving to the unit mode (default: 'current')
+ */
+export async function getUnitMode(): Promise<UnitMode> {
+  try {
+    const mode = await getSetting(STORAGE_KEY_BURNUP_UNIT_MODE, isUnitMode);
+    return mode ?? DEFAULT_UNIT_MODE;
+  } catch (error) {
+    console.error('Failed to get unit mode setting:', error);
+    return DEFAULT_UNIT_MODE;
+  }
+}
+
+/**
+ * Set the unit mode setting
+ * @param mode Whether to show predictions in the current unit only or in both units
+ * @returns Promise resolving when the setting is saved
+ */
+export async function setUnitMode(mode: UnitMode): Promise<void> {
+  if (!isUnitMode(mode)) {
+    throw new Error(`Unknown unit mode: ${mode}`);
+  }
+
+  try {
+    await setSetting(STORAGE_KEY_BURNUP_UNIT_MODE, mode);
+  } catch (error) {
+    console.error('Failed to set unit mode setting:', error);
+    throw error;
+  }
+}
+
+export function isUnitMode(value: unknown): value is UnitMode {
+  return typeof value === 'string' && (UNIT_MODES as string[]).includes(value);
+}
+
+/**
+ * Get the display mode setting from storage
+ * @returns Promise resolving to the display mode (default: 'burnup')
+ */
+export async function getDisplayMode(): Promise<DisplayMode> {
+  try {
+    const mode = await getSetting(STORAGE_KEY_BURNUP_DISPLAY_MODE, isDisplayMode);
+    return mode ?? DEFAULT_DISPLAY_MODE;
+  } catch (error) {
+    console.error('Failed to get display mode setting:', error);
+    return DEFAULT_DISPLAY_MODE;
+  }
+}
+
+/**
+ * Set the display mode setting
+ * @param mode Whether to present the chart as a burnup or a burndown
+ * @returns Promise resolving when the setting is saved
+ */
+export async function setDisplayMode(mode: DisplayMode): Promise<void> {
+  if (!isDisplayMode(mode)) {
+    throw new Error(`Unknown display mode: ${mode}`);
+  }
+
+  try {
+    await setSetting(STORAGE_KEY_BURNUP_DISPLAY_MODE, mode);
+  } catch (error) {
+    console.error('Failed to set display mode setting:', error);
+    throw error;
+  }
+}
+
+export function isDisplayMode(value: unknown): value is DisplayMode {
+  return typeof value === 'string' && (DISPLAY_MODES as string[]).includes(value);
+}
+
+/**
+ * Get the scope mode setting from storage
+ * @returns Promise resolving to the scope mode (default: 'fixed')
+ */
+export async function getScopeMode(): Promise<ScopeMode> {
+  try {
+    const mode = await getSetting(STORAGE_KEY_BURNUP_SCOPE_MODE, isScopeMode);
+    return mode ?? DEFAULT_SCOPE_MODE;
+  } catch (error) {
+    console.error('Failed to get scope mode setting:', error);
+    return DEFAULT_SCOPE_MODE;
+  }
+}
+
+/**
+ * Set the scope mode setting
+ * @param mode Whether to treat the scope as fixed or growing
+ * @returns Promise resolving when the setting is saved
+ */
+export async function setScopeMode(mode: ScopeMode): Promise<void> {
+  if (!isScopeMode(mode)) {
+    throw new Error(`Unknown scope mode: ${mode}`);
+  }
+
+  try {
+    await setSetting(STORAGE_KEY_BURNUP_SCOPE_MODE, mode);
+  } catch (error) {
+    console.error('Failed to set scope mode setting:', error);
+    throw error;
+  }
+}
+
+export function isScopeMode(value: unknown): value is ScopeMode {
+  return typeof value === 'string' && (SCOPE_MODES as string[]).includes(value);
+}
+
+/**
+ * Get the working calendar setting from storage
+ * @returns Promise resolving to the working calendar (default: every day is a working day)
+ */
+export async function getWorkingCalendar(): Promise<WorkingCalendar> {
+  try {
+    const calendar = await getSetting(STORAGE_KEY_BURNUP_WORKING_CALENDAR, isValidWorkingCalendar);
+    return calendar ?? { ...DEFAULT_WORKING_CALENDAR };
+  } catch (error) {
+    console.error('Failed to get working calendar setting:', error);
+    return { ...DEFAULT_WORKING_CALENDAR };
+  }
+}
+
+/**
+ * Set the working calendar setting
+ * @param calendar Non-working weekdays (0-6, at least one working weekday) and 'YYYY-MM-DD' holidays
+ * @returns Promise resolving when the setting is saved
+ */
+export async function setWorkingCalendar(calendar: WorkingCalendar): Promise<void> {
+  if (!isValidWorkingCalendar(calendar)) {
+    throw new Error('Working calendar must keep at least one working weekday and use YYYY-MM-DD holidays');
+  }
+
+  try {
+    const normalized: WorkingCalendar = {
+      nonWorkingWeekdays: [...new Set(calendar.nonWorkingWeekdays)].sort((a, b) => a - b),
+      holidays: [...new Set(calendar.holidays)].sort(),
+    };
+    await setSetting(STORAGE_KEY_BURNUP_WORKING_CALENDAR, normalized);
+  } catch (error) {
+    console.error('Failed to set working calendar setting:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the velocity model setting from storage
+ * @returns Promise resolving to the velocity model (default: 'endpoint')
+ */
+export async function getVelocityModel(): Promise<VelocityModel> {
+  try {
+    const model = await getSetting(STORAGE_KEY_BURNUP_VELOCITY_MODEL, isVelocityModel);
+    return model ?? DEFAULT_VELOCITY_MODEL;
+  } catch (error) {
+    console.error('Failed to get velocity model setting:', error);
+    return DEFAULT_VELOCITY_MODEL;
+  }
+}
+
+/**
+ * Set the velocity model setting
+ * @param model Velocity model used to derive the current velocity
+ * @returns Promise resolving when the setting is saved
+ */
+export async function setVelocityModel(model: VelocityModel): Promise<void> {
+  if (!isVelocityModel(model)) {
+    throw new Error(`Unknown velocity model: ${model}`);
+  }
+
+  try {
+    await setSetting(STORAGE_KEY_BURNUP_VELOCITY_MODEL, model);
+  } catch (error) {
+    console.error('Failed to set velocity model setting:', error);
+    throw error;
+  }
+}
+
+export function isVelocityModel(value: unknown): value is VelocityModel {
+  return typeof value === 'string' && (VELOCITY_MODELS as string[]).includes(value);
+}
+
+/**
+ * Get the milestones setting from storage
+ * @returns Promise resolving to milestones sorted by date (empty if not set)
+ */
+export async function getMilestones(): Promise<Milestone[]> {
+  try {
+    const milestones = await getSetting(STORAGE_KEY_BURNUP_MILESTONES, isArray);
+    return milestones ? milestones.filter(isValidMilestone) : [];
+  } catch (error) {
+    console.error('Failed to get milestones setting:', error);
+    return [];
+  }
+}
+
+/**
+ * Set the milestones setting
+ * @param milestones Milestones with a name, a 'YYYY-MM-DD' date and an optional positive scope
+ * @returns Promise resolving when the setting is saved
+ */
+export async function setMilestones(milestones: Milestone[]): Promise<void> {
+  const invalid = milestones.find(milestone => !isValidMilestone(milestone));
+  if (invalid) {
+    throw new Error(`Invalid milestone: ${JSON.stringify(invalid)}`);
+  }
+
+  try {
+    const sorted = milestones
+      .map(milestone => ({ ...milestone, name: milestone.name.trim() }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    await setSetting(STORAGE_KEY_BURNUP_MILESTONES, sorted);
+  } catch (error) {
+    console.error('Failed to set milestones setting:', error);
+    throw error;
+  }
+}
+
+/**
+ * Validate a milestone
+ * - Name must not be empty
+ * - Date must be a valid 'YYYY-MM-DD' date
+ * - Scope must be unset, null (current total) or a positive number
+ */
+export function isValidMilestone(value: unknown): value is Milestone {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const milestone = value as Partial<Milestone>;
+  if (typeof milestone.name !== 'string' || milestone.name.trim() === '') {
+    return false;
+  }
+  if (typeof milestone.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(milestone.date)
+    || isNaN(parseDateKey(milestone.date).getTime())) {
+    return false;
+  }
+  return milestone.scope === null || milestone.scope === undefined
+    || (typeof milestone.scope === 'number' && isFinite(milestone.scope) && milestone.scope > 0);
+}
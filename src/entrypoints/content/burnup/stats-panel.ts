@@ -1,15 +1,52 @@
 // GitHub Burnup Predictor - Stats Panel Module
 // Responsibility: Create and update statistics panel
 
-import type { BurnupChartData, VelocityInfo, Prediction } from './types';
+import type { 
+  BurnupChartData, 
+  VelocityInfo, 
+  Prediction, 
+  PredictionExtras,
+  MonteCarloForecast, 
+  ScopeAdjustedPrediction,
+  MilestonePrediction,
+  Milestone,
+  PredictionSnapshot,
+  Burndown,
+  DisplayMode,
+  ForecastMode,
+  ScopeMode,
+  UnitMode,
+  ValueUnit,
+  VelocityModel,
+  WorkingCalendar
+} from './types';
 import { 
   getLookbackDays, 
   setLookbackDays, 
   getDefaultLookbackDays,
   getTargetDate,
   setTargetDate,
-  clearTargetDate
+  clearTargetDate,
+  getForecastMode,
+  setForecastMode,
+  getUnitMode,
+  setUnitMode,
+  getDisplayMode,
+  setDisplayMode,
+  getScopeMode,
+  setScopeMode,
+  getWorkingCalendar,
+  setWorkingCalendar,
+  getVelocityModel,
+  setVelocityModel,
+  getMilestones,
+  setMilestones
 } from './settings';
+import { hasNonWorkingDays } from './working-calendar';
+import { VELOCITY_MODEL_LABELS } from './velocity-models';
+import { DEFAULT_VALUE_UNIT, getSnapshotUnit, getUnitLabel } from './value-unit';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 /**
  * Create statistics panel
@@ -40,10 +77,22 @@ export function createStatsPanel(data: BurnupChartData): HTMLElement {
           <div class="burnup-predictor-legend-line ideal"></div>
           <span>Ideal velocity</span>
         </div>
-        <div class="burnup-predictor-legend-item">
+        <div class="burnup-predictor-legend-item burnup-predictor-legend-item-scope-target">
           <div class="burnup-predictor-legend-line scope-target"></div>
           <span>Scope target</span>
         </div>
+        <div class="burnup-predictor-legend-item burnup-predictor-legend-item-forecast" hidden>
+          <div class="burnup-predictor-legend-band"></div>
+          <span>Forecast range (50-95%)</span>
+        </div>
+        <div class="burnup-predictor-legend-item burnup-predictor-legend-item-scope" hidden>
+          <div class="burnup-predictor-legend-line projected-scope"></div>
+          <span>Projected scope</span>
+        </div>
+        <div class="burnup-predictor-legend-item burnup-predictor-legend-item-remaining" hidden>
+          <div class="burnup-predictor-legend-line remaining"></div>
+          <span>Remaining work</span>
+        </div>
       </div>
       <div class="burnup-predictor-legend-hint">
         Scope target = Total excluding closed issues such as Duplicate and Not planned
@@ -72,13 +121,38 @@ export function createStatsPanel(data: BurnupChartData): HTMLElement {
         <div class="burnup-predictor-progress-fill" style="width: ${completedPercent}%"></div>
       </div>
       <div class="burnup-predictor-progress-text">
-        <span>${data.completed} / ${data.total} points</span>
+        <span>${data.completed} / ${data.total} ${getUnitLabel(data.valueUnit ?? DEFAULT_VALUE_UNIT)}</span>
         <span>${completedPercent}% completed</span>
       </div>
     </div>
     <div class="burnup-predictor-prediction" id="burnup-prediction">
       <div class="burnup-predictor-loading">Analyzing data...</div>
     </div>
+    <div class="burnup-predictor-actions">
+      <button 
+        id="burnup-copy-summary" 
+        class="burnup-predictor-settings-button burnup-predictor-settings-button-secondary" 
+        disabled
+      >
+        Copy summary
+      </button>
+      <button 
+        id="burnup-export-csv" 
+        class="burnup-predictor-settings-button burnup-predictor-settings-button-secondary" 
+        disabled
+      >
+        Export CSV
+      </button>
+      <button 
+        id="burnup-export-json" 
+        class="burnup-predictor-settings-button burnup-predictor-settings-button-secondary" 
+        disabled
+      >
+        Export JSON
+      </button>
+    </div>
+    <div class="burnup-predictor-drift" id="burnup-forecast-drift">
+    </div>
     <div class="burnup-predictor-settings" id="burnup-predictor-settings">
     </div>
   `;
@@ -102,11 +176,44 @@ export function createStatsPanel(data: BurnupChartData): HTMLElement {
 
 /**
  * Update prediction information
+ * @param extras Optional analyses (Monte Carlo forecast, scope-adjusted prediction) enabled by settings
  */
-export async function updatePrediction(velocity: VelocityInfo, prediction: Prediction): Promise<void> {
+export async function updatePrediction(
+  velocity: VelocityInfo, 
+  prediction: Prediction,
+  extras: PredictionExtras = {}
+): Promise<void> {
   const container = document.getElementById('burnup-prediction');
   if (!container) return;
 
+  const {
+    forecast = null,
+    scopeForecast = null,
+    calendar = null,
+    milestones = [],
+    unit = DEFAULT_VALUE_UNIT,
+    otherUnitSnapshot = null,
+    burndown = null,
+  } = extras;
+  const velocityUnit = hasNonWorkingDays(calendar) ? ' / Working Day' : ' / Day';
+
+  const forecastLegend = document.querySelector('.burnup-predictor-legend-item-forecast') as HTMLElement | null;
+  if (forecastLegend) {
+    forecastLegend.hidden = !forecast;
+  }
+  const scopeLegend = document.querySelector('.burnup-predictor-legend-item-scope') as HTMLElement | null;
+  if (scopeLegend) {
+    scopeLegend.hidden = !scopeForecast;
+  }
+  const remainingLegend = document.querySelector('.burnup-predictor-legend-item-remaining') as HTMLElement | null;
+  if (remainingLegend) {
+    remainingLegend.hidden = !burndown;
+  }
+  const scopeTargetLegend = document.querySelector('.burnup-predictor-legend-item-scope-target') as HTMLElement | null;
+  if (scopeTargetLegend) {
+    scopeTargetLegend.hidden = !!burndown;
+  }
+
   const formatDate = (date: Date | null): string => {
     if (!date) return 'Cannot calculate';
     const year = date.getFullYear();
@@ -117,7 +224,7 @@ export async function updatePrediction(velocity: VelocityInfo, prediction: Predi
 
   const formatVelocity = (v: number | null | undefined): string => {
     if (v === null || v === undefined || isNaN(v)) return '-';
-    return v.toFixed(2) + ' / Day';
+    return v.toFixed(2) + velocityUnit;
   };
 
   let predictionClass = '';
@@ -129,23 +236,31 @@ export async function updatePrediction(velocity: VelocityInfo, prediction: Predi
     predictionClass = 'warning';
   }
 
-  // Get lookback days for display
+  // Get lookback days and velocity model for display
   const lookbackDays = await getLookbackDays();
+  const velocityModel = await getVelocityModel();
+  // A burndown burns remaining work at the same rate the burnup completes it
+  const rateName = burndown ? 'Burn Rate' : 'Velocity';
+  const velocityLabel = velocityModel === 'endpoint'
+    ? `Average ${rateName} (${lookbackDays} Days)`
+    : `${rateName} (${lookbackDays} Days, ${VELOCITY_MODEL_LABELS[velocityModel]})`;
+  const endDateLabel = burndown ? 'Projected zero date' : 'Predicted end date';
 
   container.innerHTML = `
+    ${burndown ? renderBurndownGroup(burndown, unit) : ''}
     <div class="burnup-predictor-prediction-group">
       <div class="burnup-predictor-prediction-item">
-        <span class="burnup-predictor-prediction-label">Average Velocity (${lookbackDays} Days)</span>
+        <span class="burnup-predictor-prediction-label">${velocityLabel}</span>
         <span class="burnup-predictor-prediction-value">${formatVelocity(velocity.current)}</span>
       </div>
       <div class="burnup-predictor-prediction-item">
-        <span class="burnup-predictor-prediction-label">Ideal Velocity</span>
+        <span class="burnup-predictor-prediction-label">Ideal ${rateName}</span>
         <span class="burnup-predictor-prediction-value">${formatVelocity(velocity.ideal)}</span>
       </div>
     </div>
     <div class="burnup-predictor-prediction-group">
       <div class="burnup-predictor-prediction-item">
-        <span class="burnup-predictor-prediction-label">Predicted end date</span>
+        <span class="burnup-predictor-prediction-label">${endDateLabel}${scopeForecast ? ' (fixed scope)' : ''}</span>
         <span class="burnup-predictor-prediction-value ${predictionClass}">${formatDate(prediction.completionDate)}</span>
       </div>
       <div class="burnup-predictor-prediction-item">
@@ -155,15 +270,189 @@ export async function updatePrediction(velocity: VelocityInfo, prediction: Predi
       <div class="burnup-predictor-prediction-item">
         <span class="burnup-predictor-prediction-label">Days Difference</span>
         <span class="burnup-predictor-prediction-value ${prediction.daysAhead !== undefined && prediction.daysAhead !== null ? predictionClass : 'empty'}">
-          ${prediction.daysAhead !== undefined && prediction.daysAhead !== null 
-            ? (prediction.daysAhead > 0 ? `${prediction.daysAhead} days ahead` : prediction.daysAhead === 0 ? 'On time' : `${Math.abs(prediction.daysAhead)} days behind`)
-            : '-'}
+          ${formatDaysDifference(prediction.daysAhead ?? null)}
         </span>
       </div>
     </div>
+    ${scopeForecast ? renderScopeForecastGroup(scopeForecast, formatDate, formatVelocity) : ''}
+    ${forecast ? renderForecastGroup(forecast, prediction.dueDate, formatDate) : ''}
+    ${milestones.length > 0 ? renderMilestonesGroup(milestones, unit, formatDate) : ''}
+    ${otherUnitSnapshot ? renderOtherUnitGroup(unit, otherUnitSnapshot, velocityUnit) : ''}
+  `;
+}
+
+/**
+ * Format a signed days-ahead value for display
+ */
+function formatDaysDifference(daysAhead: number | null): string {
+  if (daysAhead === null) return '-';
+  if (daysAhead > 0) return `${daysAhead} days ahead`;
+  if (daysAhead === 0) return 'On time';
+  return `${Math.abs(daysAhead)} days behind`;
+}
+
+/**
+ * Render the scope-adjusted prediction next to the fixed-scope one
+ */
+function renderScopeForecastGroup(
+  scopeForecast: ScopeAdjustedPrediction,
+  formatDate: (date: Date | null) => string,
+  formatVelocity: (v: number | null | undefined) => string
+): string {
+  let statusClass = 'warning';
+  if (scopeForecast.isOnTrack === true) {
+    statusClass = 'success';
+  } else if (scopeForecast.isOnTrack === false) {
+    statusClass = 'danger';
+  }
+
+  return `
+    <div class="burnup-predictor-prediction-group burnup-predictor-scope-group">
+      <div class="burnup-predictor-prediction-item">
+        <span class="burnup-predictor-prediction-label">Scope Growth</span>
+        <span class="burnup-predictor-prediction-value">${formatVelocity(scopeForecast.scopeGrowthRate)}</span>
+      </div>
+      <div class="burnup-predictor-prediction-item">
+        <span class="burnup-predictor-prediction-label">Predicted end date (growing scope)</span>
+        <span class="burnup-predictor-prediction-value ${statusClass}">${formatDate(scopeForecast.completionDate)}</span>
+      </div>
+      <div class="burnup-predictor-prediction-item">
+        <span class="burnup-predictor-prediction-label">Days Difference (growing scope)</span>
+        <span class="burnup-predictor-prediction-value ${scopeForecast.daysAhead !== null ? statusClass : 'empty'}">${formatDaysDifference(scopeForecast.daysAhead)}</span>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Render the Monte Carlo confidence dates
+ */
+function renderForecastGroup(
+  forecast: MonteCarloForecast,
+  dueDate: Date | null,
+  formatDate: (date: Date | null) => string
+): string {
+  const confidenceClass = (date: Date | null): string => {
+    if (!date) return 'empty';
+    if (!dueDate) return '';
+    return date.getTime() <= dueDate.getTime() ? 'success' : 'danger';
+  };
+
+  const item = (label: string, date: Date | null): string => `
+      <div class="burnup-predictor-prediction-item">
+        <span class="burnup-predictor-prediction-label">${label}</span>
+        <span class="burnup-predictor-prediction-value ${confidenceClass(date)}">${formatDate(date)}</span>
+      </div>`;
+
+  return `
+    <div class="burnup-predictor-prediction-group burnup-predictor-forecast-group">
+      ${item('Likely by (50%)', forecast.p50)}
+      ${item('Likely by (85%)', forecast.p85)}
+      ${item('Likely by (95%)', forecast.p95)}
+    </div>
+    <div class="burnup-predictor-forecast-hint">
+      Monte Carlo simulation of ${forecast.trials.toLocaleString('en-US')} runs over ${forecast.sampleDays} days of throughput
+    </div>
+  `;
+}
+
+/**
+ * Render the remaining work against where the ideal burndown is today
+ */
+function renderBurndownGroup(burndown: Burndown, unit: ValueUnit): string {
+  const formatRemaining = (value: number): string => `${Math.round(value * 10) / 10} ${getUnitLabel(unit)}`;
+
+  let statusClass = '';
+  if (burndown.idealRemaining !== null) {
+    statusClass = burndown.remaining <= burndown.idealRemaining ? 'success' : 'danger';
+  }
+
+  return `
+    <div class="burnup-predictor-prediction-group burnup-predictor-burndown-group">
+      <div class="burnup-predictor-prediction-item">
+        <span class="burnup-predictor-prediction-label">Remaining</span>
+        <span class="burnup-predictor-prediction-value ${statusClass}">${formatRemaining(burndown.remaining)}</span>
+      </div>
+      <div class="burnup-predictor-prediction-item">
+        <span class="burnup-predictor-prediction-label">Ideal remaining today</span>
+        <span class="burnup-predictor-prediction-value ${burndown.idealRemaining === null ? 'empty' : ''}">${burndown.idealRemaining === null ? '-' : formatRemaining(burndown.idealRemaining)}</span>
+      </div>
+    </div>
   `;
 }
 
+/**
+ * Render the latest prediction recorded while the chart showed the other unit
+ * Lets story-point and item-count forecasts be compared without switching the chart back.
+ */
+function renderOtherUnitGroup(
+  unit: ValueUnit,
+  snapshot: PredictionSnapshot,
+  velocityUnit: string
+): string {
+  const otherLabel = getUnitLabel(getSnapshotUnit(snapshot));
+  const velocity = snapshot.velocity === null ? '-' : `${snapshot.velocity.toFixed(2)} ${otherLabel}${velocityUnit}`;
+
+  return `
+    <div class="burnup-predictor-prediction-group burnup-predictor-other-unit-group">
+      <div class="burnup-predictor-prediction-item">
+        <span class="burnup-predictor-prediction-label">Predicted end date (${otherLabel})</span>
+        <span class="burnup-predictor-prediction-value ${snapshot.completionDate ? '' : 'empty'}">${snapshot.completionDate ?? 'Cannot calculate'}</span>
+      </div>
+      <div class="burnup-predictor-prediction-item">
+        <span class="burnup-predictor-prediction-label">Velocity (${otherLabel})</span>
+        <span class="burnup-predictor-prediction-value">${velocity}</span>
+      </div>
+    </div>
+    <div class="burnup-predictor-forecast-hint">
+      Recorded on ${snapshot.date} while the chart showed ${otherLabel}; switch the Y axis back to refresh it. This chart shows ${getUnitLabel(unit)}.
+    </div>
+  `;
+}
+
+/**
+ * Render the predicted status of each milestone
+ */
+function renderMilestonesGroup(
+  milestones: MilestonePrediction[],
+  unit: ValueUnit,
+  formatDate: (date: Date | null) => string
+): string {
+  const rows = milestones.map(({ milestone, prediction }) => {
+    let statusClass = 'warning';
+    if (prediction.isOnTrack === true) {
+      statusClass = 'success';
+    } else if (prediction.isOnTrack === false) {
+      statusClass = 'danger';
+    }
+
+    return `
+      <div class="burnup-predictor-prediction-item burnup-predictor-milestone-item">
+        <span class="burnup-predictor-prediction-label">
+          ${escapeHtml(milestone.name)} (${milestone.date}${milestone.scope !== null && milestone.scope !== undefined ? `, ${milestone.scope} ${getUnitLabel(unit)}` : ''})
+        </span>
+        <span class="burnup-predictor-prediction-value ${statusClass}">
+          ${formatDate(prediction.completionDate)} · ${formatDaysDifference(prediction.daysAhead)}
+        </span>
+      </div>`;
+  });
+
+  return `
+    <div class="burnup-predictor-prediction-group burnup-predictor-milestones-group">
+      ${rows.join('')}
+    </div>
+  `;
+}
+
+/**
+ * Escape HTML to prevent XSS
+ */
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
+
 /**
  * Format date to YYYY-MM-DD string for input[type="date"]
  */
@@ -183,7 +472,15 @@ async function initializeSettings(): Promise<void> {
   if (!container) return;
 
   const currentLookbackDays = await getLookbackDays();
+  const defaultLookbackDays = await getDefaultLookbackDays();
   const currentTargetDate = await getTargetDate();
+  const currentForecastMode = await getForecastMode();
+  const currentUnitMode = await getUnitMode();
+  const currentDisplayMode = await getDisplayMode();
+  const currentScopeMode = await getScopeMode();
+  const currentCalendar = await getWorkingCalendar();
+  const currentVelocityModel = await getVelocityModel();
+  const currentMilestones = await getMilestones();
 
   container.innerHTML = `
     <div class="burnup-predictor-settings-row">
@@ -235,7 +532,183 @@ async function initializeSettings(): Promise<void> {
         </button>
       </div>
       <div class="burnup-predictor-settings-hint">
-        Number of days to look back for velocity calculation (default: ${getDefaultLookbackDays()})
+        Number of days to look back for velocity calculation (default: ${defaultLookbackDays})
+      </div>
+    </div>
+    <div class="burnup-predictor-settings-row">
+      <label class="burnup-predictor-settings-label" for="burnup-velocity-model">
+        Velocity model
+      </label>
+      <div class="burnup-predictor-settings-input-group">
+        <select 
+          id="burnup-velocity-model" 
+          class="burnup-predictor-settings-input burnup-predictor-settings-select"
+        >
+          ${(Object.keys(VELOCITY_MODEL_LABELS) as VelocityModel[]).map(model => `
+            <option value="${model}" ${currentVelocityModel === model ? 'selected' : ''}>${VELOCITY_MODEL_LABELS[model]}</option>
+          `).join('')}
+        </select>
+        <button 
+          id="burnup-save-velocity-model" 
+          class="burnup-predictor-settings-button"
+        >
+          Save
+        </button>
+      </div>
+      <div class="burnup-predictor-settings-hint">
+        Endpoint slope uses the first and last points of the period, weighted moving average favors recent days, and linear regression fits all points in the period.
+      </div>
+    </div>
+    <div class="burnup-predictor-settings-row">
+      <label class="burnup-predictor-settings-label" for="burnup-display-mode">
+        Display
+      </label>
+      <div class="burnup-predictor-settings-input-group">
+        <select 
+          id="burnup-display-mode" 
+          class="burnup-predictor-settings-input burnup-predictor-settings-select"
+        >
+          <option value="burnup" ${currentDisplayMode === 'burnup' ? 'selected' : ''}>Burnup</option>
+          <option value="burndown" ${currentDisplayMode === 'burndown' ? 'selected' : ''}>Burndown (remaining work)</option>
+        </select>
+        <button 
+          id="burnup-save-display-mode" 
+          class="burnup-predictor-settings-button"
+        >
+          Save
+        </button>
+      </div>
+      <div class="burnup-predictor-settings-hint">
+        Burndown draws remaining work (scope minus completed) over the chart with its own ideal line to the target date and the projected zero date.
+      </div>
+    </div>
+    <div class="burnup-predictor-settings-row">
+      <label class="burnup-predictor-settings-label" for="burnup-forecast-mode">
+        Forecast mode
+      </label>
+      <div class="burnup-predictor-settings-input-group">
+        <select 
+          id="burnup-forecast-mode" 
+          class="burnup-predictor-settings-input burnup-predictor-settings-select"
+        >
+          <option value="average" ${currentForecastMode === 'average' ? 'selected' : ''}>Average velocity</option>
+          <option value="monteCarlo" ${currentForecastMode === 'monteCarlo' ? 'selected' : ''}>Monte Carlo (probabilistic)</option>
+        </select>
+        <button 
+          id="burnup-save-forecast-mode" 
+          class="burnup-predictor-settings-button"
+        >
+          Save
+        </button>
+      </div>
+      <div class="burnup-predictor-settings-hint">
+        Monte Carlo resamples daily throughput from the velocity calculation period and shows 50/85/95% confidence dates.
+      </div>
+    </div>
+    <div class="burnup-predictor-settings-row">
+      <label class="burnup-predictor-settings-label" for="burnup-unit-mode">
+        Units
+      </label>
+      <div class="burnup-predictor-settings-input-group">
+        <select 
+          id="burnup-unit-mode" 
+          class="burnup-predictor-settings-input burnup-predictor-settings-select"
+        >
+          <option value="current" ${currentUnitMode === 'current' ? 'selected' : ''}>Current chart unit</option>
+          <option value="both" ${currentUnitMode === 'both' ? 'selected' : ''}>Items and points</option>
+        </select>
+        <button 
+          id="burnup-save-unit-mode" 
+          class="burnup-predictor-settings-button"
+        >
+          Save
+        </button>
+      </div>
+      <div class="burnup-predictor-settings-hint">
+        Predictions are recorded per unit (Count of items or Sum of a number field). Both also shows the latest prediction from the other unit, once the chart's Y axis has been switched to it.
+      </div>
+    </div>
+    <div class="burnup-predictor-settings-row">
+      <label class="burnup-predictor-settings-label" for="burnup-scope-mode">
+        Scope
+      </label>
+      <div class="burnup-predictor-settings-input-group">
+        <select 
+          id="burnup-scope-mode" 
+          class="burnup-predictor-settings-input burnup-predictor-settings-select"
+        >
+          <option value="fixed" ${currentScopeMode === 'fixed' ? 'selected' : ''}>Fixed</option>
+          <option value="growing" ${currentScopeMode === 'growing' ? 'selected' : ''}>Growing (Open trend)</option>
+        </select>
+        <button 
+          id="burnup-save-scope-mode" 
+          class="burnup-predictor-settings-button"
+        >
+          Save
+        </button>
+      </div>
+      <div class="burnup-predictor-settings-hint">
+        Growing projects the scope growth rate of the Open series over the velocity calculation period and predicts where completed work catches up.
+      </div>
+    </div>
+    <div class="burnup-predictor-settings-row">
+      <span class="burnup-predictor-settings-label">
+        Working days
+      </span>
+      <div class="burnup-predictor-settings-input-group burnup-predictor-weekdays">
+        ${WEEKDAY_LABELS.map((label, day) => `
+          <label class="burnup-predictor-weekday">
+            <input 
+              type="checkbox" 
+              class="burnup-predictor-weekday-checkbox" 
+              value="${day}" 
+              ${currentCalendar.nonWorkingWeekdays.includes(day) ? '' : 'checked'}
+            />
+            ${label}
+          </label>
+        `).join('')}
+      </div>
+      <div class="burnup-predictor-settings-input-group">
+        <input 
+          type="text" 
+          id="burnup-holidays" 
+          class="burnup-predictor-settings-input burnup-predictor-settings-input-holidays" 
+          placeholder="Holidays: 2024-12-25, 2025-01-01" 
+          value="${currentCalendar.holidays.join(', ')}"
+        />
+        <button 
+          id="burnup-save-working-calendar" 
+          class="burnup-predictor-settings-button"
+        >
+          Save
+        </button>
+      </div>
+      <div class="burnup-predictor-settings-hint">
+        Unchecked weekdays and listed holidays (YYYY-MM-DD, comma separated) are excluded from velocity, ideal velocity and predicted dates.
+      </div>
+    </div>
+    <div class="burnup-predictor-settings-row">
+      <span class="burnup-predictor-settings-label">
+        Milestones
+      </span>
+      <div class="burnup-predictor-milestones" id="burnup-milestones-list">
+      </div>
+      <div class="burnup-predictor-settings-input-group">
+        <button 
+          id="burnup-add-milestone" 
+          class="burnup-predictor-settings-button burnup-predictor-settings-button-secondary"
+        >
+          Add milestone
+        </button>
+        <button 
+          id="burnup-save-milestones" 
+          class="burnup-predictor-settings-button"
+        >
+          Save
+        </button>
+      </div>
+      <div class="burnup-predictor-settings-hint">
+        Checkpoints such as beta, RC and GA. Leave the scope empty to use the current total.
       </div>
     </div>
   `;
@@ -361,4 +834,214 @@ async function initializeSettings(): Promise<void> {
       lookbackDaysSaveButton.click();
     }
   });
+
+  // Velocity model elements
+  const velocityModelSelect = document.getElementById('burnup-velocity-model') as HTMLSelectElement;
+  const velocityModelSaveButton = document.getElementById('burnup-save-velocity-model') as HTMLButtonElement;
+
+  if (velocityModelSelect && velocityModelSaveButton) {
+    velocityModelSaveButton.addEventListener('click', async () => {
+      try {
+        await setVelocityModel(velocityModelSelect.value as VelocityModel);
+        showButtonFeedback(velocityModelSaveButton, 'Saved!', 'success', 'Save');
+      } catch (error) {
+        console.error('Failed to save velocity model setting:', error);
+        showButtonFeedback(velocityModelSaveButton, 'Error', 'error', 'Save');
+      }
+    });
+  }
+
+  // Display mode elements
+  const displayModeSelect = document.getElementById('burnup-display-mode') as HTMLSelectElement;
+  const displayModeSaveButton = document.getElementById('burnup-save-display-mode') as HTMLButtonElement;
+
+  if (displayModeSelect && displayModeSaveButton) {
+    displayModeSaveButton.addEventListener('click', async () => {
+      try {
+        await setDisplayMode(displayModeSelect.value as DisplayMode);
+        showButtonFeedback(displayModeSaveButton, 'Saved!', 'success', 'Save');
+      } catch (error) {
+        console.error('Failed to save display mode setting:', error);
+        showButtonFeedback(displayModeSaveButton, 'Error', 'error', 'Save');
+      }
+    });
+  }
+
+  // Forecast mode elements
+  const forecastModeSelect = document.getElementById('burnup-forecast-mode') as HTMLSelectElement;
+  const forecastModeSaveButton = document.getElementById('burnup-save-forecast-mode') as HTMLButtonElement;
+
+  if (forecastModeSelect && forecastModeSaveButton) {
+    forecastModeSaveButton.addEventListener('click', async () => {
+      try {
+        await setForecastMode(forecastModeSelect.value as ForecastMode);
+        showButtonFeedback(forecastModeSaveButton, 'Saved!', 'success', 'Save');
+      } catch (error) {
+        console.error('Failed to save forecast mode setting:', error);
+        showButtonFeedback(forecastModeSaveButton, 'Error', 'error', 'Save');
+      }
+    });
+  }
+
+  // Unit mode elements
+  const unitModeSelect = document.getElementById('burnup-unit-mode') as HTMLSelectElement;
+  const unitModeSaveButton = document.getElementById('burnup-save-unit-mode') as HTMLButtonElement;
+
+  if (unitModeSelect && unitModeSaveButton) {
+    unitModeSaveButton.addEventListener('click', async () => {
+      try {
+        await setUnitMode(unitModeSelect.value as UnitMode);
+        showButtonFeedback(unitModeSaveButton, 'Saved!', 'success', 'Save');
+      } catch (error) {
+        console.error('Failed to save unit mode setting:', error);
+        showButtonFeedback(unitModeSaveButton, 'Error', 'error', 'Save');
+      }
+    });
+  }
+
+  // Scope mode elements
+  const scopeModeSelect = document.getElementById('burnup-scope-mode') as HTMLSelectElement;
+  const scopeModeSaveButton = document.getElementById('burnup-save-scope-mode') as HTMLButtonElement;
+
+  if (scopeModeSelect && scopeModeSaveButton) {
+    scopeModeSaveButton.addEventListener('click', async () => {
+      try {
+        await setScopeMode(scopeModeSelect.value as ScopeMode);
+        showButtonFeedback(scopeModeSaveButton, 'Saved!', 'success', 'Save');
+      } catch (error) {
+        console.error('Failed to save scope mode setting:', error);
+        showButtonFeedback(scopeModeSaveButton, 'Error', 'error', 'Save');
+      }
+    });
+  }
+
+  initializeMilestoneEditor(currentMilestones);
+
+  // Working calendar elements
+  const holidaysInput = document.getElementById('burnup-holidays') as HTMLInputElement;
+  const calendarSaveButton = document.getElementById('burnup-save-working-calendar') as HTMLButtonElement;
+
+  if (holidaysInput && calendarSaveButton) {
+    calendarSaveButton.addEventListener('click', async () => {
+      const checkboxes = container.querySelectorAll<HTMLInputElement>('.burnup-predictor-weekday-checkbox');
+      const calendar: WorkingCalendar = {
+        nonWorkingWeekdays: Array.from(checkboxes)
+          .filter(checkbox => !checkbox.checked)
+          .map(checkbox => parseInt(checkbox.value, 10)),
+        holidays: holidaysInput.value
+          .split(/[\s,]+/)
+          .filter(holiday => holiday !== ''),
+      };
+
+      try {
+        await setWorkingCalendar(calendar);
+        showButtonFeedback(calendarSaveButton, 'Saved!', 'success', 'Save');
+      } catch (error) {
+        console.error('Failed to save working calendar setting:', error);
+        holidaysInput.classList.add('burnup-predictor-settings-input-error');
+        setTimeout(() => {
+          holidaysInput.classList.remove('burnup-predictor-settings-input-error');
+        }, 2000);
+        showButtonFeedback(calendarSaveButton, 'Error', 'error', 'Save');
+      }
+    });
+
+    // Save on Enter key
+    holidaysInput.addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') {
+        calendarSaveButton.click();
+      }
+    });
+  }
+}
+
+/**
+ * Wire up the milestone editor: one row of name/date/scope inputs per milestone
+ */
+function initializeMilestoneEditor(initialMilestones: Milestone[]): void {
+  const list = document.getElementById('burnup-milestones-list');
+  const addButton = document.getElementById('burnup-add-milestone') as HTMLButtonElement | null;
+  const saveButton = document.getElementById('burnup-save-milestones') as HTMLButtonElement | null;
+  if (!list || !addButton || !saveButton) return;
+
+  const addRow = (milestone: Milestone | null): void => {
+    const row = document.createElement('div');
+    row.className = 'burnup-predictor-settings-input-group burnup-predictor-milestone-row';
+    row.innerHTML = `
+      <input 
+        type="text" 
+        class="burnup-predictor-settings-input burnup-predictor-milestone-name" 
+        placeholder="Name (e.g. Beta)"
+      />
+      <input 
+        type="date" 
+        class="burnup-predictor-settings-input burnup-predictor-settings-input-date burnup-predictor-milestone-date"
+      />
+      <input 
+        type="number" 
+        class="burnup-predictor-settings-input burnup-predictor-milestone-scope" 
+        min="1" 
+        placeholder="Scope"
+      />
+      <button class="burnup-predictor-settings-button burnup-predictor-settings-button-secondary burnup-predictor-milestone-remove">
+        Remove
+      </button>
+    `;
+
+    // Set values through properties so user-entered names are never parsed as HTML
+    (row.querySelector('.burnup-predictor-milestone-name') as HTMLInputElement).value = milestone?.name ?? '';
+    (row.querySelector('.burnup-predictor-milestone-date') as HTMLInputElement).value = milestone?.date ?? '';
+    (row.querySelector('.burnup-predictor-milestone-scope') as HTMLInputElement).value =
+      milestone?.scope !== null && milestone?.scope !== undefined ? String(milestone.scope) : '';
+
+    row.querySelector('.burnup-predictor-milestone-remove')?.addEventListener('click', () => {
+      row.remove();
+    });
+
+    list.appendChild(row);
+  };
+
+  initialMilestones.forEach(addRow);
+
+  addButton.addEventListener('click', () => {
+    addRow(null);
+  });
+
+  saveButton.addEventListener('click', async () => {
+    const rows = Array.from(list.querySelectorAll<HTMLElement>('.burnup-predictor-milestone-row'));
+    const milestones: Milestone[] = rows.map(row => {
+      const scopeValue = (row.querySelector('.burnup-predictor-milestone-scope') as HTMLInputElement).value;
+      return {
+        name: (row.querySelector('.burnup-predictor-milestone-name') as HTMLInputElement).value,
+        date: (row.querySelector('.burnup-predictor-milestone-date') as HTMLInputElement).value,
+        scope: scopeValue === '' ? null : Number(scopeValue),
+      };
+    });
+
+    try {
+      await setMilestones(milestones);
+      showButtonFeedback(saveButton, 'Saved!', 'success', 'Save');
+    } catch (error) {
+      console.error('Failed to save milestones setting:', error);
+      showButtonFeedback(saveButton, 'Error', 'error', 'Save');
+    }
+  });
+}
+
+/**
+ * Temporarily show a success/error state on a settings button
+ */
+function showButtonFeedback(
+  button: HTMLButtonElement,
+  text: string,
+  state: 'success' | 'error',
+  originalText: string
+): void {
+  const className = `burnup-predictor-settings-button-${state}`;
+  button.textContent = text;
+  button.classList.add(className);
+  setTimeout(() => {
+    button.textContent = originalText;
+    button.classList.remove(className);
+  }, 2000);
 }
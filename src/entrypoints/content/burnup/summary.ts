@@ -0,0 +1,71 @@
+// GitHub Burnup Predictor - Summary Module
+// Responsibility: Build a Markdown status summary of the burnup prediction
+
+import type { BurnupChartData, Prediction, VelocityInfo, WorkingCalendar } from './types';
+import { hasNonWorkingDays, toDateKey } from './working-calendar';
+import { DEFAULT_VALUE_UNIT, getUnitLabel } from './value-unit';
+import { copyMarkdown, toMarkdownTable } from '../shared/markdown';
+
+/**
+ * Build a Markdown summary table for status updates
+ * @param data Chart data
+ * @param velocity Current and ideal velocity
+ * @param prediction Current prediction
+ * @param calendar Working calendar the velocities were calculated with
+ */
+export function buildBurnupSummary(
+  data: BurnupChartData,
+  velocity: VelocityInfo,
+  prediction: Prediction,
+  calendar?: WorkingCalendar | null
+): string {
+  const remaining = Math.max(0, data.total - data.completed);
+  const percent = data.total > 0
+    ? Math.min(100, Math.max(0, Math.round((data.completed / data.total) * 100)))
+    : 0;
+  const unit = hasNonWorkingDays(calendar) ? ' / Working Day' : ' / Day';
+  const valueLabel = getUnitLabel(data.valueUnit ?? DEFAULT_VALUE_UNIT);
+
+  const formatVelocity = (v: number | null | undefined): string =>
+    v === null || v === undefined || isNaN(v) ? '-' : v.toFixed(2) + unit;
+  const formatDate = (date: Date | null): string => (date ? toDateKey(date) : '-');
+
+  let status = '-';
+  if (prediction.isOnTrack !== null && prediction.daysAhead !== null) {
+    const days = Math.abs(prediction.daysAhead);
+    const detail = prediction.daysAhead === 0
+      ? 'on time'
+      : `${days} days ${prediction.daysAhead > 0 ? 'ahead' : 'behind'}`;
+    status = `${prediction.isOnTrack ? '✅ On track' : '⚠️ Behind'} (${detail})`;
+  }
+
+  const rows = [
+    ['Completed', `${data.completed} / ${data.total} ${valueLabel}`],
+    ['Remaining', `${remaining} ${valueLabel}`],
+    ['Progress', `${percent}%`],
+    ['Current velocity', formatVelocity(velocity.current)],
+    ['Ideal velocity', formatVelocity(velocity.ideal)],
+    ['Predicted end date', prediction.completionDate ? formatDate(prediction.completionDate) : 'Cannot calculate'],
+    ['Due date', formatDate(prediction.dueDate)],
+    ['Status', status],
+  ];
+
+  return [
+    `**Burnup summary** (${toDateKey(new Date())})`,
+    '',
+    toMarkdownTable(['Metric', 'Value'], rows),
+  ].join('\n');
+}
+
+/**
+ * Point the stats panel's copy button at the latest summary
+ */
+export function bindCopySummaryAction(markdown: string): void {
+  const button = document.getElementById('burnup-copy-summary') as HTMLButtonElement | null;
+  if (!button) return;
+
+  button.disabled = false;
+  button.onclick = () => {
+    copyMarkdown(button, markdown);
+  };
+}
@@ -12,8 +12,28 @@ export interface BurnupChartData {
   dateRange?: DateRange;
   completedStartPixel?: PixelPoint;
   completedLastPixel?: PixelPoint;
+  valueUnit?: ValueUnit;
 }
 
+/**
+ * What the Y axis measures
+ * - count: number of items ("Count of items")
+ * - sum: sum of a number field such as Estimate ("Sum of Estimate")
+ */
+export type ValueUnitKind = 'count' | 'sum';
+
+export interface ValueUnit {
+  kind: ValueUnitKind;
+  fieldName: string | null; // Summed field, when the chart names it
+}
+
+/**
+ * Which units the stats panel shows predictions in
+ * - current: only the unit the chart shows now
+ * - both: also the latest prediction recorded while the chart showed the other unit
+ */
+export type UnitMode = 'current' | 'both';
+
 export interface VelocityResult {
   current: number | null;
   periodStartDate?: Date | null;
@@ -22,6 +42,14 @@ export interface VelocityResult {
   periodEndValue?: number | null;
 }
 
+/**
+ * How the current velocity is derived from the Completed series
+ * - endpoint: slope between the first and last points in the lookback period
+ * - ewma: exponentially weighted moving average of daily deltas
+ * - regression: least-squares slope over all points in the lookback period
+ */
+export type VelocityModel = 'endpoint' | 'ewma' | 'regression';
+
 export interface Velocity extends VelocityResult {
   startDate: Date;
   startValue: number;
@@ -35,6 +63,146 @@ export interface Prediction {
   daysAhead: number | null;
 }
 
+/**
+ * How the completion date is forecast
+ * - average: project a single date from the average velocity
+ * - monteCarlo: resample daily throughput to produce confidence dates
+ */
+export type ForecastMode = 'average' | 'monteCarlo';
+
+export interface MonteCarloForecast {
+  p50: Date | null; // 50% of simulated runs finish by this date
+  p85: Date | null;
+  p95: Date | null;
+  trials: number;
+  sampleDays: number; // Number of daily throughput samples drawn from
+}
+
+/**
+ * How the scope (Open series) is treated when predicting
+ * - fixed: the current total is the finish line
+ * - growing: the scope keeps growing at the rate observed in the Open series
+ */
+export type ScopeMode = 'fixed' | 'growing';
+
+export interface ScopeGrowth {
+  rate: number | null; // Scope change per day over the lookback period (may be negative)
+  periodStartDate: Date | null;
+  periodEndDate: Date | null;
+  periodStartValue: number | null;
+  periodEndValue: number | null;
+}
+
+/**
+ * How the stats panel and overlay present the chart
+ * - burnup: completed work climbing towards the scope (the chart as GitHub draws it)
+ * - burndown: remaining work (scope minus completed) falling towards zero
+ */
+export type DisplayMode = 'burnup' | 'burndown';
+
+/**
+ * Remaining work over time, for the burndown display mode
+ */
+export interface Burndown {
+  series: DataPoint[]; // Remaining work at each point of the Completed/Open series
+  remaining: number; // Remaining work now
+  startRemaining: number; // Remaining work at the start of the ideal line
+  idealRemaining: number | null; // Where the ideal line is today (null without a due date)
+  zeroDate: Date | null; // Projected date remaining work reaches zero
+}
+
+export interface ScopeAdjustedPrediction {
+  scopeGrowthRate: number | null;
+  completionDate: Date | null; // Where the completed line meets the growing scope line
+  projectedScope: number | null; // Scope at the completion date
+  isOnTrack: boolean | null;
+  daysAhead: number | null;
+}
+
+/**
+ * Prediction recorded once per day, unit and velocity model (the latest calculation of the day wins)
+ */
+export interface PredictionSnapshot {
+  date: string; // Local date of the snapshot, 'YYYY-MM-DD'
+  completionDate: string | null; // Predicted completion date, 'YYYY-MM-DD'
+  velocity: number | null;
+  total: number;
+  completed: number;
+  unit?: ValueUnitKind; // Y axis unit of the snapshot (snapshots from before unit detection are 'sum')
+  velocityModel?: VelocityModel; // Model the velocity came from (snapshots from before model selection are 'endpoint')
+}
+
+/**
+ * Days excluded from velocity and date arithmetic
+ */
+export interface WorkingCalendar {
+  nonWorkingWeekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  holidays: string[]; // Local dates in 'YYYY-MM-DD' format
+}
+
+/**
+ * Named checkpoint (e.g. beta, RC, GA) with its own date and scope
+ */
+export interface Milestone {
+  name: string;
+  date: string; // Local date, 'YYYY-MM-DD'
+  scope?: number | null; // Points to complete by the date (null or unset = current total)
+}
+
+export interface MilestonePrediction {
+  milestone: Milestone;
+  prediction: Prediction;
+}
+
+/**
+ * Optional analyses shown alongside the base prediction
+ */
+export interface PredictionExtras {
+  forecast?: MonteCarloForecast | null;
+  scopeForecast?: ScopeAdjustedPrediction | null;
+  calendar?: WorkingCalendar | null; // Calendar the velocities and dates were calculated with
+  milestones?: MilestonePrediction[];
+  unit?: ValueUnit; // Unit of the chart values (default: sum of an unknown field)
+  otherUnitSnapshot?: PredictionSnapshot | null; // Latest prediction in the other unit, when comparing units
+  burndown?: Burndown | null; // Remaining work view, in the burndown display mode
+}
+
+/**
+ * Burnup analysis in a portable shape for CSV/JSON export
+ * Dates are local 'YYYY-MM-DD' strings.
+ */
+export interface BurnupExport {
+  exportedAt: string; // ISO timestamp
+  url: string;
+  completed: number;
+  remaining: number;
+  total: number;
+  unit: ValueUnitKind;
+  velocity: {
+    model: VelocityModel;
+    lookbackDays: number;
+    current: number | null;
+    ideal: number | null;
+    periodStartDate: string | null;
+    periodEndDate: string | null;
+    periodStartValue: number | null;
+    periodEndValue: number | null;
+  };
+  prediction: {
+    completionDate: string | null;
+    dueDate: string | null;
+    isOnTrack: boolean | null;
+    daysAhead: number | null;
+  };
+  series: BurnupExportRow[];
+}
+
+export interface BurnupExportRow {
+  date: string;
+  completed: number | null;
+  open: number | null;
+}
+
 export interface VelocityInfo {
   current: number | null; // Average velocity over lookback period (points/day)
   ideal?: number | null;
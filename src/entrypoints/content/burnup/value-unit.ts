@@ -0,0 +1,44 @@
+// GitHub Burnup Predictor - Value Unit Module
+// Responsibility: Label chart values as items or points and pair up predictions across units
+
+import type { PredictionSnapshot, ValueUnit, ValueUnitKind } from './types';
+
+// Charts without a detectable Y axis title keep the original "points" wording
+export const DEFAULT_VALUE_UNIT: ValueUnit = { kind: 'sum', fieldName: null };
+
+const UNIT_LABELS: Record<ValueUnitKind, string> = {
+  count: 'items',
+  sum: 'points',
+};
+
+/**
+ * Get the plural label for values in a unit ("items" or "points")
+ */
+export function getUnitLabel(unit: ValueUnit | ValueUnitKind): string {
+  return UNIT_LABELS[typeof unit === 'string' ? unit : unit.kind];
+}
+
+/**
+ * Get the unit a snapshot was recorded in
+ */
+export function getSnapshotUnit(snapshot: PredictionSnapshot): ValueUnitKind {
+  return snapshot.unit ?? 'sum';
+}
+
+/**
+ * Keep only the snapshots recorded in one unit (sorted order is preserved)
+ */
+export function filterSnapshotsByUnit(history: PredictionSnapshot[], unit: ValueUnitKind): PredictionSnapshot[] {
+  return history.filter(snapshot => getSnapshotUnit(snapshot) === unit);
+}
+
+/**
+ * Find the latest snapshot recorded while the chart showed the other unit
+ * @param history Snapshots sorted by date
+ * @param unit Unit the chart shows now
+ * @returns Latest snapshot in the other unit, or null if the chart was never switched
+ */
+export function findOtherUnitSnapshot(history: PredictionSnapshot[], unit: ValueUnitKind): PredictionSnapshot | null {
+  const other = history.filter(snapshot => getSnapshotUnit(snapshot) !== unit);
+  return other[other.length - 1] ?? null;
+}
@@ -1,20 +1,23 @@
 // GitHub Burnup Predictor - Velocity Calculator Module
 // Responsibility: Calculate velocity
 
-import type { DataPoint, VelocityResult } from './types';
+import type { DataPoint, VelocityResult, WorkingCalendar } from './types';
+import { countWorkingDays } from './working-calendar';
 
 /**
- * Calculate velocity (points per day)
+ * Calculate velocity (points per day, or per working day when a calendar is given)
  * @param completedData Array of completed data points
  * @param startDate Start date of the project
  * @param startValue Starting value at startDate
  * @param lookbackDays Number of days to look back for velocity calculation (default: 21)
+ * @param calendar Working calendar; non-working days are excluded from the day count
  */
 export function calculateVelocity(
   completedData: DataPoint[], 
   startDate: Date, 
   startValue: number,
-  lookbackDays: number = 21
+  lookbackDays: number = 21,
+  calendar?: WorkingCalendar | null
 ): VelocityResult {
   if (!completedData || completedData.length === 0) {
     return { 
@@ -68,7 +71,7 @@ export function calculateVelocity(
 
   // If we have less than 2 points in the lookback period, fall back to all-time average
   if (recentPoints.length < 2) {
-    const totalDays = (latestPoint.date.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+    const totalDays = countWorkingDays(startDate, latestPoint.date, calendar);
 
     if (totalDays <= 0) {
       return { 
@@ -116,7 +119,7 @@ export function calculateVelocity(
     }
   }
 
-  const daysDiff = (lastRecentPoint.date.getTime() - periodStartDate.getTime()) / (1000 * 60 * 60 * 24);
+  const daysDiff = countWorkingDays(periodStartDate, lastRecentPoint.date, calendar);
 
   if (daysDiff <= 0) {
     return { 
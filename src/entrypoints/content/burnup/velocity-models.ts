@@ -0,0 +1,183 @@
+// GitHub Burnup Predictor - Velocity Models Module
+// Responsibility: Select and run the velocity calculation strategy
+
+import type { DataPoint, PredictionSnapshot, VelocityModel, VelocityResult, WorkingCalendar } from './types';
+import { calculateVelocity } from './velocity-calculator';
+import { getDailyThroughput } from './monte-carlo';
+import { countWorkingDays } from './working-calendar';
+
+type VelocityModelFn = (
+  completedData: DataPoint[],
+  startDate: Date,
+  startValue: number,
+  lookbackDays: number,
+  calendar?: WorkingCalendar | null
+) => VelocityResult | null;
+
+// Weight of the newest day in the moving average (0-1, higher reacts faster)
+const EWMA_SMOOTHING = 0.25;
+
+export const VELOCITY_MODEL_LABELS: Record<VelocityModel, string> = {
+  endpoint: 'Endpoint slope',
+  ewma: 'Weighted moving average',
+  regression: 'Linear regression',
+};
+
+const VELOCITY_MODELS: Record<VelocityModel, VelocityModelFn> = {
+  endpoint: calculateVelocity,
+  ewma: calculateEwmaVelocity,
+  regression: calculateRegressionVelocity,
+};
+
+/**
+ * Calculate velocity with the selected model
+ *
+ * Every model returns a VelocityResult whose period start/end points lie on
+ * the model's trend line, so the overlay can draw it like the endpoint slope.
+ * Models return null when the lookback period has too few points; those fall
+ * back to the endpoint calculation (which itself falls back to the all-time average).
+ *
+ * @param model Velocity model to use
+ * @param completedData Array of completed data points
+ * @param startDate Start date of the project
+ * @param startValue Starting value at startDate
+ * @param lookbackDays Number of days to look back (default: 21)
+ * @param calendar Working calendar; non-working days are excluded from the day count
+ */
+export function calculateModelVelocity(
+  model: VelocityModel,
+  completedData: DataPoint[],
+  startDate: Date,
+  startValue: number,
+  lookbackDays: number = 21,
+  calendar?: WorkingCalendar | null
+): VelocityResult {
+  const result = VELOCITY_MODELS[model](completedData, startDate, startValue, lookbackDays, calendar);
+  return result ?? calculateVelocity(completedData, startDate, startValue, lookbackDays, calendar);
+}
+
+/**
+ * Get the velocity model a snapshot was recorded with
+ */
+export function getSnapshotVelocityModel(snapshot: PredictionSnapshot): VelocityModel {
+  return snapshot.velocityModel ?? 'endpoint';
+}
+
+/**
+ * Keep only the snapshots recorded with one velocity model (sorted order is preserved)
+ */
+export function filterSnapshotsByVelocityModel(
+  history: PredictionSnapshot[],
+  model: VelocityModel
+): PredictionSnapshot[] {
+  return history.filter(snapshot => getSnapshotVelocityModel(snapshot) === model);
+}
+
+/**
+ * Get the completed points within the lookback period, oldest first
+ */
+function getRecentPoints(completedData: DataPoint[], lookbackDays: number): { date: Date; value: number }[] {
+  if (!completedData || completedData.length === 0) {
+    return [];
+  }
+
+  const now = new Date();
+  const todayEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+  const lookbackDate = new Date(todayEnd);
+  lookbackDate.setDate(lookbackDate.getDate() - lookbackDays);
+
+  return completedData
+    .map(p => ({
+      date: p.date instanceof Date ? p.date : new Date(p.date),
+      value: p.value,
+    }))
+    .filter(p => !isNaN(p.date.getTime()) && !isNaN(p.value))
+    .filter(p => p.date.getTime() >= lookbackDate.getTime() && p.date.getTime() <= todayEnd.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Exponentially weighted moving average of daily deltas
+ *
+ * Recent days weigh more than older ones, so a single outlier day fades out
+ * instead of dominating until it leaves the lookback period. The trend line
+ * is anchored at the latest point.
+ */
+function calculateEwmaVelocity(
+  completedData: DataPoint[],
+  _startDate: Date,
+  _startValue: number,
+  lookbackDays: number,
+  calendar?: WorkingCalendar | null
+): VelocityResult | null {
+  const recentPoints = getRecentPoints(completedData, lookbackDays);
+  const [firstSample, ...laterSamples] = getDailyThroughput(completedData, lookbackDays, calendar);
+  const first = recentPoints[0];
+  const last = recentPoints[recentPoints.length - 1];
+  if (recentPoints.length < 2 || !first || !last || firstSample === undefined) {
+    return null;
+  }
+
+  let average = firstSample;
+  for (const sample of laterSamples) {
+    average = EWMA_SMOOTHING * sample + (1 - EWMA_SMOOTHING) * average;
+  }
+
+  const days = countWorkingDays(first.date, last.date, calendar);
+
+  return {
+    current: average > 0 ? average : null,
+    periodStartDate: first.date,
+    periodEndDate: last.date,
+    periodStartValue: last.value - average * days,
+    periodEndValue: last.value,
+  };
+}
+
+/**
+ * Least-squares regression over all points in the lookback period
+ *
+ * Uses every point rather than only the two ends, so the slope is not swung by
+ * where the window happens to start or end. The period points are the fitted
+ * values at the first and last points.
+ */
+function calculateRegressionVelocity(
+  completedData: DataPoint[],
+  _startDate: Date,
+  _startValue: number,
+  lookbackDays: number,
+  calendar?: WorkingCalendar | null
+): VelocityResult | null {
+  const recentPoints = getRecentPoints(completedData, lookbackDays);
+  const first = recentPoints[0];
+  const last = recentPoints[recentPoints.length - 1];
+  if (recentPoints.length < 2 || !first || !last) {
+    return null;
+  }
+
+  const points = recentPoints.map(p => ({ x: countWorkingDays(first.date, p.date, calendar), y: p.value }));
+  const meanX = points.reduce((sum, { x }) => sum + x, 0) / points.length;
+  const meanY = points.reduce((sum, { y }) => sum + y, 0) / points.length;
+
+  let covariance = 0;
+  let variance = 0;
+  for (const { x, y } of points) {
+    covariance += (x - meanX) * (y - meanY);
+    variance += (x - meanX) ** 2;
+  }
+
+  if (variance === 0) {
+    return null;
+  }
+
+  const slope = covariance / variance;
+  const intercept = meanY - slope * meanX;
+
+  return {
+    current: slope > 0 ? slope : null,
+    periodStartDate: first.date,
+    periodEndDate: last.date,
+    periodStartValue: intercept,
+    periodEndValue: intercept + slope * countWorkingDays(first.date, last.date, calendar),
+  };
+}
@@ -0,0 +1,145 @@
+// GitHub Burnup Predictor - Working Calendar Module
+// Responsibility: Day arithmetic that skips non-working weekdays and holidays
+
+import type { WorkingCalendar } from './types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+// Upper bound for day-by-day iteration (~20 years) so bad input can't hang the page
+const MAX_ITERATION_DAYS = 7300;
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  nonWorkingWeekdays: [],
+  holidays: [],
+};
+
+/**
+ * Format a date as a local 'YYYY-MM-DD' key (the format holidays are stored in)
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse a 'YYYY-MM-DD' key as a local date
+ */
+export function parseDateKey(key: string): Date {
+  // Missing parts give an invalid date, like any other malformed key
+  const [year = NaN, month = NaN, day = NaN] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * True when the calendar excludes any day, i.e. working days differ from calendar days
+ */
+export function hasNonWorkingDays(calendar: WorkingCalendar | null | undefined): calendar is WorkingCalendar {
+  return !!calendar && (calendar.nonWorkingWeekdays.length > 0 || calendar.holidays.length > 0);
+}
+
+/**
+ * Check whether the (local) day containing `date` is a working day
+ */
+export function isWorkingDay(date: Date, calendar: WorkingCalendar): boolean {
+  if (calendar.nonWorkingWeekdays.includes(date.getDay())) {
+    return false;
+  }
+  return !calendar.holidays.includes(toDateKey(date));
+}
+
+/**
+ * Validate a working calendar
+ * - Weekdays are integers 0 (Sunday) to 6 (Saturday), and at least one weekday must stay a working day
+ * - Holidays are 'YYYY-MM-DD' strings
+ */
+export function isValidWorkingCalendar(value: unknown): value is WorkingCalendar {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const calendar = value as Partial<WorkingCalendar>;
+  if (!Array.isArray(calendar.nonWorkingWeekdays) || !Array.isArray(calendar.holidays)) {
+    return false;
+  }
+
+  const weekdaysValid = calendar.nonWorkingWeekdays.every(
+    day => Number.isInteger(day) && day >= 0 && day <= 6
+  );
+  const workingWeekdayLeft = new Set(calendar.nonWorkingWeekdays).size < 7;
+  const holidaysValid = calendar.holidays.every(
+    holiday => typeof holiday === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(holiday)
+  );
+
+  return weekdaysValid && workingWeekdayLeft && holidaysValid;
+}
+
+/**
+ * Start of the next local day after `date`
+ */
+function nextDayStart(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+}
+
+/**
+ * Count working days between two dates (fractional, like the calendar-day math it replaces)
+ *
+ * Each local day overlapping [start, end) contributes the overlapping fraction
+ * if it is a working day. Without non-working days this equals the plain
+ * calendar-day difference.
+ *
+ * @returns Working days from start to end (negative if end is before start)
+ */
+export function countWorkingDays(start: Date, end: Date, calendar?: WorkingCalendar | null): number {
+  if (!hasNonWorkingDays(calendar)) {
+    return (end.getTime() - start.getTime()) / DAY_MS;
+  }
+
+  if (end.getTime() < start.getTime()) {
+    return -countWorkingDays(end, start, calendar);
+  }
+
+  let total = 0;
+  let cursor = start;
+  let iterations = 0;
+  while (cursor.getTime() < end.getTime() && iterations < MAX_ITERATION_DAYS) {
+    const dayEnd = nextDayStart(cursor);
+    const segmentEnd = dayEnd.getTime() < end.getTime() ? dayEnd : end;
+    if (isWorkingDay(cursor, calendar)) {
+      total += (segmentEnd.getTime() - cursor.getTime()) / DAY_MS;
+    }
+    cursor = segmentEnd;
+    iterations++;
+  }
+
+  return total;
+}
+
+/**
+ * Add working days to a date, skipping non-working days
+ *
+ * Without non-working days this is plain calendar-day addition.
+ *
+ * @returns The resulting date, or null if it cannot be reached within ~20 years
+ */
+export function addWorkingDays(from: Date, days: number, calendar?: WorkingCalendar | null): Date | null {
+  if (!hasNonWorkingDays(calendar)) {
+    return new Date(from.getTime() + days * DAY_MS);
+  }
+
+  let remaining = days;
+  let cursor = from;
+  for (let iterations = 0; iterations < MAX_ITERATION_DAYS; iterations++) {
+    const dayEnd = nextDayStart(cursor);
+    if (isWorkingDay(cursor, calendar)) {
+      const available = (dayEnd.getTime() - cursor.getTime()) / DAY_MS;
+      if (available >= remaining) {
+        return new Date(cursor.getTime() + remaining * DAY_MS);
+      }
+      remaining -= available;
+    }
+    cursor = dayEnd;
+  }
+
+  return null;
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getGlobalDefaults,
+  setGlobalDefaults,
+  resetGlobalDefaults,
+  isGlobalDefaultsChange,
+  isValidAgeThresholds,
+  isValidIterationCount,
+  isValidLookbackDays,
+  BUILT_IN_GLOBAL_DEFAULTS,
+  GLOBAL_DEFAULTS_STORAGE_KEY,
+} from '../global-defaults';
+
+describe('global-defaults', () => {
+  let storage: Record<string, unknown>;
+
+  beforeEach(() => {
+    storage = {};
+    (global as any).chrome = {
+      storage: {
+        local: {
+          get: vi.fn((key: string) => Promise.resolve(key in storage ? { [key]: storage[key] } : {})),
+          set: vi.fn((items: Record<string, unknown>) => {
+            Object.assign(storage, items);
+            return Promise.resolve();
+          }),
+          remove: vi.fn((key: string) => {
+            delete storage[key];
+            return Promise.resolve();
+          }),
+        },
+      },
+    };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete (global as any).chrome;
+    vi.restoreAllMocks();
+  });
+
+  describe('getGlobalDefaults', () => {
+    it('returns the built-in defaults when nothing is saved', async () => {
+      expect(await getGlobalDefaults()).toEqual({
+        lookbackDays: 21,
+        iterationCount: 3,
+        ageThresholds: { caution: 6, warning: 11 },
+      });
+    });
+
+    it('falls back per field when a saved value is invalid', async () => {
+      storage[GLOBAL_DEFAULTS_STORAGE_KEY] = {
+        lookbackDays: 400,
+        iterationCount: 5,
+        ageThresholds: { caution: 10, warning: 4 },
+      };
+
+      expect(await getGlobalDefaults()).toEqual({
+        lookbackDays: 21,
+        iterationCount: 5,
+        ageThresholds: { caution: 6, warning: 11 },
+      });
+    });
+
+    it('returns the built-in defaults when storage fails', async () => {
+      (global as any).chrome.storage.local.get = vi.fn(() => Promise.reject(new Error('boom')));
+
+      expect(await getGlobalDefaults()).toEqual(BUILT_IN_GLOBAL_DEFAULTS);
+    });
+  });
+
+  describe('setGlobalDefaults', () => {
+    it('saves and reads back the defaults', async () => {
+      const defaults = { lookbackDays: 14, iterationCount: 4, ageThresholds: { caution: 3, warning: 8 } };
+
+      await setGlobalDefaults(defaults);
+
+      expect(await getGlobalDefaults()).toEqual(defaults);
+    });
+
+    it('rejects an out-of-range lookback', async () => {
+      await expect(setGlobalDefaults({ ...BUILT_IN_GLOBAL_DEFAULTS, lookbackDays: 0 }))
+        .rejects.toThrow('Lookback days must be between 1 and 365');
+    });
+
+    it('rejects a fractional iteration count', async () => {
+      await expect(setGlobalDefaults({ ...BUILT_IN_GLOBAL_DEFAULTS, iterationCount: 2.5 }))
+        .rejects.toThrow('Iteration count');
+    });
+
+    it('rejects a caution threshold that is not below warning', async () => {
+      await expect(setGlobalDefaults({ ...BUILT_IN_GLOBAL_DEFAULTS, ageThresholds: { caution: 5, warning: 5 } }))
+        .rejects.toThrow('Age thresholds');
+      expect(storage[GLOBAL_DEFAULTS_STORAGE_KEY]).toBeUndefined();
+    });
+  });
+
+  describe('resetGlobalDefaults', () => {
+    it('reverts to the built-in defaults', async () => {
+      await setGlobalDefaults({ lookbackDays: 7, iterationCount: 2, ageThresholds: { caution: 2, warning: 4 } });
+
+      await resetGlobalDefaults();
+
+      expect(await getGlobalDefaults()).toEqual(BUILT_IN_GLOBAL_DEFAULTS);
+    });
+  });
+
+  describe('validators', () => {
+    it('validates lookback days', () => {
+      expect(isValidLookbackDays(1)).toBe(true);
+      expect(isValidLookbackDays(365)).toBe(true);
+      expect(isValidLookbackDays(366)).toBe(false);
+      expect(isValidLookbackDays('21')).toBe(false);
+    });
+
+    it('validates iteration counts', () => {
+      expect(isValidIterationCount(1)).toBe(true);
+      expect(isValidIterationCount(0)).toBe(false);
+      expect(isValidIterationCount(101)).toBe(false);
+    });
+
+    it('validates age thresholds', () => {
+      expect(isValidAgeThresholds({ caution: 1, warning: 2 })).toBe(true);
+      expect(isValidAgeThresholds({ caution: 0, warning: 2 })).toBe(false);
+      expect(isValidAgeThresholds({ caution: 3 })).toBe(false);
+      expect(isValidAgeThresholds(null)).toBe(false);
+    });
+  });
+
+  describe('isGlobalDefaultsChange', () => {
+    it('detects changes to the global defaults key only', () => {
+      expect(isGlobalDefaultsChange({ [GLOBAL_DEFAULTS_STORAGE_KEY]: { newValue: {} } })).toBe(true);
+      expect(isGlobalDefaultsChange({ 'burnup-lookbackDays': { newValue: 7 } })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { toMarkdownTable, copyMarkdown } from '../markdown';
+
+describe('markdown', () => {
+  describe('toMarkdownTable', () => {
+    it('formats headers, separator and rows', () => {
+      const table = toMarkdownTable(['Metric', 'Value'], [['Completed', '30'], ['Remaining', '70']]);
+
+      expect(table).toBe([
+        '| Metric | Value |',
+        '| --- | --- |',
+        '| Completed | 30 |',
+        '| Remaining | 70 |',
+      ].join('\n'));
+    });
+
+    it('right-aligns columns', () => {
+      const table = toMarkdownTable(['Iteration', 'Estimate'], [], ['left', 'right']);
+
+      expect(table.split('\n')[1]).toBe('| --- | ---: |');
+    });
+
+    it('escapes pipes and line breaks in cells', () => {
+      const table = toMarkdownTable(['Name'], [['a|b\nc']]);
+
+      expect(table.split('\n')[2]).toBe('| a\\|b c |');
+    });
+  });
+
+  describe('copyMarkdown', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    it('copies the text and restores the button label', async () => {
+      const writeText = vi.fn(() => Promise.resolve());
+      vi.stubGlobal('navigator', { clipboard: { writeText } });
+      const button = document.createElement('button');
+      button.textContent = 'Copy summary';
+
+      await copyMarkdown(button, '| a |');
+
+      expect(writeText).toHaveBeenCalledWith('| a |');
+      expect(button.textContent).toBe('Copied!');
+      vi.advanceTimersByTime(2000);
+      expect(button.textContent).toBe('Copy summary');
+    });
+
+    it('keeps the original label when clicked again while showing feedback', async () => {
+      vi.stubGlobal('navigator', { clipboard: { writeText: vi.fn(() => Promise.resolve()) } });
+      const button = document.createElement('button');
+      button.textContent = 'Copy summary';
+
+      await copyMarkdown(button, 'first');
+      vi.advanceTimersByTime(1000);
+      await copyMarkdown(button, 'second');
+      vi.advanceTimersByTime(1000);
+      expect(button.textContent).toBe('Copied!');
+      vi.advanceTimersByTime(1000);
+      expect(button.textContent).toBe('Copy summary');
+    });
+
+    it('shows a failure when the clipboard is unavailable', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.stubGlobal('navigator', { clipboard: { writeText: () => Promise.reject(new Error('denied')) } });
+      const button = document.createElement('button');
+      button.textContent = 'Copy summary';
+
+      await copyMarkdown(button, 'text');
+
+      expect(button.textContent).toBe('Copy failed');
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  isSyncedKey,
+  measureItemBytes,
+  encodeSyncItems,
+  decodeSyncItems,
+  resolveConflict,
+  migrateLegacyKeys,
+  setSyncEnabled,
+  syncAll,
+  pushLocalChanges,
+  pullSyncChanges,
+  getSyncState,
+  findExpiredTombstones,
+  SYNC_KEY_PREFIX,
+  TOMBSTONE_TTL_MS,
+  SYNC_STATE_STORAGE_KEY,
+} from '../settings-sync';
+
+function createArea(data: Record<string, unknown>) {
+  return {
+    get: vi.fn((key: string | null) => Promise.resolve(
+      key === null ? structuredClone(data) : key in data ? { [key]: structuredClone(data[key]) } : {}
+    )),
+    set: vi.fn((items: Record<string, unknown>) => {
+      Object.assign(data, structuredClone(items));
+      return Promise.resolve();
+    }),
+    remove: vi.fn((keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        delete data[key];
+      }
+      return Promise.resolve();
+    }),
+  };
+}
+
+describe('settings-sync', () => {
+  let local: Record<string, unknown>;
+  let sync: Record<string, unknown>;
+
+  beforeEach(() => {
+    local = {};
+    sync = {};
+    (global as any).chrome = {
+      storage: {
+        local: createArea(local),
+        sync: { ...createArea(sync), QUOTA_BYTES_PER_ITEM: 8192 },
+      },
+    };
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-01T00:00:00Z'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete (global as any).chrome;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const NOW = new Date('2024-03-01T00:00:00Z').getTime();
+  const TARGET_KEY = 'burnup-targetDate:orgs:myorg:123:456';
+
+  describe('isSyncedKey', () => {
+    it('syncs per-insight settings, global defaults and field mappings', () => {
+      expect(isSyncedKey(TARGET_KEY)).toBe(true);
+      expect(isSyncedKey('insights-plus-global-defaults')).toBe(true);
+      expect(isSyncedKey('insights-plus-date-field-mappings')).toBe(true);
+    });
+
+    it('does not sync prediction history, legacy keys or its own state', () => {
+      expect(isSyncedKey('burnup-predictionHistory:orgs:myorg:123:456')).toBe(false);
+      expect(isSyncedKey('burnup-targetDate')).toBe(false);
+      expect(isSyncedKey(SYNC_STATE_STORAGE_KEY)).toBe(false);
+    });
+  });
+
+  describe('encodeSyncItems / decodeSyncItems', () => {
+    it('stores small values in a single item', () => {
+      const items = encodeSyncItems(TARGET_KEY, '2024-04-01', 100);
+
+      expect(items).toEqual({ [SYNC_KEY_PREFIX + TARGET_KEY]: { updatedAt: 100, value: '2024-04-01' } });
+      expect(decodeSyncItems(items).get(TARGET_KEY)).toEqual({ updatedAt: 100, value: '2024-04-01' });
+    });
+
+    it('chunks values over the per-item quota and reassembles them', () => {
+      const mappings: Record<string, unknown> = {};
+      for (let i = 0; i < 200; i++) {
+        mappings[`orgs:team-${i}:${i}`] = { startFieldId: `start-"${i}"`, endFieldId: `end-${i}`, doneStatusIds: ['✓'] };
+      }
+
+      const items = encodeSyncItems('insights-plus-date-field-mappings', mappings, 100, 1000);
+
+      const keys = Object.keys(items);
+      expect(keys.length).toBeGreaterThan(2);
+      for (const key of keys) {
+        expect(measureItemBytes(key, items[key])).toBeLessThanOrEqual(1000);
+      }
+      expect(decodeSyncItems(items).get('insights-plus-date-field-mappings')?.value).toEqual(mappings);
+    });
+
+    it('skips values whose chunks are incomplete', () => {
+      const items = encodeSyncItems('insights-plus-date-field-mappings', { a: 'x'.repeat(3000) }, 100, 1000);
+      delete items[`${SYNC_KEY_PREFIX}insights-plus-date-field-mappings#1`];
+
+      expect(decodeSyncItems(items).size).toBe(0);
+    });
+
+    it('encodes deletions as tombstones', () => {
+      const items = encodeSyncItems(TARGET_KEY, undefined, 100);
+
+      expect(decodeSyncItems(items).get(TARGET_KEY)).toEqual({ updatedAt: 100, value: undefined });
+    });
+  });
+
+  describe('resolveConflict', () => {
+    it('lets the newer side win', () => {
+      expect(resolveConflict({ updatedAt: 2, value: 'a' }, { updatedAt: 1, value: 'b' })).toBe('push');
+      expect(resolveConflict({ updatedAt: 1, value: 'a' }, { updatedAt: 2, value: 'b' })).toBe('pull');
+    });
+
+    it('does nothing when both sides already agree', () => {
+      expect(resolveConflict({ updatedAt: 1, value: ['x'] }, { updatedAt: 2, value: ['x'] })).toBeNull();
+    });
+
+    it('copies values that exist on one side only', () => {
+      expect(resolveConflict({ updatedAt: 0, value: 'a' }, undefined)).toBe('push');
+      expect(resolveConflict(undefined, { updatedAt: 1, value: 'b' })).toBe('pull');
+    });
+  });
+
+  describe('migrateLegacyKeys', () => {
+    it('runs pending storage migrations and moves legacy keys into their insights', async () => {
+      local['burnup-lookbackDays'] = 30;
+      local['burnup-targetDate'] = '2024-04-01';
+      local['velocity-SelectedIterations'] = ['Sprint 1'];
+      local[TARGET_KEY] = '2024-05-01';
+      local['burnup-lookbackDays:orgs:myorg:123:789'] = 14;
+      local['velocity-capacityPlan:orgs:myorg:123:default'] = { totalDays: 10, daysOff: 0 };
+
+      const result = await migrateLegacyKeys();
+
+      expect(result).toEqual({ applied: [1, 2], skipped: [] });
+      expect(local['burnup-lookbackDays']).toBeUndefined();
+      expect(local['insights-plus-global-defaults']).toMatchObject({ lookbackDays: 30 });
+      expect(local['burnup-targetDate']).toBeUndefined();
+      expect(local[TARGET_KEY]).toBe('2024-05-01');
+      expect(local['burnup-targetDate:orgs:myorg:123:789']).toBe('2024-04-01');
+      expect(local['velocity-SelectedIterations:orgs:myorg:123:default']).toEqual(['Sprint 1']);
+    });
+
+    it('reports legacy keys with no insight of their chart type as skipped', async () => {
+      local['velocity-SelectedIterations'] = ['Sprint 1'];
+      local[TARGET_KEY] = '2024-05-01';
+
+      const result = await migrateLegacyKeys();
+
+      expect(result.skipped).toEqual(['velocity-SelectedIterations']);
+      expect(local['velocity-SelectedIterations']).toEqual(['Sprint 1']);
+    });
+
+    it('does not run migrations twice', async () => {
+      await migrateLegacyKeys();
+
+      expect((await migrateLegacyKeys()).applied).toEqual([]);
+    });
+  });
+
+  describe('syncAll', () => {
+    it('does nothing while sync is disabled', async () => {
+      local[TARGET_KEY] = '2024-04-01';
+
+      await syncAll();
+
+      expect(sync).toEqual({});
+    });
+
+    it('pushes local-only values and pulls remote-only values', async () => {
+      local[TARGET_KEY] = '2024-04-01';
+      Object.assign(sync, encodeSyncItems('velocity-SelectedIterations:orgs:myorg:123:default', ['Sprint 2'], 50));
+
+      await setSyncEnabled(true);
+
+      expect(decodeSyncItems(sync).get(TARGET_KEY)?.value).toBe('2024-04-01');
+      expect(local['velocity-SelectedIterations:orgs:myorg:123:default']).toEqual(['Sprint 2']);
+      expect((await getSyncState()).lastSyncedAt).toBe(NOW);
+    });
+
+    it('prefers the existing remote copy over local values written before sync was enabled', async () => {
+      local[TARGET_KEY] = '2024-04-01';
+      Object.assign(sync, encodeSyncItems(TARGET_KEY, '2024-06-01', 50));
+
+      await setSyncEnabled(true);
+
+      expect(local[TARGET_KEY]).toBe('2024-06-01');
+    });
+
+    it('records quota errors instead of throwing', async () => {
+      local[TARGET_KEY] = '2024-04-01';
+      (global as any).chrome.storage.sync.set = vi.fn(() => Promise.reject(new Error('QUOTA_BYTES quota exceeded')));
+
+      await setSyncEnabled(true);
+
+      expect((await getSyncState()).lastError).toBe('QUOTA_BYTES quota exceeded');
+    });
+  });
+
+  describe('findExpiredTombstones', () => {
+    const old = NOW - TOMBSTONE_TTL_MS - 1;
+
+    it('expires applied tombstones older than the TTL', () => {
+      const remote = new Map([
+        ['a', { updatedAt: old, value: undefined }],
+        ['b', { updatedAt: NOW - 1000, value: undefined }],
+        ['c', { updatedAt: old, value: 'kept' }],
+      ]);
+
+      expect(findExpiredTombstones(remote, [], NOW)).toEqual(['a']);
+    });
+
+    it('keeps tombstones that are being overwritten by a local value', () => {
+      const remote = new Map([['a', { updatedAt: old, value: undefined }]]);
+
+      expect(findExpiredTombstones(remote, ['a'], NOW)).toEqual([]);
+    });
+
+    it('removes expired tombstones and their recorded times during a full sync', async () => {
+      Object.assign(sync, encodeSyncItems(TARGET_KEY, undefined, old));
+      local[TARGET_KEY] = '2024-04-01';
+
+      await setSyncEnabled(true);
+
+      expect(sync).toEqual({});
+      expect(local[TARGET_KEY]).toBeUndefined();
+      expect((await getSyncState()).updatedAt).toEqual({});
+    });
+  });
+
+  describe('pushLocalChanges / pullSyncChanges', () => {
+    beforeEach(async () => {
+      await setSyncEnabled(true);
+    });
+
+    it('mirrors local edits and deletions with the current time', async () => {
+      await pushLocalChanges({ [TARGET_KEY]: '2024-04-01', 'something-else': 1 });
+
+      expect(decodeSyncItems(sync).get(TARGET_KEY)).toEqual({ updatedAt: NOW, value: '2024-04-01' });
+      expect(Object.keys(sync)).toHaveLength(1);
+
+      await pushLocalChanges({ [TARGET_KEY]: undefined });
+
+      expect(decodeSyncItems(sync).get(TARGET_KEY)).toEqual({ updatedAt: NOW, value: undefined });
+    });
+
+    it('removes leftover chunks when a value shrinks', async () => {
+      const big = { a: 'x'.repeat(20000) };
+      await pushLocalChanges({ 'insights-plus-date-field-mappings': big });
+      expect(Object.keys(sync).length).toBeGreaterThan(2);
+
+      await pushLocalChanges({ 'insights-plus-date-field-mappings': { a: 'small' } });
+
+      expect(Object.keys(sync)).toEqual([`${SYNC_KEY_PREFIX}insights-plus-date-field-mappings`]);
+    });
+
+    it('keeps the previous chunks when writing the smaller value fails', async () => {
+      const big = { a: 'x'.repeat(20000) };
+      await pushLocalChanges({ 'insights-plus-date-field-mappings': big });
+      const synced = { ...sync };
+      (global as any).chrome.storage.sync.set = vi.fn(() => Promise.reject(new Error('MAX_WRITE_OPERATIONS_PER_MINUTE')));
+
+      await pushLocalChanges({ 'insights-plus-date-field-mappings': { a: 'small' } });
+
+      expect(sync).toEqual(synced);
+      expect(decodeSyncItems(sync).get('insights-plus-date-field-mappings')?.value).toEqual(big);
+    });
+
+    it('applies newer changes from other devices', async () => {
+      local[TARGET_KEY] = '2024-04-01';
+      Object.assign(sync, encodeSyncItems(TARGET_KEY, '2024-07-01', NOW + 1000));
+
+      await pullSyncChanges();
+
+      expect(local[TARGET_KEY]).toBe('2024-07-01');
+    });
+
+    it('does not push back values that were just pulled', async () => {
+      Object.assign(sync, encodeSyncItems(TARGET_KEY, '2024-07-01', NOW + 1000));
+      await pullSyncChanges();
+      const setCalls = (global as any).chrome.storage.sync.set.mock.calls.length;
+
+      await pushLocalChanges({ [TARGET_KEY]: '2024-07-01' });
+
+      expect((global as any).chrome.storage.sync.set.mock.calls.length).toBe(setCalls);
+    });
+  });
+});
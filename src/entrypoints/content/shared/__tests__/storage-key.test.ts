@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { 
   generateStorageKey, 
   matchesStorageKey,
+  parseStorageKey,
   STORAGE_KEY_BURNUP_LOOKBACK_DAYS,
   STORAGE_KEY_BURNUP_TARGET_DATE,
   STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS,
@@ -264,4 +265,48 @@ describe('storage-key', () => {
       });
     });
   });
+
+  describe('parseStorageKey', () => {
+    it('parses a URL-based key', () => {
+      expect(parseStorageKey('burnup-lookbackDays:orgs:myorg:123:456')).toEqual({
+        baseKey: STORAGE_KEY_BURNUP_LOOKBACK_DAYS,
+        context: { orgOrUser: 'orgs:myorg', projectNumber: '123', insightNumber: '456' },
+      });
+    });
+
+    it('parses a key for the default insight', () => {
+      expect(parseStorageKey('velocity-SelectedIterations:users:my_user:7:default')).toEqual({
+        baseKey: STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS,
+        context: { orgOrUser: 'users:my_user', projectNumber: '7', insightNumber: 'default' },
+      });
+    });
+
+    it('parses a legacy base-only key without context', () => {
+      expect(parseStorageKey('burnup-targetDate')).toEqual({
+        baseKey: STORAGE_KEY_BURNUP_TARGET_DATE,
+        context: null,
+      });
+    });
+
+    it('returns null for keys that are not settings', () => {
+      expect(parseStorageKey('insights-plus-date-field-mappings')).toBeNull();
+      expect(parseStorageKey('burnup-lookbackDaysExtra:orgs:myorg:123:456')).toBeNull();
+    });
+
+    it('returns null for malformed URL-based keys', () => {
+      expect(parseStorageKey('burnup-lookbackDays:orgs:myorg:abc:456')).toBeNull();
+      expect(parseStorageKey('burnup-lookbackDays:orgs:myorg:123:456:extra')).toBeNull();
+    });
+
+    it('round-trips keys produced by generateStorageKey', () => {
+      const url = 'https://github.com/orgs/my-org/projects/42/insights/9';
+      const key = generateStorageKey(STORAGE_KEY_BURNUP_TARGET_DATE, url);
+
+      expect(parseStorageKey(key)?.context).toEqual({
+        orgOrUser: 'orgs:my-org',
+        projectNumber: '42',
+        insightNumber: '9',
+      });
+    });
+  });
 });
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  runStorageMigrations,
+  findLegacyKeys,
+  STORAGE_MIGRATIONS,
+  CURRENT_STORAGE_SCHEMA_VERSION,
+  STORAGE_SCHEMA_VERSION_KEY,
+  STORAGE_SCHEMA_BACKUP_KEY,
+} from '../storage-migrations';
+import type { StorageMigration } from '../storage-migrations';
+
+describe('storage-migrations', () => {
+  let storage: Record<string, unknown>;
+
+  beforeEach(() => {
+    storage = {};
+    (global as any).chrome = {
+      storage: {
+        local: {
+          get: vi.fn((key: string | null) => Promise.resolve(
+            key === null ? { ...storage } : key in storage ? { [key]: storage[key] } : {}
+          )),
+          set: vi.fn((items: Record<string, unknown>) => {
+            Object.assign(storage, items);
+            return Promise.resolve();
+          }),
+          remove: vi.fn((keys: string | string[]) => {
+            for (const key of Array.isArray(keys) ? keys : [keys]) {
+              delete storage[key];
+            }
+            return Promise.resolve();
+          }),
+        },
+      },
+    };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete (global as any).chrome;
+    vi.restoreAllMocks();
+  });
+
+  describe('STORAGE_MIGRATIONS', () => {
+    it('numbers migrations consecutively from 1', () => {
+      expect(STORAGE_MIGRATIONS.map(migration => migration.version))
+        .toEqual(Array.from({ length: CURRENT_STORAGE_SCHEMA_VERSION }, (_, i) => i + 1));
+    });
+
+    describe('version 1: legacy lookback days', () => {
+      const migrate = STORAGE_MIGRATIONS[0]!.migrate;
+
+      it('moves a legacy lookback into the global defaults', () => {
+        expect(migrate({ 'burnup-lookbackDays': 30 })).toEqual({
+          set: {
+            'insights-plus-global-defaults': {
+              lookbackDays: 30,
+              iterationCount: 3,
+              ageThresholds: { caution: 6, warning: 11 },
+            },
+          },
+          remove: ['burnup-lookbackDays'],
+        });
+      });
+
+      it('keeps global defaults that are already set', () => {
+        const changes = migrate({
+          'burnup-lookbackDays': 30,
+          'insights-plus-global-defaults': { lookbackDays: 14 },
+        });
+
+        expect(changes).toEqual({ set: {}, remove: ['burnup-lookbackDays'] });
+      });
+
+      it('leaves per-insight lookbacks alone', () => {
+        expect(migrate({ 'burnup-lookbackDays:orgs:myorg:1:2': 30 })).toEqual({ set: {}, remove: [] });
+      });
+    });
+
+    describe('version 2: legacy base-only settings', () => {
+      const migrate = STORAGE_MIGRATIONS[1]!.migrate;
+
+      it('copies legacy settings into each insight of the same chart type', () => {
+        expect(migrate({
+          'burnup-targetDate': '2024-04-01',
+          'burnup-targetDate:orgs:myorg:1:2': '2024-05-01',
+          'burnup-velocityModel:users:me:3:4': 'ewma',
+          'velocity-capacityPlan:orgs:myorg:1:5': { totalDays: 10, daysOff: 0 },
+        })).toEqual({
+          set: { 'burnup-targetDate:users:me:3:4': '2024-04-01' },
+          remove: ['burnup-targetDate'],
+        });
+      });
+
+      it('keeps legacy settings with no insight of their chart type', () => {
+        const changes = migrate({
+          'velocity-SelectedIterations': ['Sprint 1'],
+          'burnup-targetDate:orgs:myorg:1:2': '2024-05-01',
+        });
+
+        expect(changes).toEqual({ set: {}, remove: [] });
+      });
+
+      it('never copies prediction history', () => {
+        const changes = migrate({
+          'burnup-predictionHistory': [],
+          'burnup-targetDate:orgs:myorg:1:2': '2024-05-01',
+        });
+
+        expect(changes).toEqual({ set: {}, remove: [] });
+      });
+    });
+  });
+
+  describe('runStorageMigrations', () => {
+    const migrations: StorageMigration[] = [
+      {
+        version: 2,
+        description: 'rename b to c',
+        migrate: items => ({ set: { c: items.b }, remove: ['b'] }),
+      },
+      {
+        version: 1,
+        description: 'rename a to b',
+        migrate: items => ({ set: { b: items.a }, remove: ['a'] }),
+      },
+    ];
+
+    it('runs pending migrations in version order and records the version', async () => {
+      storage.a = 'value';
+
+      const result = await runStorageMigrations(migrations);
+
+      expect(result).toEqual({ fromVersion: 0, toVersion: 2, applied: [1, 2] });
+      expect(storage.c).toBe('value');
+      expect(storage.a).toBeUndefined();
+      expect(storage.b).toBeUndefined();
+      expect(storage[STORAGE_SCHEMA_VERSION_KEY]).toBe(2);
+    });
+
+    it('only runs migrations newer than the stored version', async () => {
+      storage.b = 'value';
+      storage[STORAGE_SCHEMA_VERSION_KEY] = 1;
+
+      const result = await runStorageMigrations(migrations);
+
+      expect(result.applied).toEqual([2]);
+      expect(storage.c).toBe('value');
+    });
+
+    it('does nothing when already up to date', async () => {
+      storage[STORAGE_SCHEMA_VERSION_KEY] = 2;
+
+      expect(await runStorageMigrations(migrations)).toEqual({ fromVersion: 2, toVersion: 2, applied: [] });
+      expect(storage[STORAGE_SCHEMA_BACKUP_KEY]).toBeUndefined();
+    });
+
+    it('backs up the data before migrating', async () => {
+      storage.a = 'value';
+
+      await runStorageMigrations(migrations);
+
+      expect(storage[STORAGE_SCHEMA_BACKUP_KEY]).toMatchObject({ version: 0, items: { a: 'value' } });
+    });
+
+    it('stops at a failing migration and keeps the last successful version', async () => {
+      storage.a = 'value';
+      const failing: StorageMigration[] = [
+        migrations[1]!,
+        { version: 2, description: 'broken', migrate: () => { throw new Error('boom'); } },
+      ];
+
+      const result = await runStorageMigrations(failing);
+
+      expect(result).toEqual({ fromVersion: 0, toVersion: 1, applied: [1] });
+      expect(storage[STORAGE_SCHEMA_VERSION_KEY]).toBe(1);
+      expect(storage.b).toBe('value');
+    });
+  });
+
+  describe('findLegacyKeys', () => {
+    it('returns base-only setting keys', () => {
+      expect(findLegacyKeys({
+        'burnup-targetDate': '2024-01-01',
+        'burnup-targetDate:orgs:myorg:1:2': '2024-01-01',
+        'insights-plus-global-defaults': {},
+      })).toEqual(['burnup-targetDate']);
+    });
+  });
+});
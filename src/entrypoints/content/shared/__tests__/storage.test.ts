@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readValue, writeValue, getSetting, setSetting, removeSetting, isArray, isNonEmptyString } from '../storage';
+import { STORAGE_KEY_BURNUP_TARGET_DATE } from '../storage-key';
+
+describe('storage', () => {
+  const originalLocation = window.location;
+  let storage: Record<string, unknown>;
+
+  beforeEach(() => {
+    storage = {};
+    (global as any).chrome = {
+      storage: {
+        local: {
+          get: vi.fn((key: string) => Promise.resolve(key in storage ? { [key]: storage[key] } : {})),
+          set: vi.fn((items: Record<string, unknown>) => {
+            Object.assign(storage, items);
+            return Promise.resolve();
+          }),
+          remove: vi.fn((key: string) => {
+            delete storage[key];
+            return Promise.resolve();
+          }),
+        },
+      },
+    };
+    Object.defineProperty(window, 'location', {
+      value: { ...originalLocation, href: 'https://github.com/orgs/myorg/projects/123/insights/456' },
+      writable: true,
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    delete (global as any).chrome;
+    Object.defineProperty(window, 'location', {
+      value: originalLocation,
+      writable: true,
+      configurable: true,
+    });
+  });
+
+  describe('readValue / writeValue', () => {
+    it('round-trips a value', async () => {
+      await writeValue('some-key', ['a']);
+
+      expect(await readValue('some-key', isArray)).toEqual(['a']);
+    });
+
+    it('returns null for missing or invalid values', async () => {
+      storage['some-key'] = 42;
+
+      expect(await readValue('missing', isArray)).toBeNull();
+      expect(await readValue('some-key', isArray)).toBeNull();
+    });
+  });
+
+  describe('getSetting / setSetting / removeSetting', () => {
+    it('stores settings under the key for the current insight', async () => {
+      await setSetting(STORAGE_KEY_BURNUP_TARGET_DATE, '2024-04-01');
+
+      expect(storage).toEqual({ 'burnup-targetDate:orgs:myorg:123:456': '2024-04-01' });
+      expect(await getSetting(STORAGE_KEY_BURNUP_TARGET_DATE, isNonEmptyString)).toBe('2024-04-01');
+
+      await removeSetting(STORAGE_KEY_BURNUP_TARGET_DATE);
+
+      expect(await getSetting(STORAGE_KEY_BURNUP_TARGET_DATE, isNonEmptyString)).toBeNull();
+    });
+  });
+});
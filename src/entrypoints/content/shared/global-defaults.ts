@@ -0,0 +1,132 @@
+// GitHub Project Insights - Global Defaults Module
+// Responsibility: Store extension-wide defaults used when no per-insight or per-project setting exists
+
+import type { GlobalDefaults } from './types';
+import { readValue, removeValue, writeValue } from './storage';
+
+/** Single storage key holding the global defaults object */
+export const GLOBAL_DEFAULTS_STORAGE_KEY = 'insights-plus-global-defaults';
+
+export const MIN_LOOKBACK_DAYS = 1;
+export const MAX_LOOKBACK_DAYS = 365;
+export const MAX_ITERATION_COUNT = 100;
+
+/**
+ * Built-in defaults, used until the user saves their own on the options page
+ */
+export const BUILT_IN_GLOBAL_DEFAULTS: GlobalDefaults = {
+  lookbackDays: 21,
+  iterationCount: 3,
+  ageThresholds: { caution: 6, warning: 11 },
+};
+
+/**
+ * Get the global defaults from storage
+ *
+ * Each field is validated on its own, so a single bad value falls back to
+ * its built-in default without discarding the rest.
+ *
+ * @returns Promise resolving to the global defaults
+ */
+export async function getGlobalDefaults(): Promise<GlobalDefaults> {
+  try {
+    const stored: Partial<GlobalDefaults> = (await readValue(GLOBAL_DEFAULTS_STORAGE_KEY, isObject)) ?? {};
+
+    return {
+      lookbackDays: isValidLookbackDays(stored.lookbackDays)
+        ? stored.lookbackDays
+        : BUILT_IN_GLOBAL_DEFAULTS.lookbackDays,
+      iterationCount: isValidIterationCount(stored.iterationCount)
+        ? stored.iterationCount
+        : BUILT_IN_GLOBAL_DEFAULTS.iterationCount,
+      ageThresholds: isValidAgeThresholds(stored.ageThresholds)
+        ? { ...stored.ageThresholds }
+        : { ...BUILT_IN_GLOBAL_DEFAULTS.ageThresholds },
+    };
+  } catch (error) {
+    console.error('Failed to get global defaults:', error);
+    return { ...BUILT_IN_GLOBAL_DEFAULTS, ageThresholds: { ...BUILT_IN_GLOBAL_DEFAULTS.ageThresholds } };
+  }
+}
+
+/**
+ * Set the global defaults
+ * @param defaults Defaults to save (all fields are validated)
+ * @returns Promise resolving when the defaults are saved
+ */
+export async function setGlobalDefaults(defaults: GlobalDefaults): Promise<void> {
+  if (!isValidLookbackDays(defaults.lookbackDays)) {
+    throw new Error(`Lookback days must be between ${MIN_LOOKBACK_DAYS} and ${MAX_LOOKBACK_DAYS}`);
+  }
+  if (!isValidIterationCount(defaults.iterationCount)) {
+    throw new Error(`Iteration count must be a whole number between 1 and ${MAX_ITERATION_COUNT}`);
+  }
+  if (!isValidAgeThresholds(defaults.ageThresholds)) {
+    throw new Error('Age thresholds must be whole days with caution below warning');
+  }
+
+  try {
+    await writeValue<GlobalDefaults>(GLOBAL_DEFAULTS_STORAGE_KEY, {
+      lookbackDays: defaults.lookbackDays,
+      iterationCount: defaults.iterationCount,
+      ageThresholds: {
+        caution: defaults.ageThresholds.caution,
+        warning: defaults.ageThresholds.warning,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to set global defaults:', error);
+    throw error;
+  }
+}
+
+/**
+ * Clear the saved global defaults (revert to the built-in ones)
+ * @returns Promise resolving when the defaults are cleared
+ */
+export async function resetGlobalDefaults(): Promise<void> {
+  try {
+    await removeValue(GLOBAL_DEFAULTS_STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to reset global defaults:', error);
+    throw error;
+  }
+}
+
+/**
+ * True when a storage change event touches the global defaults
+ */
+export function isGlobalDefaultsChange(changes: Record<string, chrome.storage.StorageChange>): boolean {
+  return Object.prototype.hasOwnProperty.call(changes, GLOBAL_DEFAULTS_STORAGE_KEY);
+}
+
+/**
+ * Lookback days must be a number between 1 and 365 (same rule as the per-insight setting)
+ */
+export function isValidLookbackDays(value: unknown): value is number {
+  return typeof value === 'number' && value >= MIN_LOOKBACK_DAYS && value <= MAX_LOOKBACK_DAYS;
+}
+
+/**
+ * Iteration count must be a whole number between 1 and 100
+ */
+export function isValidIterationCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_ITERATION_COUNT;
+}
+
+/**
+ * Age thresholds must be positive whole days with caution strictly below warning
+ */
+export function isValidAgeThresholds(value: unknown): value is GlobalDefaults['ageThresholds'] {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { caution, warning } = value as Partial<GlobalDefaults['ageThresholds']>;
+  return Number.isInteger(caution) && Number.isInteger(warning)
+    && (caution as number) >= 1 && (caution as number) < (warning as number);
+}
+
+function isObject(value: unknown): value is Partial<GlobalDefaults> {
+  return !!value && typeof value === 'object';
+}
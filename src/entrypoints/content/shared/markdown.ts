@@ -0,0 +1,52 @@
+// GitHub Project Insights - Markdown Summary Module
+// Responsibility: Format Markdown tables and copy them to the clipboard
+
+export type TableAlignment = 'left' | 'right';
+
+/**
+ * Format a Markdown table
+ * Pipes and line breaks in cells are escaped so each row stays on one line.
+ * @param headers Column headers
+ * @param rows Table rows (each row has one cell per header)
+ * @param alignments Column alignments (default: left)
+ */
+export function toMarkdownTable(
+  headers: string[],
+  rows: string[][],
+  alignments: TableAlignment[] = []
+): string {
+  const escapeCell = (cell: string): string => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  const formatRow = (cells: string[]): string => `| ${cells.map(escapeCell).join(' | ')} |`;
+  const separator = `| ${headers.map((_, i) => (alignments[i] === 'right' ? '---:' : '---')).join(' | ')} |`;
+
+  return [formatRow(headers), separator, ...rows.map(formatRow)].join('\n');
+}
+
+// Pending label restores per button, so repeated clicks restart the 2 seconds
+const restoreTimers = new WeakMap<HTMLButtonElement, ReturnType<typeof setTimeout>>();
+
+/**
+ * Copy Markdown to the clipboard and show the result on the button
+ * @param button Button that triggered the copy (its label changes for 2 seconds)
+ * @param markdown Text to copy
+ */
+export async function copyMarkdown(button: HTMLButtonElement, markdown: string): Promise<void> {
+  // Remember the label on the first copy; later clicks may land while the feedback is showing
+  if (button.dataset.label === undefined) {
+    button.dataset.label = button.textContent ?? '';
+  }
+  const originalText = button.dataset.label;
+
+  try {
+    await navigator.clipboard.writeText(markdown);
+    button.textContent = 'Copied!';
+  } catch (error) {
+    console.error('Failed to copy summary:', error);
+    button.textContent = 'Copy failed';
+  }
+
+  clearTimeout(restoreTimers.get(button));
+  restoreTimers.set(button, setTimeout(() => {
+    button.textContent = originalText;
+  }, 2000));
+}
@@ -0,0 +1,454 @@
+// GitHub Project Insights - Settings Sync Module
+// Responsibility: Opt-in mirroring of settings between chrome.storage.local and chrome.storage.sync
+
+import { parseStorageKey, STORAGE_KEY_BURNUP_PREDICTION_HISTORY } from './storage-key';
+import { GLOBAL_DEFAULTS_STORAGE_KEY } from './global-defaults';
+import { readAllValues, readValue, removeValue, writeValue, writeValues } from './storage';
+import { findLegacyKeys, runStorageMigrations } from './storage-migrations';
+
+/** Local key holding whether sync is enabled plus per-key modification times */
+export const SYNC_STATE_STORAGE_KEY = 'insights-plus-sync-state';
+
+/** Every key this feature writes to chrome.storage.sync starts with this prefix */
+export const SYNC_KEY_PREFIX = 'insights-plus-sync:';
+
+// Mirrors the date field alerts store key (kept as a literal so shared code
+// doesn't depend on the date-alerts content script)
+const DATE_FIELD_MAPPING_STORAGE_KEY = 'insights-plus-date-field-mappings';
+
+// chrome.storage.sync limits (Chrome's documented values, used when the API doesn't expose them)
+const DEFAULT_QUOTA_BYTES_PER_ITEM = 8192;
+// Headroom under the per-item limit for the key and JSON escaping of a chunk
+const CHUNK_SAFETY_BYTES = 512;
+
+/**
+ * How long a deletion tombstone stays in sync. Tombstones count against the
+ * item quota, so they are dropped once other devices have had time to apply
+ * them; a device offline for longer may bring the deleted value back.
+ */
+export const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SyncState {
+  enabled: boolean;
+  /** Last modification time (ms) of each synced key on this device */
+  updatedAt: Record<string, number>;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
+
+/**
+ * A synced value as stored in chrome.storage.sync
+ * - value: the value fits in one item
+ * - chunks: the JSON is split over `${syncKey}#0..n-1` string items
+ * - deleted: tombstone, so deletions win over older copies on other devices
+ */
+interface SyncEnvelope {
+  updatedAt: number;
+  value?: unknown;
+  chunks?: number;
+  deleted?: true;
+}
+
+export interface SyncEntry {
+  updatedAt: number;
+  /** undefined when the key was deleted */
+  value: unknown;
+}
+
+export interface LegacyMigrationResult {
+  /** Schema versions applied while migrating */
+  applied: number[];
+  /** Legacy keys with no insight of their chart type in storage yet; they stay local-only */
+  skipped: string[];
+}
+
+const DEFAULT_SYNC_STATE: SyncState = {
+  enabled: false,
+  updatedAt: {},
+  lastSyncedAt: null,
+  lastError: null,
+};
+
+/**
+ * True for local keys that are mirrored to sync
+ *
+ * Per-insight settings, the global defaults and the date field mappings are
+ * synced. Prediction history (recorded data that grows daily) and legacy
+ * base-only keys (not tied to an insight) are not.
+ */
+export function isSyncedKey(key: string): boolean {
+  if (key === GLOBAL_DEFAULTS_STORAGE_KEY || key === DATE_FIELD_MAPPING_STORAGE_KEY) {
+    return true;
+  }
+  const parsed = parseStorageKey(key);
+  return !!parsed && !!parsed.context && parsed.baseKey !== STORAGE_KEY_BURNUP_PREDICTION_HISTORY;
+}
+
+/**
+ * Size of an item as chrome.storage.sync counts it (key plus JSON value)
+ */
+export function measureItemBytes(key: string, value: unknown): number {
+  return new TextEncoder().encode(key + JSON.stringify(value)).length;
+}
+
+/**
+ * Encode a local value as chrome.storage.sync items, chunking values that exceed the per-item quota
+ * @param key Local storage key
+ * @param value Value to store, or undefined for a deletion
+ * @param updatedAt Modification time (ms)
+ * @param quotaBytesPerItem Per-item limit of chrome.storage.sync
+ */
+export function encodeSyncItems(
+  key: string,
+  value: unknown,
+  updatedAt: number,
+  quotaBytesPerItem: number = DEFAULT_QUOTA_BYTES_PER_ITEM,
+): Record<string, unknown> {
+  const syncKey = SYNC_KEY_PREFIX + key;
+
+  if (value === undefined) {
+    return { [syncKey]: { updatedAt, deleted: true } satisfies SyncEnvelope };
+  }
+
+  const envelope: SyncEnvelope = { updatedAt, value };
+  if (measureItemBytes(syncKey, envelope) <= quotaBytesPerItem) {
+    return { [syncKey]: envelope };
+  }
+
+  const json = JSON.stringify(value);
+  const chunks = splitIntoChunks(json, syncKey, quotaBytesPerItem - CHUNK_SAFETY_BYTES);
+  const items: Record<string, unknown> = {
+    [syncKey]: { updatedAt, chunks: chunks.length } satisfies SyncEnvelope,
+  };
+  chunks.forEach((chunk, index) => {
+    items[`${syncKey}#${index}`] = chunk;
+  });
+  return items;
+}
+
+/**
+ * Split a string so each `${syncKey}#i` item stays within the byte budget
+ */
+function splitIntoChunks(json: string, syncKey: string, budget: number): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < json.length) {
+    let end = Math.min(json.length, start + budget);
+    // Escaping and multi-byte characters can make a chunk larger than its length
+    while (end > start + 1 && measureItemBytes(`${syncKey}#${chunks.length}`, json.slice(start, end)) > budget) {
+      end = start + Math.floor((end - start) * 0.9);
+    }
+    chunks.push(json.slice(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+/**
+ * Decode chrome.storage.sync items back into local keys and values
+ *
+ * Entries with missing or unparsable chunks (e.g. another device is halfway
+ * through writing them) are left out rather than guessed.
+ */
+export function decodeSyncItems(items: Record<string, unknown>): Map<string, SyncEntry> {
+  const entries = new Map<string, SyncEntry>();
+
+  for (const [syncKey, raw] of Object.entries(items)) {
+    if (!syncKey.startsWith(SYNC_KEY_PREFIX) || syncKey.includes('#') || !isEnvelope(raw)) {
+      continue;
+    }
+
+    const key = syncKey.slice(SYNC_KEY_PREFIX.length);
+    if (raw.deleted) {
+      entries.set(key, { updatedAt: raw.updatedAt, value: undefined });
+      continue;
+    }
+
+    if (raw.chunks === undefined) {
+      entries.set(key, { updatedAt: raw.updatedAt, value: raw.value });
+      continue;
+    }
+
+    const parts: string[] = [];
+    for (let index = 0; index < raw.chunks; index++) {
+      const part = items[`${syncKey}#${index}`];
+      if (typeof part !== 'string') {
+        break;
+      }
+      parts.push(part);
+    }
+    if (parts.length !== raw.chunks) {
+      continue;
+    }
+
+    try {
+      entries.set(key, { updatedAt: raw.updatedAt, value: JSON.parse(parts.join('')) });
+    } catch {
+      // Chunks from two different writes; the next sync event will bring the rest
+    }
+  }
+
+  return entries;
+}
+
+function isSyncState(value: unknown): value is Partial<SyncState> {
+  return !!value && typeof value === 'object';
+}
+
+function isEnvelope(value: unknown): value is SyncEnvelope {
+  return !!value && typeof value === 'object' && typeof (value as SyncEnvelope).updatedAt === 'number';
+}
+
+/**
+ * Decide which side wins for one key: the newer modification time
+ *
+ * Local keys written before sync was enabled have no recorded time (0), so an
+ * existing copy in sync wins over them; ties keep the local value.
+ *
+ * @returns 'push' (local wins), 'pull' (sync wins) or null when already equal
+ */
+export function resolveConflict(
+  local: SyncEntry | undefined,
+  remote: SyncEntry | undefined,
+): 'push' | 'pull' | null {
+  if (!remote) return local && local.value !== undefined ? 'push' : null;
+  if (!local) return remote.value === undefined ? null : 'pull';
+  if (isSameValue(local.value, remote.value)) return null;
+  return remote.updatedAt > local.updatedAt ? 'pull' : 'push';
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Get the sync state from storage
+ */
+export async function getSyncState(): Promise<SyncState> {
+  try {
+    const state = await readValue(SYNC_STATE_STORAGE_KEY, isSyncState);
+    return { ...DEFAULT_SYNC_STATE, ...state, updatedAt: { ...state?.updatedAt } };
+  } catch (error) {
+    console.error('Failed to get sync state:', error);
+    return { ...DEFAULT_SYNC_STATE, updatedAt: {} };
+  }
+}
+
+async function saveSyncState(state: SyncState): Promise<void> {
+  await writeValue(SYNC_STATE_STORAGE_KEY, state);
+}
+
+/**
+ * Turn sync on or off
+ *
+ * Turning it on migrates legacy keys and runs a full two-way sync. Turning it
+ * off keeps both copies as they are; this device just stops mirroring.
+ *
+ * @returns Legacy migration result when sync was turned on
+ */
+export async function setSyncEnabled(enabled: boolean): Promise<LegacyMigrationResult | null> {
+  const state = await getSyncState();
+  await saveSyncState({ ...state, enabled, lastError: null });
+
+  if (!enabled) {
+    return null;
+  }
+
+  const migration = await migrateLegacyKeys();
+  await syncAll();
+  return migration;
+}
+
+/**
+ * Bring local keys into the current layout before they are mirrored
+ *
+ * Runs any pending storage migrations: the legacy base-only lookback moves
+ * into the global defaults, and other base-only settings are copied into each
+ * insight of the same chart type. Base-only keys whose chart type has no
+ * insight in storage stay local untouched and are reported as skipped.
+ */
+export async function migrateLegacyKeys(): Promise<LegacyMigrationResult> {
+  const { applied } = await runStorageMigrations();
+  return { applied, skipped: findLegacyKeys(await readAllValues()) };
+}
+
+/**
+ * Two-way sync of every synced key, resolving conflicts by modification time
+ */
+export async function syncAll(): Promise<void> {
+  const state = await getSyncState();
+  if (!state.enabled) return;
+
+  const localItems = await readAllValues();
+  const remoteItems = await chrome.storage.sync.get(null);
+  const remote = decodeSyncItems(remoteItems);
+
+  const keys = new Set([
+    ...Object.keys(localItems).filter(isSyncedKey),
+    ...[...remote.keys()].filter(isSyncedKey),
+    ...Object.keys(state.updatedAt).filter(isSyncedKey),
+  ]);
+
+  const toPush: Record<string, SyncEntry> = {};
+  const toPull: Record<string, SyncEntry> = {};
+  for (const key of keys) {
+    const local: SyncEntry | undefined = key in localItems || key in state.updatedAt
+      ? { updatedAt: state.updatedAt[key] ?? 0, value: localItems[key] }
+      : undefined;
+    const remoteEntry = remote.get(key);
+    const resolution = resolveConflict(local, remoteEntry);
+    if (resolution === 'push' && local) toPush[key] = local;
+    if (resolution === 'pull' && remoteEntry) toPull[key] = remoteEntry;
+  }
+
+  await applyRemoteEntries(toPull, state);
+  await writeRemoteEntries(toPush, remoteItems, state);
+  await pruneTombstones(findExpiredTombstones(remote, Object.keys(toPush), Date.now()));
+}
+
+/**
+ * Deleted keys whose tombstones can be dropped from sync
+ *
+ * A tombstone expires once it is older than TOMBSTONE_TTL_MS and has been
+ * applied here, i.e. it is not being overwritten by a newer local value.
+ *
+ * @param remote Decoded sync entries
+ * @param pushedKeys Keys this sync run writes from local values
+ * @param now Current time (ms)
+ */
+export function findExpiredTombstones(
+  remote: Map<string, SyncEntry>,
+  pushedKeys: string[],
+  now: number,
+): string[] {
+  return [...remote.entries()]
+    .filter(([key, entry]) =>
+      entry.value === undefined && now - entry.updatedAt > TOMBSTONE_TTL_MS && !pushedKeys.includes(key)
+    )
+    .map(([key]) => key);
+}
+
+async function pruneTombstones(keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+
+  try {
+    await chrome.storage.sync.remove(keys.map(key => SYNC_KEY_PREFIX + key));
+    // Re-read the state: the writes above saved their own copy
+    const state = await getSyncState();
+    for (const key of keys) {
+      delete state.updatedAt[key];
+    }
+    await saveSyncState(state);
+  } catch (error) {
+    console.error('Failed to remove expired deletions from sync storage:', error);
+  }
+}
+
+/**
+ * Mirror local changes to sync (called for local storage change events)
+ * @param changes Changed local keys and their new values (undefined = removed)
+ */
+export async function pushLocalChanges(changes: Record<string, unknown>): Promise<void> {
+  const state = await getSyncState();
+  if (!state.enabled) return;
+
+  const keys = Object.keys(changes).filter(isSyncedKey);
+  if (keys.length === 0) return;
+
+  const remoteItems = await chrome.storage.sync.get(null);
+  const remote = decodeSyncItems(remoteItems);
+  const now = Date.now();
+
+  const toPush: Record<string, SyncEntry> = {};
+  for (const key of keys) {
+    // Skip echoes of values we just pulled from sync
+    const current = remote.get(key);
+    if (current && isSameValue(current.value, changes[key])) {
+      continue;
+    }
+    state.updatedAt[key] = now;
+    toPush[key] = { updatedAt: now, value: changes[key] };
+  }
+
+  await writeRemoteEntries(toPush, remoteItems, state);
+}
+
+/**
+ * Apply changes made on other devices (called for sync storage change events)
+ */
+export async function pullSyncChanges(): Promise<void> {
+  const state = await getSyncState();
+  if (!state.enabled) return;
+
+  const localItems = await readAllValues();
+  const remote = decodeSyncItems(await chrome.storage.sync.get(null));
+
+  const toPull: Record<string, SyncEntry> = {};
+  for (const [key, entry] of remote) {
+    if (!isSyncedKey(key)) continue;
+    const local: SyncEntry = { updatedAt: state.updatedAt[key] ?? 0, value: localItems[key] };
+    if (resolveConflict(local, entry) === 'pull') {
+      toPull[key] = entry;
+    }
+  }
+
+  await applyRemoteEntries(toPull, state);
+}
+
+async function applyRemoteEntries(entries: Record<string, SyncEntry>, state: SyncState): Promise<void> {
+  const toSet: Record<string, unknown> = {};
+  const toRemove: string[] = [];
+  for (const [key, entry] of Object.entries(entries)) {
+    state.updatedAt[key] = entry.updatedAt;
+    if (entry.value === undefined) {
+      toRemove.push(key);
+    } else {
+      toSet[key] = entry.value;
+    }
+  }
+
+  if (toRemove.length > 0) await removeValue(toRemove);
+  if (Object.keys(toSet).length > 0) await writeValues(toSet);
+  await saveSyncState({ ...state, lastSyncedAt: Date.now() });
+}
+
+/**
+ * Write entries to sync in one batch (sync limits write operations per minute),
+ * removing chunks left over from a previous, longer value
+ */
+async function writeRemoteEntries(
+  entries: Record<string, SyncEntry>,
+  remoteItems: Record<string, unknown>,
+  state: SyncState,
+): Promise<void> {
+  const quotaBytesPerItem = chrome.storage.sync.QUOTA_BYTES_PER_ITEM ?? DEFAULT_QUOTA_BYTES_PER_ITEM;
+  const toSet: Record<string, unknown> = {};
+  const toRemove: string[] = [];
+
+  for (const [key, entry] of Object.entries(entries)) {
+    const items = encodeSyncItems(key, entry.value, entry.updatedAt, quotaBytesPerItem);
+    Object.assign(toSet, items);
+
+    const chunkPrefix = `${SYNC_KEY_PREFIX}${key}#`;
+    toRemove.push(...Object.keys(remoteItems).filter(
+      syncKey => syncKey.startsWith(chunkPrefix) && !(syncKey in items)
+    ));
+  }
+
+  if (Object.keys(toSet).length === 0) {
+    return;
+  }
+
+  try {
+    // Write first: the new header only counts its own chunks, so leftovers are
+    // harmless until removed, and a failed write leaves the old copy intact
+    await chrome.storage.sync.set(toSet);
+    if (toRemove.length > 0) await chrome.storage.sync.remove(toRemove);
+    await saveSyncState({ ...state, lastSyncedAt: Date.now(), lastError: null });
+  } catch (error) {
+    // Most likely a quota error (total size, item count or write rate); keep
+    // the local values and report it on the options page
+    console.error('Failed to write settings to sync storage:', error);
+    await saveSyncState({ ...state, lastError: error instanceof Error ? error.message : String(error) });
+  }
+}
@@ -9,7 +9,17 @@ import { parseProjectInsightsUrl } from './url-parser';
  */
 export const STORAGE_KEY_BURNUP_LOOKBACK_DAYS = 'burnup-lookbackDays';
 export const STORAGE_KEY_BURNUP_TARGET_DATE = 'burnup-targetDate';
+export const STORAGE_KEY_BURNUP_FORECAST_MODE = 'burnup-forecastMode';
+export const STORAGE_KEY_BURNUP_SCOPE_MODE = 'burnup-scopeMode';
+export const STORAGE_KEY_BURNUP_WORKING_CALENDAR = 'burnup-workingCalendar';
+export const STORAGE_KEY_BURNUP_VELOCITY_MODEL = 'burnup-velocityModel';
+export const STORAGE_KEY_BURNUP_PREDICTION_HISTORY = 'burnup-predictionHistory';
+export const STORAGE_KEY_BURNUP_MILESTONES = 'burnup-milestones';
+export const STORAGE_KEY_BURNUP_UNIT_MODE = 'burnup-unitMode';
+export const STORAGE_KEY_BURNUP_DISPLAY_MODE = 'burnup-displayMode';
 export const STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS = 'velocity-SelectedIterations';
+export const STORAGE_KEY_VELOCITY_CAPACITY_PLAN = 'velocity-capacityPlan';
+export const STORAGE_KEY_VELOCITY_SELECTION_PRESET = 'velocity-selectionPreset';
 
 /**
  * Type for valid storage key names
@@ -17,7 +27,49 @@ export const STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS = 'velocity-SelectedIterat
 export type StorageKey = 
   | typeof STORAGE_KEY_BURNUP_LOOKBACK_DAYS
   | typeof STORAGE_KEY_BURNUP_TARGET_DATE
-  | typeof STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS;
+  | typeof STORAGE_KEY_BURNUP_FORECAST_MODE
+  | typeof STORAGE_KEY_BURNUP_SCOPE_MODE
+  | typeof STORAGE_KEY_BURNUP_WORKING_CALENDAR
+  | typeof STORAGE_KEY_BURNUP_VELOCITY_MODEL
+  | typeof STORAGE_KEY_BURNUP_PREDICTION_HISTORY
+  | typeof STORAGE_KEY_BURNUP_MILESTONES
+  | typeof STORAGE_KEY_BURNUP_UNIT_MODE
+  | typeof STORAGE_KEY_BURNUP_DISPLAY_MODE
+  | typeof STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS
+  | typeof STORAGE_KEY_VELOCITY_CAPACITY_PLAN
+  | typeof STORAGE_KEY_VELOCITY_SELECTION_PRESET;
+
+/**
+ * All base storage keys (used to recognize stored settings, e.g. on the options page)
+ */
+export const STORAGE_KEYS: StorageKey[] = [
+  STORAGE_KEY_BURNUP_LOOKBACK_DAYS,
+  STORAGE_KEY_BURNUP_TARGET_DATE,
+  STORAGE_KEY_BURNUP_FORECAST_MODE,
+  STORAGE_KEY_BURNUP_SCOPE_MODE,
+  STORAGE_KEY_BURNUP_WORKING_CALENDAR,
+  STORAGE_KEY_BURNUP_VELOCITY_MODEL,
+  STORAGE_KEY_BURNUP_PREDICTION_HISTORY,
+  STORAGE_KEY_BURNUP_MILESTONES,
+  STORAGE_KEY_BURNUP_UNIT_MODE,
+  STORAGE_KEY_BURNUP_DISPLAY_MODE,
+  STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS,
+  STORAGE_KEY_VELOCITY_CAPACITY_PLAN,
+  STORAGE_KEY_VELOCITY_SELECTION_PRESET,
+];
+
+/**
+ * Parsed form of a key produced by generateStorageKey
+ */
+export interface ParsedStorageKey {
+  baseKey: StorageKey;
+  /** URL context, or null for a legacy base-only key */
+  context: {
+    orgOrUser: string;
+    projectNumber: string;
+    insightNumber: string;
+  } | null;
+}
 
 /**
  * Generate a unique storage key based on the current URL context
@@ -63,3 +115,34 @@ export function matchesStorageKey(key: string, baseKey: StorageKey): boolean {
   const pattern = new RegExp(`^${baseKey}:(orgs|users):`);
   return pattern.test(key);
 }
+
+/**
+ * Parse a storage key back into its base key and URL context
+ * 
+ * Accepts both URL-based keys ("burnup-lookbackDays:orgs:myorg:123:456")
+ * and legacy base-only keys ("burnup-lookbackDays").
+ * 
+ * @param key The storage key to parse (can be any string from storage)
+ * @returns Parsed key, or null if it is not one of our setting keys
+ */
+export function parseStorageKey(key: string): ParsedStorageKey | null {
+  const baseKey = STORAGE_KEYS.find(candidate => matchesStorageKey(key, candidate));
+  if (!baseKey) {
+    return null;
+  }
+
+  if (key === baseKey) {
+    return { baseKey, context: null };
+  }
+
+  const match = key.slice(baseKey.length + 1).match(/^((?:orgs|users):[^:]+):(\d+):([^:]+)$/);
+  const [, orgOrUser, projectNumber, insightNumber] = match ?? [];
+  if (!orgOrUser || !projectNumber || !insightNumber) {
+    return null;
+  }
+
+  return {
+    baseKey,
+    context: { orgOrUser, projectNumber, insightNumber },
+  };
+}
@@ -0,0 +1,183 @@
+// GitHub Project Insights - Storage Migrations Module
+// Responsibility: Version the storage schema and upgrade stored data on extension update
+
+import { parseStorageKey, STORAGE_KEY_BURNUP_LOOKBACK_DAYS, STORAGE_KEY_BURNUP_PREDICTION_HISTORY } from './storage-key';
+import { BUILT_IN_GLOBAL_DEFAULTS, GLOBAL_DEFAULTS_STORAGE_KEY, isValidLookbackDays } from './global-defaults';
+import { readAllValues, removeValue, writeValue, writeValues } from './storage';
+
+/** Local key holding the schema version the stored data is in (missing = 0) */
+export const STORAGE_SCHEMA_VERSION_KEY = 'insights-plus-schema-version';
+
+/** Local key holding a copy of the data from before the last migration run */
+export const STORAGE_SCHEMA_BACKUP_KEY = 'insights-plus-schema-backup';
+
+/**
+ * Changes a migration makes to local storage
+ */
+export interface StorageChanges {
+  set: Record<string, unknown>;
+  remove: string[];
+}
+
+/**
+ * A single schema upgrade
+ *
+ * `migrate` is pure: it gets everything in storage and returns the changes,
+ * so each migration can be tested without chrome.storage.
+ */
+export interface StorageMigration {
+  /** Schema version after this migration; versions must increase by one */
+  version: number;
+  description: string;
+  migrate(items: Record<string, unknown>): StorageChanges;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  /** Versions that were applied, in order */
+  applied: number[];
+}
+
+/**
+ * Ordered list of migrations. Append new ones at the end; never edit or
+ * reorder a released migration.
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move the legacy base-only lookback days into the global defaults',
+    migrate(items) {
+      const changes: StorageChanges = { set: {}, remove: [] };
+      const legacy = items[STORAGE_KEY_BURNUP_LOOKBACK_DAYS];
+      if (legacy === undefined) {
+        return changes;
+      }
+
+      // Written when the page URL could not be parsed, so it was effectively
+      // the lookback for every insight - the closest match is the global default
+      if (isValidLookbackDays(legacy) && !(GLOBAL_DEFAULTS_STORAGE_KEY in items)) {
+        changes.set[GLOBAL_DEFAULTS_STORAGE_KEY] = { ...BUILT_IN_GLOBAL_DEFAULTS, lookbackDays: legacy };
+      }
+      changes.remove.push(STORAGE_KEY_BURNUP_LOOKBACK_DAYS);
+      return changes;
+    },
+  },
+  {
+    version: 2,
+    description: 'Copy the remaining legacy base-only settings into each insight of the same chart type',
+    migrate(items) {
+      const changes: StorageChanges = { set: {}, remove: [] };
+
+      // Insights known from their own settings, per chart type ('burnup', 'velocity')
+      const insightsByType = new Map<string, Set<string>>();
+      for (const key of Object.keys(items)) {
+        const parsed = parseStorageKey(key);
+        if (!parsed?.context) continue;
+        const { orgOrUser, projectNumber, insightNumber } = parsed.context;
+        const type = getChartType(parsed.baseKey);
+        const insights = insightsByType.get(type) ?? new Set<string>();
+        insights.add(`${orgOrUser}:${projectNumber}:${insightNumber}`);
+        insightsByType.set(type, insights);
+      }
+
+      for (const legacyKey of findLegacyKeys(items)) {
+        // Recorded history belongs to one chart, so it is never copied
+        const insights = insightsByType.get(getChartType(legacyKey));
+        if (legacyKey === STORAGE_KEY_BURNUP_PREDICTION_HISTORY || !insights) {
+          continue;
+        }
+
+        // The legacy value applied to every insight; insights with their own value keep it
+        for (const insight of insights) {
+          const key = `${legacyKey}:${insight}`;
+          if (!(key in items)) {
+            changes.set[key] = items[legacyKey];
+          }
+        }
+        changes.remove.push(legacyKey);
+      }
+      return changes;
+    },
+  },
+];
+
+export const CURRENT_STORAGE_SCHEMA_VERSION = STORAGE_MIGRATIONS.length;
+
+/**
+ * Run every migration newer than the stored schema version, in order
+ *
+ * Before the first pending migration, the current data is copied to
+ * STORAGE_SCHEMA_BACKUP_KEY. The version is saved after each migration, so
+ * a failure stops the run without re-applying earlier steps next time.
+ *
+ * @param migrations Migrations to run (defaults to STORAGE_MIGRATIONS)
+ */
+export async function runStorageMigrations(
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS,
+): Promise<MigrationResult> {
+  const items = await readAllValues();
+  const fromVersion = getSchemaVersion(items);
+  const pending = migrations
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+  const result: MigrationResult = { fromVersion, toVersion: fromVersion, applied: [] };
+
+  if (pending.length === 0) {
+    return result;
+  }
+
+  const data = Object.fromEntries(Object.entries(items).filter(([key]) => key !== STORAGE_SCHEMA_BACKUP_KEY));
+  await writeValue(STORAGE_SCHEMA_BACKUP_KEY, { version: fromVersion, createdAt: new Date().toISOString(), items: data });
+
+  let current = data;
+  for (const migration of pending) {
+    try {
+      const changes = migration.migrate(current);
+      // Write before removing so a key that moves is never missing from both places
+      if (Object.keys(changes.set).length > 0) {
+        await writeValues(changes.set);
+      }
+      if (changes.remove.length > 0) {
+        await removeValue(changes.remove);
+      }
+      await writeValue(STORAGE_SCHEMA_VERSION_KEY, migration.version);
+
+      current = applyChanges(current, changes);
+      result.toVersion = migration.version;
+      result.applied.push(migration.version);
+    } catch (error) {
+      console.error(`Storage migration to version ${migration.version} failed:`, error);
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Legacy base-only setting keys still in storage (not tied to an insight)
+ */
+export function findLegacyKeys(items: Record<string, unknown>): string[] {
+  return Object.keys(items).filter(key => {
+    const parsed = parseStorageKey(key);
+    return !!parsed && !parsed.context;
+  });
+}
+
+function getChartType(baseKey: string): string {
+  return baseKey.split('-')[0] ?? baseKey;
+}
+
+function getSchemaVersion(items: Record<string, unknown>): number {
+  const version = items[STORAGE_SCHEMA_VERSION_KEY];
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+}
+
+function applyChanges(items: Record<string, unknown>, changes: StorageChanges): Record<string, unknown> {
+  const next = { ...items, ...changes.set };
+  for (const key of changes.remove) {
+    delete next[key];
+  }
+  return next;
+}
@@ -0,0 +1,86 @@
+// GitHub Project Insights - Storage Module
+// Responsibility: Typed access to chrome.storage.local for every feature
+
+import { generateStorageKey } from './storage-key';
+import type { StorageKey } from './storage-key';
+
+/**
+ * Type guard used to validate a stored value before it is handed out
+ */
+export type StorageGuard<T> = (value: unknown) => value is T;
+
+/**
+ * Read a value by its exact storage key
+ * @param key Storage key
+ * @param isValid Guard the stored value must pass
+ * @returns The value, or null when it is missing or invalid
+ */
+export async function readValue<T>(key: string, isValid: StorageGuard<T>): Promise<T | null> {
+  const result = await chrome.storage.local.get(key);
+  const value: unknown = result[key];
+  return isValid(value) ? value : null;
+}
+
+/**
+ * Write a value under its exact storage key
+ */
+export async function writeValue<T>(key: string, value: T): Promise<void> {
+  await chrome.storage.local.set({ [key]: value });
+}
+
+/**
+ * Write several values at once
+ */
+export async function writeValues(items: Record<string, unknown>): Promise<void> {
+  await chrome.storage.local.set(items);
+}
+
+/**
+ * Remove one or more storage keys
+ */
+export async function removeValue(keys: string | string[]): Promise<void> {
+  await chrome.storage.local.remove(keys);
+}
+
+/**
+ * Read everything in local storage
+ */
+export async function readAllValues(): Promise<Record<string, unknown>> {
+  return chrome.storage.local.get(null);
+}
+
+/**
+ * Read a per-insight setting for the current page (see generateStorageKey)
+ * @returns The value, or null when it is missing or invalid
+ */
+export function getSetting<T>(baseKey: StorageKey, isValid: StorageGuard<T>): Promise<T | null> {
+  return readValue(generateStorageKey(baseKey), isValid);
+}
+
+/**
+ * Write a per-insight setting for the current page
+ */
+export function setSetting<T>(baseKey: StorageKey, value: T): Promise<void> {
+  return writeValue(generateStorageKey(baseKey), value);
+}
+
+/**
+ * Remove a per-insight setting for the current page
+ */
+export function removeSetting(baseKey: StorageKey): Promise<void> {
+  return removeValue(generateStorageKey(baseKey));
+}
+
+/**
+ * Guard for values that are arrays (elements are checked by the caller)
+ */
+export function isArray(value: unknown): value is unknown[] {
+  return Array.isArray(value);
+}
+
+/**
+ * Guard for non-empty strings
+ */
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
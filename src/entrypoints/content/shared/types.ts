@@ -41,3 +41,16 @@ export interface BaseChartData {
   chartType: ChartType;
   chartInfo?: ChartInfo;
 }
+
+// Global defaults (set on the options page, used when an insight/project has no own setting)
+export interface GlobalDefaults {
+  /** Default lookback days for burn-up velocity (1-365) */
+  lookbackDays: number;
+  /** Default number of recent iterations selected on the velocity chart */
+  iterationCount: number;
+  /** Default Age thresholds (in days) for the date field alerts */
+  ageThresholds: {
+    caution: number;
+    warning: number;
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAverageVelocity,
+  calculateGroupVelocities,
+  getGroupNames,
+  getIterationKey,
+} from '../average-calculator';
+import type { IterationData } from '../types';
+
+describe('average-calculator', () => {
+  // Two groups that share iteration names, as GitHub stacks them in a grouped chart
+  const grouped: IterationData[] = [
+    { name: 'Sprint 1', estimate: 10, groupName: 'team-a', index: 0 },
+    { name: 'Sprint 2', estimate: 14, groupName: 'team-a', index: 1 },
+    { name: 'Sprint 1', estimate: 4, groupName: 'team-b', index: 2 },
+    { name: 'Sprint 2', estimate: 2, groupName: 'team-b', index: 3 },
+  ];
+
+  describe('getIterationKey', () => {
+    it('uses the plain name for ungrouped charts', () => {
+      expect(getIterationKey({ name: 'Sprint 1', estimate: 5, index: 0 })).toBe('Sprint 1');
+    });
+
+    it('includes the group so shared iteration names stay distinct', () => {
+      expect(grouped.map(getIterationKey)).toEqual([
+        'team-a::Sprint 1',
+        'team-a::Sprint 2',
+        'team-b::Sprint 1',
+        'team-b::Sprint 2',
+      ]);
+    });
+  });
+
+  describe('getGroupNames', () => {
+    it('lists groups in order of first appearance', () => {
+      expect(getGroupNames(grouped)).toEqual(['team-a', 'team-b']);
+      expect(getGroupNames([{ name: 'Sprint 1', estimate: 5, index: 0 }])).toEqual([]);
+    });
+  });
+
+  describe('calculateAverageVelocity', () => {
+    it('returns an empty result without a selection', () => {
+      expect(calculateAverageVelocity(grouped, [])).toMatchObject({ average: null, count: 0, spread: null });
+    });
+
+    it('selects an iteration in one group only', () => {
+      const result = calculateAverageVelocity(grouped, ['team-a::Sprint 1', 'team-a::Sprint 2']);
+
+      expect(result.count).toBe(2);
+      expect(result.average).toBe(12);
+      expect(result.spread?.planRange.low).toBeCloseTo(12 - Math.sqrt(8), 10);
+    });
+  });
+
+  describe('calculateGroupVelocities', () => {
+    it('averages each group over its own selected iterations', () => {
+      const result = calculateGroupVelocities(grouped, ['team-a::Sprint 1', 'team-a::Sprint 2', 'team-b::Sprint 1']);
+
+      expect(result).toEqual([
+        { groupName: 'team-a', average: 12, count: 2, total: 24, trend: 4 },
+        { groupName: 'team-b', average: 4, count: 1, total: 4, trend: null },
+      ]);
+    });
+
+    it('leaves out groups with nothing selected and ungrouped charts', () => {
+      expect(calculateGroupVelocities(grouped, ['team-b::Sprint 2']).map(group => group.groupName)).toEqual(['team-b']);
+      expect(calculateGroupVelocities([{ name: 'Sprint 1', estimate: 5, index: 0 }], ['Sprint 1'])).toEqual([]);
+    });
+  });
+});
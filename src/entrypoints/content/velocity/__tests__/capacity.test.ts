@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCapacityRecommendation, isValidCapacityPlan, DEFAULT_CAPACITY_PLAN } from '../capacity';
+import { calculateAverageVelocity } from '../average-calculator';
+import type { IterationData } from '../types';
+
+describe('capacity', () => {
+  describe('isValidCapacityPlan', () => {
+    it('accepts the default and partial days', () => {
+      expect(isValidCapacityPlan(DEFAULT_CAPACITY_PLAN)).toBe(true);
+      expect(isValidCapacityPlan({ totalDays: 42.5, daysOff: 2.5 })).toBe(true);
+    });
+
+    it('rejects zero, negative or excessive capacity', () => {
+      expect(isValidCapacityPlan({ totalDays: 0, daysOff: 0 })).toBe(false);
+      expect(isValidCapacityPlan({ totalDays: -5, daysOff: 0 })).toBe(false);
+      expect(isValidCapacityPlan({ totalDays: 1001, daysOff: 0 })).toBe(false);
+      expect(isValidCapacityPlan({ totalDays: NaN, daysOff: 0 })).toBe(false);
+    });
+
+    it('needs days off between 0 and the total', () => {
+      expect(isValidCapacityPlan({ totalDays: 10, daysOff: 10 })).toBe(true);
+      expect(isValidCapacityPlan({ totalDays: 10, daysOff: 11 })).toBe(false);
+      expect(isValidCapacityPlan({ totalDays: 10, daysOff: -1 })).toBe(false);
+    });
+
+    it('rejects values that are not plans', () => {
+      expect(isValidCapacityPlan(null)).toBe(false);
+      expect(isValidCapacityPlan({ totalDays: '10', daysOff: 0 })).toBe(false);
+    });
+  });
+
+  describe('calculateCapacityRecommendation', () => {
+    const iterations: IterationData[] = [
+      { name: 'Sprint 1', estimate: 8, index: 0 },
+      { name: 'Sprint 2', estimate: 12, index: 1 },
+    ];
+    const result = calculateAverageVelocity(iterations, ['Sprint 1', 'Sprint 2']);
+
+    it('commits the full average at full availability', () => {
+      const recommendation = calculateCapacityRecommendation(result, { totalDays: 50, daysOff: 0 });
+
+      expect(recommendation?.availability).toBe(1);
+      expect(recommendation?.commitment).toBe(10);
+    });
+
+    it('scales the average and planning range by the days available', () => {
+      const recommendation = calculateCapacityRecommendation(result, { totalDays: 50, daysOff: 10 });
+      const deviation = Math.sqrt(8);
+
+      expect(recommendation?.availability).toBe(0.8);
+      expect(recommendation?.commitment).toBe(8);
+      expect(recommendation?.range.low).toBeCloseTo((10 - deviation) * 0.8, 10);
+      expect(recommendation?.range.high).toBeCloseTo((10 + deviation) * 0.8, 10);
+    });
+
+    it('commits nothing when everyone is away', () => {
+      expect(calculateCapacityRecommendation(result, { totalDays: 10, daysOff: 10 })?.commitment).toBe(0);
+    });
+
+    it('keeps full precision (rounding is left to the display)', () => {
+      expect(calculateCapacityRecommendation(result, { totalDays: 9, daysOff: 2 })?.commitment).toBeCloseTo(70 / 9, 10);
+    });
+
+    it('returns null without a selection or with an invalid plan', () => {
+      expect(calculateCapacityRecommendation(calculateAverageVelocity(iterations, []), DEFAULT_CAPACITY_PLAN)).toBeNull();
+      expect(calculateCapacityRecommendation(result, { totalDays: 0, daysOff: 0 })).toBeNull();
+      expect(calculateCapacityRecommendation(result, { totalDays: 5, daysOff: 6 })).toBeNull();
+    });
+  });
+});
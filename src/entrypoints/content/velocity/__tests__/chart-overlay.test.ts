@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  getIterationColumns,
+  calculateOverlayLines,
+  calculateColumnAverage,
+  drawVelocityOverlay,
+} from '../chart-overlay';
+import type { IterationColumn } from '../chart-overlay';
+import type { ChartInfo, IterationData } from '../types';
+
+describe('chart-overlay', () => {
+  const grouped: IterationData[] = [
+    { name: 'Sprint 1', estimate: 10, groupName: 'team-a', index: 0 },
+    { name: 'Sprint 2', estimate: 14, groupName: 'team-a', index: 1 },
+    { name: 'Sprint 1', estimate: 4, groupName: 'team-b', index: 2 },
+    { name: 'Sprint 2', estimate: 2, groupName: 'team-b', index: 3 },
+  ];
+
+  const column = (total: number, selected = true): IterationColumn => ({ name: `Sprint ${total}`, total, selected });
+
+  describe('getIterationColumns', () => {
+    it('stacks the groups of each iteration into one column', () => {
+      expect(getIterationColumns(grouped, ['team-b::Sprint 1'])).toEqual([
+        { name: 'Sprint 1', total: 14, selected: true },
+        { name: 'Sprint 2', total: 16, selected: false },
+      ]);
+    });
+
+    it('keeps one column per iteration on ungrouped charts', () => {
+      const iterations: IterationData[] = [
+        { name: 'Sprint 1', estimate: 5, index: 0 },
+        { name: 'Sprint 2', estimate: 7, index: 1 },
+      ];
+
+      expect(getIterationColumns(iterations, ['Sprint 2'])).toEqual([
+        { name: 'Sprint 1', total: 5, selected: false },
+        { name: 'Sprint 2', total: 7, selected: true },
+      ]);
+    });
+  });
+
+  describe('calculateOverlayLines', () => {
+    it('starts the rolling average once the window is full', () => {
+      const lines = calculateOverlayLines([column(3), column(6), column(9), column(12)], 3);
+
+      expect(lines.rollingAverage).toEqual([null, null, 6, 9]);
+    });
+
+    it('averages the selected columns and fits the trend across them', () => {
+      const lines = calculateOverlayLines([column(10), column(20), column(30)], 2);
+
+      expect(lines.average).toBe(20);
+      expect(lines.trend).toEqual({ fromIndex: 0, fromValue: 10, toIndex: 2, toValue: 30 });
+    });
+
+    it('keeps the spacing of unselected columns in the trend', () => {
+      const lines = calculateOverlayLines([column(10), column(50, false), column(20), column(30)], 2);
+
+      expect(lines.average).toBe(20);
+      expect(lines.trend?.fromIndex).toBe(0);
+      expect(lines.trend?.toIndex).toBe(3);
+      expect(lines.trend?.fromValue).toBeCloseTo(9.286, 3);
+      expect(lines.trend?.toValue).toBeCloseTo(28.571, 3);
+    });
+
+    it('has no average or trend without a selection, and no trend for a single column', () => {
+      expect(calculateOverlayLines([column(10, false)], 1)).toEqual({ average: null, rollingAverage: [10], trend: null });
+      expect(calculateOverlayLines([column(10)], 1).trend).toBeNull();
+    });
+  });
+
+  describe('calculateColumnAverage', () => {
+    it('averages the all-groups column totals of the selected iterations', () => {
+      const selected = grouped.map(iter => `${iter.groupName}::${iter.name}`);
+
+      expect(calculateColumnAverage(grouped, selected)).toBe(15);
+      expect(calculateColumnAverage(grouped, [])).toBeNull();
+    });
+  });
+
+  describe('drawVelocityOverlay', () => {
+    const chartInfo: ChartInfo = {
+      plotBox: { plotLeft: 40, plotTop: 10, plotWidth: 400, plotHeight: 200 },
+      axes: { xMin: 0, xMax: 1, yMin: 0, yMax: 40 },
+    };
+
+    beforeEach(() => {
+      document.body.innerHTML = '<svg class="highcharts-root"></svg>';
+    });
+
+    afterEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('labels the lines in a legend', () => {
+      const iterations: IterationData[] = [
+        { name: 'Sprint 1', estimate: 10, index: 0 },
+        { name: 'Sprint 2', estimate: 20, index: 1 },
+        { name: 'Sprint 3', estimate: 30, index: 2 },
+      ];
+
+      drawVelocityOverlay(chartInfo, iterations, ['Sprint 1', 'Sprint 2', 'Sprint 3'], 2);
+
+      const legend = document.querySelector('#velocity-calculator-overlay .velocity-calculator-legend');
+      expect([...legend!.querySelectorAll('text')].map(text => text.textContent)).toEqual([
+        'Average of selected iterations',
+        '2-iteration rolling average',
+        'Trend of selected iterations',
+      ]);
+    });
+
+    it('marks the average as all groups together on grouped charts', () => {
+      drawVelocityOverlay(chartInfo, grouped, ['team-a::Sprint 1', 'team-b::Sprint 1'], 3);
+
+      const texts = [...document.querySelectorAll('#velocity-calculator-overlay text')].map(text => text.textContent);
+      expect(texts).toContain('Avg 14.0 (all groups)');
+      expect(texts).toContain('Average of selected iterations (all groups)');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySelectionPreset,
+  getCurrentIterationName,
+  isValidSelectionPreset,
+} from '../selection-presets';
+import type { IterationData, SelectionPreset } from '../types';
+
+describe('selection-presets', () => {
+  // Sprint 5 is the in-progress iteration (the last column)
+  const iterations: IterationData[] = [
+    { name: 'Sprint 1', estimate: 10, index: 0 },
+    { name: 'Sprint 2', estimate: 12, index: 1 },
+    { name: 'Sprint 3', estimate: 11, index: 2 },
+    { name: 'Sprint 4', estimate: 13, index: 3 },
+    { name: 'Sprint 5', estimate: 3, index: 4 },
+  ];
+
+  function preset(overrides: Partial<SelectionPreset> = {}): SelectionPreset {
+    return { mode: 'lastN', count: 3, excludeCurrent: false, excludeOutliers: false, ...overrides };
+  }
+
+  describe('isValidSelectionPreset', () => {
+    it('accepts a complete preset', () => {
+      expect(isValidSelectionPreset(preset())).toBe(true);
+      expect(isValidSelectionPreset(preset({ mode: 'manual', count: 100 }))).toBe(true);
+    });
+
+    it('rejects unknown modes, out-of-range counts and missing flags', () => {
+      expect(isValidSelectionPreset(null)).toBe(false);
+      expect(isValidSelectionPreset(preset({ mode: 'recent' as SelectionPreset['mode'] }))).toBe(false);
+      expect(isValidSelectionPreset(preset({ count: 0 }))).toBe(false);
+      expect(isValidSelectionPreset(preset({ count: 2.5 }))).toBe(false);
+      expect(isValidSelectionPreset({ mode: 'all', count: 3, excludeCurrent: true })).toBe(false);
+    });
+  });
+
+  describe('getCurrentIterationName', () => {
+    it('returns the last column', () => {
+      expect(getCurrentIterationName(iterations)).toBe('Sprint 5');
+      expect(getCurrentIterationName([])).toBeNull();
+    });
+
+    it('uses the highest index of a grouped chart', () => {
+      expect(getCurrentIterationName([
+        { name: 'Sprint 2', estimate: 4, groupName: 'team-a', index: 3 },
+        { name: 'Sprint 1', estimate: 6, groupName: 'team-b', index: 0 },
+      ])).toBe('Sprint 2');
+    });
+  });
+
+  describe('applySelectionPreset', () => {
+    it('picks the last N completed iterations', () => {
+      expect(applySelectionPreset(iterations, preset())).toEqual(['Sprint 2', 'Sprint 3', 'Sprint 4']);
+    });
+
+    it('never counts the current iteration in the last N, even without excludeCurrent', () => {
+      expect(applySelectionPreset(iterations, preset({ count: 1, excludeCurrent: false }))).toEqual(['Sprint 4']);
+      expect(applySelectionPreset(iterations, preset({ count: 1, excludeCurrent: true }))).toEqual(['Sprint 4']);
+    });
+
+    it('counts iteration names across groups', () => {
+      const grouped: IterationData[] = [
+        { name: 'Sprint 1', estimate: 5, groupName: 'team-a', index: 0 },
+        { name: 'Sprint 2', estimate: 6, groupName: 'team-a', index: 1 },
+        { name: 'Sprint 3', estimate: 1, groupName: 'team-a', index: 2 },
+        { name: 'Sprint 1', estimate: 4, groupName: 'team-b', index: 3 },
+        { name: 'Sprint 2', estimate: 3, groupName: 'team-b', index: 4 },
+        { name: 'Sprint 3', estimate: 2, groupName: 'team-b', index: 5 },
+      ];
+
+      expect(applySelectionPreset(grouped, preset({ count: 1 }))).toEqual(['team-a::Sprint 2', 'team-b::Sprint 2']);
+    });
+
+    it('selects every iteration and optionally leaves out the current one', () => {
+      expect(applySelectionPreset(iterations, preset({ mode: 'all' }))).toHaveLength(5);
+      expect(applySelectionPreset(iterations, preset({ mode: 'all', excludeCurrent: true }))).toEqual([
+        'Sprint 1', 'Sprint 2', 'Sprint 3', 'Sprint 4',
+      ]);
+    });
+
+    it('keeps the manual selection and optionally leaves out the current one', () => {
+      const manualKeys = ['Sprint 1', 'Sprint 5', 'Sprint 9'];
+
+      expect(applySelectionPreset(iterations, preset({ mode: 'manual' }), manualKeys)).toEqual(['Sprint 1', 'Sprint 5']);
+      expect(applySelectionPreset(iterations, preset({ mode: 'manual', excludeCurrent: true }), manualKeys))
+        .toEqual(['Sprint 1']);
+    });
+
+    it('drops outliers from the selection', () => {
+      const withOutlier: IterationData[] = [
+        ...iterations.slice(0, 4),
+        { name: 'Sprint 5', estimate: 40, index: 4 },
+        { name: 'Sprint 6', estimate: 2, index: 5 },
+      ];
+
+      expect(applySelectionPreset(withOutlier, preset({ count: 5, excludeOutliers: true }))).toEqual([
+        'Sprint 1', 'Sprint 2', 'Sprint 3', 'Sprint 4',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { resolveSelectedIterations } from '../settings';
+import type { IterationData } from '../types';
+
+describe('settings', () => {
+  describe('resolveSelectedIterations', () => {
+    const grouped: IterationData[] = [
+      { name: 'Sprint 1', estimate: 10, groupName: 'team-a', index: 0 },
+      { name: 'Sprint 2', estimate: 14, groupName: 'team-a', index: 1 },
+      { name: 'Sprint 1', estimate: 4, groupName: 'team-b', index: 2 },
+      { name: 'Sprint 2', estimate: 2, groupName: 'team-b', index: 3 },
+    ];
+
+    it('keeps group keys that match the chart', () => {
+      expect(resolveSelectedIterations(['team-b::Sprint 1', 'team-c::Sprint 1'], grouped)).toEqual(['team-b::Sprint 1']);
+    });
+
+    it('selects a legacy plain name in every group', () => {
+      expect(resolveSelectedIterations(['Sprint 2'], grouped)).toEqual(['team-a::Sprint 2', 'team-b::Sprint 2']);
+    });
+
+    it('matches plain names on ungrouped charts', () => {
+      const iterations: IterationData[] = [
+        { name: 'Sprint 1', estimate: 10, index: 0 },
+        { name: 'Sprint 2', estimate: 12, index: 1 },
+      ];
+
+      expect(resolveSelectedIterations(['Sprint 2', 'Sprint 9'], iterations)).toEqual(['Sprint 2']);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  median,
+  quantile,
+  standardDeviation,
+  planRange,
+  getOutlierBounds,
+  isOutlier,
+  trendSlope,
+} from '../statistics';
+
+describe('statistics', () => {
+  describe('quantile / median', () => {
+    it('returns null for no values', () => {
+      expect(quantile([], 0.5)).toBeNull();
+      expect(median([])).toBeNull();
+    });
+
+    it('takes the middle value of an odd count regardless of order', () => {
+      expect(median([9, 1, 5])).toBe(5);
+    });
+
+    it('interpolates between the closest ranks', () => {
+      expect(median([1, 2, 3, 10])).toBe(2.5);
+      // Position (4 - 1) * 0.25 = 0.75 between 1 and 2
+      expect(quantile([10, 1, 2, 3], 0.25)).toBe(1.75);
+      expect(quantile([1, 2, 3, 10], 0.75)).toBe(4.75);
+    });
+
+    it('returns the min and max at the ends', () => {
+      expect(quantile([4, 8, 6], 0)).toBe(4);
+      expect(quantile([4, 8, 6], 1)).toBe(8);
+    });
+  });
+
+  describe('standardDeviation', () => {
+    it('returns null for no values and 0 for a single value', () => {
+      expect(standardDeviation([])).toBeNull();
+      expect(standardDeviation([7])).toBe(0);
+    });
+
+    it('uses the sample (n - 1) rather than the population formula', () => {
+      // Squared deviations sum to 32: sample variance 32 / 7, population variance 32 / 8 = 4
+      const values = [2, 4, 4, 4, 5, 5, 7, 9];
+      expect(standardDeviation(values)).toBeCloseTo(Math.sqrt(32 / 7), 10);
+      expect(standardDeviation(values)).not.toBeCloseTo(2, 5);
+    });
+  });
+
+  describe('planRange', () => {
+    it('spans one standard deviation around the mean', () => {
+      expect(planRange(20, 4)).toEqual({ low: 16, high: 24 });
+    });
+
+    it('never goes below 0', () => {
+      expect(planRange(3, 5)).toEqual({ low: 0, high: 8 });
+    });
+  });
+
+  describe('getOutlierBounds / isOutlier', () => {
+    it('returns no bounds with fewer than 4 values', () => {
+      expect(getOutlierBounds([])).toBeNull();
+      expect(getOutlierBounds([1, 2, 100])).toBeNull();
+    });
+
+    it('places the fences 1.5 IQR outside the quartiles', () => {
+      // Q1 1.75, Q3 4.75, IQR 3
+      expect(getOutlierBounds([1, 2, 3, 10])).toEqual({ lower: -2.75, upper: 9.25 });
+    });
+
+    it('flags values outside the fences only', () => {
+      const bounds = getOutlierBounds([10, 11, 12, 13, 40]);
+
+      expect(isOutlier(40, bounds)).toBe(true);
+      expect(isOutlier(13, bounds)).toBe(false);
+    });
+
+    it('never flags anything without bounds', () => {
+      expect(isOutlier(1000, null)).toBe(false);
+    });
+  });
+
+  describe('trendSlope', () => {
+    it('returns null with fewer than 2 values', () => {
+      expect(trendSlope([5])).toBeNull();
+    });
+
+    it('returns the change per step of a least-squares fit', () => {
+      expect(trendSlope([10, 12, 14, 16])).toBe(2);
+      expect(trendSlope([5, 5, 5])).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createVelocityStatsPanel, refreshVelocityStatsPanel } from '../stats-panel';
+import type { VelocityChartData } from '../types';
+
+describe('stats-panel', () => {
+  let storage: Record<string, unknown>;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    storage = {};
+    (global as any).chrome = {
+      storage: {
+        local: {
+          get: vi.fn((key: string) => Promise.resolve(key in storage ? { [key]: storage[key] } : {})),
+          set: vi.fn((items: Record<string, unknown>) => {
+            Object.assign(storage, items);
+            return Promise.resolve();
+          }),
+          remove: vi.fn(() => Promise.resolve()),
+        },
+      },
+    };
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    delete (global as any).chrome;
+  });
+
+  describe('createVelocityStatsPanel', () => {
+    it('keeps quotes in iteration and group names inside their attributes', async () => {
+      const data: VelocityChartData = {
+        chartType: 'velocity',
+        iterations: [
+          { name: 'Sprint "1"', estimate: 10, groupName: 'team "a"', index: 0 },
+          { name: "Sprint '2'", estimate: 12, groupName: 'team "a"', index: 1 },
+        ],
+      };
+
+      const panel = await createVelocityStatsPanel(data);
+
+      const options = [...panel.querySelectorAll<HTMLOptionElement>('#velocity-group-filter option')];
+      expect(options.map(option => option.value)).toEqual(['', 'team "a"']);
+      const checkboxes = [...panel.querySelectorAll<HTMLInputElement>('.velocity-iteration-checkbox')];
+      expect(checkboxes.map(checkbox => checkbox.dataset.iteration)).toEqual([
+        "team \"a\"::Sprint '2'",
+        'team "a"::Sprint "1"',
+      ]);
+    });
+
+    it('shows the all-groups column average on grouped charts', async () => {
+      const data: VelocityChartData = {
+        chartType: 'velocity',
+        iterations: [
+          { name: 'Sprint 1', estimate: 10, groupName: 'team-a', index: 0 },
+          { name: 'Sprint 1', estimate: 4, groupName: 'team-b', index: 1 },
+          // In progress, so Last N leaves it out
+          { name: 'Sprint 2', estimate: 1, groupName: 'team-a', index: 2 },
+          { name: 'Sprint 2', estimate: 1, groupName: 'team-b', index: 3 },
+        ],
+      };
+
+      const panel = await createVelocityStatsPanel(data);
+
+      expect(panel.querySelector('.velocity-calculator-column-average strong')?.textContent).toBe('14.00');
+    });
+  });
+
+  describe('refreshVelocityStatsPanel', () => {
+    it('picks up a selection preset changed elsewhere', async () => {
+      const data: VelocityChartData = {
+        chartType: 'velocity',
+        iterations: [1, 2, 3, 4].map(n => ({ name: `Sprint ${n}`, estimate: n, index: n - 1 })),
+      };
+      const panel = await createVelocityStatsPanel(data);
+      const checked = () => [...panel.querySelectorAll<HTMLInputElement>('.velocity-iteration-checkbox:checked')]
+        .map(checkbox => checkbox.dataset.iteration);
+      expect(checked()).toHaveLength(3);
+
+      // Not an insight page, so the setting is stored under its base key
+      storage['velocity-selectionPreset'] = { mode: 'all', count: 3, excludeCurrent: false, excludeOutliers: false };
+      await refreshVelocityStatsPanel();
+
+      expect(checked()).toEqual(['Sprint 4', 'Sprint 3', 'Sprint 2', 'Sprint 1']);
+      expect(panel.querySelector<HTMLSelectElement>('#velocity-preset-mode')?.value).toBe('all');
+    });
+
+    it('keeps a cleared selection empty when its own save comes back', async () => {
+      const data: VelocityChartData = {
+        chartType: 'velocity',
+        iterations: [1, 2, 3, 4].map(n => ({ name: `Sprint ${n}`, estimate: n, index: n - 1 })),
+      };
+      const panel = await createVelocityStatsPanel(data);
+      const selectAll = panel.querySelector('#velocity-select-all') as HTMLInputElement;
+      const checked = () => panel.querySelectorAll('.velocity-iteration-checkbox:checked');
+
+      selectAll.checked = false;
+      selectAll.dispatchEvent(new Event('change'));
+      await vi.waitFor(() => expect(storage['velocity-SelectedIterations']).toEqual([]));
+      await refreshVelocityStatsPanel();
+
+      expect(checked()).toHaveLength(0);
+      expect(panel.querySelector<HTMLSelectElement>('#velocity-preset-mode')?.value).toBe('manual');
+    });
+
+    it('falls back to the last N iterations when the saved names are gone', async () => {
+      storage['velocity-selectionPreset'] = { mode: 'manual', count: 2, excludeCurrent: false, excludeOutliers: false };
+      storage['velocity-SelectedIterations'] = ['Sprint 9'];
+      const data: VelocityChartData = {
+        chartType: 'velocity',
+        iterations: [1, 2, 3, 4].map(n => ({ name: `Sprint ${n}`, estimate: n, index: n - 1 })),
+      };
+
+      const panel = await createVelocityStatsPanel(data);
+
+      const checked = [...panel.querySelectorAll<HTMLInputElement>('.velocity-iteration-checkbox:checked')];
+      expect(checked.map(checkbox => checkbox.dataset.iteration)).toEqual(['Sprint 3', 'Sprint 2']);
+    });
+  });
+});
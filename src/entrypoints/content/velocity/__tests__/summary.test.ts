@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { buildVelocitySummary } from '../summary';
+import { calculateAverageVelocity } from '../average-calculator';
+import { calculateCapacityRecommendation } from '../capacity';
+import type { IterationData } from '../types';
+
+describe('summary', () => {
+  const iterations: IterationData[] = [
+    { name: 'Sprint 1', estimate: 8, index: 0 },
+    { name: 'Sprint 2', estimate: 12, index: 1 },
+  ];
+  const result = calculateAverageVelocity(iterations, ['Sprint 1', 'Sprint 2']);
+
+  describe('buildVelocitySummary', () => {
+    it('returns null without a selection', () => {
+      expect(buildVelocitySummary(calculateAverageVelocity(iterations, []))).toBeNull();
+    });
+
+    it('rounds the recommendation to whole percent and one decimal', () => {
+      // 7 of 9 member-days: 77.8% availability, 10 * 7 / 9 = 7.777... points
+      const capacity = calculateCapacityRecommendation(result, { totalDays: 9, daysOff: 2 });
+
+      const summary = buildVelocitySummary(result, [], capacity);
+
+      expect(summary).toContain('Next iteration: **78%** availability → commit about **7.8** points (range 5.6 - 10.0)');
+    });
+  });
+});
@@ -2,55 +2,142 @@
 // Responsibility: Calculate average velocity from selected iterations
 
 import type { IterationData } from './types';
+import { getOutlierBounds, median, planRange, standardDeviation, trendSlope } from './statistics';
+import type { OutlierBounds, PlanRange } from './statistics';
+
+// Separates group and iteration name in selection keys
+const GROUP_KEY_SEPARATOR = '::';
+
+export interface VelocitySpread {
+  median: number;
+  standardDeviation: number;
+  min: number;
+  max: number;
+  /** Planning range: average ± one standard deviation (never below 0) */
+  planRange: PlanRange;
+}
 
 export interface AverageResult {
   average: number | null;
   count: number;
   total: number;
   selectedIterations: IterationData[];
+  spread: VelocitySpread | null;
+  /** Outlier bounds of the selected estimates (null with fewer than 4 selected) */
+  outlierBounds: OutlierBounds | null;
+}
+
+export interface GroupVelocity {
+  groupName: string;
+  average: number;
+  count: number;
+  total: number;
+  /** Change in points per iteration across the selected iterations (null with fewer than 2) */
+  trend: number | null;
+}
+
+const EMPTY_RESULT: AverageResult = {
+  average: null,
+  count: 0,
+  total: 0,
+  selectedIterations: [],
+  spread: null,
+  outlierBounds: null,
+};
+
+/**
+ * Get the selection key of an iteration
+ * Grouped charts repeat iteration names per group, so the group is part of the key
+ */
+export function getIterationKey(iter: IterationData): string {
+  return iter.groupName ? `${iter.groupName}${GROUP_KEY_SEPARATOR}${iter.name}` : iter.name;
+}
+
+/**
+ * Get the group names of the chart in order of first appearance
+ */
+export function getGroupNames(iterations: IterationData[]): string[] {
+  const names: string[] = [];
+  for (const iter of iterations) {
+    if (iter.groupName && !names.includes(iter.groupName)) {
+      names.push(iter.groupName);
+    }
+  }
+  return names;
 }
 
 /**
  * Calculate the average velocity from selected iterations
  * @param iterations All iteration data
- * @param selectedNames Names of iterations to include in the average
+ * @param selectedKeys Selection keys (see getIterationKey) of iterations to include in the average
  * @returns Average calculation result
  */
 export function calculateAverageVelocity(
   iterations: IterationData[],
-  selectedNames: string[]
+  selectedKeys: string[]
 ): AverageResult {
-  if (!iterations || iterations.length === 0 || !selectedNames || selectedNames.length === 0) {
-    return {
-      average: null,
-      count: 0,
-      total: 0,
-      selectedIterations: [],
-    };
+  if (!iterations || iterations.length === 0 || !selectedKeys || selectedKeys.length === 0) {
+    return { ...EMPTY_RESULT };
   }
 
-  // Filter iterations by selected names
+  // Filter iterations by selected keys
   const selectedIterations = iterations.filter(iter => 
-    selectedNames.includes(iter.name)
+    selectedKeys.includes(getIterationKey(iter))
   );
 
   if (selectedIterations.length === 0) {
-    return {
-      average: null,
-      count: 0,
-      total: 0,
-      selectedIterations: [],
-    };
+    return { ...EMPTY_RESULT };
   }
 
   // Calculate total and average
-  const total = selectedIterations.reduce((sum, iter) => sum + iter.estimate, 0);
+  const estimates = selectedIterations.map(iter => iter.estimate);
+  const total = estimates.reduce((sum, estimate) => sum + estimate, 0);
   const average = total / selectedIterations.length;
+  const deviation = standardDeviation(estimates) ?? 0;
 
   return {
     average,
     count: selectedIterations.length,
     total,
     selectedIterations,
+    spread: {
+      median: median(estimates) ?? average,
+      standardDeviation: deviation,
+      min: Math.min(...estimates),
+      max: Math.max(...estimates),
+      planRange: planRange(average, deviation),
+    },
+    outlierBounds: getOutlierBounds(estimates),
   };
 }
+
+/**
+ * Calculate the average and trend of each group from selected iterations
+ * @param iterations All iteration data
+ * @param selectedKeys Selection keys of iterations to include
+ * @returns One entry per group with at least one selected iteration (empty for ungrouped charts)
+ */
+export function calculateGroupVelocities(
+  iterations: IterationData[],
+  selectedKeys: string[]
+): GroupVelocity[] {
+  return getGroupNames(iterations).flatMap(groupName => {
+    const estimates = iterations
+      .filter(iter => iter.groupName === groupName && selectedKeys.includes(getIterationKey(iter)))
+      .sort((a, b) => a.index - b.index)
+      .map(iter => iter.estimate);
+
+    if (estimates.length === 0) {
+      return [];
+    }
+
+    const total = estimates.reduce((sum, estimate) => sum + estimate, 0);
+    return [{
+      groupName,
+      average: total / estimates.length,
+      count: estimates.length,
+      total,
+      trend: trendSlope(estimates),
+    }];
+  });
+}
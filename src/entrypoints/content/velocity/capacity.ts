@@ -0,0 +1,71 @@
+// GitHub Project Insights - Velocity Capacity Planning Module
+// Responsibility: Scale the average velocity by team availability for the upcoming iteration
+
+import type { AverageResult } from './average-calculator';
+import type { PlanRange } from './statistics';
+import type { CapacityPlan } from './types';
+
+// Upper limit for member-days (e.g. 50 people x 20 days), to catch typos
+const MAX_TOTAL_DAYS = 1000;
+
+export const DEFAULT_CAPACITY_PLAN: CapacityPlan = {
+  totalDays: 10,
+  daysOff: 0,
+};
+
+export interface CapacityRecommendation {
+  /** Share of member-days available (0-1) */
+  availability: number;
+  /** Average velocity scaled by availability */
+  commitment: number;
+  /** Planning range scaled by availability */
+  range: PlanRange;
+}
+
+/**
+ * Check a stored or entered capacity plan
+ * - Total days must be above 0 (up to 1000)
+ * - Days off must be between 0 and total days
+ */
+export function isValidCapacityPlan(value: unknown): value is CapacityPlan {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const plan = value as Partial<CapacityPlan>;
+  return (
+    typeof plan.totalDays === 'number' &&
+    typeof plan.daysOff === 'number' &&
+    Number.isFinite(plan.totalDays) &&
+    Number.isFinite(plan.daysOff) &&
+    plan.totalDays > 0 &&
+    plan.totalDays <= MAX_TOTAL_DAYS &&
+    plan.daysOff >= 0 &&
+    plan.daysOff <= plan.totalDays
+  );
+}
+
+/**
+ * Recommend a commitment for the upcoming iteration
+ * @param result Average calculation result of the selected iterations
+ * @param plan Team availability for the upcoming iteration
+ * @returns Recommendation, or null without a selection or with an invalid plan
+ */
+export function calculateCapacityRecommendation(
+  result: AverageResult,
+  plan: CapacityPlan
+): CapacityRecommendation | null {
+  if (result.average === null || !result.spread || !isValidCapacityPlan(plan)) {
+    return null;
+  }
+
+  const availability = (plan.totalDays - plan.daysOff) / plan.totalDays;
+  return {
+    availability,
+    commitment: result.average * availability,
+    range: {
+      low: result.spread.planRange.low * availability,
+      high: result.spread.planRange.high * availability,
+    },
+  };
+}
@@ -0,0 +1,310 @@
+// GitHub Project Insights - Velocity Chart Overlay Module
+// Responsibility: Draw average, rolling average and trend lines over the velocity column chart
+
+import type { ChartInfo, IterationData } from './types';
+import type { PixelPoint } from '../shared/types';
+import { getIterationKey } from './average-calculator';
+
+const AVERAGE_COLOR = '#3fb950';
+const ROLLING_AVERAGE_COLOR = '#58a6ff';
+const TREND_COLOR = '#a371f7';
+
+/**
+ * One column (category) of the chart
+ * Grouped charts stack one point per group in each column, so the column value is their sum
+ */
+export interface IterationColumn {
+  name: string;
+  /** Sum of the estimates of every group in the column */
+  total: number;
+  /** True when the iteration is selected in at least one group */
+  selected: boolean;
+}
+
+export interface VelocityOverlayLines {
+  /** Average column total of the selected columns */
+  average: number | null;
+  /** Rolling average per column (null until the window is full) */
+  rollingAverage: (number | null)[];
+  /** Linear trend over the selected columns, from the first to the last selected column */
+  trend: { fromIndex: number; fromValue: number; toIndex: number; toValue: number } | null;
+}
+
+/**
+ * Collect the chart columns in left-to-right order
+ * @param iterations All iteration data (sorted by index)
+ * @param selectedKeys Selection keys of the selected iterations
+ */
+export function getIterationColumns(iterations: IterationData[], selectedKeys: string[]): IterationColumn[] {
+  const columns: IterationColumn[] = [];
+  for (const iter of iterations) {
+    let column = columns.find(candidate => candidate.name === iter.name);
+    if (!column) {
+      column = { name: iter.name, total: 0, selected: false };
+      columns.push(column);
+    }
+    column.total += iter.estimate;
+    column.selected = column.selected || selectedKeys.includes(getIterationKey(iter));
+  }
+  return columns;
+}
+
+/**
+ * Calculate the overlay lines from the chart columns
+ * @param columns Chart columns in left-to-right order
+ * @param rollingWindow Number of iterations in the rolling average
+ */
+export function calculateOverlayLines(columns: IterationColumn[], rollingWindow: number): VelocityOverlayLines {
+  const rollingAverage = columns.map((_, index) => {
+    if (index + 1 < rollingWindow) {
+      return null;
+    }
+    const window = columns.slice(index + 1 - rollingWindow, index + 1);
+    return window.reduce((sum, column) => sum + column.total, 0) / rollingWindow;
+  });
+
+  const selectedIndexes = columns.flatMap((column, index) => column.selected ? [index] : []);
+  if (selectedIndexes.length === 0) {
+    return { average: null, rollingAverage, trend: null };
+  }
+
+  const selectedTotals = selectedIndexes.map(index => columns[index]?.total ?? 0);
+  const average = selectedTotals.reduce((sum, total) => sum + total, 0) / selectedTotals.length;
+
+  // Fit the trend against column positions so gaps in the selection keep their spacing
+  const fromIndex = selectedIndexes[0] ?? 0;
+  const toIndex = selectedIndexes[selectedIndexes.length - 1] ?? 0;
+  let trend: VelocityOverlayLines['trend'] = null;
+  if (selectedIndexes.length >= 2) {
+    const meanIndex = selectedIndexes.reduce((sum, index) => sum + index, 0) / selectedIndexes.length;
+    const slope = fitSlope(selectedIndexes, selectedTotals, meanIndex, average);
+    trend = {
+      fromIndex,
+      fromValue: average + slope * (fromIndex - meanIndex),
+      toIndex,
+      toValue: average + slope * (toIndex - meanIndex),
+    };
+  }
+
+  return { average, rollingAverage, trend };
+}
+
+/**
+ * Average column total of the selected iterations, as drawn by the overlay's average line
+ * On grouped charts a column stacks every group, so this is the velocity of all groups together;
+ * the panel shows the same figure so the line and the numbers agree
+ * @param iterations All iteration data (sorted by index)
+ * @param selectedKeys Selection keys of the selected iterations
+ */
+export function calculateColumnAverage(iterations: IterationData[], selectedKeys: string[]): number | null {
+  return calculateOverlayLines(getIterationColumns(iterations, selectedKeys), 1).average;
+}
+
+/**
+ * Least-squares slope of values against arbitrary x positions
+ */
+function fitSlope(xs: number[], ys: number[], meanX: number, meanY: number): number {
+  let numerator = 0;
+  let denominator = 0;
+  xs.forEach((x, i) => {
+    numerator += (x - meanX) * ((ys[i] ?? 0) - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * Create a label with semi-transparent background just above y
+ * @param align 'start' places the label right of x, 'end' left of x
+ */
+function createLabel(text: string, x: number, y: number, color: string, align: 'start' | 'end'): SVGGElement {
+  const g = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+
+  const estimatedWidth = text.length * 7 + 16;
+  const rectX = align === 'start' ? x : x - estimatedWidth;
+
+  const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  rect.setAttribute('x', String(rectX));
+  rect.setAttribute('y', String(y - 24));
+  rect.setAttribute('width', String(estimatedWidth));
+  rect.setAttribute('height', '20');
+  rect.setAttribute('fill', color);
+  rect.setAttribute('fill-opacity', '0.85');
+  rect.setAttribute('rx', '4');
+  rect.setAttribute('ry', '4');
+
+  const textEl = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+  textEl.setAttribute('x', String(rectX + estimatedWidth / 2));
+  textEl.setAttribute('y', String(y - 10));
+  textEl.setAttribute('text-anchor', 'middle');
+  textEl.setAttribute('font-family', '-apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif');
+  textEl.setAttribute('font-size', '11');
+  textEl.setAttribute('font-weight', '600');
+  textEl.setAttribute('fill', '#ffffff');
+  textEl.textContent = text;
+
+  g.appendChild(rect);
+  g.appendChild(textEl);
+  return g;
+}
+
+interface LegendEntry {
+  label: string;
+  color: string;
+  dashArray: string | null;
+}
+
+/**
+ * Create a legend with one sample line per entry, top-left of the plot
+ */
+function createLegend(entries: LegendEntry[], x: number, y: number): SVGGElement {
+  const g = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+  g.setAttribute('class', 'velocity-calculator-legend');
+
+  entries.forEach((entry, index) => {
+    const rowY = y + index * 16;
+    g.appendChild(createLine({ x, y: rowY }, { x: x + 20, y: rowY }, entry.color, entry.dashArray));
+
+    const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+    text.setAttribute('x', String(x + 26));
+    text.setAttribute('y', String(rowY + 4));
+    text.setAttribute('font-family', '-apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif');
+    text.setAttribute('font-size', '11');
+    text.setAttribute('font-weight', '600');
+    text.setAttribute('fill', entry.color);
+    text.textContent = entry.label;
+    g.appendChild(text);
+  });
+
+  return g;
+}
+
+/**
+ * Create a straight line segment (solid when dashArray is null)
+ */
+function createLine(from: PixelPoint, to: PixelPoint, color: string, dashArray: string | null = '2,2'): SVGLineElement {
+  const line = document.createElementNS('http://www.w3.org/2000/svg', 'line');
+  line.setAttribute('x1', String(from.x));
+  line.setAttribute('y1', String(from.y));
+  line.setAttribute('x2', String(to.x));
+  line.setAttribute('y2', String(to.y));
+  line.setAttribute('stroke', color);
+  line.setAttribute('stroke-width', '2');
+  if (dashArray !== null) {
+    line.setAttribute('stroke-dasharray', dashArray);
+  }
+  line.setAttribute('opacity', '0.8');
+  return line;
+}
+
+/**
+ * Create a polyline through the given points
+ */
+function createPolyline(points: PixelPoint[], color: string): SVGPolylineElement {
+  const polyline = document.createElementNS('http://www.w3.org/2000/svg', 'polyline');
+  polyline.setAttribute('points', points.map(p => `${p.x},${p.y}`).join(' '));
+  polyline.setAttribute('fill', 'none');
+  polyline.setAttribute('stroke', color);
+  polyline.setAttribute('stroke-width', '2');
+  polyline.setAttribute('stroke-linejoin', 'round');
+  polyline.setAttribute('opacity', '0.9');
+  return polyline;
+}
+
+/**
+ * Remove the velocity overlay if present
+ */
+export function removeVelocityOverlay(): void {
+  document.getElementById('velocity-calculator-overlay')?.remove();
+}
+
+/**
+ * Draw SVG overlay: average of the selected iterations, rolling average and linear trend
+ * @param chartInfo Plot box and axes extracted from the chart
+ * @param iterations All iteration data
+ * @param selectedKeys Selection keys of the selected iterations
+ * @param rollingWindow Number of iterations in the rolling average
+ */
+export function drawVelocityOverlay(
+  chartInfo: ChartInfo,
+  iterations: IterationData[],
+  selectedKeys: string[],
+  rollingWindow: number
+): void {
+  removeVelocityOverlay();
+
+  const svg = document.querySelector('.highcharts-root') as SVGSVGElement | null;
+  if (!svg || !chartInfo.plotBox) {
+    return;
+  }
+
+  const columns = getIterationColumns(iterations, selectedKeys);
+  if (columns.length === 0) {
+    return;
+  }
+
+  const { plotLeft, plotTop, plotWidth, plotHeight } = chartInfo.plotBox;
+  const { yMin, yMax } = chartInfo.axes;
+  if (yMax <= yMin) {
+    return;
+  }
+
+  // Columns are categories, each centered in an equal share of the plot width
+  const columnWidth = plotWidth / columns.length;
+  const toX = (index: number): number => plotLeft + (index + 0.5) * columnWidth;
+  const toY = (value: number): number => {
+    const ratio = (value - yMin) / (yMax - yMin);
+    return plotTop + plotHeight - ratio * plotHeight;
+  };
+
+  const lines = calculateOverlayLines(columns, rollingWindow);
+  const isGrouped = iterations.some(iter => iter.groupName);
+  const legend: LegendEntry[] = [];
+
+  const g = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+  g.id = 'velocity-calculator-overlay';
+  g.setAttribute('pointer-events', 'none');
+
+  // Rolling average: solid polyline through the column centers
+  const rollingPoints = lines.rollingAverage.flatMap((value, index) =>
+    value === null ? [] : [{ x: toX(index), y: toY(value) }]
+  );
+  const lastRollingPoint = rollingPoints[rollingPoints.length - 1];
+  if (rollingPoints.length >= 2 && lastRollingPoint) {
+    g.appendChild(createPolyline(rollingPoints, ROLLING_AVERAGE_COLOR));
+    g.appendChild(createLabel(
+      `${rollingWindow}-iteration rolling avg`,
+      plotLeft + plotWidth - 4,
+      lastRollingPoint.y,
+      ROLLING_AVERAGE_COLOR,
+      'end'
+    ));
+    legend.push({ label: `${rollingWindow}-iteration rolling average`, color: ROLLING_AVERAGE_COLOR, dashArray: null });
+  }
+
+  // Trend: dashed line across the selected iterations
+  if (lines.trend) {
+    g.appendChild(createLine(
+      { x: toX(lines.trend.fromIndex), y: toY(lines.trend.fromValue) },
+      { x: toX(lines.trend.toIndex), y: toY(lines.trend.toValue) },
+      TREND_COLOR,
+      '6,3'
+    ));
+    legend.push({ label: 'Trend of selected iterations', color: TREND_COLOR, dashArray: '6,3' });
+  }
+
+  // Average: horizontal line across the whole plot
+  if (lines.average !== null) {
+    const averageY = toY(lines.average);
+    g.appendChild(createLine({ x: plotLeft, y: averageY }, { x: plotLeft + plotWidth, y: averageY }, AVERAGE_COLOR));
+    const scope = isGrouped ? ' (all groups)' : '';
+    g.appendChild(createLabel(`Avg ${lines.average.toFixed(1)}${scope}`, plotLeft + 4, averageY, AVERAGE_COLOR, 'start'));
+    legend.unshift({ label: `Average of selected iterations${scope}`, color: AVERAGE_COLOR, dashArray: '2,2' });
+  }
+
+  if (legend.length > 0) {
+    g.appendChild(createLegend(legend, plotLeft + 8, plotTop + 12));
+  }
+
+  svg.appendChild(g);
+}
@@ -2,11 +2,28 @@
 
 import type { VelocityChartData } from './types';
 import { injectBridgeScript } from '../shared/script-injector';
-import { createVelocityStatsPanel } from './stats-panel';
-import { matchesStorageKey, generateStorageKey, STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS } from '../shared/storage-key';
+import { createVelocityStatsPanel, refreshVelocityStatsPanel, updateVelocityChartInfo } from './stats-panel';
+import {
+  generateStorageKey,
+  STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS,
+  STORAGE_KEY_VELOCITY_CAPACITY_PLAN,
+  STORAGE_KEY_VELOCITY_SELECTION_PRESET,
+  type StorageKey,
+} from '../shared/storage-key';
+import { isGlobalDefaultsChange } from '../shared/global-defaults';
 import './style.css';
 
 export async function initializeVelocity(): Promise<void> {
+  let lastChartWidth = 0;
+
+  async function updateChartInfoAndRedraw(): Promise<void> {
+    // Re-fetch chart info to get updated plotBox dimensions
+    const updatedData = await injectBridgeScript();
+    if (updatedData && updatedData.chartType === 'velocity' && updatedData.chartInfo) {
+      updateVelocityChartInfo(updatedData.chartInfo);
+    }
+  }
+
   // Get chart data
   const data = await injectBridgeScript();
   if (!data || data.chartType !== 'velocity') {
@@ -23,22 +40,47 @@ export async function initializeVelocity(): Promise<void> {
   // Create stats panel
   await createVelocityStatsPanel(velocityData);
 
-  // Listen for storage changes to update when settings change
+  // Listen for storage changes to refresh the panel and overlay when settings change
   chrome.storage.onChanged.addListener((changes, areaName) => {
     if (areaName !== 'local') {
       return;
     }
     
-    // Check if any of the changed keys match our storage key patterns
-    const currentKey = generateStorageKey(STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS);
-    
-    const shouldUpdate = Object.keys(changes).some(key => {
-      // Check if the changed key matches our current key or base pattern
-      return key === currentKey || matchesStorageKey(key, STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS);
-    });
+    // Only this insight's settings matter; the rolling window is the global iteration count
+    const watchedKeys: StorageKey[] = [
+      STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS,
+      STORAGE_KEY_VELOCITY_CAPACITY_PLAN,
+      STORAGE_KEY_VELOCITY_SELECTION_PRESET,
+    ];
+    const currentKeys = watchedKeys.map(baseKey => generateStorageKey(baseKey));
+
+    const shouldRefresh = isGlobalDefaultsChange(changes) || Object.keys(changes).some(key => 
+      currentKeys.includes(key)
+    );
     
-    if (shouldUpdate) {
-      // Panel will auto-update through its own event handlers
+    if (shouldRefresh) {
+      refreshVelocityStatsPanel();
     }
   });
+
+  // Observe chart container resize to redraw overlay when width changes
+  const chartContainer = document.querySelector('.highcharts-container') as HTMLElement;
+  if (chartContainer) {
+    lastChartWidth = chartContainer.offsetWidth;
+
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        const newWidth = entry.contentRect.width;
+        if (newWidth !== lastChartWidth && newWidth > 0) {
+          lastChartWidth = newWidth;
+          // Debounce: wait a bit for Highcharts to finish resizing
+          setTimeout(() => {
+            updateChartInfoAndRedraw();
+          }, 100);
+        }
+      }
+    });
+
+    observer.observe(chartContainer);
+  }
 }
@@ -0,0 +1,82 @@
+// GitHub Project Insights - Velocity Selection Presets Module
+// Responsibility: Pick iterations from a remembered rule instead of a fixed name list
+
+import type { IterationData, SelectionMode, SelectionPreset } from './types';
+import { getIterationKey } from './average-calculator';
+import { getOutlierBounds, isOutlier } from './statistics';
+import { isValidIterationCount } from '../shared/global-defaults';
+
+export const SELECTION_MODES: SelectionMode[] = ['lastN', 'all', 'manual'];
+
+/**
+ * Check if a value is a valid selection mode
+ */
+export function isSelectionMode(value: unknown): value is SelectionMode {
+  return SELECTION_MODES.includes(value as SelectionMode);
+}
+
+/**
+ * Check a stored selection preset
+ * - Count follows the iteration count rule of the global defaults (integer 1-100)
+ */
+export function isValidSelectionPreset(value: unknown): value is SelectionPreset {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const preset = value as Partial<SelectionPreset>;
+  return (
+    isSelectionMode(preset.mode) &&
+    isValidIterationCount(preset.count) &&
+    typeof preset.excludeCurrent === 'boolean' &&
+    typeof preset.excludeOutliers === 'boolean'
+  );
+}
+
+/**
+ * Get the name of the in-progress iteration
+ * GitHub's iteration charts run up to the current iteration, so it is the last column
+ * @param iterations All iteration data (sorted from oldest to newest)
+ */
+export function getCurrentIterationName(iterations: IterationData[]): string | null {
+  return iterations.reduce<IterationData | null>(
+    (latest, iter) => !latest || iter.index > latest.index ? iter : latest,
+    null
+  )?.name ?? null;
+}
+
+/**
+ * Select iterations by preset
+ * @param iterations All iteration data (sorted from oldest to newest)
+ * @param preset Selection preset
+ * @param manualKeys Saved checkbox selection, used by the 'manual' mode
+ * @returns Keys of the selected iterations (see getIterationKey)
+ */
+export function applySelectionPreset(
+  iterations: IterationData[],
+  preset: SelectionPreset,
+  manualKeys: string[] = []
+): string[] {
+  // Last N counts completed iterations, so the in-progress one never takes a slot
+  const excludeCurrent = preset.excludeCurrent || preset.mode === 'lastN';
+  const currentName = excludeCurrent ? getCurrentIterationName(iterations) : null;
+  const candidates = iterations.filter(iter => iter.name !== currentName);
+
+  let selected: IterationData[];
+  if (preset.mode === 'manual') {
+    selected = candidates.filter(iter => manualKeys.includes(getIterationKey(iter)));
+  } else if (preset.mode === 'all') {
+    selected = candidates;
+  } else {
+    // Last N distinct completed iteration names, in every group
+    const names = [...new Set(candidates.map(iter => iter.name))].slice(-preset.count);
+    selected = candidates.filter(iter => names.includes(iter.name));
+  }
+
+  if (preset.excludeOutliers) {
+    const bounds = getOutlierBounds(selected.map(iter => iter.estimate));
+    selected = selected.filter(iter => !isOutlier(iter.estimate, bounds));
+  }
+
+  return selected.map(getIterationKey);
+}
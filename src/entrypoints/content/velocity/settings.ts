@@ -1,26 +1,27 @@
 // GitHub Project Insights - Velocity Settings Module
 // Responsibility: Manage user settings for velocity calculation
 
-import { generateStorageKey, STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS } from '../shared/storage-key';
-
-const DEFAULT_ITERATION_COUNT = 3;
+import {
+  generateStorageKey,
+  STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS,
+  STORAGE_KEY_VELOCITY_CAPACITY_PLAN,
+  STORAGE_KEY_VELOCITY_SELECTION_PRESET,
+} from '../shared/storage-key';
+import { getSetting, isArray, setSetting, writeValues } from '../shared/storage';
+import { getGlobalDefaults } from '../shared/global-defaults';
+import { getIterationKey } from './average-calculator';
+import { DEFAULT_CAPACITY_PLAN, isValidCapacityPlan } from './capacity';
+import { isValidSelectionPreset } from './selection-presets';
+import type { CapacityPlan, IterationData, SelectionPreset } from './types';
 
 /**
  * Get the selected iterations from storage
- * @returns Promise resolving to the array of selected iteration names
+ * @returns Promise resolving to the array of selected iteration keys (see getIterationKey)
  */
 export async function getSelectedIterations(): Promise<string[]> {
   try {
-    const storageKey = generateStorageKey(STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS);
-    const result = await chrome.storage.local.get(storageKey);
-    const iterations = result[storageKey];
-    
-    // Validate the value
-    if (Array.isArray(iterations)) {
-      return iterations;
-    }
-    
-    return [];
+    const iterations = await getSetting(STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS, isArray);
+    return iterations ? iterations.filter((name): name is string => typeof name === 'string') : [];
   } catch (error) {
     console.error('Failed to get selected iterations setting:', error);
     return [];
@@ -29,13 +30,12 @@ export async function getSelectedIterations(): Promise<string[]> {
 
 /**
  * Set the selected iterations
- * @param iterations Array of iteration names to save
+ * @param iterations Array of iteration keys to save
  * @returns Promise resolving when the setting is saved
  */
 export async function setSelectedIterations(iterations: string[]): Promise<void> {
   try {
-    const storageKey = generateStorageKey(STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS);
-    await chrome.storage.local.set({ [storageKey]: iterations });
+    await setSetting(STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS, iterations);
   } catch (error) {
     console.error('Failed to set selected iterations setting:', error);
     throw error;
@@ -43,19 +43,126 @@ export async function setSelectedIterations(iterations: string[]): Promise<void>
 }
 
 /**
- * Get the default number of iterations to select
+ * Get the capacity plan for the upcoming iteration from storage
+ * @returns Promise resolving to the capacity plan (default: full availability)
+ */
+export async function getCapacityPlan(): Promise<CapacityPlan> {
+  try {
+    const plan = await getSetting(STORAGE_KEY_VELOCITY_CAPACITY_PLAN, isValidCapacityPlan);
+    return plan ?? { ...DEFAULT_CAPACITY_PLAN };
+  } catch (error) {
+    console.error('Failed to get capacity plan setting:', error);
+    return { ...DEFAULT_CAPACITY_PLAN };
+  }
+}
+
+/**
+ * Set the capacity plan for the upcoming iteration
+ * @param plan Total member-days and member-days off (0 to total)
+ * @returns Promise resolving when the setting is saved
+ */
+export async function setCapacityPlan(plan: CapacityPlan): Promise<void> {
+  if (!isValidCapacityPlan(plan)) {
+    throw new Error('Capacity plan needs total days above 0 and days off between 0 and total days');
+  }
+
+  try {
+    await setSetting(STORAGE_KEY_VELOCITY_CAPACITY_PLAN, { totalDays: plan.totalDays, daysOff: plan.daysOff });
+  } catch (error) {
+    console.error('Failed to set capacity plan setting:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the default number of iterations to select (the global default set on the options page)
+ */
+export async function getDefaultIterationCount(): Promise<number> {
+  const defaults = await getGlobalDefaults();
+  return defaults.iterationCount;
+}
+
+/**
+ * Get the selection preset from storage
+ * Without a stored preset, a saved checkbox selection is kept ('manual'); otherwise the last N
+ * iterations are selected, N being the global default iteration count
+ * @returns Promise resolving to the selection preset
+ */
+export async function getSelectionPreset(): Promise<SelectionPreset> {
+  const count = await getDefaultIterationCount();
+  try {
+    const preset = await getSetting(STORAGE_KEY_VELOCITY_SELECTION_PRESET, isValidSelectionPreset);
+    if (preset) {
+      return preset;
+    }
+    const savedSelections = await getSelectedIterations();
+    return { mode: savedSelections.length > 0 ? 'manual' : 'lastN', count, excludeCurrent: false, excludeOutliers: false };
+  } catch (error) {
+    console.error('Failed to get selection preset setting:', error);
+    return { mode: 'lastN', count, excludeCurrent: false, excludeOutliers: false };
+  }
+}
+
+/**
+ * Set the selection preset
+ * @param preset Selection mode, N (integer 1-100) and exclusions
+ * @returns Promise resolving when the setting is saved
+ */
+export async function setSelectionPreset(preset: SelectionPreset): Promise<void> {
+  if (!isValidSelectionPreset(preset)) {
+    throw new Error('Selection preset needs a mode of lastN, all or manual and an iteration count between 1 and 100');
+  }
+
+  try {
+    await setSetting(STORAGE_KEY_VELOCITY_SELECTION_PRESET, {
+      mode: preset.mode,
+      count: preset.count,
+      excludeCurrent: preset.excludeCurrent,
+      excludeOutliers: preset.excludeOutliers,
+    });
+  } catch (error) {
+    console.error('Failed to set selection preset setting:', error);
+    throw error;
+  }
+}
+
+/**
+ * Set the checkbox selection together with the preset in a single write
+ * Listeners then never see the new selection paired with the old preset (or the reverse)
+ * @param iterations Array of iteration keys to save
+ * @param preset Selection preset to save alongside
+ * @returns Promise resolving when both settings are saved
  */
-export function getDefaultIterationCount(): number {
-  return DEFAULT_ITERATION_COUNT;
+export async function setManualSelection(iterations: string[], preset: SelectionPreset): Promise<void> {
+  if (!isValidSelectionPreset(preset)) {
+    throw new Error('Selection preset needs a mode of lastN, all or manual and an iteration count between 1 and 100');
+  }
+
+  try {
+    await writeValues({
+      [generateStorageKey(STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS)]: iterations,
+      [generateStorageKey(STORAGE_KEY_VELOCITY_SELECTION_PRESET)]: {
+        mode: preset.mode,
+        count: preset.count,
+        excludeCurrent: preset.excludeCurrent,
+        excludeOutliers: preset.excludeOutliers,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to set manual selection setting:', error);
+    throw error;
+  }
 }
 
 /**
- * Get default selected iterations (last N iterations)
- * @param allIterations All available iteration names (sorted from oldest to newest)
- * @param count Number of iterations to select (default: 3)
- * @returns Array of iteration names to select by default
+ * Match saved selections against the current iterations
+ * Selections saved before keys included the group are plain names; they select the iteration in every group
+ * @param savedSelections Saved selection keys or names
+ * @param allIterations All iteration data
+ * @returns Keys of the current iterations that are selected
  */
-export function getDefaultSelectedIterations(allIterations: string[], count: number = DEFAULT_ITERATION_COUNT): string[] {
-  // Select the last N iterations (most recent)
-  return allIterations.slice(-count);
+export function resolveSelectedIterations(savedSelections: string[], allIterations: IterationData[]): string[] {
+  return allIterations
+    .filter(iter => savedSelections.includes(getIterationKey(iter)) || savedSelections.includes(iter.name))
+    .map(getIterationKey);
 }
@@ -0,0 +1,113 @@
+// GitHub Project Insights - Velocity Statistics Module
+// Responsibility: Spread and outlier statistics for iteration velocities
+
+// Tukey's fences: values more than 1.5 IQR outside the quartiles are outliers
+const OUTLIER_IQR_FACTOR = 1.5;
+// Quartiles need a few values to mean anything
+const MIN_VALUES_FOR_OUTLIERS = 4;
+
+export interface OutlierBounds {
+  lower: number;
+  upper: number;
+}
+
+export interface PlanRange {
+  low: number;
+  high: number;
+}
+
+/**
+ * Median of the values (null for no values)
+ */
+export function median(values: number[]): number | null {
+  return quantile(values, 0.5);
+}
+
+/**
+ * Quantile with linear interpolation between closest ranks (null for no values)
+ * @param q Quantile between 0 and 1
+ */
+export function quantile(values: number[], q: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const lowerValue = sorted[lower] ?? 0;
+  const upperValue = sorted[upper] ?? lowerValue;
+  return lowerValue + (upperValue - lowerValue) * (position - lower);
+}
+
+/**
+ * Sample standard deviation (0 for a single value, null for no values)
+ */
+export function standardDeviation(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  if (values.length === 1) {
+    return 0;
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Planning range: mean ± one standard deviation (velocity is never negative, so the low end stops at 0)
+ */
+export function planRange(mean: number, deviation: number): PlanRange {
+  return {
+    low: Math.max(0, mean - deviation),
+    high: mean + deviation,
+  };
+}
+
+/**
+ * Outlier bounds using Tukey's fences
+ * @returns Bounds, or null with too few values to judge
+ */
+export function getOutlierBounds(values: number[]): OutlierBounds | null {
+  if (values.length < MIN_VALUES_FOR_OUTLIERS) {
+    return null;
+  }
+
+  const q1 = quantile(values, 0.25) ?? 0;
+  const q3 = quantile(values, 0.75) ?? 0;
+  const iqr = q3 - q1;
+  return {
+    lower: q1 - OUTLIER_IQR_FACTOR * iqr,
+    upper: q3 + OUTLIER_IQR_FACTOR * iqr,
+  };
+}
+
+/**
+ * Check a value against outlier bounds (never an outlier without bounds)
+ */
+export function isOutlier(value: number, bounds: OutlierBounds | null): boolean {
+  return !!bounds && (value < bounds.lower || value > bounds.upper);
+}
+
+/**
+ * Least-squares slope of the values against their position (change per step)
+ * @returns Slope, or null with fewer than 2 values
+ */
+export function trendSlope(values: number[]): number | null {
+  if (values.length < 2) {
+    return null;
+  }
+
+  const meanX = (values.length - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / values.length;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, x) => {
+    numerator += (x - meanX) * (value - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  return numerator / denominator;
+}
@@ -1,17 +1,43 @@
 // GitHub Project Insights - Velocity Stats Panel Module
 // Responsibility: Create and update velocity statistics panel
 
-import type { VelocityChartData, IterationData } from './types';
+import type { VelocityChartData, IterationData, CapacityPlan, ChartInfo, SelectionPreset } from './types';
 import { 
   getSelectedIterations, 
-  setSelectedIterations,
-  getDefaultSelectedIterations,
-  getDefaultIterationCount
+  getSelectionPreset,
+  setSelectionPreset,
+  getDefaultIterationCount,
+  resolveSelectedIterations,
+  getCapacityPlan,
+  setCapacityPlan,
+  setManualSelection
 } from './settings';
-import { calculateAverageVelocity } from './average-calculator';
+import { calculateAverageVelocity, calculateGroupVelocities, getGroupNames, getIterationKey } from './average-calculator';
+import type { GroupVelocity } from './average-calculator';
+import { calculateCapacityRecommendation, isValidCapacityPlan } from './capacity';
+import { calculateColumnAverage, drawVelocityOverlay } from './chart-overlay';
+import { applySelectionPreset, isValidSelectionPreset } from './selection-presets';
+import { isOutlier } from './statistics';
+import type { OutlierBounds } from './statistics';
+import { buildVelocitySummary } from './summary';
+import { copyMarkdown } from '../shared/markdown';
+
+// Tooltip of the disabled exclude-current checkbox in the 'lastN' mode
+const EXCLUDE_CURRENT_LAST_N_TITLE = 'Last N iterations always counts completed iterations only';
 
 let currentIterations: IterationData[] = [];
 let currentSelectedNames: string[] = [];
+let currentPreset: SelectionPreset = { mode: 'lastN', count: 3, excludeCurrent: false, excludeOutliers: false };
+// Checkbox selection used by the 'manual' preset
+let currentManualKeys: string[] = [];
+// Group shown in the table and stats (null = all groups)
+let currentGroupFilter: string | null = null;
+let currentCapacityPlan: CapacityPlan | null = null;
+// Last saved capacity plan; unsaved input is kept until the saved plan changes
+let storedCapacityPlan: CapacityPlan | null = null;
+let currentChartInfo: ChartInfo | null = null;
+// Rolling average window of the chart overlay (the default iteration count)
+let currentRollingWindow = 3;
 
 /**
  * Create velocity statistics panel
@@ -23,18 +49,13 @@ export async function createVelocityStatsPanel(data: VelocityChartData): Promise
   }
 
   currentIterations = data.iterations;
+  currentGroupFilter = null;
+  currentChartInfo = data.chartInfo ?? null;
+  await loadSelectionSettings();
 
-  // Get saved selections or use defaults
-  const savedSelections = await getSelectedIterations();
-  const iterationNames = data.iterations.map(iter => iter.name);
-  
-  if (savedSelections.length > 0 && savedSelections.some(name => iterationNames.includes(name))) {
-    // Use saved selections if they match current iterations
-    currentSelectedNames = savedSelections.filter(name => iterationNames.includes(name));
-  } else {
-    // Use default selections (last N iterations)
-    currentSelectedNames = getDefaultSelectedIterations(iterationNames, getDefaultIterationCount());
-  }
+  const groupNames = getGroupNames(data.iterations);
+  currentCapacityPlan = await getCapacityPlan();
+  storedCapacityPlan = currentCapacityPlan;
 
   const panel = document.createElement('div');
   panel.className = 'velocity-calculator-stats';
@@ -45,6 +66,46 @@ export async function createVelocityStatsPanel(data: VelocityChartData): Promise
       <div class="velocity-calculator-hint">
         Select iterations to include in average calculation
       </div>
+      <div class="velocity-calculator-presets">
+        <select id="velocity-preset-mode" class="velocity-calculator-select">
+          <option value="lastN" ${currentPreset.mode === 'lastN' ? 'selected' : ''}>Last N iterations</option>
+          <option value="all" ${currentPreset.mode === 'all' ? 'selected' : ''}>All iterations</option>
+          <option value="manual" ${currentPreset.mode === 'manual' ? 'selected' : ''}>Manual selection</option>
+        </select>
+        <input
+          type="number"
+          id="velocity-preset-count"
+          class="velocity-calculator-input"
+          min="1"
+          max="100"
+          value="${currentPreset.count}"
+          title="Number of iterations (N)"
+          ${currentPreset.mode === 'lastN' ? '' : 'disabled'}
+        />
+        <label class="velocity-calculator-preset-option">
+          <input
+            type="checkbox"
+            id="velocity-preset-exclude-current"
+            title="${EXCLUDE_CURRENT_LAST_N_TITLE}"
+            ${currentPreset.excludeCurrent || currentPreset.mode === 'lastN' ? 'checked' : ''}
+            ${currentPreset.mode === 'lastN' ? 'disabled' : ''}
+          />
+          Exclude current iteration
+        </label>
+        <label class="velocity-calculator-preset-option">
+          <input type="checkbox" id="velocity-preset-exclude-outliers" ${currentPreset.excludeOutliers ? 'checked' : ''} />
+          Exclude outliers
+        </label>
+      </div>
+      ${groupNames.length > 0 ? `
+        <label class="velocity-calculator-group-filter">
+          Group
+          <select id="velocity-group-filter" class="velocity-calculator-select">
+            <option value="">All groups</option>
+            ${groupNames.map(name => `<option value="${escapeHtml(name)}">${escapeHtml(name)}</option>`).join('')}
+          </select>
+        </label>
+      ` : ''}
     </div>
     <div class="velocity-calculator-table-container">
       <table class="velocity-calculator-table">
@@ -64,6 +125,48 @@ export async function createVelocityStatsPanel(data: VelocityChartData): Promise
     </div>
     <div class="velocity-calculator-result" id="velocity-result">
     </div>
+    <div class="velocity-calculator-groups" id="velocity-groups">
+    </div>
+    <div class="velocity-calculator-planning">
+      <div class="velocity-calculator-planning-title">Next iteration planning</div>
+      <div class="velocity-calculator-planning-inputs">
+        <label class="velocity-calculator-planning-label">
+          Member-days
+          <input
+            type="number"
+            id="velocity-capacity-total-days"
+            class="velocity-calculator-input"
+            min="0.5"
+            step="0.5"
+            value="${currentCapacityPlan.totalDays}"
+          />
+        </label>
+        <label class="velocity-calculator-planning-label">
+          Days off
+          <input
+            type="number"
+            id="velocity-capacity-days-off"
+            class="velocity-calculator-input"
+            min="0"
+            step="0.5"
+            value="${currentCapacityPlan.daysOff}"
+          />
+        </label>
+        <button id="velocity-save-capacity" class="velocity-calculator-button">
+          Save
+        </button>
+      </div>
+      <div class="velocity-calculator-hint">
+        Total member-days in the upcoming iteration (e.g. 5 people × 10 days = 50) and the member-days people will be away
+      </div>
+      <div class="velocity-calculator-planning-result" id="velocity-capacity-result">
+      </div>
+    </div>
+    <div class="velocity-calculator-actions">
+      <button id="velocity-copy-summary" class="velocity-calculator-button">
+        Copy summary
+      </button>
+    </div>
   `;
 
   const chartContainer = document.querySelector('.highcharts-container');
@@ -78,7 +181,7 @@ export async function createVelocityStatsPanel(data: VelocityChartData): Promise
   }
 
   // Render iterations table
-  renderIterationsTable(data.iterations);
+  renderIterationsTable(getVisibleIterations());
   
   // Update average display
   updateAverageDisplay();
@@ -86,9 +189,84 @@ export async function createVelocityStatsPanel(data: VelocityChartData): Promise
   // Setup select all checkbox
   setupSelectAllCheckbox();
 
+  // Setup selection presets
+  setupSelectionPresets();
+
+  // Setup group filter
+  setupGroupFilter();
+
+  // Setup capacity planning inputs
+  setupCapacityPlanning();
+
+  // Setup copy summary button
+  setupCopySummaryButton();
+
   return panel;
 }
 
+/**
+ * Reload the settings and redraw the panel and overlay
+ * Called for storage changes: edits on the options page, in another tab or synced from
+ * another device. The panel's own saves land here too; they store exactly what is shown
+ * (an emptied manual selection stays empty), so reloading keeps the selection as it is.
+ */
+export async function refreshVelocityStatsPanel(): Promise<void> {
+  if (!document.querySelector('.velocity-calculator-stats')) return;
+
+  await loadSelectionSettings();
+
+  const plan = await getCapacityPlan();
+  if (!storedCapacityPlan || plan.totalDays !== storedCapacityPlan.totalDays || plan.daysOff !== storedCapacityPlan.daysOff) {
+    storedCapacityPlan = plan;
+    currentCapacityPlan = plan;
+    const totalDaysInput = document.getElementById('velocity-capacity-total-days') as HTMLInputElement | null;
+    const daysOffInput = document.getElementById('velocity-capacity-days-off') as HTMLInputElement | null;
+    if (totalDaysInput) totalDaysInput.value = String(plan.totalDays);
+    if (daysOffInput) daysOffInput.value = String(plan.daysOff);
+  }
+
+  updatePresetControls();
+  renderIterationsTable(getVisibleIterations());
+  updateAverageDisplay();
+  updateSelectAllCheckbox();
+}
+
+/**
+ * Use new plot dimensions (after the chart was resized) and redraw the overlay
+ */
+export function updateVelocityChartInfo(chartInfo: ChartInfo): void {
+  currentChartInfo = chartInfo;
+  redrawOverlay();
+}
+
+/**
+ * Load the rolling window and the selection from storage
+ * Selects by the saved preset, so new iterations are picked up as the chart grows
+ */
+async function loadSelectionSettings(): Promise<void> {
+  currentRollingWindow = await getDefaultIterationCount();
+  currentPreset = await getSelectionPreset();
+  const savedSelections = await getSelectedIterations();
+  currentManualKeys = resolveSelectedIterations(savedSelections, currentIterations);
+  currentSelectedNames = applySelectionPreset(currentIterations, currentPreset, currentManualKeys);
+
+  if (currentPreset.mode === 'manual' && savedSelections.length > 0 && currentManualKeys.length === 0) {
+    // Saved selections no longer match the chart; fall back to the last N iterations
+    // (an empty saved selection was cleared on purpose and stays empty)
+    currentSelectedNames = applySelectionPreset(currentIterations, { ...currentPreset, mode: 'lastN' });
+  }
+}
+
+/**
+ * Draw the chart overlay for the current selection
+ * The overlay follows the chart, which always shows every group
+ */
+function redrawOverlay(): void {
+  if (currentChartInfo) {
+    drawVelocityOverlay(currentChartInfo, currentIterations, currentSelectedNames, currentRollingWindow);
+  }
+}
+
 /**
  * Render iterations table rows
  */
@@ -102,16 +280,19 @@ function renderIterationsTable(iterations: IterationData[]): void {
   const sortedIterations = [...iterations].sort((a, b) => b.index - a.index);
 
   tbody.innerHTML = sortedIterations.map(iter => `
-    <tr class="velocity-calculator-row ${currentSelectedNames.includes(iter.name) ? 'selected' : ''}">
+    <tr class="velocity-calculator-row ${currentSelectedNames.includes(getIterationKey(iter)) ? 'selected' : ''}" data-estimate="${iter.estimate}">
       <td class="velocity-calculator-td-checkbox">
         <input 
           type="checkbox" 
           class="velocity-calculator-checkbox velocity-iteration-checkbox" 
-          data-iteration="${iter.name}"
-          ${currentSelectedNames.includes(iter.name) ? 'checked' : ''}
+          data-iteration="${escapeHtml(getIterationKey(iter))}"
+          ${currentSelectedNames.includes(getIterationKey(iter)) ? 'checked' : ''}
         />
       </td>
-      <td class="velocity-calculator-td-iteration">${escapeHtml(iter.name)}</td>
+      <td class="velocity-calculator-td-iteration">
+        ${escapeHtml(iter.name)}
+        <span class="velocity-calculator-outlier-badge" title="Far outside the typical range of the selected iterations">Outlier</span>
+      </td>
       <td class="velocity-calculator-td-estimate">${iter.estimate.toFixed(1)}</td>
       ${hasGroupColumn ? `<td class="velocity-calculator-td-group">${escapeHtml(iter.groupName || '-')}</td>` : ''}
     </tr>
@@ -124,29 +305,39 @@ function renderIterationsTable(iterations: IterationData[]): void {
   });
 }
 
+/**
+ * Get the iterations of the selected group (all iterations without a group filter)
+ */
+function getVisibleIterations(): IterationData[] {
+  if (currentGroupFilter === null) {
+    return currentIterations;
+  }
+  return currentIterations.filter(iter => iter.groupName === currentGroupFilter);
+}
+
 /**
  * Handle iteration checkbox change
  */
 async function handleIterationCheckboxChange(event: Event): Promise<void> {
   const checkbox = event.target as HTMLInputElement;
-  const iterationName = checkbox.dataset.iteration;
+  const iterationKey = checkbox.dataset.iteration;
   
-  if (!iterationName) return;
+  if (!iterationKey) return;
 
   const row = checkbox.closest('tr');
   
   if (checkbox.checked) {
-    if (!currentSelectedNames.includes(iterationName)) {
-      currentSelectedNames.push(iterationName);
+    if (!currentSelectedNames.includes(iterationKey)) {
+      currentSelectedNames.push(iterationKey);
     }
     row?.classList.add('selected');
   } else {
-    currentSelectedNames = currentSelectedNames.filter(name => name !== iterationName);
+    currentSelectedNames = currentSelectedNames.filter(key => key !== iterationKey);
     row?.classList.remove('selected');
   }
 
   // Save selection
-  await setSelectedIterations(currentSelectedNames);
+  await saveManualSelection();
   
   // Update displays
   updateAverageDisplay();
@@ -162,15 +353,20 @@ function setupSelectAllCheckbox(): void {
 
   selectAllCheckbox.addEventListener('change', async () => {
     const checkboxes = document.querySelectorAll('.velocity-iteration-checkbox') as NodeListOf<HTMLInputElement>;
+    // Only the visible (filtered) iterations are toggled; other groups keep their selection
+    const visibleKeys = getVisibleIterations().map(getIterationKey);
     
     if (selectAllCheckbox.checked) {
-      currentSelectedNames = currentIterations.map(iter => iter.name);
+      currentSelectedNames = [
+        ...currentSelectedNames.filter(key => !visibleKeys.includes(key)),
+        ...visibleKeys,
+      ];
       checkboxes.forEach(cb => {
         cb.checked = true;
         cb.closest('tr')?.classList.add('selected');
       });
     } else {
-      currentSelectedNames = [];
+      currentSelectedNames = currentSelectedNames.filter(key => !visibleKeys.includes(key));
       checkboxes.forEach(cb => {
         cb.checked = false;
         cb.closest('tr')?.classList.remove('selected');
@@ -178,7 +374,7 @@ function setupSelectAllCheckbox(): void {
     }
 
     // Save selection
-    await setSelectedIterations(currentSelectedNames);
+    await saveManualSelection();
     
     // Update average display
     updateAverageDisplay();
@@ -188,6 +384,132 @@ function setupSelectAllCheckbox(): void {
   updateSelectAllCheckbox();
 }
 
+/**
+ * Switch to the 'manual' preset after a checkbox edit and save the exact selection
+ * Exclusions are turned off so the checked iterations stay as they are
+ */
+async function saveManualSelection(): Promise<void> {
+  currentManualKeys = [...currentSelectedNames];
+  currentPreset = { ...currentPreset, mode: 'manual', excludeCurrent: false, excludeOutliers: false };
+  updatePresetControls();
+
+  try {
+    await setManualSelection(currentManualKeys, currentPreset);
+  } catch (error) {
+    console.error('Failed to save iteration selection:', error);
+  }
+}
+
+/**
+ * Reflect the current preset in the preset controls
+ */
+function updatePresetControls(): void {
+  const modeSelect = document.getElementById('velocity-preset-mode') as HTMLSelectElement | null;
+  const countInput = document.getElementById('velocity-preset-count') as HTMLInputElement | null;
+  const excludeCurrent = document.getElementById('velocity-preset-exclude-current') as HTMLInputElement | null;
+  const excludeOutliers = document.getElementById('velocity-preset-exclude-outliers') as HTMLInputElement | null;
+  if (!modeSelect || !countInput || !excludeCurrent || !excludeOutliers) return;
+
+  modeSelect.value = currentPreset.mode;
+  countInput.value = String(currentPreset.count);
+  countInput.disabled = currentPreset.mode !== 'lastN';
+  // Last N always leaves out the current iteration; the saved choice applies to the other modes
+  excludeCurrent.checked = currentPreset.excludeCurrent || currentPreset.mode === 'lastN';
+  excludeCurrent.disabled = currentPreset.mode === 'lastN';
+  excludeOutliers.checked = currentPreset.excludeOutliers;
+}
+
+/**
+ * Setup selection preset controls (re-select iterations and remember the preset on change)
+ */
+function setupSelectionPresets(): void {
+  const modeSelect = document.getElementById('velocity-preset-mode') as HTMLSelectElement;
+  const countInput = document.getElementById('velocity-preset-count') as HTMLInputElement;
+  const excludeCurrent = document.getElementById('velocity-preset-exclude-current') as HTMLInputElement;
+  const excludeOutliers = document.getElementById('velocity-preset-exclude-outliers') as HTMLInputElement;
+  if (!modeSelect || !countInput || !excludeCurrent || !excludeOutliers) return;
+
+  const handleChange = async (): Promise<void> => {
+    const preset = {
+      mode: modeSelect.value,
+      count: parseInt(countInput.value, 10),
+      // While disabled (Last N) the checkbox only shows the rule, so keep the saved choice
+      excludeCurrent: excludeCurrent.disabled ? currentPreset.excludeCurrent : excludeCurrent.checked,
+      excludeOutliers: excludeOutliers.checked,
+    };
+
+    if (!isValidSelectionPreset(preset)) {
+      countInput.classList.add('velocity-calculator-input-error');
+      setTimeout(() => {
+        countInput.classList.remove('velocity-calculator-input-error');
+      }, 2000);
+      return;
+    }
+
+    // Switching to manual starts from what is selected right now
+    if (preset.mode === 'manual' && currentPreset.mode !== 'manual') {
+      currentManualKeys = [...currentSelectedNames];
+    }
+
+    currentPreset = preset;
+    currentSelectedNames = applySelectionPreset(currentIterations, currentPreset, currentManualKeys);
+    updatePresetControls();
+    renderIterationsTable(getVisibleIterations());
+    updateAverageDisplay();
+    updateSelectAllCheckbox();
+
+    try {
+      if (preset.mode === 'manual') {
+        await setManualSelection(currentManualKeys, currentPreset);
+      } else {
+        await setSelectionPreset(currentPreset);
+      }
+    } catch (error) {
+      console.error('Failed to save selection preset:', error);
+    }
+  };
+
+  [modeSelect, countInput, excludeCurrent, excludeOutliers].forEach(control => {
+    control.addEventListener('change', handleChange);
+  });
+}
+
+/**
+ * Setup group filter (narrows the table and stats to one group)
+ */
+function setupGroupFilter(): void {
+  const select = document.getElementById('velocity-group-filter') as HTMLSelectElement | null;
+  if (!select) return;
+
+  select.addEventListener('change', () => {
+    currentGroupFilter = select.value || null;
+    renderIterationsTable(getVisibleIterations());
+    updateAverageDisplay();
+    updateSelectAllCheckbox();
+  });
+}
+
+/**
+ * Setup copy summary button (copies the current selection as a Markdown table)
+ */
+function setupCopySummaryButton(): void {
+  const button = document.getElementById('velocity-copy-summary') as HTMLButtonElement;
+  if (!button) return;
+
+  button.addEventListener('click', () => {
+    const visibleIterations = getVisibleIterations();
+    const result = calculateAverageVelocity(visibleIterations, currentSelectedNames);
+    const summary = buildVelocitySummary(
+      result,
+      calculateGroupVelocities(visibleIterations, currentSelectedNames),
+      currentCapacityPlan ? calculateCapacityRecommendation(result, currentCapacityPlan) : null
+    );
+    if (summary) {
+      copyMarkdown(button, summary);
+    }
+  });
+}
+
 /**
  * Update select all checkbox state
  */
@@ -195,8 +517,9 @@ function updateSelectAllCheckbox(): void {
   const selectAllCheckbox = document.getElementById('velocity-select-all') as HTMLInputElement;
   if (!selectAllCheckbox) return;
 
-  const totalCount = currentIterations.length;
-  const selectedCount = currentSelectedNames.length;
+  const visibleKeys = getVisibleIterations().map(getIterationKey);
+  const totalCount = visibleKeys.length;
+  const selectedCount = visibleKeys.filter(key => currentSelectedNames.includes(key)).length;
 
   if (selectedCount === 0) {
     selectAllCheckbox.checked = false;
@@ -217,9 +540,20 @@ function updateAverageDisplay(): void {
   const container = document.getElementById('velocity-result');
   if (!container) return;
 
-  const result = calculateAverageVelocity(currentIterations, currentSelectedNames);
+  const visibleIterations = getVisibleIterations();
+  const result = calculateAverageVelocity(visibleIterations, currentSelectedNames);
+  updateOutlierFlags(result.outlierBounds);
+  updateGroupBreakdown(calculateGroupVelocities(visibleIterations, currentSelectedNames));
+  updateCapacityDisplay();
+
+  redrawOverlay();
 
-  if (result.average === null || result.count === 0) {
+  const copyButton = document.getElementById('velocity-copy-summary') as HTMLButtonElement | null;
+  if (copyButton) {
+    copyButton.disabled = result.average === null || result.count === 0;
+  }
+
+  if (result.average === null || result.count === 0 || !result.spread) {
     container.innerHTML = `
       <div class="velocity-calculator-no-selection">
         Select at least one iteration to calculate average
@@ -228,6 +562,11 @@ function updateAverageDisplay(): void {
     return;
   }
 
+  const { spread } = result;
+  // Grouped charts stack the groups, so the chart's average line is the all-groups total per iteration
+  const columnAverage = currentGroupFilter === null && currentIterations.some(iter => iter.groupName)
+    ? calculateColumnAverage(currentIterations, currentSelectedNames)
+    : null;
   container.innerHTML = `
     <div class="velocity-calculator-result-grid">
       <div class="velocity-calculator-result-item">
@@ -243,14 +582,187 @@ function updateAverageDisplay(): void {
         <span class="velocity-calculator-result-value">${result.average.toFixed(2)} / Iteration</span>
       </div>
     </div>
+    <div class="velocity-calculator-spread-grid">
+      <div class="velocity-calculator-spread-item">
+        <span class="velocity-calculator-result-label">Median</span>
+        <span class="velocity-calculator-spread-value">${spread.median.toFixed(1)}</span>
+      </div>
+      <div class="velocity-calculator-spread-item">
+        <span class="velocity-calculator-result-label">Std Dev</span>
+        <span class="velocity-calculator-spread-value">${spread.standardDeviation.toFixed(1)}</span>
+      </div>
+      <div class="velocity-calculator-spread-item">
+        <span class="velocity-calculator-result-label">Min</span>
+        <span class="velocity-calculator-spread-value">${spread.min.toFixed(1)}</span>
+      </div>
+      <div class="velocity-calculator-spread-item">
+        <span class="velocity-calculator-result-label">Max</span>
+        <span class="velocity-calculator-spread-value">${spread.max.toFixed(1)}</span>
+      </div>
+    </div>
+    <div class="velocity-calculator-plan-range">
+      Plan between <strong>${spread.planRange.low.toFixed(1)}</strong>
+      and <strong>${spread.planRange.high.toFixed(1)}</strong> points
+      <span class="velocity-calculator-hint">(average ± 1 standard deviation)</span>
+    </div>
+    ${columnAverage !== null ? `
+      <div class="velocity-calculator-column-average">
+        All groups together: <strong>${columnAverage.toFixed(2)}</strong> / Iteration
+        <span class="velocity-calculator-hint">(average of the stacked columns, the green line on the chart; Average Velocity above is per group)</span>
+      </div>
+    ` : ''}
+  `;
+}
+
+/**
+ * Setup capacity planning inputs (the recommendation updates while typing; Save stores the plan)
+ */
+function setupCapacityPlanning(): void {
+  const totalDaysInput = document.getElementById('velocity-capacity-total-days') as HTMLInputElement;
+  const daysOffInput = document.getElementById('velocity-capacity-days-off') as HTMLInputElement;
+  const saveButton = document.getElementById('velocity-save-capacity') as HTMLButtonElement;
+  if (!totalDaysInput || !daysOffInput || !saveButton) return;
+
+  const readPlan = (): CapacityPlan => ({
+    totalDays: parseFloat(totalDaysInput.value),
+    daysOff: parseFloat(daysOffInput.value || '0'),
+  });
+
+  [totalDaysInput, daysOffInput].forEach(input => {
+    input.addEventListener('input', () => {
+      currentCapacityPlan = readPlan();
+      updateCapacityDisplay();
+    });
+    input.addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') {
+        saveButton.click();
+      }
+    });
+  });
+
+  saveButton.addEventListener('click', async () => {
+    const plan = readPlan();
+
+    if (!isValidCapacityPlan(plan)) {
+      [totalDaysInput, daysOffInput].forEach(input => input.classList.add('velocity-calculator-input-error'));
+      setTimeout(() => {
+        [totalDaysInput, daysOffInput].forEach(input => input.classList.remove('velocity-calculator-input-error'));
+      }, 2000);
+      return;
+    }
+
+    try {
+      await setCapacityPlan(plan);
+      storedCapacityPlan = plan;
+      saveButton.textContent = 'Saved!';
+    } catch (error) {
+      console.error('Failed to save capacity plan setting:', error);
+      saveButton.textContent = 'Error';
+    }
+    setTimeout(() => {
+      saveButton.textContent = 'Save';
+    }, 2000);
+  });
+}
+
+/**
+ * Update the recommended commitment for the upcoming iteration
+ */
+function updateCapacityDisplay(): void {
+  const container = document.getElementById('velocity-capacity-result');
+  if (!container) return;
+
+  const result = calculateAverageVelocity(getVisibleIterations(), currentSelectedNames);
+  if (result.average === null) {
+    container.innerHTML = '';
+    return;
+  }
+
+  const recommendation = currentCapacityPlan
+    ? calculateCapacityRecommendation(result, currentCapacityPlan)
+    : null;
+  if (!recommendation) {
+    container.innerHTML = `
+      <span class="velocity-calculator-hint">Enter member-days above 0 and days off between 0 and member-days</span>
+    `;
+    return;
+  }
+
+  container.innerHTML = `
+    Availability <strong>${Math.round(recommendation.availability * 100)}%</strong>
+    → commit about <strong class="velocity-calculator-planning-commitment">${recommendation.commitment.toFixed(1)}</strong> points
+    <span class="velocity-calculator-hint">
+      (range ${recommendation.range.low.toFixed(1)} - ${recommendation.range.high.toFixed(1)})
+    </span>
+  `;
+}
+
+/**
+ * Update per-group breakdown (hidden for ungrouped charts or a single visible group)
+ */
+function updateGroupBreakdown(groups: GroupVelocity[]): void {
+  const container = document.getElementById('velocity-groups');
+  if (!container) return;
+
+  if (currentGroupFilter !== null || groups.length === 0) {
+    container.innerHTML = '';
+    return;
+  }
+
+  container.innerHTML = `
+    <table class="velocity-calculator-table velocity-calculator-group-table">
+      <thead>
+        <tr>
+          <th>Group</th>
+          <th class="velocity-calculator-th-estimate">Iterations</th>
+          <th class="velocity-calculator-th-estimate">Average</th>
+          <th class="velocity-calculator-th-estimate">Trend</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${groups.map(group => `
+          <tr class="velocity-calculator-row">
+            <td class="velocity-calculator-td-group">${escapeHtml(group.groupName)}</td>
+            <td class="velocity-calculator-td-estimate">${group.count}</td>
+            <td class="velocity-calculator-td-estimate">${group.average.toFixed(2)}</td>
+            <td class="velocity-calculator-td-estimate">${formatTrend(group.trend)}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
   `;
 }
 
+/**
+ * Format a trend slope as an arrow and points per iteration
+ */
+function formatTrend(trend: number | null): string {
+  if (trend === null) {
+    return '<span class="velocity-calculator-trend">-</span>';
+  }
+  const rounded = Math.round(trend * 10) / 10;
+  const direction = rounded > 0 ? 'up' : rounded < 0 ? 'down' : 'flat';
+  const arrow = rounded > 0 ? '▲' : rounded < 0 ? '▼' : '▶';
+  const sign = rounded > 0 ? '+' : '';
+  return `<span class="velocity-calculator-trend ${direction}">${arrow} ${sign}${rounded.toFixed(1)}</span>`;
+}
+
+/**
+ * Flag table rows whose estimate is an outlier among the selected iterations
+ */
+function updateOutlierFlags(bounds: OutlierBounds | null): void {
+  const rows = document.querySelectorAll('#velocity-iterations-body .velocity-calculator-row') as NodeListOf<HTMLElement>;
+  rows.forEach(row => {
+    row.classList.toggle('outlier', isOutlier(Number(row.dataset.estimate), bounds));
+  });
+}
+
 /**
  * Escape HTML to prevent XSS
+ * Quotes are escaped too, since iteration and group names also go into attribute values
  */
 function escapeHtml(text: string): string {
   const div = document.createElement('div');
   div.textContent = text;
-  return div.innerHTML;
+  return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
 }
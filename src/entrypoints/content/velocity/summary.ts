@@ -0,0 +1,78 @@
+// GitHub Project Insights - Velocity Summary Module
+// Responsibility: Build a Markdown status summary of the selected iterations
+
+import type { AverageResult, GroupVelocity } from './average-calculator';
+import type { CapacityRecommendation } from './capacity';
+import { toMarkdownTable } from '../shared/markdown';
+
+/**
+ * Build a Markdown summary table of the selected iterations and their average
+ * @param result Average calculation result
+ * @param groups Per-group breakdown (omitted when empty or a single group)
+ * @param capacity Recommended commitment for the upcoming iteration (omitted when null)
+ * @returns Markdown text, or null if no iteration is selected
+ */
+export function buildVelocitySummary(
+  result: AverageResult,
+  groups: GroupVelocity[] = [],
+  capacity: CapacityRecommendation | null = null
+): string | null {
+  if (result.average === null || result.count === 0 || !result.spread) {
+    return null;
+  }
+
+  const hasGroupColumn = result.selectedIterations.some(iter => iter.groupName);
+  const headers = hasGroupColumn ? ['Iteration', 'Group', 'Estimate'] : ['Iteration', 'Estimate'];
+  const alignments: ('left' | 'right')[] = hasGroupColumn ? ['left', 'left', 'right'] : ['left', 'right'];
+
+  // Oldest first, matching the chart's left-to-right order
+  const rows = [...result.selectedIterations]
+    .sort((a, b) => a.index - b.index)
+    .map(iter => hasGroupColumn
+      ? [iter.name, iter.groupName || '-', iter.estimate.toFixed(1)]
+      : [iter.name, iter.estimate.toFixed(1)]);
+
+  const totalRow = ['**Total**', ...(hasGroupColumn ? [''] : []), `**${result.total.toFixed(1)}**`];
+  const averageRow = ['**Average**', ...(hasGroupColumn ? [''] : []), `**${result.average.toFixed(2)} / Iteration**`];
+
+  const { spread } = result;
+  const spreadLine = [
+    `Median ${spread.median.toFixed(1)}`,
+    `Std Dev ${spread.standardDeviation.toFixed(1)}`,
+    `Min ${spread.min.toFixed(1)}`,
+    `Max ${spread.max.toFixed(1)}`,
+  ].join(' · ');
+
+  const lines = [
+    `**Velocity summary** (${result.count} iterations)`,
+    '',
+    toMarkdownTable(headers, [...rows, totalRow, averageRow], alignments),
+    '',
+    spreadLine,
+    `Plan between **${spread.planRange.low.toFixed(1)}** and **${spread.planRange.high.toFixed(1)}** points`,
+  ];
+
+  if (capacity) {
+    lines.push(
+      `Next iteration: **${Math.round(capacity.availability * 100)}%** availability → commit about ` +
+      `**${capacity.commitment.toFixed(1)}** points (range ${capacity.range.low.toFixed(1)} - ${capacity.range.high.toFixed(1)})`
+    );
+  }
+
+  if (groups.length > 1) {
+    const groupRows = groups.map(group => [
+      group.groupName,
+      String(group.count),
+      group.average.toFixed(2),
+      group.trend === null ? '-' : `${group.trend > 0 ? '+' : ''}${group.trend.toFixed(1)} / Iteration`,
+    ]);
+    lines.push(
+      '',
+      '**By group**',
+      '',
+      toMarkdownTable(['Group', 'Iterations', 'Average', 'Trend'], groupRows, ['left', 'right', 'right', 'right'])
+    );
+  }
+
+  return lines.join('\n');
+}
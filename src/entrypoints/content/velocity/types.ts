@@ -16,7 +16,24 @@ export interface VelocityChartData {
 }
 
 export interface VelocitySettings {
-  selectedIterations: string[];  // Names of selected iterations for average calculation
+  selectedIterations: string[];  // Keys of selected iterations for average calculation
+  capacityPlan: CapacityPlan;
+  selectionPreset: SelectionPreset;
+}
+
+// How iterations are selected: the last N, all of them, or the saved checkbox selection
+export type SelectionMode = 'lastN' | 'all' | 'manual';
+
+export interface SelectionPreset {
+  mode: SelectionMode;
+  count: number;             // N for 'lastN'
+  excludeCurrent: boolean;   // Leave out the in-progress (last) iteration ('lastN' always does)
+  excludeOutliers: boolean;  // Leave out statistical outliers
+}
+
+export interface CapacityPlan {
+  totalDays: number;   // Team member-days in the upcoming iteration, e.g. 5 people x 10 days = 50
+  daysOff: number;     // Member-days of planned absence (vacation, training, ...)
 }
 
 // Re-export shared types for convenience
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createAgingWipView, AGING_WIP_VIEW_CLASS } from '../aging-wip-view';
+import type { AgingWip } from '../aging-wip';
+
+const aging: AgingWip = {
+  columns: [
+    {
+      statusId: 'dev',
+      name: 'In Progress',
+      items: [
+        { contentId: 11, startDate: '2026-07-01', age: 9, band: 'over85' },
+        { contentId: 12, startDate: '2026-07-09', age: 1, band: 'within50' },
+      ],
+    },
+    {
+      statusId: 'review',
+      name: 'In Review',
+      items: [{ contentId: 13, startDate: '2026-07-08', age: 2, band: 'within50' }],
+    },
+  ],
+  bands: { p50: 3, p85: 8, p95: 12 },
+  skipped: 0,
+};
+
+describe('createAgingWipView', () => {
+  it('summarizes how many items are older than 85% of finished items', () => {
+    const view = createAgingWipView({ aging, onSelect: () => true });
+    const summary = view.querySelector(`.${AGING_WIP_VIEW_CLASS}__summary`)!;
+
+    expect(summary.textContent).toBe('Aging WIP: 3 items in progress, 1 older than 85% of finished items');
+  });
+
+  it('draws one dot per item and the four percentile bands', () => {
+    const view = createAgingWipView({ aging, onSelect: () => true });
+    const bands = Array.from(view.querySelectorAll(`.${AGING_WIP_VIEW_CLASS}__band`));
+
+    expect(view.querySelectorAll(`.${AGING_WIP_VIEW_CLASS}__dot`)).toHaveLength(3);
+    expect(view.querySelectorAll(`.${AGING_WIP_VIEW_CLASS}__dot--over85`)).toHaveLength(1);
+    expect(bands.map((band) => band.getAttribute('data-band'))).toEqual(['within50', 'over50', 'over85', 'over95']);
+  });
+
+  it('selects the clicked item', () => {
+    const onSelect = vi.fn(() => true);
+    const view = createAgingWipView({ aging, onSelect });
+
+    view.querySelector(`[data-content-id="13"]`)!.dispatchEvent(new MouseEvent('click'));
+
+    expect(onSelect).toHaveBeenCalledWith(13);
+    expect(view.querySelector(`.${AGING_WIP_VIEW_CLASS}__status`)!.textContent).toBe('');
+  });
+
+  it('explains when the clicked row is not rendered', () => {
+    const view = createAgingWipView({ aging, onSelect: () => false });
+
+    view.querySelector(`[data-content-id="11"]`)!.dispatchEvent(new MouseEvent('click'));
+
+    expect(view.querySelector(`.${AGING_WIP_VIEW_CLASS}__status`)!.textContent).toContain('isn’t loaded');
+  });
+
+  it('starts expanded when rebuilt from an open panel, unless it has nothing to show', () => {
+    const view = createAgingWipView({ aging, onSelect: () => true, expanded: true });
+    const empty = createAgingWipView({ aging: { columns: [], bands: null, skipped: 0 }, onSelect: () => true, expanded: true });
+
+    expect(view.querySelector<HTMLElement>(`.${AGING_WIP_VIEW_CLASS}__panel`)!.hidden).toBe(false);
+    expect(view.querySelector(`.${AGING_WIP_VIEW_CLASS}__button`)!.textContent).toBe('Hide');
+    expect(empty.querySelector<HTMLElement>(`.${AGING_WIP_VIEW_CLASS}__panel`)!.hidden).toBe(true);
+  });
+
+  it('disables the toggle and draws no bands without items in progress', () => {
+    const view = createAgingWipView({ aging: { columns: [], bands: null, skipped: 2 }, onSelect: () => true });
+    const button = view.querySelector<HTMLButtonElement>(`.${AGING_WIP_VIEW_CLASS}__button`)!;
+
+    expect(button.disabled).toBe(true);
+    expect(view.querySelector('svg')).toBeNull();
+    expect(view.querySelector(`.${AGING_WIP_VIEW_CLASS}__hint`)!.textContent).toContain('2 items in progress were skipped');
+  });
+});
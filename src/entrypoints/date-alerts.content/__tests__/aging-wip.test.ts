@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { buildAgingWip, getAgingBand } from '../aging-wip';
+import type { Percentiles } from '../cycle-time';
+import type { DateFieldOption, ItemFieldData, StatusCategory } from '../types';
+
+const STATUS_OPTIONS: DateFieldOption[] = [
+  { id: 'todo', name: 'Todo' },
+  { id: 'dev', name: 'In Progress' },
+  { id: 'review', name: 'In Review' },
+  { id: 'done', name: 'Done' },
+];
+
+const BANDS: Percentiles = { p50: 3, p85: 8, p95: 12 };
+
+function item(contentId: number, statusId: string | null, startDate: string | null): ItemFieldData {
+  const statusName = STATUS_OPTIONS.find((option) => option.id === statusId)?.name ?? null;
+  return { contentId, startDate, endDate: null, statusId, statusName };
+}
+
+const byId = (value: ItemFieldData): StatusCategory =>
+  value.statusId === 'dev' || value.statusId === 'review' ? 'inProgress' : 'todo';
+
+describe('getAgingBand', () => {
+  it('moves up a band only when strictly older than the percentile', () => {
+    expect(getAgingBand(3, BANDS)).toBe('within50');
+    expect(getAgingBand(4, BANDS)).toBe('over50');
+    expect(getAgingBand(9, BANDS)).toBe('over85');
+    expect(getAgingBand(13, BANDS)).toBe('over95');
+  });
+});
+
+describe('buildAgingWip', () => {
+  it('groups in-progress items by Status in option order, oldest first', () => {
+    const aging = buildAgingWip(
+      [
+        item(1, 'review', '2026-07-08'),
+        item(2, 'dev', '2026-07-09'),
+        item(3, 'dev', '2026-07-01'),
+        item(4, 'todo', '2026-07-01'),
+      ],
+      STATUS_OPTIONS,
+      byId,
+      '2026-07-10',
+      BANDS,
+    );
+
+    expect(aging.columns.map((column) => column.name)).toEqual(['In Progress', 'In Review']);
+    expect(aging.columns[0]!.items.map((entry) => [entry.contentId, entry.age, entry.band])).toEqual([
+      [3, 9, 'over85'],
+      [2, 1, 'within50'],
+    ]);
+    expect(aging.columns[1]!.items.map((entry) => entry.age)).toEqual([2]);
+  });
+
+  it('counts in-progress items without a past Start date as skipped', () => {
+    const aging = buildAgingWip(
+      [item(1, 'dev', null), item(2, 'dev', '2026-07-11'), item(3, 'dev', '2026-07-10')],
+      STATUS_OPTIONS,
+      byId,
+      '2026-07-10',
+      BANDS,
+    );
+
+    expect(aging.columns[0]!.items.map((entry) => entry.contentId)).toEqual([3]);
+    expect(aging.skipped).toBe(2);
+  });
+
+  it('leaves bands unset without cycle time history', () => {
+    const aging = buildAgingWip([item(1, 'dev', '2026-07-01')], STATUS_OPTIONS, byId, '2026-07-10', null);
+
+    expect(aging.bands).toBeNull();
+    expect(aging.columns[0]!.items[0]!.band).toBeNull();
+  });
+
+  it('puts statuses missing from the option list last, by name', () => {
+    const unlisted: ItemFieldData = {
+      contentId: 9,
+      startDate: '2026-07-05',
+      endDate: null,
+      statusId: 'gone',
+      statusName: 'Blocked',
+    };
+
+    const aging = buildAgingWip(
+      [unlisted, item(1, 'dev', '2026-07-05')],
+      STATUS_OPTIONS,
+      () => 'inProgress',
+      '2026-07-10',
+      BANDS,
+    );
+
+    expect(aging.columns.map((column) => [column.statusId, column.name])).toEqual([
+      ['dev', 'In Progress'],
+      [null, 'Blocked'],
+    ]);
+  });
+});
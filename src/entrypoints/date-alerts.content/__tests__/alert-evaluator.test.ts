@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { evaluate, DEFAULT_AGE_THRESHOLDS } from '../alert-evaluator';
+import { evaluate, resolveAgeThresholds, DEFAULT_AGE_THRESHOLDS } from '../alert-evaluator';
 import { resolveStatusCategory } from '../status-classifier';
-import type { StatusCategory, StatusMapping } from '../types';
+import { getAlertRules } from '../alert-rules';
+import type { AlertRule, StatusCategory, StatusMapping } from '../types';
 
 const TODAY = '2026-07-18';
 
@@ -44,7 +45,7 @@ describe('evaluate - Start cell', () => {
     expect(run({ status: 'done', startDate: '2026-07-01' }).start).toBeNull();
   });
 
-  it('does not show Age when the start date is in the future (Future Start is post-MVP)', () => {
+  it('does not show Age when the start date is in the future (Future Start is a schedule rule)', () => {
     expect(run({ status: 'inProgress', startDate: '2026-07-25' }).start).toBeNull();
   });
 
@@ -157,3 +158,126 @@ describe('evaluate - combined with an explicit status mapping (resolveStatusCate
     expect(result.end).toEqual({ type: 'missingEnd', text: '⚠ Missing', level: 'caution' });
   });
 });
+
+describe('evaluate - custom rules', () => {
+  const dueSoon: AlertRule = {
+    id: 'custom-1',
+    cell: 'end',
+    statuses: ['todo', 'inProgress'],
+    end: { minOffset: 0, maxOffset: 2 },
+    text: 'Due in {days}d',
+    level: 'caution',
+    priority: 30,
+  };
+  const futureStart: AlertRule = {
+    id: 'custom-2',
+    cell: 'start',
+    statuses: ['todo', 'inProgress'],
+    start: { minOffset: 1 },
+    text: 'Starts in {days}d',
+    level: 'normal',
+    priority: 30,
+  };
+  const scheduleAlerts = { dueToday: false, dueSoon: false, dueSoonDays: 3, futureStart: false };
+  const rules = getAlertRules({ startFieldId: '1', endFieldId: '2', scheduleAlerts, alertRules: [dueSoon, futureStart] });
+
+  it('emits a custom rule when no built-in rule matches the cell', () => {
+    const result = evaluate({ startDate: null, endDate: '2026-07-20', status: 'todo', today: TODAY, rules });
+    expect(result.end).toEqual({ type: 'custom-1', text: 'Due in 2d', level: 'caution' });
+  });
+
+  it('emits a future start alert', () => {
+    const result = evaluate({ startDate: '2026-07-25', endDate: null, status: 'todo', today: TODAY, rules });
+    expect(result.start).toEqual({ type: 'custom-2', text: 'Starts in 7d', level: 'normal' });
+  });
+
+  it('lets built-in rules win on the same cell by priority', () => {
+    const result = evaluate({ startDate: null, endDate: null, status: 'inProgress', today: TODAY, rules });
+    expect(result.start?.type).toBe('missingStart');
+    expect(result.end?.type).toBe('missingEnd');
+  });
+
+  it('lets a lower priority number override a built-in rule', () => {
+    const urgent: AlertRule = { ...dueSoon, id: 'custom-3', end: { presence: 'missing' }, text: 'No due date', priority: 1 };
+    const result = evaluate({
+      startDate: '2026-07-10',
+      endDate: null,
+      status: 'inProgress',
+      today: TODAY,
+      rules: getAlertRules({ startFieldId: '1', endFieldId: '2', scheduleAlerts, alertRules: [urgent] }),
+    });
+    expect(result.end).toEqual({ type: 'custom-3', text: 'No due date', level: 'caution' });
+  });
+});
+
+describe('evaluate - schedule rules', () => {
+  const rules = getAlertRules({
+    startFieldId: '1',
+    endFieldId: '2',
+    scheduleAlerts: { dueToday: true, dueSoon: true, dueSoonDays: 3, futureStart: true },
+  });
+  const runWith = (overrides: Partial<{ startDate: string | null; endDate: string | null; status: StatusCategory }>) =>
+    evaluate({ startDate: null, endDate: null, status: 'inProgress', today: TODAY, rules, ...overrides });
+
+  it('flags Due Today on the due day', () => {
+    expect(runWith({ status: 'todo', endDate: TODAY }).end).toEqual({ type: 'dueToday', text: 'Due today', level: 'urgent' });
+  });
+
+  it('flags Due Soon within the horizon only', () => {
+    expect(runWith({ endDate: '2026-07-21' }).end).toEqual({ type: 'dueSoon', text: 'Due in 3d', level: 'upcoming' });
+    expect(runWith({ endDate: '2026-07-22' }).end).toBeNull();
+  });
+
+  it('does not flag upcoming end dates for done items', () => {
+    expect(runWith({ status: 'done', endDate: TODAY }).end).toBeNull();
+  });
+
+  it('flags Future Start for in-progress items only', () => {
+    expect(runWith({ startDate: '2026-07-20' }).start).toEqual({
+      type: 'futureStart',
+      text: 'Starts in 2d',
+      level: 'notice',
+    });
+    expect(runWith({ status: 'todo', startDate: '2026-07-20' }).start).toBeNull();
+  });
+
+  it('stays silent for projects that have not turned them on', () => {
+    const defaults = getAlertRules({ startFieldId: '1', endFieldId: '2' });
+    const result = evaluate({ startDate: '2026-07-20', endDate: TODAY, status: 'inProgress', today: TODAY, rules: defaults });
+
+    expect(result).toEqual({ start: null, end: null });
+  });
+
+  it('still prefers Overdue over the upcoming rules', () => {
+    expect(runWith({ endDate: '2026-07-17' }).end?.type).toBe('overdue');
+  });
+
+  it('honors a custom horizon and disabled toggles', () => {
+    const custom = getAlertRules({
+      startFieldId: '1',
+      endFieldId: '2',
+      scheduleAlerts: { dueToday: false, dueSoon: true, dueSoonDays: 7, futureStart: false },
+    });
+    const result = evaluate({ startDate: '2026-07-20', endDate: '2026-07-25', status: 'inProgress', today: TODAY, rules: custom });
+
+    expect(result.end?.text).toBe('Due in 7d');
+    expect(result.start).toBeNull();
+    expect(evaluate({ startDate: null, endDate: TODAY, status: 'todo', today: TODAY, rules: custom }).end).toBeNull();
+  });
+});
+
+describe('resolveAgeThresholds', () => {
+  const globalThresholds = { caution: 3, warning: 5 };
+
+  it("uses the project's own thresholds when set", () => {
+    const mapping = { startFieldId: '1', endFieldId: '2', ageThresholds: { caution: 20, warning: 40 } };
+    expect(resolveAgeThresholds(mapping, globalThresholds)).toEqual({ caution: 20, warning: 40 });
+  });
+
+  it('falls back to the given thresholds when unset or invalid', () => {
+    expect(resolveAgeThresholds(null, globalThresholds)).toBe(globalThresholds);
+    expect(resolveAgeThresholds({ startFieldId: '1', endFieldId: '2' }, globalThresholds)).toBe(globalThresholds);
+    const invalid = { startFieldId: '1', endFieldId: '2', ageThresholds: { caution: 9, warning: 4 } };
+    expect(resolveAgeThresholds(invalid, globalThresholds)).toBe(globalThresholds);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_ALERT_RULES,
+  DEFAULT_SCHEDULE_ALERTS,
+  getAlertRules,
+  getMappingAlertsError,
+  getScheduleRules,
+  isAlertRule,
+  isValidAlertRuleList,
+  matchesRule,
+  renderRuleText,
+} from '../alert-rules';
+import type { AlertRule } from '../types';
+
+const dueSoon: AlertRule = {
+  id: 'custom-1',
+  cell: 'end',
+  statuses: ['todo', 'inProgress'],
+  end: { minOffset: 0, maxOffset: 2 },
+  text: 'Due in {days}d',
+  level: 'caution',
+  priority: 30,
+};
+
+describe('matchesRule', () => {
+  const dates = { startDate: null, endDate: '2026-07-20' };
+
+  it('matches when the status and the date offset are in range', () => {
+    expect(matchesRule(dueSoon, 'todo', dates, { start: null, end: 2 })).toBe(true);
+    expect(matchesRule(dueSoon, 'todo', dates, { start: null, end: 3 })).toBe(false);
+    expect(matchesRule(dueSoon, 'done', dates, { start: null, end: 2 })).toBe(false);
+  });
+
+  it('requires the date for offset bounds', () => {
+    expect(matchesRule(dueSoon, 'todo', { startDate: null, endDate: null }, { start: null, end: null })).toBe(false);
+  });
+
+  it('checks presence conditions', () => {
+    const missing: AlertRule = { ...dueSoon, end: { presence: 'missing' } };
+    const present: AlertRule = { ...dueSoon, end: { presence: 'present' } };
+
+    expect(matchesRule(missing, 'todo', { startDate: null, endDate: null }, { start: null, end: null })).toBe(true);
+    expect(matchesRule(missing, 'todo', dates, { start: null, end: 2 })).toBe(false);
+    expect(matchesRule(present, 'todo', dates, { start: null, end: 30 })).toBe(true);
+  });
+
+  it('combines conditions on both dates', () => {
+    const rule: AlertRule = { ...dueSoon, start: { presence: 'missing' } };
+
+    expect(matchesRule(rule, 'todo', dates, { start: null, end: 1 })).toBe(true);
+    expect(matchesRule(rule, 'todo', { ...dates, startDate: '2026-07-01' }, { start: -17, end: 1 })).toBe(false);
+  });
+});
+
+describe('renderRuleText', () => {
+  it('fills every {days} placeholder', () => {
+    expect(renderRuleText('Due in {days}d ({days})', 2)).toBe('Due in 2d (2)');
+  });
+
+  it('leaves the placeholder empty without a date', () => {
+    expect(renderRuleText('{days}d', null)).toBe('d');
+  });
+});
+
+describe('getAlertRules', () => {
+  const allScheduleAlerts = { dueToday: true, dueSoon: true, dueSoonDays: 3, futureStart: true };
+
+  it('returns only the built-in rules without a mapping, as schedule rules are opt-in', () => {
+    expect(getAlertRules(null).map((rule) => rule.id)).toEqual(['missingStart', 'overdue', 'age', 'missingEnd']);
+  });
+
+  it('leaves out schedule rules that are turned off', () => {
+    const rules = getAlertRules({
+      startFieldId: '1',
+      endFieldId: '2',
+      scheduleAlerts: { dueToday: false, dueSoon: true, dueSoonDays: 5, futureStart: false },
+    });
+
+    expect(rules.map((rule) => rule.id)).not.toContain('dueToday');
+    expect(rules.map((rule) => rule.id)).not.toContain('futureStart');
+    expect(rules.find((rule) => rule.id === 'dueSoon')?.end).toEqual({ minOffset: 1, maxOffset: 5 });
+  });
+
+  it('leaves out built-in rules the project turned off', () => {
+    const rules = getAlertRules({
+      startFieldId: '1',
+      endFieldId: '2',
+      disabledAlerts: ['age', 'missingEnd'],
+      scheduleAlerts: allScheduleAlerts,
+    });
+
+    expect(rules.map((rule) => rule.id)).toEqual(['missingStart', 'overdue', 'dueToday', 'dueSoon', 'futureStart']);
+  });
+
+  it('orders custom rules by priority, after built-ins on a tie', () => {
+    const urgent: AlertRule = { ...dueSoon, id: 'custom-2', priority: 5 };
+    const tied: AlertRule = { ...dueSoon, id: 'custom-3', priority: 10 };
+    const rules = getAlertRules({
+      startFieldId: '1',
+      endFieldId: '2',
+      alertRules: [dueSoon, urgent, tied],
+      scheduleAlerts: allScheduleAlerts,
+    });
+
+    expect(rules.map((rule) => rule.id)).toEqual([
+      'custom-2',
+      'missingStart',
+      'overdue',
+      'dueToday',
+      'dueSoon',
+      'custom-3',
+      'age',
+      'missingEnd',
+      'futureStart',
+      'custom-1',
+    ]);
+  });
+
+  it('drops invalid rules and rules reusing a built-in id', () => {
+    const invalid = { ...dueSoon, id: 'custom-2', level: 'loud' } as unknown as AlertRule;
+    const shadowing: AlertRule = { ...dueSoon, id: 'overdue' };
+    const shadowingSchedule: AlertRule = { ...dueSoon, id: 'dueSoon' };
+    const rules = getAlertRules({
+      startFieldId: '1',
+      endFieldId: '2',
+      alertRules: [invalid, shadowing, shadowingSchedule],
+    });
+
+    expect(rules).toHaveLength(BUILT_IN_ALERT_RULES.length + getScheduleRules(DEFAULT_SCHEDULE_ALERTS).length);
+  });
+});
+
+describe('isAlertRule / isValidAlertRuleList', () => {
+  it('accepts built-in and custom rules', () => {
+    expect(BUILT_IN_ALERT_RULES.every(isAlertRule)).toBe(true);
+    expect(isAlertRule(dueSoon)).toBe(true);
+  });
+
+  it('rejects malformed rules', () => {
+    expect(isAlertRule({ ...dueSoon, id: 'rule-1' })).toBe(false);
+    expect(isAlertRule({ ...dueSoon, id: 'custom-' })).toBe(false);
+    expect(isAlertRule({ ...dueSoon, cell: 'middle' })).toBe(false);
+    expect(isAlertRule({ ...dueSoon, statuses: ['blocked'] })).toBe(false);
+    expect(isAlertRule({ ...dueSoon, end: { minOffset: 0.5 } })).toBe(false);
+    expect(isAlertRule({ ...dueSoon, text: ' ' })).toBe(false);
+    expect(isAlertRule({ ...dueSoon, priority: '1' })).toBe(false);
+  });
+
+  it('accepts an absent or valid list only', () => {
+    expect(isValidAlertRuleList(undefined)).toBe(true);
+    expect(isValidAlertRuleList([dueSoon])).toBe(true);
+    expect(isValidAlertRuleList({})).toBe(false);
+    expect(isValidAlertRuleList([dueSoon, null])).toBe(false);
+  });
+});
+
+describe('getMappingAlertsError', () => {
+  const mapping = { startFieldId: '1', endFieldId: '2' };
+
+  it('accepts a mapping without alert settings', () => {
+    expect(getMappingAlertsError(mapping)).toBeNull();
+    expect(getMappingAlertsError({ ...mapping, scheduleAlerts: DEFAULT_SCHEDULE_ALERTS })).toBeNull();
+  });
+
+  it('rejects unknown disabled alerts and invalid Age thresholds', () => {
+    expect(getMappingAlertsError({ ...mapping, disabledAlerts: ['age'] })).toBeNull();
+    expect(getMappingAlertsError({ ...mapping, disabledAlerts: ['dueSoon'] } as unknown as typeof mapping))
+      .toContain('disabledAlerts');
+    expect(getMappingAlertsError({ ...mapping, ageThresholds: { caution: 10, warning: 30 } })).toBeNull();
+    expect(getMappingAlertsError({ ...mapping, ageThresholds: { caution: 10, warning: 10 } })).toContain('ageThresholds');
+  });
+
+  it('rejects an out-of-range Due Soon horizon', () => {
+    expect(getMappingAlertsError({ ...mapping, scheduleAlerts: { ...DEFAULT_SCHEDULE_ALERTS, dueSoonDays: 31 } }))
+      .toContain('dueSoonDays');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { applyAlert, removeAllAnnotations, MARKER_ATTR } from '../cell-annotator';
+import { getScheduleRules } from '../alert-rules';
 import type { CellAlert } from '../types';
 
 const ageAlert: CellAlert = { type: 'age', text: 'Age 8d', level: 'caution' };
@@ -99,6 +100,23 @@ describe('applyAlert', () => {
   });
 });
 
+describe('schedule alert styles', () => {
+  it('renders each schedule alert with its own level class', () => {
+    const rules = getScheduleRules({ dueToday: true, dueSoon: true, dueSoonDays: 3, futureStart: true });
+    const classes = rules.map((rule) => {
+      const cell = makeCell();
+      applyAlert(cell, { type: rule.id, text: rule.text, level: rule.level === 'age' ? 'normal' : rule.level });
+      return cell.querySelector(`[${MARKER_ATTR}]`)?.className;
+    });
+
+    expect(classes).toEqual([
+      'iplus-date-alert iplus-date-alert--notice',
+      'iplus-date-alert iplus-date-alert--urgent',
+      'iplus-date-alert iplus-date-alert--upcoming',
+    ]);
+  });
+});
+
 describe('removeAllAnnotations', () => {
   it('clears every annotation under the root', () => {
     const a = makeCell();
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { createConfigView, mappingState, CONFIG_VIEW_CLASS } from '../config-view';
-import type { DateFieldOption } from '../types';
+import { createConfigView, describeRule, mappingState, nextRuleId, CONFIG_VIEW_CLASS } from '../config-view';
+import { DEFAULT_SCHEDULE_ALERTS } from '../alert-rules';
+import type { AlertRule, DateFieldMapping, DateFieldOption } from '../types';
 
 const fields: DateFieldOption[] = [
   { id: '1', name: 'Start on' },
@@ -110,6 +111,7 @@ describe('createConfigView', () => {
       endFieldId: '2',
       inProgressStatusIds: [],
       doneStatusIds: [],
+      scheduleAlerts: DEFAULT_SCHEDULE_ALERTS,
     });
     expect(view.querySelector(`.${CONFIG_VIEW_CLASS}__summary`)?.textContent).toBe('Date fields: Start on / End on');
   });
@@ -251,6 +253,7 @@ describe('createConfigView', () => {
         endFieldId: '2',
         inProgressStatusIds: [],
         doneStatusIds: [],
+        scheduleAlerts: DEFAULT_SCHEDULE_ALERTS,
       });
 
       // Reopen (same createConfigView instance, no re-mount) and confirm it
@@ -315,7 +318,337 @@ describe('createConfigView', () => {
         endFieldId: '2',
         inProgressStatusIds: ['s3'],
         doneStatusIds: ['s4'],
+        scheduleAlerts: DEFAULT_SCHEDULE_ALERTS,
       });
     });
   });
+
+  describe('custom alerts', () => {
+    const dueSoon: AlertRule = {
+      id: 'custom-1',
+      cell: 'end',
+      statuses: ['todo', 'inProgress'],
+      end: { minOffset: 0, maxOffset: 2 },
+      text: 'Due in {days}d',
+      level: 'caution',
+      priority: 30,
+    };
+
+    function openView(onSave = vi.fn().mockResolvedValue(undefined), alertRules?: AlertRule[]) {
+      const view = createConfigView({
+        dateFields: fields,
+        currentMapping: { startFieldId: '1', endFieldId: '2', inProgressStatusIds: [], doneStatusIds: [], alertRules },
+        guessedMapping: { startFieldId: '1', endFieldId: '2' },
+        statusOptions,
+        onSave,
+      });
+      document.body.appendChild(view);
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__button`)!.click();
+      return view;
+    }
+
+    function input(view: HTMLElement, modifier: string): HTMLInputElement {
+      return view.querySelector<HTMLInputElement>(`.${CONFIG_VIEW_CLASS}__${modifier}`)!;
+    }
+
+    function select(view: HTMLElement, modifier: string, label?: string): HTMLSelectElement {
+      const selects = [...view.querySelectorAll<HTMLSelectElement>(`.${CONFIG_VIEW_CLASS}__${modifier}`)];
+      const match = label ? selects.find((candidate) => candidate.parentElement?.textContent?.startsWith(label)) : selects[0];
+      return match!;
+    }
+
+    it('adds a rule from the form and saves it with the mapping', async () => {
+      const onSave = vi.fn().mockResolvedValue(undefined);
+      const view = openView(onSave);
+
+      input(view, 'rule-text').value = 'Due in {days}d';
+      input(view, 'rule-end-min').value = '0';
+      input(view, 'rule-end-max').value = '2';
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__rule-add`)!.click();
+
+      expect(view.querySelectorAll(`.${CONFIG_VIEW_CLASS}__rule`)).toHaveLength(1);
+      expect(input(view, 'rule-text').value).toBe('');
+
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__save`)!.click();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(onSave).toHaveBeenCalledWith({
+        startFieldId: '1',
+        endFieldId: '2',
+        inProgressStatusIds: [],
+        doneStatusIds: [],
+        scheduleAlerts: DEFAULT_SCHEDULE_ALERTS,
+        alertRules: [dueSoon],
+      });
+    });
+
+    it('rejects a rule without text or day bounds', () => {
+      const view = openView();
+      const add = view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__rule-add`)!;
+      const error = view.querySelector(`.${CONFIG_VIEW_CLASS}__error`)!;
+
+      add.click();
+      expect(error.textContent).toBe('Enter the alert text.');
+
+      input(view, 'rule-text').value = 'Soon';
+      add.click();
+      expect(error.textContent).toBe('End: enter at least one of From / To days.');
+
+      input(view, 'rule-end-min').value = '3';
+      input(view, 'rule-end-max').value = '1';
+      add.click();
+      expect(error.textContent).toContain('"From" must not be after "To"');
+      expect(view.querySelectorAll(`.${CONFIG_VIEW_CLASS}__rule`)).toHaveLength(0);
+    });
+
+    it('lists saved rules and drops removed ones on save', async () => {
+      const onSave = vi.fn().mockResolvedValue(undefined);
+      const view = openView(onSave, [dueSoon]);
+
+      const rule = view.querySelector(`.${CONFIG_VIEW_CLASS}__rule`)!;
+      expect(rule.textContent).toContain('"Due in {days}d"');
+      rule.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__rule-remove`)!.click();
+
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__save`)!.click();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(onSave.mock.calls[0]![0]).not.toHaveProperty('alertRules');
+    });
+
+    it('builds a rule on both dates with presence, the Age level and unclassified statuses', async () => {
+      const onSave = vi.fn().mockResolvedValue(undefined);
+      const view = openView(onSave);
+
+      input(view, 'rule-text').value = 'No due date for {days}d';
+      select(view, 'rule-select', 'Show on').value = 'start';
+      select(view, 'rule-start-condition').value = 'range';
+      input(view, 'rule-start-max').value = '-7';
+      select(view, 'rule-end-condition').value = 'missing';
+      for (const box of view.querySelectorAll<HTMLInputElement>(`.${CONFIG_VIEW_CLASS}__rule-status`)) {
+        box.checked = box.value === 'unknown';
+      }
+      select(view, 'rule-select', 'Level').value = 'age';
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__rule-add`)!.click();
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__save`)!.click();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(onSave.mock.calls[0]![0].alertRules).toEqual([{
+        id: 'custom-1',
+        cell: 'start',
+        statuses: ['unknown'],
+        start: { maxOffset: -7 },
+        end: { presence: 'missing' },
+        text: 'No due date for {days}d',
+        level: 'age',
+        priority: 30,
+      }]);
+    });
+
+    it('saves "is set" as a presence condition', () => {
+      const view = openView();
+
+      input(view, 'rule-text').value = 'Has a due date';
+      select(view, 'rule-end-condition').value = 'present';
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__rule-add`)!.click();
+
+      expect(view.querySelector(`.${CONFIG_VIEW_CLASS}__rule`)?.textContent).toContain('End is set');
+    });
+
+    it('edits a saved rule in place', async () => {
+      const onSave = vi.fn().mockResolvedValue(undefined);
+      const view = openView(onSave, [dueSoon, { ...dueSoon, id: 'custom-2', text: 'Other' }]);
+      const add = view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__rule-add`)!;
+
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__rule-edit`)!.click();
+      expect(input(view, 'rule-text').value).toBe('Due in {days}d');
+      expect(input(view, 'rule-end-max').value).toBe('2');
+      expect(add.textContent).toBe('Update alert');
+
+      input(view, 'rule-end-max').value = '5';
+      select(view, 'rule-select', 'Level').value = 'warning';
+      add.click();
+
+      expect(add.textContent).toBe('Add alert');
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__save`)!.click();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(onSave.mock.calls[0]![0].alertRules).toEqual([
+        { ...dueSoon, end: { minOffset: 0, maxOffset: 5 }, level: 'warning' },
+        { ...dueSoon, id: 'custom-2', text: 'Other' },
+      ]);
+    });
+
+    it('describes rules and picks the next free id', () => {
+      expect(describeRule(dueSoon))
+        .toBe('"Due in {days}d" on End · End 0…2d from today · Todo, In Progress · caution, priority 30');
+      expect(describeRule({ ...dueSoon, cell: 'start', start: { presence: 'missing' }, end: { presence: 'present' } }))
+        .toContain('on Start · Start is empty, End is set');
+      expect(describeRule({ ...dueSoon, end: undefined, statuses: ['unknown'], level: 'age' }))
+        .toBe('"Due in {days}d" on End · any dates · Unclassified · by Age thresholds, priority 30');
+      expect(nextRuleId([dueSoon, { ...dueSoon, id: 'custom-4' }])).toBe('custom-5');
+      expect(nextRuleId([])).toBe('custom-1');
+    });
+  });
+
+  describe('schedule alerts', () => {
+    function openView(onSave = vi.fn().mockResolvedValue(undefined)) {
+      const view = createConfigView({
+        dateFields: fields,
+        currentMapping: {
+          startFieldId: '1',
+          endFieldId: '2',
+          scheduleAlerts: { dueToday: true, dueSoon: false, dueSoonDays: 5, futureStart: true },
+        },
+        guessedMapping: { startFieldId: '1', endFieldId: '2' },
+        statusOptions,
+        onSave,
+      });
+      document.body.appendChild(view);
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__button`)!.click();
+      return view;
+    }
+
+    function toggle(view: HTMLElement, alert: string): HTMLInputElement {
+      return view.querySelector<HTMLInputElement>(`.${CONFIG_VIEW_CLASS}__schedule-toggle[data-alert="${alert}"]`)!;
+    }
+
+    it('shows the saved toggles and horizon', () => {
+      const view = openView();
+      const days = view.querySelector<HTMLInputElement>(`.${CONFIG_VIEW_CLASS}__schedule-days`)!;
+
+      expect(toggle(view, 'dueToday').checked).toBe(true);
+      expect(toggle(view, 'dueSoon').checked).toBe(false);
+      expect(toggle(view, 'futureStart').checked).toBe(true);
+      expect(days.value).toBe('5');
+      expect(days.disabled).toBe(true);
+    });
+
+    it('saves edited toggles and horizon with the mapping', async () => {
+      const onSave = vi.fn().mockResolvedValue(undefined);
+      const view = openView(onSave);
+
+      toggle(view, 'dueSoon').checked = true;
+      toggle(view, 'futureStart').checked = false;
+      view.querySelector<HTMLInputElement>(`.${CONFIG_VIEW_CLASS}__schedule-days`)!.value = '7';
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__save`)!.click();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(onSave.mock.calls[0]![0].scheduleAlerts).toEqual({
+        dueToday: true,
+        dueSoon: true,
+        dueSoonDays: 7,
+        futureStart: false,
+      });
+    });
+
+    it('rejects an out-of-range horizon while Due soon is on', () => {
+      const onSave = vi.fn();
+      const view = openView(onSave);
+
+      toggle(view, 'dueSoon').checked = true;
+      view.querySelector<HTMLInputElement>(`.${CONFIG_VIEW_CLASS}__schedule-days`)!.value = '0';
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__save`)!.click();
+
+      expect(onSave).not.toHaveBeenCalled();
+      expect(view.querySelector(`.${CONFIG_VIEW_CLASS}__error`)?.textContent).toContain('Due soon days');
+    });
+  });
+
+  describe('alert toggles and Age thresholds', () => {
+    function openView(onSave = vi.fn().mockResolvedValue(undefined), currentMapping: DateFieldMapping | null = null) {
+      const view = createConfigView({
+        dateFields: fields,
+        currentMapping: currentMapping ?? { startFieldId: '1', endFieldId: '2' },
+        guessedMapping: { startFieldId: '1', endFieldId: '2' },
+        statusOptions,
+        defaultAgeThresholds: { caution: 4, warning: 9 },
+        onSave,
+      });
+      document.body.appendChild(view);
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__button`)!.click();
+      return view;
+    }
+
+    function toggle(view: HTMLElement, alert: string): HTMLInputElement {
+      return view.querySelector<HTMLInputElement>(`.${CONFIG_VIEW_CLASS}__alert-toggle[data-alert="${alert}"]`)!;
+    }
+
+    function threshold(view: HTMLElement, which: 'caution' | 'warning'): HTMLInputElement {
+      return view.querySelector<HTMLInputElement>(`.${CONFIG_VIEW_CLASS}__age-${which}`)!;
+    }
+
+    async function save(view: HTMLElement): Promise<void> {
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__save`)!.click();
+      await Promise.resolve();
+      await Promise.resolve();
+    }
+
+    it('shows every alert on and the default thresholds as placeholders', () => {
+      const view = openView();
+
+      expect(['missingStart', 'age', 'overdue', 'missingEnd'].every((id) => toggle(view, id).checked)).toBe(true);
+      expect(threshold(view, 'caution').value).toBe('');
+      expect(threshold(view, 'caution').placeholder).toBe('4');
+      expect(threshold(view, 'warning').placeholder).toBe('9');
+    });
+
+    it('shows saved settings and disables thresholds while Age is off', () => {
+      const view = openView(undefined, {
+        startFieldId: '1',
+        endFieldId: '2',
+        disabledAlerts: ['age'],
+        ageThresholds: { caution: 10, warning: 20 },
+      });
+
+      expect(toggle(view, 'age').checked).toBe(false);
+      expect(threshold(view, 'caution').value).toBe('10');
+      expect(threshold(view, 'caution').disabled).toBe(true);
+    });
+
+    it('saves turned-off alerts and the thresholds with the mapping', async () => {
+      const onSave = vi.fn().mockResolvedValue(undefined);
+      const view = openView(onSave);
+
+      toggle(view, 'missingEnd').checked = false;
+      threshold(view, 'caution').value = '15';
+      threshold(view, 'warning').value = '30';
+      await save(view);
+
+      expect(onSave.mock.calls[0]![0]).toMatchObject({
+        disabledAlerts: ['missingEnd'],
+        ageThresholds: { caution: 15, warning: 30 },
+      });
+    });
+
+    it('keeps the default for a blank side and omits untouched settings', async () => {
+      const onSave = vi.fn().mockResolvedValue(undefined);
+      const view = openView(onSave);
+
+      await save(view);
+      expect(onSave.mock.calls[0]![0]).not.toHaveProperty('ageThresholds');
+      expect(onSave.mock.calls[0]![0]).not.toHaveProperty('disabledAlerts');
+
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__button`)!.click();
+      threshold(view, 'warning').value = '30';
+      await save(view);
+      expect(onSave.mock.calls[1]![0].ageThresholds).toEqual({ caution: 4, warning: 30 });
+    });
+
+    it('rejects thresholds where caution is not below warning', () => {
+      const onSave = vi.fn();
+      const view = openView(onSave);
+
+      threshold(view, 'caution').value = '12';
+      threshold(view, 'warning').value = '12';
+      view.querySelector<HTMLButtonElement>(`.${CONFIG_VIEW_CLASS}__save`)!.click();
+
+      expect(onSave).not.toHaveBeenCalled();
+      expect(view.querySelector(`.${CONFIG_VIEW_CLASS}__error`)?.textContent).toContain('caution below warning');
+    });
+  });
 });
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { createCumulativeFlowView, CUMULATIVE_FLOW_VIEW_CLASS } from '../cumulative-flow-view';
+import type { CumulativeFlow } from '../cumulative-flow';
+
+const flow: CumulativeFlow = {
+  dates: ['2026-07-01', '2026-07-02', '2026-07-03'],
+  counts: {
+    done: [0, 1, 2],
+    inProgress: [1, 1, 0],
+    todo: [2, 1, 1],
+    unknown: [0, 0, 0],
+  },
+};
+
+describe('createCumulativeFlowView', () => {
+  it('starts collapsed and toggles the panel', () => {
+    const view = createCumulativeFlowView(flow);
+    const panel = view.querySelector<HTMLElement>(`.${CUMULATIVE_FLOW_VIEW_CLASS}__panel`)!;
+    const button = view.querySelector<HTMLButtonElement>(`.${CUMULATIVE_FLOW_VIEW_CLASS}__button`)!;
+
+    expect(panel.hidden).toBe(true);
+    button.click();
+    expect(panel.hidden).toBe(false);
+    expect(button.textContent).toBe('Hide');
+  });
+
+  it('starts expanded when rebuilt from an open panel', () => {
+    const view = createCumulativeFlowView(flow, true);
+
+    expect(view.querySelector<HTMLElement>(`.${CUMULATIVE_FLOW_VIEW_CLASS}__panel`)!.hidden).toBe(false);
+    expect(view.querySelector(`.${CUMULATIVE_FLOW_VIEW_CLASS}__button`)!.textContent).toBe('Hide');
+  });
+
+  it('draws one stacked area per category that has items', () => {
+    const view = createCumulativeFlowView(flow);
+    const areas = Array.from(view.querySelectorAll(`.${CUMULATIVE_FLOW_VIEW_CLASS}__area`));
+
+    expect(areas.map((area) => area.getAttribute('data-category'))).toEqual(['done', 'inProgress', 'todo']);
+  });
+
+  it('lists today’s count per category in the legend', () => {
+    const view = createCumulativeFlowView(flow);
+    const legend = view.querySelector(`.${CUMULATIVE_FLOW_VIEW_CLASS}__legend`)!;
+
+    expect(legend.textContent).toContain('Todo 1');
+    expect(legend.textContent).toContain('In Progress 0');
+    expect(legend.textContent).toContain('Done 2');
+    expect(legend.textContent).not.toContain('Other');
+  });
+
+  it('shows a message instead of a chart with a single day', () => {
+    const view = createCumulativeFlowView({
+      dates: ['2026-07-03'],
+      counts: { done: [0], inProgress: [0], todo: [0], unknown: [0] },
+    });
+
+    expect(view.querySelector('svg')).toBeNull();
+    expect(view.querySelector(`.${CUMULATIVE_FLOW_VIEW_CLASS}__empty`)).not.toBeNull();
+  });
+});
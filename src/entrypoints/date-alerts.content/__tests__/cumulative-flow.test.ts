@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { buildCumulativeFlow, getTransitions, toFlowItems } from '../cumulative-flow';
+import type { FlowItem } from '../cumulative-flow';
+import type { ItemFieldData, ItemLifecycleDates, StatusCategory } from '../types';
+
+function flowItem(
+  category: StatusCategory,
+  lifecycle: Partial<ItemLifecycleDates>,
+  startDate: string | null = null,
+): FlowItem {
+  return {
+    category,
+    lifecycle: { createdDate: null, updatedDate: null, closedDate: null, ...lifecycle },
+    startDate,
+  };
+}
+
+describe('getTransitions', () => {
+  it('moves a done item through in progress when it has a Start date', () => {
+    const item = flowItem('done', { createdDate: '2026-07-01', closedDate: '2026-07-10' }, '2026-07-05');
+    expect(getTransitions(item)).toEqual([
+      { date: '2026-07-01', category: 'todo' },
+      { date: '2026-07-05', category: 'inProgress' },
+      { date: '2026-07-10', category: 'done' },
+    ]);
+  });
+
+  it('falls back to the Updated date for items in progress without a Start date', () => {
+    const item = flowItem('inProgress', { createdDate: '2026-07-01', updatedDate: '2026-07-04' });
+    expect(getTransitions(item)).toEqual([
+      { date: '2026-07-01', category: 'todo' },
+      { date: '2026-07-04', category: 'inProgress' },
+    ]);
+  });
+
+  it('never moves an item backwards when dates are inconsistent', () => {
+    const item = flowItem('done', { createdDate: '2026-07-10', closedDate: '2026-07-05' });
+    expect(getTransitions(item).map((t) => t.date)).toEqual(['2026-07-10', '2026-07-10']);
+  });
+
+  it('keeps unrecognized statuses in their own category', () => {
+    expect(getTransitions(flowItem('unknown', { createdDate: '2026-07-01' }))).toEqual([
+      { date: '2026-07-01', category: 'unknown' },
+    ]);
+  });
+
+  it('skips items with no dates at all', () => {
+    expect(getTransitions(flowItem('todo', {}))).toEqual([]);
+  });
+});
+
+describe('buildCumulativeFlow', () => {
+  it('counts items per category for each day through today', () => {
+    const items = [
+      flowItem('done', { createdDate: '2026-07-01', closedDate: '2026-07-03' }),
+      flowItem('inProgress', { createdDate: '2026-07-02' }, '2026-07-03'),
+      flowItem('todo', { createdDate: '2026-07-04' }),
+    ];
+
+    const flow = buildCumulativeFlow(items, '2026-07-04');
+
+    expect(flow.dates).toEqual(['2026-07-01', '2026-07-02', '2026-07-03', '2026-07-04']);
+    expect(flow.counts.todo).toEqual([1, 2, 0, 1]);
+    expect(flow.counts.inProgress).toEqual([0, 0, 1, 1]);
+    expect(flow.counts.done).toEqual([0, 0, 1, 1]);
+    expect(flow.counts.unknown).toEqual([0, 0, 0, 0]);
+  });
+
+  it('limits the range to the most recent days', () => {
+    const flow = buildCumulativeFlow([flowItem('todo', { createdDate: '2026-01-01' })], '2026-07-04', 3);
+
+    expect(flow.dates).toEqual(['2026-07-01', '2026-07-02', '2026-07-03', '2026-07-04']);
+    expect(flow.counts.todo).toEqual([1, 1, 1, 1]);
+  });
+
+  it('returns only today without dated items', () => {
+    expect(buildCumulativeFlow([], '2026-07-04').dates).toEqual(['2026-07-04']);
+  });
+});
+
+describe('toFlowItems', () => {
+  it('pairs item values with lifecycle dates and resolves the category', () => {
+    const items = new Map<number, ItemFieldData>([
+      [1, { contentId: 1, startDate: '2026-07-02', endDate: null, statusId: 's1', statusName: 'Doing' }],
+      [2, { contentId: 2, startDate: null, endDate: null, statusId: null, statusName: null }],
+    ]);
+    const lifecycles = new Map<number, ItemLifecycleDates>([
+      [1, { createdDate: '2026-07-01', updatedDate: null, closedDate: null }],
+    ]);
+
+    const result = toFlowItems(items, lifecycles, () => 'inProgress');
+
+    expect(result).toEqual([
+      {
+        category: 'inProgress',
+        lifecycle: { createdDate: '2026-07-01', updatedDate: null, closedDate: null },
+        startDate: '2026-07-02',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { createCycleTimeView, CYCLE_TIME_VIEW_CLASS } from '../cycle-time-view';
+import type { CycleTimeReport } from '../cycle-time';
+
+const report: CycleTimeReport = {
+  samples: [
+    { contentId: 1, startDate: '2026-07-01', endDate: '2026-07-02', days: 1, leadDays: null },
+    { contentId: 2, startDate: '2026-07-01', endDate: '2026-07-05', days: 4, leadDays: 6 },
+  ],
+  percentiles: { p50: 1, p85: 4, p95: 4 },
+  leadPercentiles: { p50: 6, p85: 6, p95: 6 },
+  histogram: [
+    { from: 0, to: 0, count: 0 },
+    { from: 1, to: 1, count: 1 },
+    { from: 2, to: 2, count: 0 },
+    { from: 3, to: 3, count: 0 },
+    { from: 4, to: 4, count: 1 },
+  ],
+  skipped: 1,
+};
+
+describe('createCycleTimeView', () => {
+  it('summarizes the percentiles in the bar', () => {
+    const view = createCycleTimeView(report);
+    const summary = view.querySelector(`.${CYCLE_TIME_VIEW_CLASS}__summary`)!;
+
+    expect(summary.textContent).toBe('Cycle time (2 completed items): 50% ≤ 1d · 85% ≤ 4d · 95% ≤ 4d');
+  });
+
+  it('draws one dot per item and one line per percentile', () => {
+    const view = createCycleTimeView(report);
+
+    expect(view.querySelectorAll(`.${CYCLE_TIME_VIEW_CLASS}__dot`)).toHaveLength(2);
+    expect(view.querySelectorAll(`.${CYCLE_TIME_VIEW_CLASS}__percentile`)).toHaveLength(3);
+    expect(view.querySelector(`.${CYCLE_TIME_VIEW_CLASS}__percentile--p85`)).not.toBeNull();
+  });
+
+  it('draws one histogram bar per bin', () => {
+    const view = createCycleTimeView(report);
+    const bars = Array.from(view.querySelectorAll(`.${CYCLE_TIME_VIEW_CLASS}__bar-rect`));
+
+    expect(bars.map((bar) => bar.getAttribute('data-count'))).toEqual(['0', '1', '0', '0', '1']);
+  });
+
+  it('mentions lead time and skipped items in the hint', () => {
+    const view = createCycleTimeView(report);
+    const hint = view.querySelector(`.${CYCLE_TIME_VIEW_CLASS}__hint`)!;
+
+    expect(hint.textContent).toContain('Lead time (End minus Created): 50% ≤ 6d');
+    expect(hint.textContent).toContain('1 Done item was skipped');
+  });
+
+  it('starts expanded when rebuilt from an open panel', () => {
+    const view = createCycleTimeView(report, true);
+
+    expect(view.querySelector<HTMLElement>(`.${CYCLE_TIME_VIEW_CLASS}__panel`)!.hidden).toBe(false);
+    expect(view.querySelector(`.${CYCLE_TIME_VIEW_CLASS}__button`)!.textContent).toBe('Hide');
+  });
+
+  it('disables the toggle without completed items', () => {
+    const view = createCycleTimeView({
+      samples: [],
+      percentiles: null,
+      leadPercentiles: null,
+      histogram: [],
+      skipped: 0,
+    });
+    const button = view.querySelector<HTMLButtonElement>(`.${CYCLE_TIME_VIEW_CLASS}__button`)!;
+
+    expect(button.disabled).toBe(true);
+    expect(view.querySelector('svg')).toBeNull();
+  });
+});
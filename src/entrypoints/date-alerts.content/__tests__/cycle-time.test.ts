@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { buildCycleTimeReport, buildHistogram, percentile } from '../cycle-time';
+import type { ItemFieldData, ItemLifecycleDates, StatusCategory } from '../types';
+
+function item(contentId: number, startDate: string | null, endDate: string | null, statusName = 'Done'): ItemFieldData {
+  return { contentId, startDate, endDate, statusId: null, statusName };
+}
+
+const byName = (value: ItemFieldData): StatusCategory => (value.statusName === 'Done' ? 'done' : 'inProgress');
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    expect(percentile(sorted, 50)).toBe(5);
+    expect(percentile(sorted, 85)).toBe(9);
+    expect(percentile(sorted, 95)).toBe(10);
+  });
+
+  it('returns the only value for a single sample', () => {
+    expect(percentile([4], 50)).toBe(4);
+    expect(percentile([4], 95)).toBe(4);
+  });
+
+  it('returns null without samples', () => {
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe('buildHistogram', () => {
+  it('uses one bin per day for short cycle times', () => {
+    expect(buildHistogram([0, 2, 2])).toEqual([
+      { from: 0, to: 0, count: 1 },
+      { from: 1, to: 1, count: 0 },
+      { from: 2, to: 2, count: 2 },
+    ]);
+  });
+
+  it('widens bins to keep at most ten', () => {
+    const bins = buildHistogram([0, 5, 25]);
+    expect(bins).toHaveLength(9);
+    expect(bins[0]).toEqual({ from: 0, to: 2, count: 1 });
+    expect(bins[1]).toEqual({ from: 3, to: 5, count: 1 });
+    expect(bins[8]).toEqual({ from: 24, to: 26, count: 1 });
+  });
+
+  it('returns no bins without samples', () => {
+    expect(buildHistogram([])).toEqual([]);
+  });
+});
+
+describe('buildCycleTimeReport', () => {
+  it('measures only done items, ordered by End date', () => {
+    const report = buildCycleTimeReport(
+      [
+        item(1, '2026-07-01', '2026-07-10'),
+        item(2, '2026-07-03', '2026-07-04'),
+        item(3, '2026-07-01', '2026-07-20', 'Doing'),
+      ],
+      byName,
+    );
+
+    expect(report.samples.map((sample) => [sample.contentId, sample.days])).toEqual([
+      [2, 1],
+      [1, 9],
+    ]);
+    expect(report.percentiles).toEqual({ p50: 1, p85: 9, p95: 9 });
+    expect(report.skipped).toBe(0);
+  });
+
+  it('counts done items with a missing or inverted date pair as skipped', () => {
+    const report = buildCycleTimeReport(
+      [item(1, null, '2026-07-10'), item(2, '2026-07-10', '2026-07-01'), item(3, '2026-07-05', '2026-07-05')],
+      byName,
+    );
+
+    expect(report.samples.map((sample) => sample.days)).toEqual([0]);
+    expect(report.skipped).toBe(2);
+  });
+
+  it('adds lead time from the Created date when available', () => {
+    const lifecycles = new Map<number, ItemLifecycleDates>([
+      [1, { createdDate: '2026-06-25', updatedDate: null, closedDate: null }],
+    ]);
+
+    const report = buildCycleTimeReport(
+      [item(1, '2026-07-01', '2026-07-10'), item(2, '2026-07-01', '2026-07-02')],
+      byName,
+      lifecycles,
+    );
+
+    expect(report.samples.map((sample) => sample.leadDays)).toEqual([null, 15]);
+    expect(report.leadPercentiles).toEqual({ p50: 15, p85: 15, p95: 15 });
+  });
+
+  it('returns empty statistics without completed items', () => {
+    const report = buildCycleTimeReport([item(1, '2026-07-01', null, 'Doing')], byName);
+
+    expect(report.samples).toEqual([]);
+    expect(report.percentiles).toBeNull();
+    expect(report.leadPercentiles).toBeNull();
+    expect(report.histogram).toEqual([]);
+  });
+});
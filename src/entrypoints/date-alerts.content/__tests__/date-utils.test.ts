@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { toDateOnly, diffInDays, todayDateOnly } from '../date-utils';
+import { toDateOnly, diffInDays, addDays, todayDateOnly } from '../date-utils';
 
 describe('toDateOnly', () => {
   it('extracts the date part from an ISO datetime with offset', () => {
@@ -48,6 +48,18 @@ describe('diffInDays', () => {
   });
 });
 
+describe('addDays', () => {
+  it('shifts forward and backward across month boundaries', () => {
+    expect(addDays('2026-07-31', 1)).toBe('2026-08-01');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+
+  it('returns null for invalid input', () => {
+    expect(addDays(null, 1)).toBeNull();
+    expect(addDays('bad', 1)).toBeNull();
+  });
+});
+
 describe('todayDateOnly', () => {
   it('formats the given local date as YYYY-MM-DD', () => {
     expect(todayDateOnly(new Date(2026, 6, 8))).toBe('2026-07-08');
@@ -2,10 +2,12 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import {
   getMapping,
   setMapping,
+  removeMapping,
   isValidMapping,
   isMappingChange,
   DATE_FIELD_MAPPING_STORAGE_KEY,
 } from '../field-config';
+import type { AlertRule } from '../types';
 
 // Minimal in-memory mock of chrome.storage.local, matching the real async
 // get(key)/set(obj) contract closely enough to exercise the read-modify-write
@@ -87,6 +89,55 @@ describe('field-config storage round-trip', () => {
     expect(saved?.inProgressStatusIds).toEqual([]);
     expect(saved?.doneStatusIds).toEqual([]);
   });
+
+  it('saves custom alert rules with the mapping, and drops an empty list', async () => {
+    const rule: AlertRule = {
+      id: 'custom-1',
+      cell: 'end',
+      statuses: ['todo'],
+      end: { minOffset: 0, maxOffset: 2 },
+      text: 'Due in {days}d',
+      level: 'caution',
+      priority: 30,
+    };
+    await setMapping('users:wozaki:4', { startFieldId: '1', endFieldId: '2', alertRules: [rule] });
+    expect((await getMapping('users:wozaki:4'))?.alertRules).toEqual([rule]);
+
+    await setMapping('users:wozaki:4', { startFieldId: '1', endFieldId: '2', alertRules: [] });
+    expect(await getMapping('users:wozaki:4')).not.toHaveProperty('alertRules');
+  });
+
+  it('saves schedule alert toggles with the mapping', async () => {
+    const scheduleAlerts = { dueToday: true, dueSoon: false, dueSoonDays: 5, futureStart: true };
+    await setMapping('users:wozaki:4', { startFieldId: '1', endFieldId: '2', scheduleAlerts });
+    expect((await getMapping('users:wozaki:4'))?.scheduleAlerts).toEqual(scheduleAlerts);
+  });
+
+  it('saves disabled alerts and Age thresholds with the mapping', async () => {
+    await setMapping('users:wozaki:4', {
+      startFieldId: '1',
+      endFieldId: '2',
+      disabledAlerts: ['missingEnd'],
+      ageThresholds: { caution: 15, warning: 30 },
+    });
+    const saved = await getMapping('users:wozaki:4');
+    expect(saved?.disabledAlerts).toEqual(['missingEnd']);
+    expect(saved?.ageThresholds).toEqual({ caution: 15, warning: 30 });
+  });
+
+  it('removes one project mapping and keeps the others', async () => {
+    await setMapping('users:wozaki:4', { startFieldId: '1', endFieldId: '2' });
+    await setMapping('orgs:acme:9', { startFieldId: '3', endFieldId: '4' });
+
+    await removeMapping('users:wozaki:4');
+
+    expect(await getMapping('users:wozaki:4')).toBeNull();
+    expect((await getMapping('orgs:acme:9'))?.startFieldId).toBe('3');
+  });
+
+  it('ignores removing a project that has no mapping', async () => {
+    await expect(removeMapping('users:nobody:1')).resolves.toBeUndefined();
+  });
 });
 
 describe('isValidMapping', () => {
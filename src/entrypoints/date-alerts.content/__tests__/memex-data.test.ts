@@ -6,6 +6,7 @@ import {
   getStatusOptions,
   getStatusOptionList,
   extractItems,
+  extractLifecycleDates,
   readMemexData,
 } from '../memex-data';
 
@@ -181,6 +182,31 @@ describe('parseNodes / extractItems', () => {
   });
 });
 
+describe('extractLifecycleDates', () => {
+  it('reads Created/Updated/Closed by dataType, leaving unset fields null', () => {
+    const nodes = parseNodes(
+      JSON.stringify({
+        nodes: [
+          {
+            contentId: 1,
+            memexProjectColumnValues: [
+              { memexProjectColumnId: 'Created', value: { value: '2026-02-11T04:13:33Z' } },
+              { memexProjectColumnId: 'Updated', value: { value: '2026-03-01T10:00:00Z' } },
+              { memexProjectColumnId: 'Closed', value: null },
+            ],
+          },
+        ],
+      }),
+    );
+
+    expect(extractLifecycleDates(nodes, parseColumns(COLUMNS)).get(1)).toEqual({
+      createdDate: '2026-02-11',
+      updatedDate: '2026-03-01',
+      closedDate: null,
+    });
+  });
+});
+
 describe('readMemexData', () => {
   function docWith(columns: string | null, items: string | null): Document {
     const doc = document.implementation.createHTMLDocument('test');
@@ -7,6 +7,7 @@ import {
   getColumnIndex,
   getDataRows,
   getRowContentId,
+  findRowByContentId,
   getCellAt,
   filterFieldsVisibleAsColumns,
 } from '../table-scraper';
@@ -165,6 +166,22 @@ describe('getDataRows / getRowContentId', () => {
   });
 });
 
+describe('findRowByContentId', () => {
+  it('finds the rendered row for a content id', () => {
+    const grid = buildGrid([
+      { contentId: 111, values: ['A', 'Done', '', '', '', ''] },
+      { contentId: 222, values: ['B', 'Todo', '', '', '', ''] },
+    ]);
+
+    expect(findRowByContentId(grid, 222)).toBe(getDataRows(grid)[1]);
+  });
+
+  it('returns null when the row is not rendered', () => {
+    const grid = buildGrid([{ contentId: 111, values: ['A', 'Done', '', '', '', ''] }]);
+    expect(findRowByContentId(grid, 999)).toBeNull();
+  });
+});
+
 describe('getCellAt', () => {
   it('maps column index to the correct cell, aligned with getColumnIndex', () => {
     const grid = buildGrid([{ contentId: 1, values: ['Title!', 'In Progress', 'Iter 1', 'M1', 'S-DATE', 'E-DATE'] }]);
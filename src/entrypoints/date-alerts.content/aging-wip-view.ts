@@ -0,0 +1,216 @@
+// Date Field Alerts - Aging WIP View
+// Responsibility: a collapsible panel above the list view plotting every
+// in-progress item as a dot in its Status column by age, over background bands
+// from historical cycle time percentiles. Vanilla DOM, namespaced classes.
+
+import type { AgingBand, AgingItem, AgingWip } from './aging-wip';
+
+export const AGING_WIP_VIEW_CLASS = 'iplus-aging';
+/** Briefly set on a grid row after jumping to it from a dot. */
+export const AGING_ROW_HIGHLIGHT_CLASS = 'iplus-aging-highlight';
+
+export interface AgingWipViewOptions {
+  aging: AgingWip;
+  /** Scroll the grid to the item's row; false when the row isn't rendered. */
+  onSelect: (contentId: number) => boolean;
+  /** Open the panel right away unless there is nothing to show. */
+  expanded?: boolean;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 8, right: 48, bottom: 22, left: 36 };
+const DOT_RADIUS = 4;
+const DOT_SPACING = 10;
+
+const BAND_LABELS: Record<AgingBand, string> = {
+  within50: 'within 50%',
+  over50: 'older than 50%',
+  over85: 'older than 85%',
+  over95: 'older than 95%',
+};
+
+/** Build the aging WIP panel. Caller mounts it above the grid. */
+export function createAgingWipView(options: AgingWipViewOptions): HTMLElement {
+  const { aging, onSelect, expanded = false } = options;
+  const total = aging.columns.reduce((sum, column) => sum + column.items.length, 0);
+
+  const container = document.createElement('div');
+  container.className = AGING_WIP_VIEW_CLASS;
+
+  // --- Summary bar ---
+  const bar = document.createElement('div');
+  bar.className = `${AGING_WIP_VIEW_CLASS}__bar`;
+
+  const summary = document.createElement('span');
+  summary.className = `${AGING_WIP_VIEW_CLASS}__summary`;
+  summary.textContent = summaryText(aging, total);
+
+  const toggleButton = document.createElement('button');
+  toggleButton.type = 'button';
+  toggleButton.className = `${AGING_WIP_VIEW_CLASS}__button`;
+  toggleButton.disabled = total === 0;
+  const open = expanded && !toggleButton.disabled;
+  toggleButton.textContent = open ? 'Hide' : 'Show';
+
+  bar.append(summary, toggleButton);
+
+  // --- Panel ---
+  const panel = document.createElement('div');
+  panel.className = `${AGING_WIP_VIEW_CLASS}__panel`;
+  panel.hidden = !open;
+
+  const status = document.createElement('div');
+  status.className = `${AGING_WIP_VIEW_CLASS}__status`;
+  status.setAttribute('role', 'status');
+
+  const select = (item: AgingItem): void => {
+    status.textContent = onSelect(item.contentId)
+      ? ''
+      : 'That item’s row isn’t loaded in the list yet — scroll the list and try again.';
+  };
+
+  if (total > 0) panel.appendChild(buildChart(aging, select));
+
+  const hint = document.createElement('div');
+  hint.className = `${AGING_WIP_VIEW_CLASS}__hint`;
+  hint.textContent = hintText(aging);
+
+  panel.append(status, hint);
+  container.append(bar, panel);
+
+  toggleButton.addEventListener('click', () => {
+    panel.hidden = !panel.hidden;
+    toggleButton.textContent = panel.hidden ? 'Show' : 'Hide';
+  });
+
+  return container;
+}
+
+function summaryText(aging: AgingWip, total: number): string {
+  const items = `${total} item${total === 1 ? '' : 's'} in progress`;
+  if (!aging.bands || total === 0) return `Aging WIP: ${items}`;
+  const late = aging.columns
+    .flatMap((column) => column.items)
+    .filter((item) => item.band === 'over85' || item.band === 'over95').length;
+  return `Aging WIP: ${items}, ${late} older than 85% of finished items`;
+}
+
+function hintText(aging: AgingWip): string {
+  const parts = ['Age is today minus Start. Click a dot to scroll to its row.'];
+  if (aging.bands) {
+    const { p50, p85, p95 } = aging.bands;
+    parts.push(`Bands show cycle time of completed items: 50% ≤ ${p50}d · 85% ≤ ${p85}d · 95% ≤ ${p95}d.`);
+  } else {
+    parts.push('No completed items with Start and End dates yet, so there are no cycle time bands.');
+  }
+  if (aging.skipped > 0) {
+    const items = aging.skipped === 1 ? '1 item in progress was' : `${aging.skipped} items in progress were`;
+    parts.push(`${items} skipped for a missing or future Start date.`);
+  }
+  return parts.join(' ');
+}
+
+/** One column per Status, dots by age, percentile bands behind them. */
+function buildChart(aging: AgingWip, onSelect: (item: AgingItem) => void): SVGSVGElement {
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('class', `${AGING_WIP_VIEW_CLASS}__chart`);
+  svg.setAttribute('viewBox', `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`);
+  svg.setAttribute('role', 'img');
+  svg.setAttribute('aria-label', 'Aging work in progress');
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const oldest = Math.max(0, ...aging.columns.flatMap((column) => column.items.map((item) => item.age)));
+  // Leave headroom above the 95% band so it stays visible when nothing is that old
+  const maxAge = Math.max(1, oldest, aging.bands ? Math.ceil(aging.bands.p95 * 1.2) : 0);
+  const columnWidth = plotWidth / aging.columns.length;
+
+  const toY = (age: number): number => PADDING.top + plotHeight - (Math.min(age, maxAge) / maxAge) * plotHeight;
+
+  if (aging.bands) {
+    const { p50, p85, p95 } = aging.bands;
+    const ranges: Array<[AgingBand, number, number]> = [
+      ['within50', 0, p50],
+      ['over50', p50, p85],
+      ['over85', p85, p95],
+      ['over95', p95, maxAge],
+    ];
+    for (const [band, from, to] of ranges) {
+      if (to <= from) continue;
+      const rect = document.createElementNS(SVG_NS, 'rect');
+      rect.setAttribute('x', String(PADDING.left));
+      rect.setAttribute('y', String(toY(to)));
+      rect.setAttribute('width', String(plotWidth));
+      rect.setAttribute('height', String(toY(from) - toY(to)));
+      rect.setAttribute('class', `${AGING_WIP_VIEW_CLASS}__band ${AGING_WIP_VIEW_CLASS}__band--${band}`);
+      rect.setAttribute('data-band', band);
+      svg.appendChild(rect);
+    }
+    svg.append(
+      createText(`50%: ${p50}d`, PADDING.left + plotWidth + 4, toY(p50) + 3, 'start'),
+      createText(`85%: ${p85}d`, PADDING.left + plotWidth + 4, toY(p85) + 3, 'start'),
+      createText(`95%: ${p95}d`, PADDING.left + plotWidth + 4, toY(p95) + 3, 'start'),
+    );
+  }
+
+  aging.columns.forEach((column, columnIndex) => {
+    const center = PADDING.left + columnWidth * (columnIndex + 0.5);
+
+    // Spread items of the same age side by side instead of stacking them
+    const seenByAge = new Map<number, number>();
+    const sameAgeCount = new Map<number, number>();
+    for (const item of column.items) sameAgeCount.set(item.age, (sameAgeCount.get(item.age) ?? 0) + 1);
+
+    for (const item of column.items) {
+      const slot = seenByAge.get(item.age) ?? 0;
+      seenByAge.set(item.age, slot + 1);
+      const count = sameAgeCount.get(item.age) ?? 1;
+      const maxOffset = Math.max(0, columnWidth / 2 - DOT_RADIUS);
+      const offset = Math.max(-maxOffset, Math.min(maxOffset, (slot - (count - 1) / 2) * DOT_SPACING));
+
+      const dot = document.createElementNS(SVG_NS, 'circle');
+      dot.setAttribute('cx', String(center + offset));
+      dot.setAttribute('cy', String(toY(item.age)));
+      dot.setAttribute('r', String(DOT_RADIUS));
+      const bandClass = item.band ? ` ${AGING_WIP_VIEW_CLASS}__dot--${item.band}` : '';
+      dot.setAttribute('class', `${AGING_WIP_VIEW_CLASS}__dot${bandClass}`);
+      dot.setAttribute('data-content-id', String(item.contentId));
+
+      const title = document.createElementNS(SVG_NS, 'title');
+      const band = item.band ? ` (${BAND_LABELS[item.band]})` : '';
+      title.textContent = `${column.name}: Age ${item.age}d since ${item.startDate}${band}`;
+      dot.appendChild(title);
+      dot.addEventListener('click', () => onSelect(item));
+      svg.appendChild(dot);
+    }
+
+    svg.appendChild(createText(column.name, center, CHART_HEIGHT - 6, 'middle'));
+  });
+
+  const axis = document.createElementNS(SVG_NS, 'line');
+  axis.setAttribute('x1', String(PADDING.left));
+  axis.setAttribute('y1', String(PADDING.top + plotHeight));
+  axis.setAttribute('x2', String(PADDING.left + plotWidth));
+  axis.setAttribute('y2', String(PADDING.top + plotHeight));
+  axis.setAttribute('class', `${AGING_WIP_VIEW_CLASS}__axis`);
+  svg.appendChild(axis);
+
+  svg.append(
+    createText(`${maxAge}d`, PADDING.left - 6, PADDING.top + 10, 'end'),
+    createText('0d', PADDING.left - 6, PADDING.top + plotHeight, 'end'),
+  );
+
+  return svg;
+}
+
+function createText(text: string, x: number, y: number, anchor: 'start' | 'middle' | 'end'): SVGTextElement {
+  const el = document.createElementNS(SVG_NS, 'text');
+  el.setAttribute('x', String(x));
+  el.setAttribute('y', String(y));
+  el.setAttribute('text-anchor', anchor);
+  el.setAttribute('class', `${AGING_WIP_VIEW_CLASS}__label`);
+  el.textContent = text;
+  return el;
+}
@@ -0,0 +1,102 @@
+// Date Field Alerts - Aging WIP
+// Responsibility: pure grouping of in-progress items by Status column, with
+// each item's age compared against historical cycle time percentiles.
+//
+// Age is counted exactly like the Age alert (today minus Start, a same-day
+// item is 0d). In-progress items without a Start date are left out — they
+// already get the Missing Start alert — and only counted as skipped.
+
+import type { DateFieldOption, ItemFieldData, StatusCategory } from './types';
+import type { Percentiles } from './cycle-time';
+import { diffInDays } from './date-utils';
+
+/**
+ * How an item's age compares to finished work: within the 50th percentile,
+ * or older than the 50th / 85th / 95th percentile of cycle time.
+ */
+export type AgingBand = 'within50' | 'over50' | 'over85' | 'over95';
+
+export interface AgingItem {
+  contentId: number;
+  startDate: string;
+  /** Today minus Start, in days. */
+  age: number;
+  /** Null without cycle time history to compare against. */
+  band: AgingBand | null;
+}
+
+export interface AgingColumn {
+  /** Status option id, or null for items whose Status is not in the option list. */
+  statusId: string | null;
+  name: string;
+  /** Oldest first. */
+  items: AgingItem[];
+}
+
+export interface AgingWip {
+  /** In-progress Status columns that have items, in the project's option order. */
+  columns: AgingColumn[];
+  /** Cycle time percentiles drawn as background bands, or null without history. */
+  bands: Percentiles | null;
+  /** In-progress items left out for a missing or future Start date. */
+  skipped: number;
+}
+
+/** Band of an age against cycle time percentiles (strictly older moves it up). */
+export function getAgingBand(age: number, percentiles: Percentiles): AgingBand {
+  if (age > percentiles.p95) return 'over95';
+  if (age > percentiles.p85) return 'over85';
+  if (age > percentiles.p50) return 'over50';
+  return 'within50';
+}
+
+/**
+ * Build the aging WIP overview for the current view.
+ * @param statusOptions Status options in project order, used to order the columns
+ * @param resolveCategory Status category of an item (see resolveStatusCategory)
+ * @param today Today as 'YYYY-MM-DD'
+ * @param bands Historical cycle time percentiles (see buildCycleTimeReport)
+ */
+export function buildAgingWip(
+  items: Iterable<ItemFieldData>,
+  statusOptions: DateFieldOption[],
+  resolveCategory: (item: ItemFieldData) => StatusCategory,
+  today: string,
+  bands: Percentiles | null,
+): AgingWip {
+  const columnsByKey = new Map<string, AgingColumn>();
+  let skipped = 0;
+
+  for (const item of items) {
+    if (resolveCategory(item) !== 'inProgress') continue;
+
+    const age = diffInDays(today, item.startDate);
+    if (!item.startDate || age === null || age < 0) {
+      skipped++;
+      continue;
+    }
+
+    const option = statusOptions.find((candidate) => candidate.id === item.statusId);
+    const key = option?.id ?? `name:${item.statusName ?? ''}`;
+    let column = columnsByKey.get(key);
+    if (!column) {
+      column = { statusId: option?.id ?? null, name: option?.name ?? item.statusName ?? 'No Status', items: [] };
+      columnsByKey.set(key, column);
+    }
+    column.items.push({
+      contentId: item.contentId,
+      startDate: item.startDate,
+      age,
+      band: bands ? getAgingBand(age, bands) : null,
+    });
+  }
+
+  const order = (column: AgingColumn): number => {
+    const index = statusOptions.findIndex((option) => option.id === column.statusId);
+    return index >= 0 ? index : statusOptions.length;
+  };
+  const columns = [...columnsByKey.values()].sort((a, b) => order(a) - order(b));
+  for (const column of columns) column.items.sort((a, b) => b.age - a.age);
+
+  return { columns, bands, skipped };
+}
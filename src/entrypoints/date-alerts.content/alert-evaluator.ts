@@ -1,9 +1,21 @@
 // Date Field Alerts - Alert Evaluator
-// Responsibility: pure evaluation of which annotation (if any) each date cell gets.
-// Implements the MVP subset of the spec's Status display rules and priorities.
+// Responsibility: pure evaluation of which annotation (if any) each date cell gets,
+// by running the item through the ordered alert rules (see alert-rules.ts).
 
-import type { AlertLevel, CellAlert, EvaluationResult, ItemFieldData, StatusCategory } from './types';
+import type {
+  AlertCell,
+  AlertLevel,
+  AlertRule,
+  CellAlert,
+  DateFieldMapping,
+  EvaluationResult,
+  ItemFieldData,
+  StatusCategory,
+} from './types';
 import { diffInDays } from './date-utils';
+import { BUILT_IN_ALERT_RULES, matchesRule, renderRuleText } from './alert-rules';
+import type { DateOffsets } from './alert-rules';
+import { BUILT_IN_GLOBAL_DEFAULTS, isValidAgeThresholds } from '../content/shared/global-defaults';
 
 /** Age thresholds (in days). 0..caution-1 = normal, caution..warning-1 = caution, >=warning = warning. */
 export interface AgeThresholds {
@@ -11,7 +23,13 @@ export interface AgeThresholds {
   warning: number;
 }
 
-export const DEFAULT_AGE_THRESHOLDS: AgeThresholds = { caution: 6, warning: 11 };
+/** Built-in thresholds; the options page can override them globally. */
+export const DEFAULT_AGE_THRESHOLDS: AgeThresholds = BUILT_IN_GLOBAL_DEFAULTS.ageThresholds;
+
+/** The project's own Age thresholds when set and valid, else `fallback` (the global defaults). */
+export function resolveAgeThresholds(mapping: DateFieldMapping | null, fallback: AgeThresholds): AgeThresholds {
+  return isValidAgeThresholds(mapping?.ageThresholds) ? mapping.ageThresholds : fallback;
+}
 
 export interface EvaluateInput {
   startDate: string | null;
@@ -20,77 +38,53 @@ export interface EvaluateInput {
   /** Today as 'YYYY-MM-DD'. */
   today: string;
   ageThresholds?: AgeThresholds;
+  /** Rules ordered by priority (see getAlertRules); defaults to the built-in rules. */
+  rules?: readonly AlertRule[];
 }
 
 /**
  * Evaluate the Start and End cell annotations for a single item.
  *
- * MVP alerts and their priority (highest first):
- * - Start cell: Missing Start -> Age
- * - End cell:   Overdue -> Missing End
+ * Each cell gets the first matching rule in priority order. With the built-in
+ * and schedule rules that is:
+ * - Start cell: Missing Start -> Age / Future Start
+ * - End cell:   Overdue / Due Today / Due Soon -> Missing End
  *
- * Post-MVP alerts (Future Start, Due Soon, Due Today) are intentionally not emitted.
+ * Without `rules`, only the built-in rules run (no schedule or custom rules).
  */
 export function evaluate(input: EvaluateInput): EvaluationResult {
   const thresholds = input.ageThresholds ?? DEFAULT_AGE_THRESHOLDS;
-  const isDone = input.status === 'done';
-  const isInProgress = input.status === 'inProgress';
-  // 'unknown' means "we couldn't classify this" — whether because no keyword
-  // matched, or because it was left out of both lists in an explicit
-  // In Progress/Done status mapping. Either way, stay silent rather than guess.
-  const isNotDone = input.status === 'todo' || input.status === 'inProgress';
+  const rules = input.rules ?? BUILT_IN_ALERT_RULES;
+  const offsets: DateOffsets = {
+    start: diffInDays(input.startDate, input.today),
+    end: diffInDays(input.endDate, input.today),
+  };
 
   return {
-    start: evaluateStart(input, { isInProgress }, thresholds),
-    end: evaluateEnd(input, { isDone, isInProgress, isNotDone }),
+    start: evaluateCell('start', rules, input, offsets, thresholds),
+    end: evaluateCell('end', rules, input, offsets, thresholds),
   };
 }
 
-function evaluateStart(
+function evaluateCell(
+  cell: AlertCell,
+  rules: readonly AlertRule[],
   input: EvaluateInput,
-  flags: { isInProgress: boolean },
+  offsets: DateOffsets,
   thresholds: AgeThresholds,
 ): CellAlert | null {
-  // 1. Missing Start: in progress but no start date.
-  if (flags.isInProgress && !input.startDate) {
-    return { type: 'missingStart', text: '⚠ Missing', level: 'caution' };
-  }
-
-  // 2. Age: in-progress work that started in the past. Age tracks long-running
-  // *in progress* items (per the feature's goal), so Todo items are excluded
-  // even though they are technically "not done".
-  if (input.startDate && flags.isInProgress) {
-    const age = diffInDays(input.today, input.startDate);
-    if (age !== null && age >= 0) {
-      return { type: 'age', text: `Age ${age}d`, level: ageLevel(age, thresholds) };
-    }
-  }
-
-  return null;
-}
-
-function evaluateEnd(
-  input: EvaluateInput,
-  flags: { isDone: boolean; isInProgress: boolean; isNotDone: boolean },
-): CellAlert | null {
-  // 1. Overdue: recognized as todo/in-progress (not done) and the end date is
-  // in the past. Unclassified ('unknown') statuses stay silent rather than
-  // assume they're unfinished.
-  if (input.endDate && flags.isNotDone) {
-    const overdue = diffInDays(input.today, input.endDate);
-    if (overdue !== null && overdue > 0) {
-      return { type: 'overdue', text: `Overdue ${overdue}d`, level: 'warning' };
-    }
-  }
+  const rule = rules.find(
+    (candidate) => candidate.cell === cell && matchesRule(candidate, input.status, input, offsets),
+  );
+  if (!rule) return null;
 
-  // 2. Missing End: done with no end date (data-quality warning), or in progress
-  // with no target end date (can't tell if it's overdue without one). Todo items
-  // are excluded — no end date is expected while work is still unplanned.
-  if ((flags.isDone || flags.isInProgress) && !input.endDate) {
-    return { type: 'missingEnd', text: '⚠ Missing', level: 'caution' };
-  }
-
-  return null;
+  const offset = cell === 'start' ? offsets.start : offsets.end;
+  const days = offset === null ? null : Math.abs(offset);
+  return {
+    type: rule.id,
+    text: renderRuleText(rule.text, days),
+    level: rule.level === 'age' ? ageLevel(days ?? 0, thresholds) : rule.level,
+  };
 }
 
 function ageLevel(age: number, thresholds: AgeThresholds): AlertLevel {
@@ -105,6 +99,7 @@ export function evaluateItem(
   status: StatusCategory,
   today: string,
   ageThresholds?: AgeThresholds,
+  rules?: readonly AlertRule[],
 ): EvaluationResult {
   return evaluate({
     startDate: item.startDate,
@@ -112,5 +107,6 @@ export function evaluateItem(
     status,
     today,
     ageThresholds,
+    rules,
   });
 }
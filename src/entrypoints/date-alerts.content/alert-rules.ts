@@ -0,0 +1,279 @@
+// Date Field Alerts - Alert Rules
+// Responsibility: the declarative alert rule set — built-in defaults, matching
+// a rule against an item, and validating user-added rules read from storage.
+
+import type {
+  AlertCell,
+  AlertId,
+  AlertRule,
+  AlertRuleLevel,
+  BuiltInAlertId,
+  CustomAlertId,
+  DateCondition,
+  DateFieldMapping,
+  ScheduleAlertId,
+  ScheduleAlertSettings,
+  StatusCategory,
+} from './types';
+import { isValidAgeThresholds } from '../content/shared/global-defaults';
+
+/** Placeholder in a rule's text replaced by the days between today and the cell's date. */
+export const DAYS_PLACEHOLDER = '{days}';
+
+/**
+ * The original alerts, expressed as rules. Per cell, Missing Start beats Age
+ * and Overdue beats Missing End. 'unknown' statuses are never listed, so
+ * unclassified items stay silent rather than be guessed at.
+ */
+export const BUILT_IN_ALERT_RULES: readonly (AlertRule & { id: BuiltInAlertId })[] = [
+  {
+    // In progress but no start date
+    id: 'missingStart',
+    cell: 'start',
+    statuses: ['inProgress'],
+    start: { presence: 'missing' },
+    text: '⚠ Missing',
+    level: 'caution',
+    priority: 10,
+  },
+  {
+    // In-progress work that started today or earlier. Todo items are excluded
+    // even though they are "not done": Age tracks long-running work.
+    id: 'age',
+    cell: 'start',
+    statuses: ['inProgress'],
+    start: { maxOffset: 0 },
+    text: `Age ${DAYS_PLACEHOLDER}d`,
+    level: 'age',
+    priority: 20,
+  },
+  {
+    // Not done and the end date is in the past (the due day itself is fine)
+    id: 'overdue',
+    cell: 'end',
+    statuses: ['todo', 'inProgress'],
+    end: { maxOffset: -1 },
+    text: `Overdue ${DAYS_PLACEHOLDER}d`,
+    level: 'warning',
+    priority: 10,
+  },
+  {
+    // Done with no end date (data quality), or in progress with no target end
+    // date to check overdue against. Todo work isn't expected to have one yet.
+    id: 'missingEnd',
+    cell: 'end',
+    statuses: ['done', 'inProgress'],
+    end: { presence: 'missing' },
+    text: '⚠ Missing',
+    level: 'caution',
+    priority: 20,
+  },
+];
+
+/** Schedule alerts are opt-in per project; once on, Due Soon looks this many days ahead. */
+export const DEFAULT_SCHEDULE_ALERTS: ScheduleAlertSettings = {
+  dueToday: false,
+  dueSoon: false,
+  dueSoonDays: 3,
+  futureStart: false,
+};
+
+export const MAX_DUE_SOON_DAYS = 30;
+
+const SCHEDULE_RULE_IDS: readonly ScheduleAlertId[] = ['futureStart', 'dueToday', 'dueSoon'];
+
+/**
+ * Rules for upcoming dates, per the project's toggles. They never overlap the
+ * built-in rules on the same cell (a date can't be both past and upcoming),
+ * so they share their priorities.
+ */
+export function getScheduleRules(settings: ScheduleAlertSettings): (AlertRule & { id: ScheduleAlertId })[] {
+  const rules: (AlertRule & { id: ScheduleAlertId })[] = [];
+  if (settings.futureStart) {
+    // In progress, yet the start date hasn't come — usually a stale date
+    rules.push({
+      id: 'futureStart',
+      cell: 'start',
+      statuses: ['inProgress'],
+      start: { minOffset: 1 },
+      text: `Starts in ${DAYS_PLACEHOLDER}d`,
+      level: 'notice',
+      priority: 20,
+    });
+  }
+  if (settings.dueToday) {
+    rules.push({
+      id: 'dueToday',
+      cell: 'end',
+      statuses: ['todo', 'inProgress'],
+      end: { minOffset: 0, maxOffset: 0 },
+      text: 'Due today',
+      level: 'urgent',
+      priority: 10,
+    });
+  }
+  if (settings.dueSoon) {
+    rules.push({
+      id: 'dueSoon',
+      cell: 'end',
+      statuses: ['todo', 'inProgress'],
+      end: { minOffset: 1, maxOffset: settings.dueSoonDays },
+      text: `Due in ${DAYS_PLACEHOLDER}d`,
+      level: 'upcoming',
+      priority: 10,
+    });
+  }
+  return rules;
+}
+
+const BUILT_IN_RULE_IDS = new Set<string>([...BUILT_IN_ALERT_RULES.map((rule) => rule.id), ...SCHEDULE_RULE_IDS]);
+
+/** Offsets of an item's dates from today (date minus today), null when unset or invalid. */
+export interface DateOffsets {
+  start: number | null;
+  end: number | null;
+}
+
+/** Whether a rule applies to an item with the given status and date values. */
+export function matchesRule(
+  rule: AlertRule,
+  status: StatusCategory,
+  dates: { startDate: string | null; endDate: string | null },
+  offsets: DateOffsets,
+): boolean {
+  return (
+    rule.statuses.includes(status) &&
+    matchesCondition(rule.start, dates.startDate, offsets.start) &&
+    matchesCondition(rule.end, dates.endDate, offsets.end)
+  );
+}
+
+function matchesCondition(condition: DateCondition | undefined, value: string | null, offset: number | null): boolean {
+  if (!condition) return true;
+  if (condition.presence === 'missing') return !value;
+  if (condition.presence === 'present' && !value) return false;
+  if (condition.minOffset === undefined && condition.maxOffset === undefined) return true;
+  if (offset === null) return false;
+  if (condition.minOffset !== undefined && offset < condition.minOffset) return false;
+  if (condition.maxOffset !== undefined && offset > condition.maxOffset) return false;
+  return true;
+}
+
+/** Fill `{days}` in a rule's text; dates that are unset leave it empty. */
+export function renderRuleText(text: string, days: number | null): string {
+  return text.split(DAYS_PLACEHOLDER).join(days === null ? '' : String(days));
+}
+
+/** Enabled built-in and schedule rules followed by the project's valid custom rules, ordered by priority. */
+export function getAlertRules(mapping: DateFieldMapping | null): AlertRule[] {
+  const disabled = new Set<string>(Array.isArray(mapping?.disabledAlerts) ? mapping.disabledAlerts : []);
+  const builtIn = BUILT_IN_ALERT_RULES.filter((rule) => !disabled.has(rule.id));
+  const schedule = getScheduleRules(
+    isScheduleAlertSettings(mapping?.scheduleAlerts) ? mapping.scheduleAlerts : DEFAULT_SCHEDULE_ALERTS,
+  );
+  const custom = (mapping?.alertRules ?? []).filter(
+    (rule) => isAlertRule(rule) && !BUILT_IN_RULE_IDS.has(rule.id),
+  );
+  // Array.prototype.sort is stable, so equal priorities keep built-ins first
+  return [...builtIn, ...schedule, ...custom].sort((a, b) => a.priority - b.priority);
+}
+
+export function isBuiltInAlertId(value: unknown): value is BuiltInAlertId {
+  return BUILT_IN_ALERT_RULES.some((rule) => rule.id === value);
+}
+
+/** True for ids the built-in and schedule rules use (custom rules can't reuse them). */
+export function isBuiltInRuleId(id: string): id is BuiltInAlertId | ScheduleAlertId {
+  return BUILT_IN_RULE_IDS.has(id);
+}
+
+/** True for the "custom-…" ids of a project's own rules. */
+export function isCustomAlertId(id: string): id is CustomAlertId {
+  return /^custom-.+$/.test(id);
+}
+
+function isAlertId(value: unknown): value is AlertId {
+  return typeof value === 'string' && (isBuiltInRuleId(value) || isCustomAlertId(value));
+}
+
+const ALERT_CELLS: readonly AlertCell[] = ['start', 'end'];
+const STATUS_CATEGORIES: readonly StatusCategory[] = ['todo', 'inProgress', 'done', 'unknown'];
+const RULE_LEVELS: readonly AlertRuleLevel[] = ['normal', 'caution', 'warning', 'urgent', 'upcoming', 'notice', 'age'];
+
+function isOptionalInteger(value: unknown): boolean {
+  return value === undefined || Number.isInteger(value);
+}
+
+function isDateCondition(value: unknown): value is DateCondition {
+  if (value === undefined) return true;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const condition = value as Record<string, unknown>;
+  return (
+    (condition.presence === undefined || condition.presence === 'present' || condition.presence === 'missing') &&
+    isOptionalInteger(condition.minOffset) &&
+    isOptionalInteger(condition.maxOffset)
+  );
+}
+
+/** Shape check for a rule read from storage or an imported settings file. */
+export function isAlertRule(value: unknown): value is AlertRule {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const rule = value as Record<string, unknown>;
+  return (
+    isAlertId(rule.id) &&
+    ALERT_CELLS.includes(rule.cell as AlertCell) &&
+    Array.isArray(rule.statuses) &&
+    rule.statuses.every((status) => STATUS_CATEGORIES.includes(status as StatusCategory)) &&
+    isDateCondition(rule.start) &&
+    isDateCondition(rule.end) &&
+    typeof rule.text === 'string' &&
+    rule.text.trim().length > 0 &&
+    RULE_LEVELS.includes(rule.level as AlertRuleLevel) &&
+    typeof rule.priority === 'number' &&
+    Number.isFinite(rule.priority)
+  );
+}
+
+/** A mapping's `alertRules` value: absent, or a list of valid rules. */
+export function isValidAlertRuleList(value: unknown): value is AlertRule[] | undefined {
+  return value === undefined || (Array.isArray(value) && value.every(isAlertRule));
+}
+
+/** Shape check for schedule alert toggles read from storage or an imported settings file. */
+export function isScheduleAlertSettings(value: unknown): value is ScheduleAlertSettings {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const settings = value as Record<string, unknown>;
+  return (
+    typeof settings.dueToday === 'boolean' &&
+    typeof settings.dueSoon === 'boolean' &&
+    typeof settings.futureStart === 'boolean' &&
+    isValidDueSoonDays(settings.dueSoonDays)
+  );
+}
+
+export function isValidDueSoonDays(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_DUE_SOON_DAYS;
+}
+
+/**
+ * Check a mapping's alert settings (custom rules and schedule toggles)
+ * @returns An error message, or null when valid
+ */
+export function getMappingAlertsError(mapping: DateFieldMapping): string | null {
+  if (!isValidAlertRuleList(mapping.alertRules)) {
+    return '"alertRules" must be a list of valid alert rules';
+  }
+  if (mapping.scheduleAlerts !== undefined && !isScheduleAlertSettings(mapping.scheduleAlerts)) {
+    return `"scheduleAlerts" needs boolean toggles and "dueSoonDays" between 1 and ${MAX_DUE_SOON_DAYS}`;
+  }
+  if (
+    mapping.disabledAlerts !== undefined &&
+    !(Array.isArray(mapping.disabledAlerts) && mapping.disabledAlerts.every(isBuiltInAlertId))
+  ) {
+    return `"disabledAlerts" must list built-in alert ids (${BUILT_IN_ALERT_RULES.map((rule) => rule.id).join(', ')})`;
+  }
+  if (mapping.ageThresholds !== undefined && !isValidAgeThresholds(mapping.ageThresholds)) {
+    return '"ageThresholds" must be whole days with caution below warning';
+  }
+  return null;
+}
@@ -3,8 +3,31 @@
 // an expandable panel to map the Start/End date fields. Field names are shown to
 // the user; field ids are used internally. Vanilla DOM, namespaced classes.
 
-import type { DateFieldMapping, DateFieldOption } from './types';
+import type {
+  AlertCell,
+  AlertId,
+  AlertRule,
+  AlertRuleLevel,
+  BuiltInAlertId,
+  CustomAlertId,
+  DateCondition,
+  DateFieldMapping,
+  DateFieldOption,
+  ScheduleAlertId,
+  ScheduleAlertSettings,
+  StatusCategory,
+} from './types';
 import { classifyStatus } from './status-classifier';
+import type { AgeThresholds } from './alert-evaluator';
+import { DEFAULT_AGE_THRESHOLDS } from './alert-evaluator';
+import { isValidAgeThresholds } from '../content/shared/global-defaults';
+import {
+  DAYS_PLACEHOLDER,
+  DEFAULT_SCHEDULE_ALERTS,
+  MAX_DUE_SOON_DAYS,
+  isScheduleAlertSettings,
+  isValidDueSoonDays,
+} from './alert-rules';
 
 export const CONFIG_VIEW_CLASS = 'iplus-date-config';
 
@@ -15,12 +38,15 @@ export interface ConfigViewOptions {
   guessedMapping: { startFieldId: string | null; endFieldId: string | null };
   /** All Status options, for the optional In Progress/Done status pickers. */
   statusOptions: DateFieldOption[];
+  /** Thresholds that apply when the project has none of its own (the global defaults). */
+  defaultAgeThresholds?: AgeThresholds;
   onSave: (mapping: DateFieldMapping) => void | Promise<void>;
 }
 
 /** Build the config view element. Caller mounts it above the grid. */
 export function createConfigView(options: ConfigViewOptions): HTMLElement {
   const { dateFields, currentMapping, guessedMapping, statusOptions, onSave } = options;
+  const defaultAgeThresholds = options.defaultAgeThresholds ?? DEFAULT_AGE_THRESHOLDS;
   const fieldsById = new Map(dateFields.map((f) => [f.id, f.name]));
   const statusOptionsById = new Map(statusOptions.map((o) => [o.id, o.name]));
 
@@ -49,6 +75,9 @@ export function createConfigView(options: ConfigViewOptions): HTMLElement {
   const endSelect = buildSelect('End date field', dateFields);
   const inProgressStatusSelect = buildMultiSelect('In Progress statuses (optional)', statusOptions);
   const doneStatusSelect = buildMultiSelect('Done statuses (optional)', statusOptions);
+  const alertEditor = buildAlertEditor(defaultAgeThresholds);
+  const scheduleEditor = buildScheduleEditor();
+  const ruleEditor = buildRuleEditor();
 
   const actions = document.createElement('div');
   actions.className = `${CONFIG_VIEW_CLASS}__actions`;
@@ -72,6 +101,9 @@ export function createConfigView(options: ConfigViewOptions): HTMLElement {
     endSelect.wrapper,
     inProgressStatusSelect.wrapper,
     doneStatusSelect.wrapper,
+    alertEditor.wrapper,
+    scheduleEditor.wrapper,
+    ruleEditor.wrapper,
     actions,
   );
 
@@ -79,6 +111,42 @@ export function createConfigView(options: ConfigViewOptions): HTMLElement {
 
   // --- State & rendering ---
   let mapping = currentMapping;
+  // Custom alert rules being edited; saved together with the mapping.
+  let pendingRules: AlertRule[] = [];
+
+  function renderRules(): void {
+    ruleEditor.list.replaceChildren(
+      ...pendingRules.map((rule) => {
+        const item = document.createElement('li');
+        item.className = `${CONFIG_VIEW_CLASS}__rule`;
+
+        const text = document.createElement('span');
+        text.textContent = describeRule(rule);
+
+        const editButton = document.createElement('button');
+        editButton.type = 'button';
+        editButton.className = `${CONFIG_VIEW_CLASS}__rule-edit`;
+        editButton.textContent = 'Edit';
+        editButton.addEventListener('click', () => {
+          ruleEditor.edit(rule);
+          error.textContent = '';
+        });
+
+        const removeButton = document.createElement('button');
+        removeButton.type = 'button';
+        removeButton.className = `${CONFIG_VIEW_CLASS}__rule-remove`;
+        removeButton.textContent = 'Remove';
+        removeButton.addEventListener('click', () => {
+          pendingRules = pendingRules.filter((candidate) => candidate !== rule);
+          if (ruleEditor.editingId() === rule.id) ruleEditor.reset();
+          renderRules();
+        });
+
+        item.append(text, editButton, removeButton);
+        return item;
+      }),
+    );
+  }
 
   function renderSummary(): void {
     const state = mappingState(mapping, fieldsById);
@@ -115,6 +183,14 @@ export function createConfigView(options: ConfigViewOptions): HTMLElement {
       );
     }
 
+    alertEditor.set(mapping?.disabledAlerts ?? [], mapping?.ageThresholds);
+    scheduleEditor.set(
+      isScheduleAlertSettings(mapping?.scheduleAlerts) ? mapping.scheduleAlerts : DEFAULT_SCHEDULE_ALERTS,
+    );
+    pendingRules = [...(mapping?.alertRules ?? [])];
+    renderRules();
+    ruleEditor.reset();
+
     error.textContent = '';
   }
 
@@ -134,6 +210,21 @@ export function createConfigView(options: ConfigViewOptions): HTMLElement {
 
   cancelButton.addEventListener('click', closePanel);
 
+  ruleEditor.addButton.addEventListener('click', () => {
+    const editingId = ruleEditor.editingId();
+    const result = ruleEditor.read(editingId ?? nextRuleId(pendingRules));
+    if (typeof result === 'string') {
+      error.textContent = result;
+      return;
+    }
+    pendingRules = editingId
+      ? pendingRules.map((candidate) => (candidate.id === editingId ? result : candidate))
+      : [...pendingRules, result];
+    renderRules();
+    ruleEditor.reset();
+    error.textContent = '';
+  });
+
   saveButton.addEventListener('click', async () => {
     const startFieldId = startSelect.select.value;
     const endFieldId = endSelect.select.value;
@@ -155,11 +246,28 @@ export function createConfigView(options: ConfigViewOptions): HTMLElement {
       return;
     }
 
+    const alertSettings = alertEditor.read();
+    if (typeof alertSettings === 'string') {
+      error.textContent = alertSettings;
+      return;
+    }
+    const { disabledAlerts, ageThresholds } = alertSettings;
+
+    const scheduleAlerts = scheduleEditor.read();
+    if (typeof scheduleAlerts === 'string') {
+      error.textContent = scheduleAlerts;
+      return;
+    }
+
     const next: DateFieldMapping = {
       startFieldId,
       endFieldId,
       inProgressStatusIds,
       doneStatusIds,
+      scheduleAlerts,
+      ...(pendingRules.length > 0 ? { alertRules: pendingRules } : {}),
+      ...(disabledAlerts.length > 0 ? { disabledAlerts } : {}),
+      ...(ageThresholds ? { ageThresholds } : {}),
     };
     try {
       await onSave(next);
@@ -249,6 +357,480 @@ function buildMultiSelect(label: string, options: DateFieldOption[]): BuiltSelec
   return { wrapper, select };
 }
 
+const BUILT_IN_ALERT_LABELS: Array<{ id: BuiltInAlertId; label: string }> = [
+  { id: 'missingStart', label: 'Missing start' },
+  { id: 'age', label: 'Age' },
+  { id: 'overdue', label: 'Overdue' },
+  { id: 'missingEnd', label: 'Missing end' },
+];
+
+interface AlertSettings {
+  disabledAlerts: BuiltInAlertId[];
+  /** Undefined when left blank (the defaults apply). */
+  ageThresholds: AgeThresholds | undefined;
+}
+
+interface AlertEditor {
+  wrapper: HTMLElement;
+  /** Current settings, or an error message. */
+  read: () => AlertSettings | string;
+  set: (disabledAlerts: BuiltInAlertId[], ageThresholds: AgeThresholds | undefined) => void;
+}
+
+/** The "Alerts" section: built-in alert toggles and the project's Age thresholds. */
+function buildAlertEditor(defaultAgeThresholds: AgeThresholds): AlertEditor {
+  const wrapper = document.createElement('div');
+  wrapper.className = `${CONFIG_VIEW_CLASS}__field ${CONFIG_VIEW_CLASS}__alerts`;
+
+  const caption = document.createElement('span');
+  caption.className = `${CONFIG_VIEW_CLASS}__label`;
+  caption.textContent = 'Alerts';
+
+  const toggles = document.createElement('div');
+  toggles.className = `${CONFIG_VIEW_CLASS}__toggles`;
+
+  const boxes = BUILT_IN_ALERT_LABELS.map(({ id, label }) => {
+    const option = document.createElement('label');
+    option.className = `${CONFIG_VIEW_CLASS}__rule-field`;
+    const box = document.createElement('input');
+    box.type = 'checkbox';
+    box.className = `${CONFIG_VIEW_CLASS}__alert-toggle`;
+    box.dataset.alert = id;
+    option.append(box, ` ${label}`);
+    toggles.appendChild(option);
+    return { id, box };
+  });
+
+  // Blank inputs fall back to the defaults, shown as placeholders
+  const buildThreshold = (label: string, modifier: string, placeholder: number) => {
+    const field = document.createElement('label');
+    field.className = `${CONFIG_VIEW_CLASS}__rule-field`;
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.min = '1';
+    input.step = '1';
+    input.placeholder = String(placeholder);
+    input.className = `${CONFIG_VIEW_CLASS}__rule-number ${CONFIG_VIEW_CLASS}__${modifier}`;
+    field.append(`${label} `, input);
+    toggles.appendChild(field);
+    return input;
+  };
+  const caution = buildThreshold('Age caution at', 'age-caution', defaultAgeThresholds.caution);
+  const warning = buildThreshold('warning at', 'age-warning', defaultAgeThresholds.warning);
+  toggles.append('days');
+
+  const ageBox = boxes.find((entry) => entry.id === 'age')?.box;
+  const syncThresholds = (): void => {
+    caution.disabled = !ageBox?.checked;
+    warning.disabled = !ageBox?.checked;
+  };
+  ageBox?.addEventListener('change', syncThresholds);
+
+  wrapper.append(caption, toggles);
+
+  function set(disabledAlerts: BuiltInAlertId[], ageThresholds: AgeThresholds | undefined): void {
+    for (const { id, box } of boxes) box.checked = !disabledAlerts.includes(id);
+    caution.value = ageThresholds ? String(ageThresholds.caution) : '';
+    warning.value = ageThresholds ? String(ageThresholds.warning) : '';
+    syncThresholds();
+  }
+
+  function read(): AlertSettings | string {
+    const disabledAlerts = boxes.filter(({ box }) => !box.checked).map(({ id }) => id);
+    if (caution.value.trim() === '' && warning.value.trim() === '') {
+      return { disabledAlerts, ageThresholds: undefined };
+    }
+
+    // Filling in one side keeps the default for the other
+    const ageThresholds = {
+      caution: caution.value.trim() === '' ? defaultAgeThresholds.caution : Number(caution.value),
+      warning: warning.value.trim() === '' ? defaultAgeThresholds.warning : Number(warning.value),
+    };
+    if (!isValidAgeThresholds(ageThresholds)) {
+      return 'Age thresholds must be whole days with caution below warning.';
+    }
+    return { disabledAlerts, ageThresholds };
+  }
+
+  return { wrapper, read, set };
+}
+
+interface ScheduleEditor {
+  wrapper: HTMLElement;
+  /** Current toggles, or an error message. */
+  read: () => ScheduleAlertSettings | string;
+  set: (settings: ScheduleAlertSettings) => void;
+}
+
+/** The "Schedule alerts" section: Due Today, Due Soon within N days, Future Start. */
+function buildScheduleEditor(): ScheduleEditor {
+  const wrapper = document.createElement('div');
+  wrapper.className = `${CONFIG_VIEW_CLASS}__field ${CONFIG_VIEW_CLASS}__schedule`;
+
+  const caption = document.createElement('span');
+  caption.className = `${CONFIG_VIEW_CLASS}__label`;
+  caption.textContent = 'Schedule alerts';
+
+  const toggles = document.createElement('div');
+  toggles.className = `${CONFIG_VIEW_CLASS}__toggles`;
+
+  const buildToggle = (key: ScheduleAlertId, label: string) => {
+    const wrapperLabel = document.createElement('label');
+    wrapperLabel.className = `${CONFIG_VIEW_CLASS}__rule-field`;
+    const box = document.createElement('input');
+    box.type = 'checkbox';
+    box.className = `${CONFIG_VIEW_CLASS}__schedule-toggle`;
+    box.dataset.alert = key;
+    wrapperLabel.append(box, ` ${label}`);
+    return { wrapper: wrapperLabel, box };
+  };
+
+  const dueToday = buildToggle('dueToday', 'Due today');
+  const dueSoon = buildToggle('dueSoon', 'Due soon, within');
+  const futureStart = buildToggle('futureStart', 'Future start (in progress)');
+
+  const days = document.createElement('input');
+  days.type = 'number';
+  days.min = '1';
+  days.max = String(MAX_DUE_SOON_DAYS);
+  days.step = '1';
+  days.className = `${CONFIG_VIEW_CLASS}__rule-number ${CONFIG_VIEW_CLASS}__schedule-days`;
+  days.setAttribute('aria-label', 'Due soon days');
+  dueSoon.wrapper.append(days, ' days');
+  dueSoon.box.addEventListener('change', () => {
+    days.disabled = !dueSoon.box.checked;
+  });
+
+  toggles.append(dueToday.wrapper, dueSoon.wrapper, futureStart.wrapper);
+  wrapper.append(caption, toggles);
+
+  function set(settings: ScheduleAlertSettings): void {
+    dueToday.box.checked = settings.dueToday;
+    dueSoon.box.checked = settings.dueSoon;
+    futureStart.box.checked = settings.futureStart;
+    days.value = String(settings.dueSoonDays);
+    days.disabled = !settings.dueSoon;
+  }
+
+  function read(): ScheduleAlertSettings | string {
+    // The day count only matters while Due Soon is on; keep a usable value otherwise
+    const dueSoonDays = dueSoon.box.checked || isValidDueSoonDays(Number(days.value))
+      ? Number(days.value)
+      : DEFAULT_SCHEDULE_ALERTS.dueSoonDays;
+    if (!isValidDueSoonDays(dueSoonDays)) {
+      return `Due soon days must be a whole number from 1 to ${MAX_DUE_SOON_DAYS}.`;
+    }
+    return {
+      dueToday: dueToday.box.checked,
+      dueSoon: dueSoon.box.checked,
+      dueSoonDays,
+      futureStart: futureStart.box.checked,
+    };
+  }
+
+  return { wrapper, read, set };
+}
+
+const RULE_STATUSES: Array<{ value: StatusCategory; label: string }> = [
+  { value: 'todo', label: 'Todo' },
+  { value: 'inProgress', label: 'In Progress' },
+  { value: 'done', label: 'Done' },
+  { value: 'unknown', label: 'Unclassified' },
+];
+
+const RULE_LEVELS: Array<[AlertRuleLevel, string]> = [
+  ['caution', 'Caution'],
+  ['warning', 'Warning'],
+  ['normal', 'Normal'],
+  ['urgent', 'Urgent'],
+  ['upcoming', 'Upcoming'],
+  ['notice', 'Notice'],
+  ['age', 'By Age thresholds'],
+];
+
+/** Runs after the built-in alerts (priority 10/20) unless lowered. */
+const DEFAULT_RULE_PRIORITY = 30;
+
+interface ConditionEditor {
+  wrapper: HTMLElement;
+  /** The condition (undefined for "any"), or an error message. */
+  read: () => DateCondition | undefined | string;
+  set: (condition: DateCondition | undefined) => void;
+  /** Empty the day inputs and pick a starting mode. */
+  clear: (mode: 'any' | 'range') => void;
+}
+
+/** The condition on one date: any, within From / To days from today, set, or empty. */
+function buildConditionEditor(cell: AlertCell, dateName: string): ConditionEditor {
+  const wrapper = document.createElement('span');
+  wrapper.className = `${CONFIG_VIEW_CLASS}__rule-condition`;
+
+  const mode = buildRuleSelect(dateName, [
+    ['any', 'any'],
+    ['range', 'is within (days from today)'],
+    ['present', 'is set'],
+    ['missing', 'is empty'],
+  ]);
+  mode.select.classList.add(`${CONFIG_VIEW_CLASS}__rule-${cell}-condition`);
+  const minOffset = buildRuleNumber('From', `rule-${cell}-min`);
+  const maxOffset = buildRuleNumber('To', `rule-${cell}-max`);
+
+  const updateOffsets = (): void => {
+    const isRange = mode.select.value === 'range';
+    minOffset.input.disabled = !isRange;
+    maxOffset.input.disabled = !isRange;
+  };
+  mode.select.addEventListener('change', updateOffsets);
+  wrapper.append(mode.wrapper, minOffset.wrapper, maxOffset.wrapper);
+
+  function set(condition: DateCondition | undefined): void {
+    const hasOffsets = condition?.minOffset !== undefined || condition?.maxOffset !== undefined;
+    if (condition?.presence === 'missing') mode.select.value = 'missing';
+    else if (hasOffsets) mode.select.value = 'range';
+    else if (condition?.presence === 'present') mode.select.value = 'present';
+    else mode.select.value = 'any';
+    minOffset.input.value = condition?.minOffset !== undefined ? String(condition.minOffset) : '';
+    maxOffset.input.value = condition?.maxOffset !== undefined ? String(condition.maxOffset) : '';
+    updateOffsets();
+  }
+
+  function clear(initialMode: 'any' | 'range'): void {
+    set(undefined);
+    mode.select.value = initialMode;
+    updateOffsets();
+  }
+
+  function read(): DateCondition | undefined | string {
+    if (mode.select.value === 'present') return { presence: 'present' };
+    if (mode.select.value === 'missing') return { presence: 'missing' };
+    if (mode.select.value !== 'range') return undefined;
+
+    const min = parseOptionalInteger(minOffset.input.value);
+    const max = parseOptionalInteger(maxOffset.input.value);
+    if (min === null || max === null) return `${dateName}: days from today must be whole numbers.`;
+    if (min === undefined && max === undefined) return `${dateName}: enter at least one of From / To days.`;
+    if (min !== undefined && max !== undefined && min > max) return `${dateName}: "From" must not be after "To".`;
+    return { ...(min !== undefined ? { minOffset: min } : {}), ...(max !== undefined ? { maxOffset: max } : {}) };
+  }
+
+  return { wrapper, read, set, clear };
+}
+
+interface RuleEditor {
+  wrapper: HTMLElement;
+  list: HTMLUListElement;
+  addButton: HTMLButtonElement;
+  /** Build a rule from the form, or return an error message. */
+  read: (id: AlertId) => AlertRule | string;
+  /** Id of the rule loaded with edit(), or null while adding a new one. */
+  editingId: () => AlertId | null;
+  /** Load a rule into the form to change it. */
+  edit: (rule: AlertRule) => void;
+  /** Clear the form back to adding a new rule. */
+  reset: () => void;
+}
+
+/**
+ * The "Custom alerts" section: the project's added rules plus a form to add a
+ * rule or edit one. A rule can combine conditions on both dates, e.g. "End is
+ * empty while Start is set", and shows its text in either cell.
+ */
+function buildRuleEditor(): RuleEditor {
+  const wrapper = document.createElement('div');
+  wrapper.className = `${CONFIG_VIEW_CLASS}__field ${CONFIG_VIEW_CLASS}__rules`;
+
+  const caption = document.createElement('span');
+  caption.className = `${CONFIG_VIEW_CLASS}__label`;
+  caption.textContent = 'Custom alerts (optional)';
+
+  const list = document.createElement('ul');
+  list.className = `${CONFIG_VIEW_CLASS}__rule-list`;
+
+  const form = document.createElement('div');
+  form.className = `${CONFIG_VIEW_CLASS}__rule-form`;
+
+  const text = document.createElement('input');
+  text.type = 'text';
+  text.className = `${CONFIG_VIEW_CLASS}__rule-text`;
+  text.placeholder = `Due in ${DAYS_PLACEHOLDER}d`;
+  text.setAttribute('aria-label', 'Alert text');
+
+  const cell = buildRuleSelect('Show on', [
+    ['end', 'End'],
+    ['start', 'Start'],
+  ]);
+  const startCondition = buildConditionEditor('start', 'Start');
+  const endCondition = buildConditionEditor('end', 'End');
+
+  const statuses = document.createElement('span');
+  statuses.className = `${CONFIG_VIEW_CLASS}__rule-statuses`;
+  const statusBoxes = RULE_STATUSES.map(({ value, label }) => {
+    const option = document.createElement('label');
+    const box = document.createElement('input');
+    box.type = 'checkbox';
+    box.value = value;
+    box.className = `${CONFIG_VIEW_CLASS}__rule-status`;
+    option.append(box, ` ${label}`);
+    statuses.appendChild(option);
+    return box;
+  });
+
+  const level = buildRuleSelect('Level', RULE_LEVELS);
+  const priority = buildRuleNumber('Priority', 'rule-priority');
+
+  const addButton = document.createElement('button');
+  addButton.type = 'button';
+  addButton.className = `${CONFIG_VIEW_CLASS}__rule-add`;
+
+  const cancelEditButton = document.createElement('button');
+  cancelEditButton.type = 'button';
+  cancelEditButton.className = `${CONFIG_VIEW_CLASS}__rule-cancel`;
+  cancelEditButton.textContent = 'Cancel edit';
+  cancelEditButton.addEventListener('click', () => reset());
+
+  form.append(
+    text,
+    cell.wrapper,
+    startCondition.wrapper,
+    endCondition.wrapper,
+    statuses,
+    level.wrapper,
+    priority.wrapper,
+    addButton,
+    cancelEditButton,
+  );
+  wrapper.append(caption, list, form);
+
+  let editing: AlertId | null = null;
+
+  function setEditing(id: AlertId | null): void {
+    editing = id;
+    addButton.textContent = id ? 'Update alert' : 'Add alert';
+    cancelEditButton.hidden = !id;
+  }
+
+  function reset(): void {
+    text.value = '';
+    cell.select.value = 'end';
+    startCondition.clear('any');
+    endCondition.clear('range');
+    for (const box of statusBoxes) box.checked = box.value === 'todo' || box.value === 'inProgress';
+    level.select.value = 'caution';
+    priority.input.value = String(DEFAULT_RULE_PRIORITY);
+    setEditing(null);
+  }
+
+  function edit(rule: AlertRule): void {
+    text.value = rule.text;
+    cell.select.value = rule.cell;
+    startCondition.set(rule.start);
+    endCondition.set(rule.end);
+    for (const box of statusBoxes) box.checked = rule.statuses.includes(box.value as StatusCategory);
+    level.select.value = rule.level;
+    priority.input.value = String(rule.priority);
+    setEditing(rule.id);
+  }
+
+  function read(id: AlertId): AlertRule | string {
+    const ruleText = text.value.trim();
+    if (!ruleText) return 'Enter the alert text.';
+
+    const selectedStatuses = statusBoxes.filter((box) => box.checked).map((box) => box.value as StatusCategory);
+    if (selectedStatuses.length === 0) return 'Select at least one status for the alert.';
+
+    const start = startCondition.read();
+    if (typeof start === 'string') return start;
+    const end = endCondition.read();
+    if (typeof end === 'string') return end;
+
+    const rulePriority = parseOptionalInteger(priority.input.value);
+    if (rulePriority === null) return 'Priority must be a whole number.';
+
+    return {
+      id,
+      cell: cell.select.value === 'start' ? 'start' : 'end',
+      statuses: selectedStatuses,
+      ...(start ? { start } : {}),
+      ...(end ? { end } : {}),
+      text: ruleText,
+      level: RULE_LEVELS.find(([value]) => value === level.select.value)?.[0] ?? 'caution',
+      priority: rulePriority ?? DEFAULT_RULE_PRIORITY,
+    };
+  }
+
+  reset();
+  return { wrapper, list, addButton, read, editingId: () => editing, edit, reset };
+}
+
+function buildRuleSelect(label: string, options: Array<[string, string]>): BuiltSelect {
+  const wrapper = document.createElement('label');
+  wrapper.className = `${CONFIG_VIEW_CLASS}__rule-field`;
+  const select = document.createElement('select');
+  select.className = `${CONFIG_VIEW_CLASS}__rule-select`;
+  for (const [value, text] of options) {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = text;
+    select.appendChild(option);
+  }
+  wrapper.append(`${label} `, select);
+  return { wrapper, select };
+}
+
+function buildRuleNumber(label: string, modifier: string): { wrapper: HTMLElement; input: HTMLInputElement } {
+  const wrapper = document.createElement('label');
+  wrapper.className = `${CONFIG_VIEW_CLASS}__rule-field`;
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.step = '1';
+  input.className = `${CONFIG_VIEW_CLASS}__rule-number ${CONFIG_VIEW_CLASS}__${modifier}`;
+  wrapper.append(`${label} `, input);
+  return { wrapper, input };
+}
+
+/** Undefined for a blank value, null when not a whole number. */
+function parseOptionalInteger(value: string): number | undefined | null {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+/** Next free "custom-N" id. */
+export function nextRuleId(rules: AlertRule[]): CustomAlertId {
+  const used = rules
+    .map((rule) => rule.id.match(/^custom-(\d+)$/)?.[1])
+    .filter((n): n is string => n !== undefined)
+    .map(Number);
+  return `custom-${Math.max(0, ...used) + 1}`;
+}
+
+/**
+ * One-line summary of a rule, e.g.
+ * `"Due in {days}d" on End · End 0…2d from today · Todo, In Progress · caution, priority 30`.
+ */
+export function describeRule(rule: AlertRule): string {
+  const statuses = RULE_STATUSES.filter(({ value }) => rule.statuses.includes(value)).map(({ label }) => label);
+  const conditions = [
+    rule.start ? `Start ${describeCondition(rule.start)}` : null,
+    rule.end ? `End ${describeCondition(rule.end)}` : null,
+  ].filter((condition): condition is string => condition !== null);
+  return [
+    `"${rule.text}" on ${rule.cell === 'start' ? 'Start' : 'End'}`,
+    conditions.length > 0 ? conditions.join(', ') : 'any dates',
+    statuses.join(', '),
+    `${rule.level === 'age' ? 'by Age thresholds' : rule.level}, priority ${rule.priority}`,
+  ].join(' · ');
+}
+
+function describeCondition(condition: DateCondition): string {
+  if (condition.presence === 'missing') return 'is empty';
+  const { minOffset: min, maxOffset: max } = condition;
+  if (min !== undefined && max !== undefined) return `${min}…${max}d from today`;
+  if (min !== undefined) return `≥ ${min}d from today`;
+  if (max !== undefined) return `≤ ${max}d from today`;
+  return 'is set';
+}
+
 function getSelectedValues(select: HTMLSelectElement): string[] {
   return Array.from(select.selectedOptions).map((option) => option.value);
 }
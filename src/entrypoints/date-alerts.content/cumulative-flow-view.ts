@@ -0,0 +1,159 @@
+// Date Field Alerts - Cumulative Flow View
+// Responsibility: a collapsible panel above the list view drawing the
+// cumulative flow diagram as stacked SVG areas. Vanilla DOM, namespaced classes.
+
+import type { StatusCategory } from './types';
+import type { CumulativeFlow } from './cumulative-flow';
+import { FLOW_CATEGORIES } from './cumulative-flow';
+
+export const CUMULATIVE_FLOW_VIEW_CLASS = 'iplus-cfd';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 200;
+const PADDING = { top: 8, right: 12, bottom: 22, left: 36 };
+
+const CATEGORY_LABELS: Record<StatusCategory, string> = {
+  done: 'Done',
+  inProgress: 'In Progress',
+  todo: 'Todo',
+  unknown: 'Other',
+};
+
+/**
+ * Build the cumulative flow panel. Caller mounts it above the grid.
+ * @param expanded Open the panel right away
+ */
+export function createCumulativeFlowView(flow: CumulativeFlow, expanded = false): HTMLElement {
+  const container = document.createElement('div');
+  container.className = CUMULATIVE_FLOW_VIEW_CLASS;
+
+  // --- Summary bar ---
+  const bar = document.createElement('div');
+  bar.className = `${CUMULATIVE_FLOW_VIEW_CLASS}__bar`;
+
+  const title = document.createElement('span');
+  title.className = `${CUMULATIVE_FLOW_VIEW_CLASS}__title`;
+  title.textContent = 'Cumulative flow';
+
+  const toggleButton = document.createElement('button');
+  toggleButton.type = 'button';
+  toggleButton.className = `${CUMULATIVE_FLOW_VIEW_CLASS}__button`;
+  toggleButton.textContent = expanded ? 'Hide' : 'Show';
+
+  bar.append(title, toggleButton);
+
+  // --- Panel ---
+  const panel = document.createElement('div');
+  panel.className = `${CUMULATIVE_FLOW_VIEW_CLASS}__panel`;
+  panel.hidden = !expanded;
+
+  const hint = document.createElement('div');
+  hint.className = `${CUMULATIVE_FLOW_VIEW_CLASS}__hint`;
+  hint.textContent =
+    'Reconstructed from each item’s current Status and its Created, Start and Closed dates (items on the first page only).';
+
+  if (flow.dates.length < 2) {
+    const empty = document.createElement('div');
+    empty.className = `${CUMULATIVE_FLOW_VIEW_CLASS}__empty`;
+    empty.textContent = 'Not enough dated items to draw a cumulative flow yet.';
+    panel.append(empty, hint);
+  } else {
+    panel.append(buildChart(flow), buildLegend(flow), hint);
+  }
+
+  container.append(bar, panel);
+
+  toggleButton.addEventListener('click', () => {
+    panel.hidden = !panel.hidden;
+    toggleButton.textContent = panel.hidden ? 'Show' : 'Hide';
+  });
+
+  return container;
+}
+
+/** Draw the stacked areas, bottom category first, with a minimal axis. */
+function buildChart(flow: CumulativeFlow): SVGSVGElement {
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('class', `${CUMULATIVE_FLOW_VIEW_CLASS}__chart`);
+  svg.setAttribute('viewBox', `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`);
+  svg.setAttribute('role', 'img');
+  svg.setAttribute('aria-label', 'Cumulative flow diagram');
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const lastIndex = flow.dates.length - 1;
+  const totals = flow.dates.map((_, index) =>
+    FLOW_CATEGORIES.reduce((sum, category) => sum + (flow.counts[category][index] ?? 0), 0),
+  );
+  const maxTotal = Math.max(1, ...totals);
+
+  const toX = (index: number): number => PADDING.left + (index / lastIndex) * plotWidth;
+  const toY = (value: number): number => PADDING.top + plotHeight - (value / maxTotal) * plotHeight;
+
+  let lower = flow.dates.map(() => 0);
+  for (const category of FLOW_CATEGORIES) {
+    const upper = lower.map((base, index) => base + (flow.counts[category][index] ?? 0));
+    if (upper.some((value, index) => value !== lower[index])) {
+      const top = upper.map((value, index) => `${toX(index)},${toY(value)}`);
+      const bottom = lower.map((value, index) => `${toX(index)},${toY(value)}`).reverse();
+      const area = document.createElementNS(SVG_NS, 'polygon');
+      area.setAttribute('points', [...top, ...bottom].join(' '));
+      area.setAttribute('class', `${CUMULATIVE_FLOW_VIEW_CLASS}__area ${CUMULATIVE_FLOW_VIEW_CLASS}__area--${category}`);
+      area.setAttribute('data-category', category);
+      svg.appendChild(area);
+    }
+    lower = upper;
+  }
+
+  const axis = document.createElementNS(SVG_NS, 'line');
+  axis.setAttribute('x1', String(PADDING.left));
+  axis.setAttribute('y1', String(PADDING.top + plotHeight));
+  axis.setAttribute('x2', String(PADDING.left + plotWidth));
+  axis.setAttribute('y2', String(PADDING.top + plotHeight));
+  axis.setAttribute('class', `${CUMULATIVE_FLOW_VIEW_CLASS}__axis`);
+  svg.appendChild(axis);
+
+  svg.append(
+    createText(String(maxTotal), PADDING.left - 6, PADDING.top + 10, 'end'),
+    createText('0', PADDING.left - 6, PADDING.top + plotHeight, 'end'),
+    createText(flow.dates[0] ?? '', PADDING.left, CHART_HEIGHT - 6, 'start'),
+    createText(flow.dates[lastIndex] ?? '', PADDING.left + plotWidth, CHART_HEIGHT - 6, 'end'),
+  );
+
+  return svg;
+}
+
+/** Legend with each category's count today. */
+function buildLegend(flow: CumulativeFlow): HTMLElement {
+  const legend = document.createElement('div');
+  legend.className = `${CUMULATIVE_FLOW_VIEW_CLASS}__legend`;
+  const lastIndex = flow.dates.length - 1;
+
+  // Top of the stack first, matching the visual order of the areas
+  for (const category of [...FLOW_CATEGORIES].reverse()) {
+    const count = flow.counts[category][lastIndex] ?? 0;
+    if (category === 'unknown' && count === 0) continue;
+
+    const item = document.createElement('span');
+    item.className = `${CUMULATIVE_FLOW_VIEW_CLASS}__legend-item`;
+
+    const swatch = document.createElement('span');
+    swatch.className = `${CUMULATIVE_FLOW_VIEW_CLASS}__swatch ${CUMULATIVE_FLOW_VIEW_CLASS}__swatch--${category}`;
+
+    item.append(swatch, `${CATEGORY_LABELS[category]} ${count}`);
+    legend.appendChild(item);
+  }
+
+  return legend;
+}
+
+function createText(text: string, x: number, y: number, anchor: 'start' | 'end'): SVGTextElement {
+  const el = document.createElementNS(SVG_NS, 'text');
+  el.setAttribute('x', String(x));
+  el.setAttribute('y', String(y));
+  el.setAttribute('text-anchor', anchor);
+  el.setAttribute('class', `${CUMULATIVE_FLOW_VIEW_CLASS}__label`);
+  el.textContent = text;
+  return el;
+}
@@ -0,0 +1,130 @@
+// Date Field Alerts - Cumulative Flow
+// Responsibility: reconstruct how many items were in each Status category per
+// day, for the cumulative flow diagram.
+//
+// The embedded memex data has no status history, only each item's current
+// Status and its Created/Updated/Closed dates (plus the mapped Start field when
+// configured). Each item is therefore replayed along the todo -> inProgress ->
+// done path up to its current category:
+// - it enters 'todo' on its Created date,
+// - it enters 'inProgress' on its Start date (or its Updated date when it is
+//   in progress now and has no Start date),
+// - it enters 'done' on its Closed date (or its Updated date when it was
+//   closed without one, e.g. done by Status only).
+// Items whose Status is unrecognized stay in 'unknown' from their Created date.
+
+import type { ItemFieldData, ItemLifecycleDates, StatusCategory } from './types';
+import { addDays, diffInDays } from './date-utils';
+
+/** Stacking order, bottom to top: finished work settles at the bottom of the diagram. */
+export const FLOW_CATEGORIES: StatusCategory[] = ['done', 'inProgress', 'todo', 'unknown'];
+
+/** How far back the diagram reaches, so very old projects stay readable. */
+export const MAX_FLOW_DAYS = 180;
+
+/** One item, reduced to what the reconstruction needs. */
+export interface FlowItem {
+  category: StatusCategory;
+  lifecycle: ItemLifecycleDates;
+  /** Mapped Start field value, when a mapping is configured. */
+  startDate: string | null;
+}
+
+/** Daily item counts per category, oldest day first. */
+export interface CumulativeFlow {
+  dates: string[];
+  counts: Record<StatusCategory, number[]>;
+}
+
+interface Transition {
+  date: string;
+  category: StatusCategory;
+}
+
+/** Combine resolved field values and lifecycle dates into flow items. */
+export function toFlowItems(
+  items: Map<number, ItemFieldData>,
+  lifecycles: Map<number, ItemLifecycleDates>,
+  resolveCategory: (item: ItemFieldData) => StatusCategory,
+): FlowItem[] {
+  const result: FlowItem[] = [];
+  for (const [contentId, item] of items) {
+    const lifecycle = lifecycles.get(contentId);
+    if (!lifecycle) continue;
+    result.push({ category: resolveCategory(item), lifecycle, startDate: item.startDate });
+  }
+  return result;
+}
+
+/**
+ * The category changes of one item, in date order.
+ * Returns an empty list when the item has no date to anchor it.
+ */
+export function getTransitions(item: FlowItem): Transition[] {
+  const { createdDate, updatedDate, closedDate } = item.lifecycle;
+  const enteredDate = createdDate ?? item.startDate ?? updatedDate ?? closedDate;
+  if (!enteredDate) return [];
+
+  if (item.category === 'unknown') return [{ date: enteredDate, category: 'unknown' }];
+
+  const transitions: Transition[] = [{ date: enteredDate, category: 'todo' }];
+  // Clamp each step to the previous one so a stale or inconsistent date never
+  // moves an item backwards in the flow.
+  const push = (date: string | null, category: StatusCategory): void => {
+    const previous = transitions[transitions.length - 1];
+    if (!date || !previous) return;
+    transitions.push({ date: (diffInDays(date, previous.date) ?? 0) < 0 ? previous.date : date, category });
+  };
+
+  if (item.category === 'inProgress') {
+    push(item.startDate ?? updatedDate, 'inProgress');
+  } else if (item.category === 'done') {
+    const doneDate = closedDate ?? updatedDate ?? enteredDate;
+    if (item.startDate && (diffInDays(item.startDate, doneDate) ?? 0) < 0) {
+      push(item.startDate, 'inProgress');
+    }
+    push(doneDate, 'done');
+  }
+
+  return transitions;
+}
+
+/**
+ * Count items per category for every day from the earliest item date (at most
+ * MAX_FLOW_DAYS back) through today.
+ */
+export function buildCumulativeFlow(items: FlowItem[], today: string, maxDays: number = MAX_FLOW_DAYS): CumulativeFlow {
+  const transitionsByItem = items.map(getTransitions).filter((transitions) => transitions.length > 0);
+
+  const earliest = transitionsByItem
+    .map((transitions) => transitions[0]?.date ?? today)
+    .reduce((min, date) => ((diffInDays(date, min) ?? 0) < 0 ? date : min), today);
+  const span = Math.min(maxDays, Math.max(0, diffInDays(today, earliest) ?? 0));
+
+  const dates: string[] = [];
+  for (let offset = span; offset >= 0; offset--) {
+    const date = addDays(today, -offset);
+    if (date) dates.push(date);
+  }
+
+  const counts = {} as Record<StatusCategory, number[]>;
+  for (const category of FLOW_CATEGORIES) {
+    counts[category] = dates.map(() => 0);
+  }
+
+  for (const transitions of transitionsByItem) {
+    dates.forEach((date, index) => {
+      let current: StatusCategory | null = null;
+      for (const transition of transitions) {
+        if ((diffInDays(transition.date, date) ?? 1) > 0) break;
+        current = transition.category;
+      }
+      if (current) {
+        const series = counts[current];
+        series[index] = (series[index] ?? 0) + 1;
+      }
+    });
+  }
+
+  return { dates, counts };
+}
@@ -0,0 +1,197 @@
+// Date Field Alerts - Cycle Time View
+// Responsibility: a collapsible panel above the list view with the cycle time
+// scatter plot (one dot per completed item, percentile lines) and histogram.
+// Vanilla DOM, namespaced classes.
+
+import type { CycleTimeReport, Percentiles } from './cycle-time';
+import { CYCLE_TIME_PERCENTILES } from './cycle-time';
+import { diffInDays } from './date-utils';
+
+export const CYCLE_TIME_VIEW_CLASS = 'iplus-cycle-time';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CHART_WIDTH = 720;
+const SCATTER_HEIGHT = 200;
+const HISTOGRAM_HEIGHT = 120;
+const PADDING = { top: 8, right: 48, bottom: 22, left: 36 };
+
+/**
+ * Build the cycle time panel. Caller mounts it above the grid.
+ * @param expanded Open the panel right away unless there is nothing to show
+ */
+export function createCycleTimeView(report: CycleTimeReport, expanded = false): HTMLElement {
+  const container = document.createElement('div');
+  container.className = CYCLE_TIME_VIEW_CLASS;
+
+  // --- Summary bar ---
+  const bar = document.createElement('div');
+  bar.className = `${CYCLE_TIME_VIEW_CLASS}__bar`;
+
+  const summary = document.createElement('span');
+  summary.className = `${CYCLE_TIME_VIEW_CLASS}__summary`;
+  summary.textContent = summaryText(report);
+
+  const toggleButton = document.createElement('button');
+  toggleButton.type = 'button';
+  toggleButton.className = `${CYCLE_TIME_VIEW_CLASS}__button`;
+  toggleButton.disabled = report.samples.length === 0;
+  const open = expanded && !toggleButton.disabled;
+  toggleButton.textContent = open ? 'Hide' : 'Show';
+
+  bar.append(summary, toggleButton);
+
+  // --- Panel ---
+  const panel = document.createElement('div');
+  panel.className = `${CYCLE_TIME_VIEW_CLASS}__panel`;
+  panel.hidden = !open;
+
+  if (report.samples.length > 0 && report.percentiles) {
+    panel.append(buildScatter(report, report.percentiles), buildHistogram(report));
+  }
+
+  const hint = document.createElement('div');
+  hint.className = `${CYCLE_TIME_VIEW_CLASS}__hint`;
+  hint.textContent = hintText(report);
+  panel.appendChild(hint);
+
+  container.append(bar, panel);
+
+  toggleButton.addEventListener('click', () => {
+    panel.hidden = !panel.hidden;
+    toggleButton.textContent = panel.hidden ? 'Show' : 'Hide';
+  });
+
+  return container;
+}
+
+function summaryText(report: CycleTimeReport): string {
+  if (!report.percentiles) return 'Cycle time: no completed items with Start and End dates';
+  const { p50, p85, p95 } = report.percentiles;
+  const items = `${report.samples.length} completed item${report.samples.length === 1 ? '' : 's'}`;
+  return `Cycle time (${items}): 50% ≤ ${p50}d · 85% ≤ ${p85}d · 95% ≤ ${p95}d`;
+}
+
+function hintText(report: CycleTimeReport): string {
+  const parts = ['Cycle time is End minus Start of each Done item (items on the first page only).'];
+  if (report.leadPercentiles) {
+    const { p50, p85, p95 } = report.leadPercentiles;
+    parts.push(`Lead time (End minus Created): 50% ≤ ${p50}d · 85% ≤ ${p85}d · 95% ≤ ${p95}d.`);
+  }
+  if (report.skipped > 0) {
+    const items = report.skipped === 1 ? '1 Done item was' : `${report.skipped} Done items were`;
+    parts.push(`${items} skipped for a missing or inverted Start/End date.`);
+  }
+  return parts.join(' ');
+}
+
+/** Scatter plot: End date on X, cycle time on Y, with one line per percentile. */
+function buildScatter(report: CycleTimeReport, percentiles: Percentiles): SVGSVGElement {
+  const svg = createSvg(SCATTER_HEIGHT, 'Cycle time scatter plot');
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = SCATTER_HEIGHT - PADDING.top - PADDING.bottom;
+
+  const firstEnd = report.samples[0]?.endDate ?? null;
+  const lastEnd = report.samples[report.samples.length - 1]?.endDate ?? null;
+  const spanDays = Math.max(1, diffInDays(lastEnd, firstEnd) ?? 0);
+  const maxDays = Math.max(1, ...report.samples.map((sample) => sample.days));
+
+  // Single-day ranges center their dots instead of pinning them to the left edge
+  const toX = (date: string): number => {
+    const offset = diffInDays(date, firstEnd);
+    if (offset === null || lastEnd === firstEnd) return PADDING.left + plotWidth / 2;
+    return PADDING.left + (offset / spanDays) * plotWidth;
+  };
+  const toY = (days: number): number => PADDING.top + plotHeight - (days / maxDays) * plotHeight;
+
+  for (const level of CYCLE_TIME_PERCENTILES) {
+    const value = percentiles[`p${level}`];
+    const y = toY(value);
+    const className = `${CYCLE_TIME_VIEW_CLASS}__percentile ${CYCLE_TIME_VIEW_CLASS}__percentile--p${level}`;
+    svg.appendChild(createLine(PADDING.left, y, PADDING.left + plotWidth, y, className));
+    svg.appendChild(createText(`${level}%: ${value}d`, PADDING.left + plotWidth + 4, y + 3, 'start'));
+  }
+
+  for (const sample of report.samples) {
+    const dot = document.createElementNS(SVG_NS, 'circle');
+    dot.setAttribute('cx', String(toX(sample.endDate)));
+    dot.setAttribute('cy', String(toY(sample.days)));
+    dot.setAttribute('r', '3.5');
+    dot.setAttribute('class', `${CYCLE_TIME_VIEW_CLASS}__dot`);
+    const title = document.createElementNS(SVG_NS, 'title');
+    title.textContent = `${sample.startDate} → ${sample.endDate}: ${sample.days}d`;
+    dot.appendChild(title);
+    svg.appendChild(dot);
+  }
+
+  const axisY = PADDING.top + plotHeight;
+  svg.append(
+    createLine(PADDING.left, axisY, PADDING.left + plotWidth, axisY, `${CYCLE_TIME_VIEW_CLASS}__axis`),
+    createText(`${maxDays}d`, PADDING.left - 6, PADDING.top + 10, 'end'),
+    createText('0d', PADDING.left - 6, PADDING.top + plotHeight, 'end'),
+    createText(firstEnd ?? '', PADDING.left, SCATTER_HEIGHT - 6, 'start'),
+    createText(lastEnd ?? '', PADDING.left + plotWidth, SCATTER_HEIGHT - 6, 'end'),
+  );
+
+  return svg;
+}
+
+/** Histogram: item count per cycle time bin. */
+function buildHistogram(report: CycleTimeReport): SVGSVGElement {
+  const svg = createSvg(HISTOGRAM_HEIGHT, 'Cycle time histogram');
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HISTOGRAM_HEIGHT - PADDING.top - PADDING.bottom;
+  const maxCount = Math.max(1, ...report.histogram.map((bin) => bin.count));
+  const barWidth = plotWidth / Math.max(1, report.histogram.length);
+
+  report.histogram.forEach((bin, index) => {
+    const height = (bin.count / maxCount) * plotHeight;
+    const x = PADDING.left + index * barWidth;
+    const rect = document.createElementNS(SVG_NS, 'rect');
+    rect.setAttribute('x', String(x + 1));
+    rect.setAttribute('y', String(PADDING.top + plotHeight - height));
+    rect.setAttribute('width', String(Math.max(1, barWidth - 2)));
+    rect.setAttribute('height', String(height));
+    rect.setAttribute('class', `${CYCLE_TIME_VIEW_CLASS}__bar-rect`);
+    rect.setAttribute('data-count', String(bin.count));
+    svg.appendChild(rect);
+
+    const label = bin.from === bin.to ? `${bin.from}d` : `${bin.from}–${bin.to}d`;
+    svg.appendChild(createText(label, x + barWidth / 2, HISTOGRAM_HEIGHT - 6, 'middle'));
+  });
+
+  svg.append(
+    createText(String(maxCount), PADDING.left - 6, PADDING.top + 10, 'end'),
+    createText('0', PADDING.left - 6, PADDING.top + plotHeight, 'end'),
+  );
+
+  return svg;
+}
+
+function createSvg(height: number, label: string): SVGSVGElement {
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('class', `${CYCLE_TIME_VIEW_CLASS}__chart`);
+  svg.setAttribute('viewBox', `0 0 ${CHART_WIDTH} ${height}`);
+  svg.setAttribute('role', 'img');
+  svg.setAttribute('aria-label', label);
+  return svg;
+}
+
+function createLine(x1: number, y1: number, x2: number, y2: number, className: string): SVGLineElement {
+  const line = document.createElementNS(SVG_NS, 'line');
+  line.setAttribute('x1', String(x1));
+  line.setAttribute('y1', String(y1));
+  line.setAttribute('x2', String(x2));
+  line.setAttribute('y2', String(y2));
+  line.setAttribute('class', className);
+  return line;
+}
+
+function createText(text: string, x: number, y: number, anchor: 'start' | 'middle' | 'end'): SVGTextElement {
+  const el = document.createElementNS(SVG_NS, 'text');
+  el.setAttribute('x', String(x));
+  el.setAttribute('y', String(y));
+  el.setAttribute('text-anchor', anchor);
+  el.setAttribute('class', `${CYCLE_TIME_VIEW_CLASS}__label`);
+  el.textContent = text;
+  return el;
+}
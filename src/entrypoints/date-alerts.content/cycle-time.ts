@@ -0,0 +1,134 @@
+// Date Field Alerts - Cycle Time
+// Responsibility: pure cycle time / lead time statistics for completed items.
+//
+// Cycle time is End minus Start (the mapped date fields) of every item whose
+// Status resolves to 'done'; lead time is End minus Created when the built-in
+// Created field is available. Both are whole days, counted like Age (a
+// same-day item is 0d). Items with a missing or inverted date pair are left out
+// of the statistics and only counted as skipped.
+
+import type { ItemFieldData, ItemLifecycleDates, StatusCategory } from './types';
+import { diffInDays } from './date-utils';
+
+/** Percentile levels shown as lines on the scatter plot. */
+export const CYCLE_TIME_PERCENTILES = [50, 85, 95] as const;
+
+const MAX_HISTOGRAM_BINS = 10;
+
+export interface CycleTimeSample {
+  contentId: number;
+  startDate: string;
+  endDate: string;
+  /** End minus Start, in days. */
+  days: number;
+  /** End minus Created, in days, or null when Created is unavailable. */
+  leadDays: number | null;
+}
+
+export interface Percentiles {
+  p50: number;
+  p85: number;
+  p95: number;
+}
+
+export interface HistogramBin {
+  /** Inclusive lower bound, in days. */
+  from: number;
+  /** Inclusive upper bound, in days. */
+  to: number;
+  count: number;
+}
+
+export interface CycleTimeReport {
+  /** Completed items with a usable Start/End pair, ordered by End date. */
+  samples: CycleTimeSample[];
+  /** Cycle time percentiles, or null without samples. */
+  percentiles: Percentiles | null;
+  /** Lead time percentiles, or null when no sample has a Created date. */
+  leadPercentiles: Percentiles | null;
+  histogram: HistogramBin[];
+  /** Completed items left out for a missing or inverted Start/End pair. */
+  skipped: number;
+}
+
+/**
+ * Nearest-rank percentile ("p% of items finished within N days").
+ * `sorted` must be in ascending order; returns null when empty.
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1] ?? null;
+}
+
+function toPercentiles(values: number[]): Percentiles | null {
+  const sorted = [...values].sort((a, b) => a - b);
+  const [p50, p85, p95] = CYCLE_TIME_PERCENTILES.map((p) => percentile(sorted, p));
+  if (p50 == null || p85 == null || p95 == null) return null;
+  return { p50, p85, p95 };
+}
+
+/**
+ * Group cycle times into at most MAX_HISTOGRAM_BINS equal-width bins starting at 0.
+ * Bins are whole days wide, so short cycle times get one bin per day.
+ */
+export function buildHistogram(days: number[]): HistogramBin[] {
+  if (days.length === 0) return [];
+  const max = Math.max(...days);
+  const width = Math.max(1, Math.ceil((max + 1) / MAX_HISTOGRAM_BINS));
+  const binCount = Math.floor(max / width) + 1;
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    from: index * width,
+    to: index * width + width - 1,
+    count: 0,
+  }));
+  for (const value of days) {
+    const bin = bins[Math.floor(value / width)];
+    if (bin) bin.count++;
+  }
+  return bins;
+}
+
+/**
+ * Build the cycle time report from the resolved items of the current view.
+ * @param resolveCategory Status category of an item (see resolveStatusCategory)
+ * @param lifecycles Created/Updated/Closed dates by contentId, for lead time
+ */
+export function buildCycleTimeReport(
+  items: Iterable<ItemFieldData>,
+  resolveCategory: (item: ItemFieldData) => StatusCategory,
+  lifecycles: Map<number, ItemLifecycleDates> = new Map(),
+): CycleTimeReport {
+  const samples: CycleTimeSample[] = [];
+  let skipped = 0;
+
+  for (const item of items) {
+    if (resolveCategory(item) !== 'done') continue;
+
+    const days = diffInDays(item.endDate, item.startDate);
+    if (!item.startDate || !item.endDate || days === null || days < 0) {
+      skipped++;
+      continue;
+    }
+
+    const leadDays = diffInDays(item.endDate, lifecycles.get(item.contentId)?.createdDate ?? null);
+    samples.push({
+      contentId: item.contentId,
+      startDate: item.startDate,
+      endDate: item.endDate,
+      days,
+      leadDays: leadDays !== null && leadDays >= 0 ? leadDays : null,
+    });
+  }
+
+  samples.sort((a, b) => a.endDate.localeCompare(b.endDate));
+
+  return {
+    samples,
+    percentiles: toPercentiles(samples.map((sample) => sample.days)),
+    leadPercentiles: toPercentiles(samples.flatMap((sample) => (sample.leadDays === null ? [] : [sample.leadDays]))),
+    histogram: buildHistogram(samples.map((sample) => sample.days)),
+    skipped,
+  };
+}
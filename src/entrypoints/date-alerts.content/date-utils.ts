@@ -30,6 +30,16 @@ export function diffInDays(a: string | null, b: string | null): number | null {
   return Math.round((ta - tb) / 86_400_000);
 }
 
+/**
+ * Shift a date-only string by a number of days (negative to go back).
+ * Returns null if the input is invalid.
+ */
+export function addDays(value: string | null, days: number): string | null {
+  const t = dateOnlyToUtc(value);
+  if (t === null) return null;
+  return toDateOnly(new Date(t + days * 86_400_000));
+}
+
 /** Today's local date as a 'YYYY-MM-DD' string. */
 export function todayDateOnly(now: Date = new Date()): string {
   return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
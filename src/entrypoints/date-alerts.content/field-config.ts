@@ -3,17 +3,25 @@
 // chrome.storage.local using the spec's JSON shape.
 
 import type { DateFieldMapping } from './types';
+import { readValue, writeValue } from '../content/shared/storage';
 
 /** Single storage key holding a map of projectKey -> mapping. */
 export const DATE_FIELD_MAPPING_STORAGE_KEY = 'insights-plus-date-field-mappings';
 
 type MappingStore = Record<string, DateFieldMapping>;
 
+function isMappingStore(value: unknown): value is MappingStore {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+async function readStore(): Promise<MappingStore> {
+  return (await readValue(DATE_FIELD_MAPPING_STORAGE_KEY, isMappingStore)) ?? {};
+}
+
 /** Get the mapping for a project, or null when unset/invalid. */
 export async function getMapping(projectKey: string): Promise<DateFieldMapping | null> {
   try {
-    const result = await chrome.storage.local.get(DATE_FIELD_MAPPING_STORAGE_KEY);
-    const store = (result[DATE_FIELD_MAPPING_STORAGE_KEY] ?? {}) as MappingStore;
+    const store = await readStore();
     const mapping = store[projectKey];
     return isValidMapping(mapping) ? mapping : null;
   } catch (error) {
@@ -25,21 +33,37 @@ export async function getMapping(projectKey: string): Promise<DateFieldMapping |
 /** Save the mapping for a project. */
 export async function setMapping(projectKey: string, mapping: DateFieldMapping): Promise<void> {
   try {
-    const result = await chrome.storage.local.get(DATE_FIELD_MAPPING_STORAGE_KEY);
-    const store = (result[DATE_FIELD_MAPPING_STORAGE_KEY] ?? {}) as MappingStore;
+    const store = await readStore();
     store[projectKey] = {
       startFieldId: mapping.startFieldId,
       endFieldId: mapping.endFieldId,
       inProgressStatusIds: mapping.inProgressStatusIds ?? [],
       doneStatusIds: mapping.doneStatusIds ?? [],
+      ...(mapping.alertRules && mapping.alertRules.length > 0 ? { alertRules: mapping.alertRules } : {}),
+      ...(mapping.scheduleAlerts ? { scheduleAlerts: mapping.scheduleAlerts } : {}),
+      ...(mapping.disabledAlerts && mapping.disabledAlerts.length > 0 ? { disabledAlerts: mapping.disabledAlerts } : {}),
+      ...(mapping.ageThresholds ? { ageThresholds: mapping.ageThresholds } : {}),
     };
-    await chrome.storage.local.set({ [DATE_FIELD_MAPPING_STORAGE_KEY]: store });
+    await writeValue(DATE_FIELD_MAPPING_STORAGE_KEY, store);
   } catch (error) {
     console.error('[Date Field Alerts] Failed to save mapping:', error);
     throw error;
   }
 }
 
+/** Remove the mapping for a project (no-op when none is saved). */
+export async function removeMapping(projectKey: string): Promise<void> {
+  try {
+    const store = await readStore();
+    if (!(projectKey in store)) return;
+    delete store[projectKey];
+    await writeValue(DATE_FIELD_MAPPING_STORAGE_KEY, store);
+  } catch (error) {
+    console.error('[Date Field Alerts] Failed to remove mapping:', error);
+    throw error;
+  }
+}
+
 /** True when a storage change event touches this feature's key. */
 export function isMappingChange(changes: Record<string, chrome.storage.StorageChange>): boolean {
   return Object.prototype.hasOwnProperty.call(changes, DATE_FIELD_MAPPING_STORAGE_KEY);
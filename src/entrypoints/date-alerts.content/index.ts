@@ -10,26 +10,37 @@ import { readMemexData } from './memex-data';
 import { getMapping, setMapping, isMappingChange, isValidMapping } from './field-config';
 import { guessMapping } from './field-guesser';
 import { resolveStatusCategory } from './status-classifier';
-import { evaluateItem } from './alert-evaluator';
+import { evaluateItem, resolveAgeThresholds } from './alert-evaluator';
+import { getAlertRules } from './alert-rules';
+import type { AgeThresholds } from './alert-evaluator';
 import { todayDateOnly } from './date-utils';
 import { createConfigView, CONFIG_VIEW_CLASS } from './config-view';
+import { buildCumulativeFlow, toFlowItems } from './cumulative-flow';
+import { createCumulativeFlowView, CUMULATIVE_FLOW_VIEW_CLASS } from './cumulative-flow-view';
+import { buildCycleTimeReport } from './cycle-time';
+import { createCycleTimeView, CYCLE_TIME_VIEW_CLASS } from './cycle-time-view';
+import { buildAgingWip } from './aging-wip';
+import { createAgingWipView, AGING_WIP_VIEW_CLASS, AGING_ROW_HIGHLIGHT_CLASS } from './aging-wip-view';
 import { applyAlert, removeAllAnnotations } from './cell-annotator';
 import {
   getGrid,
   getTableRoot,
   getDataRows,
   getRowContentId,
+  findRowByContentId,
   getColumnIndex,
   getCellAt,
   filterFieldsVisibleAsColumns,
 } from './table-scraper';
-import type { DateFieldMapping, DateFieldOption, StatusMapping } from './types';
+import { getGlobalDefaults, isGlobalDefaultsChange } from '../content/shared/global-defaults';
+import type { DateFieldMapping, DateFieldOption, ItemFieldData, StatusMapping } from './types';
 import './style.css';
 
 const LOG_PREFIX = '[Date Field Alerts]';
 const GRID_POLL_INTERVAL_MS = 500;
 const GRID_POLL_MAX_ATTEMPTS = 30;
 const ANNOTATE_DEBOUNCE_MS = 150;
+const ROW_HIGHLIGHT_MS = 2000;
 
 export default defineContentScript({
   matches: PROJECT_URL_PATTERNS,
@@ -48,6 +59,9 @@ export default defineContentScript({
         annotateTimer = null;
       }
       document.querySelector(`.${CONFIG_VIEW_CLASS}`)?.remove();
+      document.querySelector(`.${CUMULATIVE_FLOW_VIEW_CLASS}`)?.remove();
+      document.querySelector(`.${CYCLE_TIME_VIEW_CLASS}`)?.remove();
+      document.querySelector(`.${AGING_WIP_VIEW_CLASS}`)?.remove();
       removeAllAnnotations();
     }
 
@@ -70,6 +84,9 @@ export default defineContentScript({
       if (!key) return;
 
       const mapping = await getMapping(key);
+      const { ageThresholds: globalAgeThresholds } = await getGlobalDefaults();
+      // A project's own thresholds win over the global ones from the options page.
+      const ageThresholds = resolveAgeThresholds(mapping, globalAgeThresholds);
       // Read field metadata first (needed by the config view even when unmapped).
       const metaOnly = readMemexData(null, null);
       if (!metaOnly) {
@@ -82,14 +99,15 @@ export default defineContentScript({
       // exist on the project without being added here, and picking one would
       // save but never find a cell to annotate.
       const dateFields = filterFieldsVisibleAsColumns(grid, metaOnly.dateFields);
-      mountConfigView(tableRoot, key, dateFields, metaOnly.statusOptionList, mapping);
+      mountConfigView(tableRoot, key, dateFields, metaOnly.statusOptionList, mapping, globalAgeThresholds);
 
-      if (isValidMapping(mapping)) {
-        renderAlerts(grid, mapping);
-        observeGrid(grid, mapping, () => token === initToken);
-      } else {
-        removeAllAnnotations();
-      }
+      // The reports are rebuilt with the alerts so they follow the same grid updates.
+      const render = (): void => {
+        renderReportViews(tableRoot, grid, mapping);
+        if (isValidMapping(mapping)) renderAlerts(grid, mapping, ageThresholds);
+      };
+      render();
+      observeGrid(grid, render, () => token === initToken);
     }
 
     function mountConfigView(
@@ -98,19 +116,82 @@ export default defineContentScript({
       dateFields: DateFieldOption[],
       statusOptions: DateFieldOption[],
       mapping: DateFieldMapping | null,
+      defaultAgeThresholds: AgeThresholds,
     ): void {
       const view = createConfigView({
         dateFields,
         currentMapping: mapping,
         guessedMapping: guessMapping(dateFields),
         statusOptions,
+        defaultAgeThresholds,
         onSave: (next) => setMapping(key, next),
       });
 
       anchor.parentElement?.insertBefore(view, anchor);
     }
 
-    function renderAlerts(grid: HTMLElement, mapping: DateFieldMapping): void {
+    function renderReportViews(anchor: HTMLElement, grid: HTMLElement, mapping: DateFieldMapping | null): void {
+      // With a mapping, the Start/End fields tell when items started and finished.
+      const hasMapping = isValidMapping(mapping);
+      const data = hasMapping
+        ? readMemexData(mapping.startFieldId, mapping.endFieldId)
+        : readMemexData(null, null);
+      if (!data) return;
+
+      const statusMapping: StatusMapping = {
+        inProgressStatusIds: mapping?.inProgressStatusIds,
+        doneStatusIds: mapping?.doneStatusIds,
+      };
+      const resolveCategory = (item: ItemFieldData) =>
+        resolveStatusCategory(item.statusId, item.statusName, statusMapping);
+
+      const flowItems = toFlowItems(data.itemsByContentId, data.lifecycleByContentId, resolveCategory);
+      const flow = buildCumulativeFlow(flowItems, todayDateOnly());
+      mountReportView(anchor, CUMULATIVE_FLOW_VIEW_CLASS, (expanded) => createCumulativeFlowView(flow, expanded));
+
+      // Cycle time and aging need Start/End, so they only appear once the fields are mapped.
+      if (hasMapping) {
+        const report = buildCycleTimeReport(data.itemsByContentId.values(), resolveCategory, data.lifecycleByContentId);
+        mountReportView(anchor, CYCLE_TIME_VIEW_CLASS, (expanded) => createCycleTimeView(report, expanded));
+
+        const aging = buildAgingWip(
+          data.itemsByContentId.values(),
+          data.statusOptionList,
+          resolveCategory,
+          todayDateOnly(),
+          report.percentiles,
+        );
+        const onSelect = (contentId: number) => scrollToRow(grid, contentId);
+        mountReportView(anchor, AGING_WIP_VIEW_CLASS, (expanded) => createAgingWipView({ aging, onSelect, expanded }));
+      }
+    }
+
+    /** Replace a report in place, keeping its panel open if the user had expanded it. */
+    function mountReportView(
+      anchor: HTMLElement,
+      viewClass: string,
+      create: (expanded: boolean) => HTMLElement,
+    ): void {
+      const existing = document.querySelector(`.${viewClass}`);
+      const expanded = existing?.querySelector<HTMLElement>(`.${viewClass}__panel`)?.hidden === false;
+      const view = create(expanded);
+      if (existing) {
+        existing.replaceWith(view);
+      } else {
+        anchor.parentElement?.insertBefore(view, anchor);
+      }
+    }
+
+    function scrollToRow(grid: HTMLElement, contentId: number): boolean {
+      const row = findRowByContentId(grid, contentId);
+      if (!row) return false;
+      row.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      row.classList.add(AGING_ROW_HIGHLIGHT_CLASS);
+      setTimeout(() => row.classList.remove(AGING_ROW_HIGHLIGHT_CLASS), ROW_HIGHLIGHT_MS);
+      return true;
+    }
+
+    function renderAlerts(grid: HTMLElement, mapping: DateFieldMapping, ageThresholds: AgeThresholds): void {
       // Re-read item values (fresh columns/items snapshot) and column positions.
       const data = readMemexData(mapping.startFieldId, mapping.endFieldId);
       if (!data) return;
@@ -120,6 +201,7 @@ export default defineContentScript({
       const startCol = startName ? getColumnIndex(grid, startName) : -1;
       const endCol = endName ? getColumnIndex(grid, endName) : -1;
       const today = todayDateOnly();
+      const rules = getAlertRules(mapping);
       // Pass ids through as-is (not defaulted to []) — resolveStatusCategory
       // needs to tell "never configured" (undefined) apart from "configured
       // with nothing selected" (defined, empty).
@@ -132,7 +214,13 @@ export default defineContentScript({
         const contentId = getRowContentId(row);
         const item = contentId != null ? data.itemsByContentId.get(contentId) : undefined;
         const result = item
-          ? evaluateItem(item, resolveStatusCategory(item.statusId, item.statusName, statusMapping), today)
+          ? evaluateItem(
+              item,
+              resolveStatusCategory(item.statusId, item.statusName, statusMapping),
+              today,
+              ageThresholds,
+              rules,
+            )
           : { start: null, end: null };
 
         if (startCol >= 0) {
@@ -146,7 +234,7 @@ export default defineContentScript({
       }
     }
 
-    function observeGrid(grid: HTMLElement, mapping: DateFieldMapping, isCurrent: () => boolean): void {
+    function observeGrid(grid: HTMLElement, render: () => void, isCurrent: () => boolean): void {
       gridObserver = new MutationObserver(() => {
         if (annotateTimer) clearTimeout(annotateTimer);
         annotateTimer = setTimeout(() => {
@@ -154,7 +242,7 @@ export default defineContentScript({
           if (!isCurrent()) return;
           // Detach while we mutate so our own annotations don't retrigger us.
           gridObserver?.disconnect();
-          renderAlerts(grid, mapping);
+          render();
           gridObserver?.observe(grid, { childList: true, subtree: true });
         }, ANNOTATE_DEBOUNCE_MS);
       });
@@ -193,9 +281,11 @@ export default defineContentScript({
       }
     }).observe(document.body, { childList: true, subtree: true });
 
-    // Re-render when the mapping is changed from the config view (or another tab).
+    // Re-render when the mapping (including its alert toggles and Age thresholds)
+    // is changed from the config view (or another tab), or when the global Age
+    // thresholds are changed on the options page.
     chrome.storage.onChanged.addListener((changes, areaName) => {
-      if (areaName === 'local' && isMappingChange(changes)) {
+      if (areaName === 'local' && (isMappingChange(changes) || isGlobalDefaultsChange(changes))) {
         boot();
       }
     });
@@ -15,7 +15,7 @@
 // absent. Field value reading is kept behind this module so it can later be
 // swapped for a live DOM reader.
 
-import type { DateFieldOption, ItemFieldData } from './types';
+import type { DateFieldOption, ItemFieldData, ItemLifecycleDates } from './types';
 import { toDateOnly } from './date-utils';
 
 const COLUMNS_SCRIPT_ID = 'memex-columns-data';
@@ -50,6 +50,8 @@ export interface MemexData {
   statusOptionList: DateFieldOption[];
   /** contentId -> resolved values for the configured start/end/status fields. */
   itemsByContentId: Map<number, ItemFieldData>;
+  /** contentId -> built-in Created/Updated/Closed dates. */
+  lifecycleByContentId: Map<number, ItemLifecycleDates>;
   /** Raw columns, exposed for callers that need field names by id. */
   columns: MemexColumn[];
 }
@@ -127,6 +129,35 @@ export function extractItems(
   return result;
 }
 
+/**
+ * Resolve per-item Created/Updated/Closed dates keyed by contentId.
+ * The built-in fields are located by dataType, so renamed columns still resolve.
+ */
+export function extractLifecycleDates(
+  nodes: MemexNode[],
+  columns: MemexColumn[],
+): Map<number, ItemLifecycleDates> {
+  const fieldIdOf = (dataType: string): string | null => {
+    const column = columns.find((c) => c.dataType === dataType);
+    return column ? String(column.id) : null;
+  };
+  const createdId = fieldIdOf('created');
+  const updatedId = fieldIdOf('updated');
+  const closedId = fieldIdOf('closed');
+  const result = new Map<number, ItemLifecycleDates>();
+
+  for (const node of nodes) {
+    const values = node.memexProjectColumnValues ?? [];
+    result.set(node.contentId, {
+      createdDate: createdId ? readDate(values, createdId) : null,
+      updatedDate: updatedId ? readDate(values, updatedId) : null,
+      closedDate: closedId ? readDate(values, closedId) : null,
+    });
+  }
+
+  return result;
+}
+
 function findValue(values: MemexColumnValue[], fieldId: string): unknown {
   const entry = values.find((value) => String(value.memexProjectColumnId) === fieldId);
   return entry ? entry.value : undefined;
@@ -166,10 +197,13 @@ export function readMemexData(
 
   const statusOptions = getStatusOptions(columns);
   let itemsByContentId = new Map<number, ItemFieldData>();
+  let lifecycleByContentId = new Map<number, ItemLifecycleDates>();
   const itemsJson = doc.getElementById(ITEMS_SCRIPT_ID)?.textContent;
   if (itemsJson) {
     try {
-      itemsByContentId = extractItems(parseNodes(itemsJson), startFieldId, endFieldId, statusOptions);
+      const nodes = parseNodes(itemsJson);
+      itemsByContentId = extractItems(nodes, startFieldId, endFieldId, statusOptions);
+      lifecycleByContentId = extractLifecycleDates(nodes, columns);
     } catch {
       // Leave items empty; field metadata is still usable for the config UI.
     }
@@ -180,6 +214,7 @@ export function readMemexData(
     statusOptions,
     statusOptionList: getStatusOptionList(columns),
     itemsByContentId,
+    lifecycleByContentId,
     columns,
   };
 }
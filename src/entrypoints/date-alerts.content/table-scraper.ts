@@ -84,6 +84,14 @@ export function getRowContentId(row: HTMLElement): number | null {
   return match ? Number(match[1]) : null;
 }
 
+/**
+ * The rendered data row backing a content id, or null when it isn't in the DOM
+ * (the grid only renders rows near the viewport).
+ */
+export function findRowByContentId(grid: HTMLElement, contentId: number): HTMLElement | null {
+  return getDataRows(grid).find((row) => getRowContentId(row) === contentId) ?? null;
+}
+
 /**
  * The cell element for a given visible column index within a row.
  *
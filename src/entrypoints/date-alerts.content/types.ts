@@ -18,6 +18,35 @@ export interface DateFieldMapping {
   endFieldId: string;
   inProgressStatusIds?: string[];
   doneStatusIds?: string[];
+  /** User-added alert rules, evaluated alongside the built-in ones (see alert-rules.ts). */
+  alertRules?: AlertRule[];
+  /** Due Today / Due Soon / Future Start toggles; defaults apply when unset. */
+  scheduleAlerts?: ScheduleAlertSettings;
+  /** Built-in alerts turned off for this project; all are on when unset. */
+  disabledAlerts?: BuiltInAlertId[];
+  /** Age thresholds in days for this project; the global defaults apply when unset. */
+  ageThresholds?: { caution: number; warning: number };
+}
+
+/** Ids of the always-available built-in alert rules. */
+export type BuiltInAlertId = 'missingStart' | 'age' | 'overdue' | 'missingEnd';
+
+/** Ids of the alerts about upcoming dates, toggled per project. */
+export type ScheduleAlertId = 'dueToday' | 'dueSoon' | 'futureStart';
+
+/** Ids of a project's own rules, numbered as they are added in the config view. */
+export type CustomAlertId = `custom-${string}`;
+
+/** Id of any alert rule. */
+export type AlertId = BuiltInAlertId | ScheduleAlertId | CustomAlertId;
+
+/** Per-project toggles for the alerts about upcoming dates. */
+export interface ScheduleAlertSettings {
+  dueToday: boolean;
+  dueSoon: boolean;
+  /** Due Soon covers end dates 1..dueSoonDays days from today. */
+  dueSoonDays: number;
+  futureStart: boolean;
 }
 
 /**
@@ -46,13 +75,58 @@ export interface ItemFieldData {
   statusName: string | null;
 }
 
-/** Visual severity used to style an annotation. */
-export type AlertLevel = 'normal' | 'caution' | 'warning';
+/** Built-in lifecycle dates of a project item (Created/Updated/Closed fields). */
+export interface ItemLifecycleDates {
+  /** Date-only strings 'YYYY-MM-DD', or null when the field is unset or absent. */
+  createdDate: string | null;
+  updatedDate: string | null;
+  closedDate: string | null;
+}
+
+/**
+ * Visual level used to style an annotation: a severity, or one of the
+ * schedule styles ('urgent' due today, 'upcoming' due soon, 'notice' future start).
+ */
+export type AlertLevel = 'normal' | 'caution' | 'warning' | 'urgent' | 'upcoming' | 'notice';
+
+/** Rule level: a fixed severity, or 'age' to grade `{days}` by the Age thresholds. */
+export type AlertRuleLevel = AlertLevel | 'age';
+
+/** Which date cell an alert rule annotates. */
+export type AlertCell = 'start' | 'end';
+
+/**
+ * Condition on one date field. Offsets are the date minus today in days
+ * (negative = past); setting either bound implies the date must be present.
+ */
+export interface DateCondition {
+  presence?: 'present' | 'missing';
+  /** Inclusive lower bound on the offset. */
+  minOffset?: number;
+  /** Inclusive upper bound on the offset. */
+  maxOffset?: number;
+}
+
+/** A declarative alert: when its conditions hold, the cell shows `text` at `level`. */
+export interface AlertRule {
+  /** Stable id, also used as the emitted CellAlert type. */
+  id: AlertId;
+  cell: AlertCell;
+  /** Status categories the rule applies to. */
+  statuses: StatusCategory[];
+  start?: DateCondition;
+  end?: DateCondition;
+  /** Text shown in the cell; `{days}` becomes the days between today and the cell's date. */
+  text: string;
+  level: AlertRuleLevel;
+  /** Lower runs first; the first matching rule per cell wins. */
+  priority: number;
+}
 
 /** A single annotation to render inside a date cell. */
 export interface CellAlert {
-  /** Machine type, also used as the data attribute value for dedup. */
-  type: 'missingStart' | 'age' | 'overdue' | 'missingEnd';
+  /** Id of the rule that produced it, also used as the data attribute value for dedup. */
+  type: AlertId;
   /** Text shown to the user, e.g. 'Age 8d', '⚠ Missing', 'Overdue 3d'. */
   text: string;
   level: AlertLevel;
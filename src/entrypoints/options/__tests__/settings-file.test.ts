@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  buildSettingsFile,
+  parseSettingsFile,
+  applySettingsFile,
+  getSettingsFileName,
+  SETTINGS_FILE_VERSION,
+} from '../settings-file';
+import type { SettingsFile } from '../settings-file';
+import type { DateFieldMapping } from '../../date-alerts.content/types';
+
+describe('settings-file', () => {
+  let storage: Record<string, unknown>;
+
+  beforeEach(() => {
+    storage = {};
+    (global as any).chrome = {
+      storage: {
+        local: {
+          get: vi.fn((key: string | null) => Promise.resolve(
+            key === null ? { ...storage } : key in storage ? { [key]: storage[key] } : {}
+          )),
+          set: vi.fn((items: Record<string, unknown>) => {
+            Object.assign(storage, items);
+            return Promise.resolve();
+          }),
+          remove: vi.fn((keys: string | string[]) => {
+            for (const key of Array.isArray(keys) ? keys : [keys]) {
+              delete storage[key];
+            }
+            return Promise.resolve();
+          }),
+        },
+      },
+    };
+  });
+
+  afterEach(() => {
+    delete (global as any).chrome;
+  });
+
+  const now = new Date('2024-03-01T09:00:00Z');
+
+  function makeFile(overrides: Partial<SettingsFile> = {}): SettingsFile {
+    return {
+      format: 'insights-plus-settings',
+      version: SETTINGS_FILE_VERSION,
+      exportedAt: now.toISOString(),
+      settings: {},
+      dateFieldMappings: {},
+      ...overrides,
+    };
+  }
+
+  describe('buildSettingsFile', () => {
+    it('collects settings, mappings and global defaults', () => {
+      const file = buildSettingsFile({
+        'burnup-targetDate:orgs:myorg:123:456': '2024-04-01',
+        'velocity-SelectedIterations:orgs:myorg:123:default': ['Sprint 1'],
+        'insights-plus-date-field-mappings': { 'orgs:myorg:123': { startFieldId: '1', endFieldId: '2' } },
+        'insights-plus-global-defaults': { lookbackDays: 14, iterationCount: 4, ageThresholds: { caution: 3, warning: 8 } },
+      }, now);
+
+      expect(file).toEqual({
+        format: 'insights-plus-settings',
+        version: 1,
+        exportedAt: '2024-03-01T09:00:00.000Z',
+        globalDefaults: { lookbackDays: 14, iterationCount: 4, ageThresholds: { caution: 3, warning: 8 } },
+        settings: {
+          'burnup-targetDate:orgs:myorg:123:456': '2024-04-01',
+          'velocity-SelectedIterations:orgs:myorg:123:default': ['Sprint 1'],
+        },
+        dateFieldMappings: { 'orgs:myorg:123': { startFieldId: '1', endFieldId: '2' } },
+      });
+    });
+
+    it('leaves out prediction history and unknown keys', () => {
+      const file = buildSettingsFile({
+        'burnup-predictionHistory:orgs:myorg:123:456': [{ date: '2024-02-29' }],
+        'something-else': true,
+      }, now);
+
+      expect(file.settings).toEqual({});
+      expect(file.globalDefaults).toBeUndefined();
+    });
+  });
+
+  describe('parseSettingsFile', () => {
+    it('round-trips an exported file', () => {
+      const file = makeFile({
+        settings: { 'burnup-lookbackDays:orgs:myorg:123:456': 30 },
+        dateFieldMappings: { 'users:me:1': { startFieldId: 'a', endFieldId: 'b' } },
+      });
+
+      expect(parseSettingsFile(JSON.stringify(file))).toEqual(file);
+    });
+
+    it('rejects non-JSON and foreign files', () => {
+      expect(() => parseSettingsFile('{')).toThrow('not valid JSON');
+      expect(() => parseSettingsFile('{"foo": 1}')).toThrow('not an Insights Plus settings file');
+    });
+
+    it('rejects files from a newer version', () => {
+      expect(() => parseSettingsFile(JSON.stringify(makeFile({ version: SETTINGS_FILE_VERSION + 1 }))))
+        .toThrow('newer than this extension supports');
+    });
+
+    it('applies the lookback range and mapping rules', () => {
+      const file = makeFile({
+        settings: { 'burnup-lookbackDays:orgs:myorg:123:456': 400 },
+        dateFieldMappings: { 'users:me:1': { startFieldId: '', endFieldId: 'b' } },
+      });
+
+      expect(() => parseSettingsFile(JSON.stringify(file))).toThrow(
+        'Invalid settings file:\n' +
+        'settings["burnup-lookbackDays:orgs:myorg:123:456"]: lookback days must be between 1 and 365\n' +
+        'dateFieldMappings["users:me:1"]: needs non-empty startFieldId and endFieldId'
+      );
+    });
+
+    it('rejects malformed alert rules in a mapping', () => {
+      const file = makeFile({
+        dateFieldMappings: {
+          'users:me:1': {
+            startFieldId: 'a',
+            endFieldId: 'b',
+            alertRules: [{ id: 'dueSoon', cell: 'middle', statuses: [], text: 'Due', level: 'caution', priority: 1 }],
+          } as unknown as DateFieldMapping,
+        },
+      });
+
+      expect(() => parseSettingsFile(JSON.stringify(file))).toThrow(
+        'dateFieldMappings["users:me:1"]: "alertRules" must be a list of valid alert rules'
+      );
+    });
+
+    it('rejects invalid per-project Age thresholds', () => {
+      const file = makeFile({
+        dateFieldMappings: {
+          'users:me:1': { startFieldId: 'a', endFieldId: 'b', ageThresholds: { caution: 8, warning: 4 } },
+        },
+      });
+
+      expect(() => parseSettingsFile(JSON.stringify(file))).toThrow(
+        'dateFieldMappings["users:me:1"]: "ageThresholds" must be whole days with caution below warning'
+      );
+    });
+
+    it('rejects unknown settings and invalid global defaults', () => {
+      const file = makeFile({
+        globalDefaults: { lookbackDays: 21, iterationCount: 0, ageThresholds: { caution: 6, warning: 11 } },
+        settings: { 'burnup-unknown:orgs:myorg:123:456': 1 },
+      });
+
+      expect(() => parseSettingsFile(JSON.stringify(file))).toThrow(
+        /globalDefaults\.iterationCount[\s\S]*settings\["burnup-unknown:orgs:myorg:123:456"\]: unknown setting/
+      );
+    });
+  });
+
+  describe('applySettingsFile', () => {
+    beforeEach(() => {
+      storage = {
+        'burnup-targetDate:orgs:myorg:123:456': '2024-04-01',
+        'burnup-predictionHistory:orgs:myorg:123:456': [],
+        'insights-plus-date-field-mappings': { 'orgs:myorg:123': { startFieldId: '1', endFieldId: '2' } },
+      };
+    });
+
+    const file = makeFile({
+      settings: { 'burnup-lookbackDays:orgs:myorg:123:456': 14 },
+      dateFieldMappings: { 'users:me:1': { startFieldId: 'a', endFieldId: 'b' } },
+    });
+
+    it('merges into the existing settings', async () => {
+      await applySettingsFile(file, 'merge');
+
+      expect(storage).toEqual({
+        'burnup-targetDate:orgs:myorg:123:456': '2024-04-01',
+        'burnup-lookbackDays:orgs:myorg:123:456': 14,
+        'burnup-predictionHistory:orgs:myorg:123:456': [],
+        'insights-plus-date-field-mappings': {
+          'orgs:myorg:123': { startFieldId: '1', endFieldId: '2' },
+          'users:me:1': { startFieldId: 'a', endFieldId: 'b' },
+        },
+      });
+    });
+
+    it('replaces the existing settings but keeps prediction history', async () => {
+      await applySettingsFile(file, 'replace');
+
+      expect(storage).toEqual({
+        'burnup-lookbackDays:orgs:myorg:123:456': 14,
+        'burnup-predictionHistory:orgs:myorg:123:456': [],
+        'insights-plus-date-field-mappings': {
+          'users:me:1': { startFieldId: 'a', endFieldId: 'b' },
+        },
+      });
+    });
+  });
+
+  describe('getSettingsFileName', () => {
+    it('includes the export date', () => {
+      expect(getSettingsFileName(now)).toBe('insights-plus-settings-2024-03-01.json');
+    });
+  });
+});
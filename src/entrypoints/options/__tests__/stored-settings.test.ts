@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  listStoredSettings,
+  validateStoredSetting,
+  updateStoredSetting,
+  deleteStoredSetting,
+} from '../stored-settings';
+import type { StoredSetting } from '../stored-settings';
+
+describe('stored-settings', () => {
+  let storage: Record<string, unknown>;
+
+  beforeEach(() => {
+    storage = {};
+    (global as any).chrome = {
+      storage: {
+        local: {
+          get: vi.fn((key: string) => Promise.resolve(key in storage ? { [key]: storage[key] } : {})),
+          set: vi.fn((items: Record<string, unknown>) => {
+            Object.assign(storage, items);
+            return Promise.resolve();
+          }),
+          remove: vi.fn((key: string) => {
+            delete storage[key];
+            return Promise.resolve();
+          }),
+        },
+      },
+    };
+  });
+
+  afterEach(() => {
+    delete (global as any).chrome;
+  });
+
+  const lookbackSetting: StoredSetting = {
+    kind: 'insight',
+    storageKey: 'burnup-lookbackDays:orgs:myorg:123:456',
+    label: 'Burn-up: Lookback days',
+    scope: 'orgs/myorg · project 123 · insight 456',
+    value: 14,
+  };
+
+  const mappingSetting: StoredSetting = {
+    kind: 'dateFieldMapping',
+    storageKey: 'insights-plus-date-field-mappings',
+    projectKey: 'users:wozaki:4',
+    label: 'Date field alerts: Field mapping',
+    scope: 'users/wozaki · project 4',
+    value: { startFieldId: '1', endFieldId: '2' },
+  };
+
+  describe('listStoredSettings', () => {
+    it('lists per-insight settings and per-project field mappings', () => {
+      const settings = listStoredSettings({
+        'burnup-lookbackDays:orgs:myorg:123:456': 14,
+        'velocity-SelectedIterations:orgs:myorg:123:default': ['Sprint 1'],
+        'insights-plus-date-field-mappings': {
+          'users:wozaki:4': { startFieldId: '1', endFieldId: '2' },
+        },
+      });
+
+      expect(settings).toEqual([
+        lookbackSetting,
+        {
+          kind: 'insight',
+          storageKey: 'velocity-SelectedIterations:orgs:myorg:123:default',
+          label: 'Velocity: Selected iterations',
+          scope: 'orgs/myorg · project 123 · insight default',
+          value: ['Sprint 1'],
+        },
+        mappingSetting,
+      ]);
+    });
+
+    it('labels legacy base-only keys', () => {
+      const [setting] = listStoredSettings({ 'burnup-targetDate': '2024-03-01' });
+
+      expect(setting?.scope).toBe('Legacy (not tied to an insight)');
+      expect(setting?.label).toBe('Burn-up: Target date');
+    });
+
+    it('ignores the global defaults and unknown keys', () => {
+      expect(listStoredSettings({
+        'insights-plus-global-defaults': { lookbackDays: 7 },
+        'something-else': 1,
+      })).toEqual([]);
+    });
+  });
+
+  describe('validateStoredSetting', () => {
+    it('applies the lookback range rule', () => {
+      expect(validateStoredSetting(lookbackSetting, 30)).toBeNull();
+      expect(validateStoredSetting(lookbackSetting, 0)).toBe('Lookback days must be between 1 and 365');
+    });
+
+    it('validates values by setting type', () => {
+      const modeSetting = { ...lookbackSetting, storageKey: 'burnup-forecastMode:orgs:myorg:123:456' };
+      const dateSetting = { ...lookbackSetting, storageKey: 'burnup-targetDate:orgs:myorg:123:456' };
+
+      expect(validateStoredSetting(modeSetting, 'monteCarlo')).toBeNull();
+      expect(validateStoredSetting(modeSetting, 'guess')).toMatch(/Invalid value/);
+      expect(validateStoredSetting(dateSetting, '2024-03-01')).toBeNull();
+      expect(validateStoredSetting(dateSetting, 'next week')).toMatch(/Invalid value/);
+    });
+
+    it('validates velocity capacity plans', () => {
+      const capacitySetting = { ...lookbackSetting, storageKey: 'velocity-capacityPlan:orgs:myorg:123:456' };
+
+      expect(validateStoredSetting(capacitySetting, { totalDays: 50, daysOff: 6 })).toBeNull();
+      expect(validateStoredSetting(capacitySetting, { totalDays: 50, daysOff: 60 })).toMatch(/Invalid value/);
+      expect(validateStoredSetting(capacitySetting, { totalDays: 0, daysOff: 0 })).toMatch(/Invalid value/);
+    });
+
+    it('validates field mappings', () => {
+      expect(validateStoredSetting(mappingSetting, { startFieldId: '1', endFieldId: '3' })).toBeNull();
+      expect(validateStoredSetting(mappingSetting, { startFieldId: '' })).toMatch(/startFieldId/);
+      expect(validateStoredSetting(mappingSetting, { startFieldId: '1', endFieldId: '3', alertRules: [{ id: 'x' }] }))
+        .toMatch(/alertRules/);
+      expect(validateStoredSetting(mappingSetting, {
+        startFieldId: '1',
+        endFieldId: '3',
+        scheduleAlerts: { dueToday: true, dueSoon: true, dueSoonDays: 0, futureStart: false },
+      })).toMatch(/dueSoonDays/);
+    });
+  });
+
+  describe('updateStoredSetting', () => {
+    it('writes a per-insight setting under its storage key', async () => {
+      await updateStoredSetting(lookbackSetting, 28);
+
+      expect(storage['burnup-lookbackDays:orgs:myorg:123:456']).toBe(28);
+    });
+
+    it('writes a field mapping into the mapping store', async () => {
+      await updateStoredSetting(mappingSetting, { startFieldId: '5', endFieldId: '6' });
+
+      expect(storage['insights-plus-date-field-mappings']).toEqual({
+        'users:wozaki:4': { startFieldId: '5', endFieldId: '6', inProgressStatusIds: [], doneStatusIds: [] },
+      });
+    });
+
+    it('throws without saving when the value is invalid', async () => {
+      await expect(updateStoredSetting(lookbackSetting, 999)).rejects.toThrow('Lookback days');
+      expect(storage).toEqual({});
+    });
+  });
+
+  describe('deleteStoredSetting', () => {
+    it('removes a per-insight setting', async () => {
+      storage['burnup-lookbackDays:orgs:myorg:123:456'] = 14;
+
+      await deleteStoredSetting(lookbackSetting);
+
+      expect(storage).toEqual({});
+    });
+
+    it('removes only the one project from the mapping store', async () => {
+      storage['insights-plus-date-field-mappings'] = {
+        'users:wozaki:4': { startFieldId: '1', endFieldId: '2' },
+        'orgs:acme:9': { startFieldId: '3', endFieldId: '4' },
+      };
+
+      await deleteStoredSetting(mappingSetting);
+
+      expect(storage['insights-plus-date-field-mappings']).toEqual({
+        'orgs:acme:9': { startFieldId: '3', endFieldId: '4' },
+      });
+    });
+  });
+});
@@ -0,0 +1,319 @@
+// Insights Plus - Options Page
+// Responsibility: Edit the global defaults and manage every stored per-insight/per-project setting
+
+import {
+  getGlobalDefaults,
+  setGlobalDefaults,
+  resetGlobalDefaults,
+} from '../content/shared/global-defaults';
+import {
+  listStoredSettings,
+  updateStoredSetting,
+  deleteStoredSetting,
+} from './stored-settings';
+import type { StoredSetting } from './stored-settings';
+import {
+  buildSettingsFile,
+  parseSettingsFile,
+  applySettingsFile,
+  getSettingsFileName,
+} from './settings-file';
+import type { ImportMode } from './settings-file';
+import { getSyncState, setSyncEnabled, SYNC_STATE_STORAGE_KEY } from '../content/shared/settings-sync';
+import { readAllValues } from '../content/shared/storage';
+import './style.css';
+
+const STATUS_CLEAR_MS = 3000;
+
+let currentSettings: StoredSetting[] = [];
+
+/**
+ * Fill the defaults form from storage
+ */
+async function renderDefaults(): Promise<void> {
+  const defaults = await getGlobalDefaults();
+  getInput('options-lookback-days').value = String(defaults.lookbackDays);
+  getInput('options-iteration-count').value = String(defaults.iterationCount);
+  getInput('options-age-caution').value = String(defaults.ageThresholds.caution);
+  getInput('options-age-warning').value = String(defaults.ageThresholds.warning);
+}
+
+/**
+ * Wire up the defaults form
+ */
+function setupDefaultsForm(): void {
+  const form = document.getElementById('options-defaults-form') as HTMLFormElement | null;
+  const status = document.getElementById('options-defaults-status');
+  const resetButton = document.getElementById('options-reset-defaults');
+  if (!form || !status || !resetButton) return;
+
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    try {
+      await setGlobalDefaults({
+        lookbackDays: Number(getInput('options-lookback-days').value),
+        iterationCount: Number(getInput('options-iteration-count').value),
+        ageThresholds: {
+          caution: Number(getInput('options-age-caution').value),
+          warning: Number(getInput('options-age-warning').value),
+        },
+      });
+      showStatus(status, 'Saved', false);
+    } catch (error) {
+      showStatus(status, error instanceof Error ? error.message : 'Failed to save', true);
+    }
+  });
+
+  resetButton.addEventListener('click', async () => {
+    try {
+      await resetGlobalDefaults();
+      await renderDefaults();
+      showStatus(status, 'Reset to built-in defaults', false);
+    } catch {
+      showStatus(status, 'Failed to reset', true);
+    }
+  });
+}
+
+/**
+ * Render the stored settings table
+ */
+async function renderStoredSettings(): Promise<void> {
+  const container = document.getElementById('options-stored-settings');
+  if (!container) return;
+
+  const items = await readAllValues();
+  currentSettings = listStoredSettings(items);
+
+  if (currentSettings.length === 0) {
+    container.innerHTML = '<p class="options-empty">No settings have been saved yet.</p>';
+    return;
+  }
+
+  container.innerHTML = `
+    <table class="options-table">
+      <thead>
+        <tr>
+          <th>Project / insight</th>
+          <th>Setting</th>
+          <th>Value</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${currentSettings.map((setting, index) => `
+          <tr data-index="${index}">
+            <td class="options-table-scope">${escapeHtml(setting.scope)}</td>
+            <td class="options-table-label">${escapeHtml(setting.label)}</td>
+            <td class="options-table-value">
+              <textarea class="options-value-input" rows="${countRows(setting.value)}"
+                spellcheck="false">${escapeHtml(JSON.stringify(setting.value, null, 2))}</textarea>
+            </td>
+            <td class="options-table-actions">
+              <button type="button" class="options-button" data-action="save">Save</button>
+              <button type="button" class="options-button options-button-danger" data-action="delete">Delete</button>
+            </td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+/**
+ * Handle Save/Delete clicks in the stored settings table (event delegation,
+ * so re-rendering the table doesn't need re-binding)
+ */
+function setupStoredSettingsActions(): void {
+  const container = document.getElementById('options-stored-settings');
+  const status = document.getElementById('options-settings-status');
+  if (!container || !status) return;
+
+  container.addEventListener('click', async (event) => {
+    const button = (event.target as HTMLElement).closest('button[data-action]') as HTMLButtonElement | null;
+    const row = button?.closest('tr[data-index]') as HTMLTableRowElement | null;
+    if (!button || !row) return;
+
+    const setting = currentSettings[Number(row.dataset.index)];
+    if (!setting) return;
+
+    if (button.dataset.action === 'delete') {
+      if (!window.confirm(`Delete "${setting.label}" for ${setting.scope}?`)) return;
+      try {
+        await deleteStoredSetting(setting);
+        showStatus(status, `Deleted "${setting.label}" for ${setting.scope}`, false);
+      } catch {
+        showStatus(status, 'Failed to delete', true);
+      }
+      return;
+    }
+
+    const textarea = row.querySelector('.options-value-input') as HTMLTextAreaElement;
+    let value: unknown;
+    try {
+      value = JSON.parse(textarea.value);
+    } catch {
+      showStatus(status, `"${setting.label}" for ${setting.scope}: value is not valid JSON`, true);
+      return;
+    }
+
+    try {
+      await updateStoredSetting(setting, value);
+      showStatus(status, `Saved "${setting.label}" for ${setting.scope}`, false);
+    } catch (error) {
+      showStatus(status, error instanceof Error ? error.message : 'Failed to save', true);
+    }
+  });
+}
+
+/**
+ * Wire up settings export and import
+ */
+function setupImportExport(): void {
+  const status = document.getElementById('options-transfer-status');
+  const fileInput = getInput('options-import-file');
+  const importButton = document.getElementById('options-import-settings') as HTMLButtonElement | null;
+  const exportButton = document.getElementById('options-export-settings');
+  if (!status || !importButton || !exportButton) return;
+
+  exportButton.addEventListener('click', async () => {
+    try {
+      const items = await readAllValues();
+      const file = buildSettingsFile(items);
+      downloadFile(getSettingsFileName(), JSON.stringify(file, null, 2), 'application/json');
+    } catch {
+      showStatus(status, 'Failed to export settings', true);
+    }
+  });
+
+  fileInput.addEventListener('change', () => {
+    importButton.disabled = !fileInput.files?.length;
+  });
+
+  importButton.addEventListener('click', async () => {
+    const selected = fileInput.files?.[0];
+    if (!selected) return;
+
+    const mode = (document.querySelector('input[name="options-import-mode"]:checked') as HTMLInputElement)
+      .value as ImportMode;
+    if (mode === 'replace' && !window.confirm('Replace all settings with the ones in this file?')) return;
+
+    try {
+      const file = parseSettingsFile(await selected.text());
+      await applySettingsFile(file, mode);
+      await renderDefaults();
+      showStatus(status, mode === 'replace' ? 'Settings replaced' : 'Settings merged', false);
+    } catch (error) {
+      showStatus(status, error instanceof Error ? error.message : 'Failed to import settings', true);
+    }
+  });
+}
+
+/**
+ * Show whether sync is on, when it last ran and the last error
+ */
+async function renderSyncState(): Promise<void> {
+  const status = document.getElementById('options-sync-status');
+  if (!status) return;
+
+  const state = await getSyncState();
+  getInput('options-sync-enabled').checked = state.enabled;
+
+  if (!state.enabled) {
+    status.textContent = '';
+  } else if (state.lastError) {
+    status.textContent = `Sync failed: ${state.lastError}`;
+  } else {
+    status.textContent = state.lastSyncedAt
+      ? `Last synced ${new Date(state.lastSyncedAt).toLocaleString()}`
+      : 'Waiting for the first sync';
+  }
+  status.classList.toggle('options-status-error', state.enabled && !!state.lastError);
+}
+
+/**
+ * Wire up the sync toggle
+ */
+function setupSyncToggle(): void {
+  const checkbox = getInput('options-sync-enabled');
+  const status = document.getElementById('options-sync-status');
+  const migrationNote = document.getElementById('options-sync-migration');
+  if (!status || !migrationNote) return;
+
+  checkbox.addEventListener('change', async () => {
+    checkbox.disabled = true;
+    try {
+      const migration = await setSyncEnabled(checkbox.checked);
+      await renderSyncState();
+      migrationNote.textContent =
+        migration && migration.skipped.length > 0
+          ? `Kept on this device only (saved before settings were per insight): ${migration.skipped.join(', ')}`
+          : '';
+    } catch (error) {
+      showStatus(status, error instanceof Error ? error.message : 'Failed to change sync setting', true);
+    } finally {
+      checkbox.disabled = false;
+    }
+  });
+}
+
+function getInput(id: string): HTMLInputElement {
+  return document.getElementById(id) as HTMLInputElement;
+}
+
+function countRows(value: unknown): number {
+  return Math.min(JSON.stringify(value, null, 2).split('\n').length, 12);
+}
+
+function showStatus(element: HTMLElement, message: string, isError: boolean): void {
+  element.textContent = message;
+  element.classList.toggle('options-status-error', isError);
+  // Errors stay until the next action so longer validation messages can be read
+  if (isError) return;
+  setTimeout(() => {
+    if (element.textContent === message) {
+      element.textContent = '';
+    }
+  }, STATUS_CLEAR_MS);
+}
+
+/**
+ * Trigger a file download from the options page
+ */
+function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+}
+
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+setupDefaultsForm();
+setupStoredSettingsActions();
+setupImportExport();
+setupSyncToggle();
+void renderDefaults();
+void renderStoredSettings();
+void renderSyncState();
+
+// Keep the page in sync with changes made from GitHub tabs (or by Save/Delete above)
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'local') return;
+
+  if (SYNC_STATE_STORAGE_KEY in changes) {
+    void renderSyncState();
+  }
+  if (Object.keys(changes).some(key => key !== SYNC_STATE_STORAGE_KEY)) {
+    void renderStoredSettings();
+  }
+});
@@ -0,0 +1,219 @@
+// Insights Plus - Settings File
+// Responsibility: Export all extension settings as a versioned JSON file and import
+// one back (merge or replace), e.g. to share a team configuration
+
+import {
+  parseStorageKey,
+  STORAGE_KEY_BURNUP_LOOKBACK_DAYS,
+  STORAGE_KEY_BURNUP_PREDICTION_HISTORY,
+} from '../content/shared/storage-key';
+import {
+  GLOBAL_DEFAULTS_STORAGE_KEY,
+  isValidAgeThresholds,
+  isValidIterationCount,
+  isValidLookbackDays,
+} from '../content/shared/global-defaults';
+import type { GlobalDefaults } from '../content/shared/types';
+import { DATE_FIELD_MAPPING_STORAGE_KEY, isValidMapping } from '../date-alerts.content/field-config';
+import { getMappingAlertsError } from '../date-alerts.content/alert-rules';
+import type { DateFieldMapping } from '../date-alerts.content/types';
+import { readAllValues, removeValue, writeValues } from '../content/shared/storage';
+import { isValidSettingValue } from './stored-settings';
+
+export const SETTINGS_FILE_FORMAT = 'insights-plus-settings';
+export const SETTINGS_FILE_VERSION = 1;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface SettingsFile {
+  format: typeof SETTINGS_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Global defaults, omitted when the built-in defaults are in use */
+  globalDefaults?: GlobalDefaults;
+  /** Per-insight settings keyed by their storage key */
+  settings: Record<string, unknown>;
+  /** Date field mappings keyed by project key (e.g. "orgs:myorg:123") */
+  dateFieldMappings: Record<string, DateFieldMapping>;
+}
+
+/**
+ * Build a settings file from everything in chrome.storage.local
+ *
+ * Prediction history is recorded data rather than configuration, so it is
+ * left out; it would also make a shared file grow every day.
+ *
+ * @param items Everything in chrome.storage.local (see readAllValues)
+ * @param now Export timestamp
+ */
+export function buildSettingsFile(items: Record<string, unknown>, now: Date = new Date()): SettingsFile {
+  const file: SettingsFile = {
+    format: SETTINGS_FILE_FORMAT,
+    version: SETTINGS_FILE_VERSION,
+    exportedAt: now.toISOString(),
+    settings: {},
+    dateFieldMappings: {},
+  };
+
+  for (const [key, value] of Object.entries(items)) {
+    if (key === GLOBAL_DEFAULTS_STORAGE_KEY) {
+      file.globalDefaults = value as GlobalDefaults;
+    } else if (key === DATE_FIELD_MAPPING_STORAGE_KEY) {
+      file.dateFieldMappings = { ...(value as Record<string, DateFieldMapping>) };
+    } else if (isExportedSettingKey(key)) {
+      file.settings[key] = value;
+    }
+  }
+
+  return file;
+}
+
+/**
+ * Parse and validate a settings file
+ *
+ * The whole file is rejected if any entry is invalid, so a bad file can't
+ * leave the settings half-imported.
+ *
+ * @throws Error listing what is wrong with the file
+ */
+export function parseSettingsFile(json: string): SettingsFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object' || (data as Partial<SettingsFile>).format !== SETTINGS_FILE_FORMAT) {
+    throw new Error('The file is not an Insights Plus settings file');
+  }
+
+  const file = data as Partial<SettingsFile>;
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1) {
+    throw new Error('The settings file has no valid version');
+  }
+  if (file.version > SETTINGS_FILE_VERSION) {
+    throw new Error(`The settings file version ${file.version} is newer than this extension supports (${SETTINGS_FILE_VERSION})`);
+  }
+
+  const errors = collectErrors(file);
+  if (errors.length > 0) {
+    throw new Error(`Invalid settings file:\n${errors.join('\n')}`);
+  }
+
+  return {
+    format: SETTINGS_FILE_FORMAT,
+    version: file.version,
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+    ...(file.globalDefaults ? { globalDefaults: file.globalDefaults } : {}),
+    settings: file.settings ?? {},
+    dateFieldMappings: file.dateFieldMappings ?? {},
+  };
+}
+
+/**
+ * Validate every entry of a settings file against the same rules the settings modules use
+ */
+function collectErrors(file: Partial<SettingsFile>): string[] {
+  const errors: string[] = [];
+
+  if (file.globalDefaults !== undefined) {
+    const defaults = file.globalDefaults as Partial<GlobalDefaults> | null;
+    if (!defaults || typeof defaults !== 'object') {
+      errors.push('globalDefaults: must be an object');
+    } else {
+      if (!isValidLookbackDays(defaults.lookbackDays)) {
+        errors.push('globalDefaults.lookbackDays: must be between 1 and 365');
+      }
+      if (!isValidIterationCount(defaults.iterationCount)) {
+        errors.push('globalDefaults.iterationCount: must be a whole number between 1 and 100');
+      }
+      if (!isValidAgeThresholds(defaults.ageThresholds)) {
+        errors.push('globalDefaults.ageThresholds: must be whole days with caution below warning');
+      }
+    }
+  }
+
+  if (file.settings !== undefined) {
+    if (!isPlainObject(file.settings)) {
+      errors.push('settings: must be an object');
+    } else {
+      for (const [key, value] of Object.entries(file.settings)) {
+        const parsed = parseStorageKey(key);
+        if (!parsed || !isExportedSettingKey(key)) {
+          errors.push(`settings["${key}"]: unknown setting`);
+        } else if (parsed.baseKey === STORAGE_KEY_BURNUP_LOOKBACK_DAYS && !isValidLookbackDays(value)) {
+          errors.push(`settings["${key}"]: lookback days must be between 1 and 365`);
+        } else if (!isValidSettingValue(parsed.baseKey, value)) {
+          errors.push(`settings["${key}"]: invalid value`);
+        }
+      }
+    }
+  }
+
+  if (file.dateFieldMappings !== undefined) {
+    if (!isPlainObject(file.dateFieldMappings)) {
+      errors.push('dateFieldMappings: must be an object');
+    } else {
+      for (const [projectKey, mapping] of Object.entries(file.dateFieldMappings)) {
+        if (!isValidMapping(mapping)) {
+          errors.push(`dateFieldMappings["${projectKey}"]: needs non-empty startFieldId and endFieldId`);
+          continue;
+        }
+        const alertsError = getMappingAlertsError(mapping);
+        if (alertsError) {
+          errors.push(`dateFieldMappings["${projectKey}"]: ${alertsError}`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Apply a validated settings file to chrome.storage.local
+ *
+ * - merge: imported values overwrite matching settings; everything else is kept
+ * - replace: existing settings (and global defaults) are removed first, so
+ *   storage ends up matching the file exactly (prediction history is kept)
+ */
+export async function applySettingsFile(file: SettingsFile, mode: ImportMode): Promise<void> {
+  const existing = await readAllValues();
+
+  const mappings: Record<string, DateFieldMapping> = mode === 'merge'
+    ? { ...((existing[DATE_FIELD_MAPPING_STORAGE_KEY] ?? {}) as Record<string, DateFieldMapping>) }
+    : {};
+  Object.assign(mappings, file.dateFieldMappings);
+
+  if (mode === 'replace') {
+    const staleKeys = Object.keys(existing).filter(key =>
+      isExportedSettingKey(key) || key === GLOBAL_DEFAULTS_STORAGE_KEY || key === DATE_FIELD_MAPPING_STORAGE_KEY
+    );
+    if (staleKeys.length > 0) {
+      await removeValue(staleKeys);
+    }
+  }
+
+  await writeValues({
+    ...file.settings,
+    ...(file.globalDefaults ? { [GLOBAL_DEFAULTS_STORAGE_KEY]: file.globalDefaults } : {}),
+    ...(Object.keys(mappings).length > 0 ? { [DATE_FIELD_MAPPING_STORAGE_KEY]: mappings } : {}),
+  });
+}
+
+/**
+ * Build the download file name for an export
+ */
+export function getSettingsFileName(now: Date = new Date()): string {
+  return `insights-plus-settings-${now.toISOString().split('T')[0]}.json`;
+}
+
+function isExportedSettingKey(key: string): boolean {
+  const parsed = parseStorageKey(key);
+  return !!parsed && parsed.baseKey !== STORAGE_KEY_BURNUP_PREDICTION_HISTORY;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,214 @@
+// Insights Plus - Options Page Stored Settings
+// Responsibility: List, validate, update and delete the per-insight and per-project
+// settings the content scripts keep in chrome.storage.local
+
+import {
+  parseStorageKey,
+  STORAGE_KEY_BURNUP_LOOKBACK_DAYS,
+  STORAGE_KEY_BURNUP_TARGET_DATE,
+  STORAGE_KEY_BURNUP_FORECAST_MODE,
+  STORAGE_KEY_BURNUP_SCOPE_MODE,
+  STORAGE_KEY_BURNUP_WORKING_CALENDAR,
+  STORAGE_KEY_BURNUP_VELOCITY_MODEL,
+  STORAGE_KEY_BURNUP_PREDICTION_HISTORY,
+  STORAGE_KEY_BURNUP_MILESTONES,
+  STORAGE_KEY_BURNUP_UNIT_MODE,
+  STORAGE_KEY_BURNUP_DISPLAY_MODE,
+  STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS,
+  STORAGE_KEY_VELOCITY_CAPACITY_PLAN,
+  STORAGE_KEY_VELOCITY_SELECTION_PRESET,
+} from '../content/shared/storage-key';
+import type { StorageKey } from '../content/shared/storage-key';
+import { isValidLookbackDays } from '../content/shared/global-defaults';
+import { isDisplayMode, isForecastMode, isScopeMode, isUnitMode, isVelocityModel, isValidMilestone } from '../content/burnup/settings';
+import { isValidWorkingCalendar } from '../content/burnup/working-calendar';
+import { isValidCapacityPlan } from '../content/velocity/capacity';
+import { isValidSelectionPreset } from '../content/velocity/selection-presets';
+import {
+  DATE_FIELD_MAPPING_STORAGE_KEY,
+  isValidMapping,
+  removeMapping,
+  setMapping,
+} from '../date-alerts.content/field-config';
+import { getMappingAlertsError } from '../date-alerts.content/alert-rules';
+import type { DateFieldMapping } from '../date-alerts.content/types';
+import { removeValue, writeValue } from '../content/shared/storage';
+
+interface StoredSettingBase {
+  /** chrome.storage.local key the value lives under */
+  storageKey: string;
+  /** Human-readable setting name */
+  label: string;
+  /** Human-readable project/insight the setting belongs to */
+  scope: string;
+  value: unknown;
+}
+
+/** A per-insight setting stored under its own key */
+export interface InsightStoredSetting extends StoredSettingBase {
+  kind: 'insight';
+}
+
+/** One project's entry in the date field mapping store */
+export interface DateFieldMappingStoredSetting extends StoredSettingBase {
+  kind: 'dateFieldMapping';
+  /** Project key inside the date field mapping store */
+  projectKey: string;
+}
+
+export type StoredSetting = InsightStoredSetting | DateFieldMappingStoredSetting;
+
+export type StoredSettingKind = StoredSetting['kind'];
+
+const SETTING_LABELS: Record<StorageKey, string> = {
+  [STORAGE_KEY_BURNUP_LOOKBACK_DAYS]: 'Burn-up: Lookback days',
+  [STORAGE_KEY_BURNUP_TARGET_DATE]: 'Burn-up: Target date',
+  [STORAGE_KEY_BURNUP_FORECAST_MODE]: 'Burn-up: Forecast mode',
+  [STORAGE_KEY_BURNUP_SCOPE_MODE]: 'Burn-up: Scope mode',
+  [STORAGE_KEY_BURNUP_WORKING_CALENDAR]: 'Burn-up: Working days',
+  [STORAGE_KEY_BURNUP_VELOCITY_MODEL]: 'Burn-up: Velocity model',
+  [STORAGE_KEY_BURNUP_PREDICTION_HISTORY]: 'Burn-up: Prediction history',
+  [STORAGE_KEY_BURNUP_MILESTONES]: 'Burn-up: Milestones',
+  [STORAGE_KEY_BURNUP_UNIT_MODE]: 'Burn-up: Units',
+  [STORAGE_KEY_BURNUP_DISPLAY_MODE]: 'Burn-up: Display mode',
+  [STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS]: 'Velocity: Selected iterations',
+  [STORAGE_KEY_VELOCITY_CAPACITY_PLAN]: 'Velocity: Capacity plan',
+  [STORAGE_KEY_VELOCITY_SELECTION_PRESET]: 'Velocity: Selection preset',
+};
+
+const SETTING_VALIDATORS: Record<StorageKey, (value: unknown) => boolean> = {
+  [STORAGE_KEY_BURNUP_LOOKBACK_DAYS]: isValidLookbackDays,
+  [STORAGE_KEY_BURNUP_TARGET_DATE]: value =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime()),
+  [STORAGE_KEY_BURNUP_FORECAST_MODE]: isForecastMode,
+  [STORAGE_KEY_BURNUP_SCOPE_MODE]: isScopeMode,
+  [STORAGE_KEY_BURNUP_WORKING_CALENDAR]: isValidWorkingCalendar,
+  [STORAGE_KEY_BURNUP_VELOCITY_MODEL]: isVelocityModel,
+  [STORAGE_KEY_BURNUP_PREDICTION_HISTORY]: Array.isArray,
+  [STORAGE_KEY_BURNUP_MILESTONES]: value => Array.isArray(value) && value.every(isValidMilestone),
+  [STORAGE_KEY_BURNUP_UNIT_MODE]: isUnitMode,
+  [STORAGE_KEY_BURNUP_DISPLAY_MODE]: isDisplayMode,
+  [STORAGE_KEY_VELOCITY_SELECTED_ITERATIONS]: value =>
+    Array.isArray(value) && value.every(name => typeof name === 'string'),
+  [STORAGE_KEY_VELOCITY_CAPACITY_PLAN]: isValidCapacityPlan,
+  [STORAGE_KEY_VELOCITY_SELECTION_PRESET]: isValidSelectionPreset,
+};
+
+/**
+ * Collect every stored per-insight and per-project setting
+ *
+ * Keys that are not ours (including the global defaults) are ignored.
+ *
+ * @param items Everything in chrome.storage.local (see readAllValues)
+ * @returns Settings sorted by scope, then by name
+ */
+export function listStoredSettings(items: Record<string, unknown>): StoredSetting[] {
+  const settings: StoredSetting[] = [];
+
+  for (const [storageKey, value] of Object.entries(items)) {
+    if (storageKey === DATE_FIELD_MAPPING_STORAGE_KEY) {
+      const store = (value ?? {}) as Record<string, DateFieldMapping>;
+      for (const [projectKey, mapping] of Object.entries(store)) {
+        settings.push({
+          kind: 'dateFieldMapping',
+          storageKey,
+          projectKey,
+          label: 'Date field alerts: Field mapping',
+          scope: formatProjectScope(projectKey),
+          value: mapping,
+        });
+      }
+      continue;
+    }
+
+    const parsed = parseStorageKey(storageKey);
+    if (!parsed) {
+      continue;
+    }
+
+    settings.push({
+      kind: 'insight',
+      storageKey,
+      label: SETTING_LABELS[parsed.baseKey],
+      scope: parsed.context
+        ? `${formatProjectScope(`${parsed.context.orgOrUser}:${parsed.context.projectNumber}`)} · ` +
+          `insight ${parsed.context.insightNumber}`
+        : 'Legacy (not tied to an insight)',
+      value,
+    });
+  }
+
+  return settings.sort((a, b) => a.scope.localeCompare(b.scope) || a.label.localeCompare(b.label));
+}
+
+/**
+ * Check a new value for a stored setting
+ * @returns An error message, or null when the value is valid
+ */
+export function validateStoredSetting(setting: StoredSetting, value: unknown): string | null {
+  if (setting.kind === 'dateFieldMapping') {
+    if (!isValidMapping(value as DateFieldMapping)) {
+      return 'A field mapping needs non-empty "startFieldId" and "endFieldId"';
+    }
+    return getMappingAlertsError(value as DateFieldMapping);
+  }
+
+  const parsed = parseStorageKey(setting.storageKey);
+  if (!parsed) {
+    return `Unknown setting: ${setting.storageKey}`;
+  }
+
+  if (parsed.baseKey === STORAGE_KEY_BURNUP_LOOKBACK_DAYS && !isValidLookbackDays(value)) {
+    return 'Lookback days must be between 1 and 365';
+  }
+
+  return isValidSettingValue(parsed.baseKey, value) ? null : `Invalid value for ${SETTING_LABELS[parsed.baseKey]}`;
+}
+
+/**
+ * Check a value against the rules of its setting (same rules the settings modules apply)
+ */
+export function isValidSettingValue(baseKey: StorageKey, value: unknown): boolean {
+  return SETTING_VALIDATORS[baseKey](value);
+}
+
+/**
+ * Save a new value for a stored setting
+ * @throws Error if the value is invalid
+ */
+export async function updateStoredSetting(setting: StoredSetting, value: unknown): Promise<void> {
+  const error = validateStoredSetting(setting, value);
+  if (error) {
+    throw new Error(error);
+  }
+
+  if (setting.kind === 'dateFieldMapping') {
+    await setMapping(setting.projectKey, value as DateFieldMapping);
+    return;
+  }
+
+  await writeValue(setting.storageKey, value);
+}
+
+/**
+ * Delete a stored setting (the feature falls back to its default)
+ */
+export async function deleteStoredSetting(setting: StoredSetting): Promise<void> {
+  if (setting.kind === 'dateFieldMapping') {
+    await removeMapping(setting.projectKey);
+    return;
+  }
+
+  await removeValue(setting.storageKey);
+}
+
+/**
+ * Format "orgs:myorg:123" as "orgs/myorg · project 123"
+ */
+function formatProjectScope(projectKey: string): string {
+  const match = projectKey.match(/^(orgs|users):(.+):(\d+)$/);
+  if (!match) {
+    return projectKey;
+  }
+  return `${match[1]}/${match[2]} · project ${match[3]}`;
+}